@@ -0,0 +1,92 @@
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+import { runnerImport } from 'vite'
+
+const repoRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const publicDir = path.join(repoRoot, 'public')
+const snapshotFile = path.join(repoRoot, 'src/data/projects-snapshot.json')
+
+// The content modules are TypeScript; Vite's module runner loads them without a build
+async function importModule(modulePath) {
+  const { module } = await runnerImport(modulePath, {
+    root: repoRoot,
+    configFile: false,
+    logLevel: 'silent',
+  })
+  return module
+}
+
+function publicFileExists(sitePath) {
+  const filePath = path.join(publicDir, sitePath)
+  // Reject paths that climb out of public/
+  return filePath.startsWith(publicDir) && existsSync(filePath) && statSync(filePath).isFile()
+}
+
+function countIssues(issues, noun) {
+  const fileCount = new Set(issues.map((issue) => issue.filePath)).size
+  return `${issues.length} ${noun}${issues.length === 1 ? '' : 's'} in ${fileCount} file${fileCount === 1 ? '' : 's'}`
+}
+
+async function main() {
+  const [
+    { checkContent },
+    { checkCuration, CURATION_FILE, isProjectHidden, parseCuration },
+    { formatContentIssue },
+    { readContentSources },
+  ] = await Promise.all([
+    importModule('/src/lib/content/check.ts'),
+    importModule('/src/lib/content/curation.ts'),
+    importModule('/src/lib/content/frontmatter.ts'),
+    importModule('/scripts/vite-plugins/content-manifest.ts'),
+  ])
+  const snapshot = JSON.parse(readFileSync(snapshotFile, 'utf8'))
+  const curationSource = readFileSync(path.join(repoRoot, CURATION_FILE), 'utf8')
+
+  const issues = []
+  let curation = null
+  try {
+    curation = parseCuration(curationSource)
+  } catch (error) {
+    // Each runnerImport loads its own copy of frontmatter.ts, so compare by name
+    if (error?.name !== 'ContentValidationError') throw error
+    issues.push(...error.issues)
+  }
+
+  const projectNames = snapshot.projects
+    .filter((project) => !curation || !isProjectHidden(project, curation))
+    .map((project) => project.name)
+  issues.push(
+    ...checkContent({
+      getSources: (collection, language) => readContentSources(repoRoot, collection, language),
+      projectNames,
+      publicFileExists,
+    }),
+  )
+  if (curation) {
+    issues.push(...checkCuration(curation, curationSource, projectNames, publicFileExists))
+  }
+
+  const errors = issues.filter((issue) => issue.severity !== 'warning')
+  const warnings = issues.filter((issue) => issue.severity === 'warning')
+
+  if (warnings.length > 0) {
+    console.warn(`[content:check] ${countIssues(warnings, 'warning')}:`)
+    for (const issue of warnings) console.warn(formatContentIssue(issue))
+  }
+
+  if (errors.length === 0) {
+    console.log('[content:check] All blog posts, case studies and the project curation are valid')
+    return
+  }
+
+  console.error(`[content:check] ${countIssues(errors, 'issue')}:`)
+  for (const issue of errors) console.error(formatContentIssue(issue))
+  process.exitCode = 1
+}
+
+main().catch((error) => {
+  console.error('[content:check] Failed:', error)
+  process.exitCode = 1
+})
@@ -1,17 +1,37 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
 
-import { loadEnv } from 'vite'
+import { loadEnv, runnerImport } from 'vite'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 const repoRoot = path.resolve(__dirname, '..')
-const snapshotPath = path.join(repoRoot, 'src/data/projects-snapshot.json')
-const excludedProjectIds = new Set([334629076])
 const mode = process.env.NODE_ENV ?? 'development'
 const env = loadEnv(mode, repoRoot, '')
 
+const GITHUB_API_URL = 'https://api.github.com'
+const RELEASES_LIMIT = 5
+const CONTRIBUTORS_LIMIT = 10
+// GitHub computes repository statistics in the background and answers 202 until they are ready
+const STATS_ATTEMPTS = 3
+const STATS_RETRY_DELAY_MS = 2000
+
+// --fixtures <dir> answers API requests from recorded responses instead of GitHub, so the
+// generator runs offline; --output <dir> writes the snapshot somewhere other than src/data
+// and --curation <file> reads the hidden repositories from another curation file
+const { values: options } = parseArgs({
+  options: {
+    fixtures: { type: 'string' },
+    output: { type: 'string', default: path.join(repoRoot, 'src/data') },
+    curation: { type: 'string' },
+  },
+})
+const outputPath = path.resolve(options.output)
+const snapshotPath = path.join(outputPath, 'projects-snapshot.json')
+const readmesPath = path.join(outputPath, 'readmes')
+
 async function readExistingSnapshot() {
   try {
     const content = await readFile(snapshotPath, 'utf8')
@@ -21,14 +41,191 @@ async function readExistingSnapshot() {
   }
 }
 
-async function githubRequest(url, headers) {
-  const response = await fetch(url, { headers })
+async function readExistingReadme(projectName) {
+  try {
+    return await readFile(path.join(readmesPath, `${projectName}.md`), 'utf8')
+  } catch {
+    return null
+  }
+}
+
+// The snapshot, curation and README helpers are TypeScript; Vite's module runner loads them
+// without a build
+async function loadHelpers() {
+  const load = async (modulePath) => {
+    const { module } = await runnerImport(modulePath, {
+      root: repoRoot,
+      configFile: false,
+      logLevel: 'silent',
+    })
+    return module
+  }
+  const [snapshotHelpers, curationHelpers, { resolveReadmeUrls }] = await Promise.all([
+    load('/src/lib/projectsSnapshot.ts'),
+    load('/src/lib/content/curation.ts'),
+    load('/src/lib/content/readme.ts'),
+  ])
+
+  return { ...snapshotHelpers, ...curationHelpers, resolveReadmeUrls }
+}
+
+// An invalid curation fails the run instead of falling back to the existing snapshot
+async function readCuration({ CURATION_FILE, parseCuration }) {
+  const curationPath = path.resolve(repoRoot, options.curation ?? CURATION_FILE)
+  return parseCuration(
+    await readFile(curationPath, 'utf8'),
+    path.relative(repoRoot, curationPath).split(path.sep).join('/'),
+  )
+}
+
+/**
+ * Answers GitHub API requests from recorded responses: `/repos/a/b/releases?per_page=5`
+ * reads `<fixtures>/repos/a/b/releases.json`. Requests without a recording answer 404.
+ */
+function createFixtureFetch(fixturesPath) {
+  return async (url) => {
+    const { pathname } = new URL(url)
+
+    try {
+      const body = await readFile(path.join(fixturesPath, `${pathname}.json`), 'utf8')
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'application/json' } })
+    } catch {
+      return new Response('{"message":"Not Found"}', { status: 404, statusText: 'Not Found' })
+    }
+  }
+}
+
+function createGitHubClient(githubToken) {
+  const headers = {
+    Accept: 'application/vnd.github.v3+json',
+    ...(githubToken ? { Authorization: `token ${githubToken}` } : {}),
+  }
+  const request = options.fixtures ? createFixtureFetch(path.resolve(options.fixtures)) : fetch
+
+  return {
+    isOffline: Boolean(options.fixtures),
+    fetch: async (pathname) => request(`${GITHUB_API_URL}${pathname}`, { headers }),
+  }
+}
+
+/**
+ * JSON body of a GitHub API response. Missing resources resolve to null when `optional`
+ * is set; every other failure throws.
+ */
+async function githubRequest(client, pathname, { optional = false } = {}) {
+  const response = await client.fetch(pathname)
 
+  if (optional && response.status === 404) {
+    return null
+  }
   if (!response.ok) {
-    throw new Error(`GitHub request failed (${response.status} ${response.statusText}) for ${url}`)
+    throw new Error(
+      `GitHub request failed (${response.status} ${response.statusText}) for ${pathname}`,
+    )
+  }
+
+  // Empty repositories answer 204 No Content for their contributors
+  return response.status === 204 ? null : response.json()
+}
+
+async function fetchReadme(client, project, resolveReadmeUrls) {
+  // Repositories without a README answer 404
+  const readme = await githubRequest(client, `/repos/${project.full_name}/readme`, {
+    optional: true,
+  })
+  if (readme === null) {
+    return null
   }
 
-  return response.json()
+  const markdown = Buffer.from(readme.content, readme.encoding).toString('utf8')
+
+  return resolveReadmeUrls(markdown, {
+    fullName: project.full_name,
+    branch: project.default_branch ?? 'main',
+    path: readme.path,
+  })
+}
+
+async function fetchReleases(client, project) {
+  const releases = await githubRequest(
+    client,
+    `/repos/${project.full_name}/releases?per_page=${RELEASES_LIMIT}`,
+  )
+
+  return releases
+    .filter((release) => !release.draft && release.published_at)
+    .map((release) => ({
+      name: release.name || release.tag_name,
+      tag_name: release.tag_name,
+      published_at: release.published_at,
+      html_url: release.html_url,
+      prerelease: Boolean(release.prerelease),
+    }))
+    .sort((a, b) => new Date(b.published_at).getTime() - new Date(a.published_at).getTime())
+}
+
+async function fetchCommitActivity(client, project) {
+  const pathname = `/repos/${project.full_name}/stats/commit_activity`
+
+  for (let attempt = 1; attempt <= STATS_ATTEMPTS; attempt++) {
+    const response = await client.fetch(pathname)
+
+    if (response.status === 202) {
+      if (!client.isOffline) {
+        await new Promise((resolve) => setTimeout(resolve, STATS_RETRY_DELAY_MS))
+      }
+      continue
+    }
+    if (!response.ok) {
+      throw new Error(
+        `GitHub request failed (${response.status} ${response.statusText}) for ${pathname}`,
+      )
+    }
+
+    const weeks = await response.json()
+    if (!Array.isArray(weeks) || weeks.length === 0) {
+      return null
+    }
+
+    return {
+      start: new Date(weeks[0].week * 1000).toISOString().slice(0, 10),
+      weekly: weeks.map((week) => week.total),
+    }
+  }
+
+  throw new Error(`GitHub statistics for ${project.full_name} are still being computed`)
+}
+
+async function fetchOpenPullRequestCount(client, project) {
+  const pullRequests = await githubRequest(
+    client,
+    `/repos/${project.full_name}/pulls?state=open&per_page=100`,
+  )
+  return pullRequests.length
+}
+
+async function fetchContributors(client, project) {
+  const contributors = await githubRequest(
+    client,
+    `/repos/${project.full_name}/contributors?per_page=${CONTRIBUTORS_LIMIT}`,
+  )
+
+  return (contributors ?? []).map((contributor) => ({
+    login: contributor.login,
+    avatar_url: contributor.avatar_url,
+    html_url: contributor.html_url,
+    contributions: contributor.contributions,
+  }))
+}
+
+// Details that fail to load keep their value from the previous snapshot, when there is one
+async function loadWithFallback(label, project, load, fallback) {
+  try {
+    return await load()
+  } catch (error) {
+    console.warn(`Failed to load ${label} for ${project.name}: ${String(error)}`)
+    return fallback
+  }
 }
 
 function normalizeProject(project) {
@@ -59,6 +256,72 @@ function normalizeProject(project) {
     topics: Array.isArray(project.topics) ? project.topics : [],
     visibility: project.visibility ?? 'public',
     default_branch: project.default_branch ?? 'main',
+    license: project.license
+      ? { spdx_id: project.license.spdx_id ?? 'NOASSERTION', name: project.license.name }
+      : null,
+    releases: project.releases ?? [],
+    commit_activity: project.commit_activity ?? null,
+    // GitHub counts open pull requests as issues too
+    open_issues_count: Math.max(
+      0,
+      (project.open_issues_count ?? 0) - (project.open_pull_requests_count ?? 0),
+    ),
+    open_pull_requests_count: project.open_pull_requests_count ?? 0,
+    contributors: project.contributors ?? [],
+  }
+}
+
+async function loadProject(client, project, previous, resolveReadmeUrls) {
+  const [languages, readme, releases, commitActivity, openPullRequests, contributors] =
+    await Promise.all([
+      loadWithFallback(
+        'languages',
+        project,
+        () => githubRequest(client, `/repos/${project.full_name}/languages`),
+        previous?.languages ?? {},
+      ),
+      loadWithFallback(
+        'the README',
+        project,
+        () => fetchReadme(client, project, resolveReadmeUrls),
+        readExistingReadme(project.name),
+      ),
+      loadWithFallback(
+        'releases',
+        project,
+        () => fetchReleases(client, project),
+        previous?.releases ?? [],
+      ),
+      loadWithFallback(
+        'commit activity',
+        project,
+        () => fetchCommitActivity(client, project),
+        previous?.commit_activity ?? null,
+      ),
+      loadWithFallback(
+        'open pull requests',
+        project,
+        () => fetchOpenPullRequestCount(client, project),
+        previous?.open_pull_requests_count ?? 0,
+      ),
+      loadWithFallback(
+        'contributors',
+        project,
+        () => fetchContributors(client, project),
+        previous?.contributors ?? [],
+      ),
+    ])
+
+  return {
+    project: normalizeProject({
+      ...project,
+      languages,
+      releases,
+      commit_activity: commitActivity,
+      open_pull_requests_count: openPullRequests,
+      contributors,
+    }),
+    readme,
   }
 }
 
@@ -70,72 +333,95 @@ async function generateSnapshot() {
   if (!githubUsername) {
     if (existingSnapshot) {
       console.warn('VITE_GITHUB_USERNAME is not set. Reusing existing projects snapshot.')
-      return existingSnapshot
+      return { snapshot: existingSnapshot, readmes: null }
     }
 
-    throw new Error('VITE_GITHUB_USERNAME is required when no existing projects snapshot is available')
+    throw new Error(
+      'VITE_GITHUB_USERNAME is required when no existing projects snapshot is available',
+    )
   }
 
-  const headers = {
-    Accept: 'application/vnd.github.v3+json',
-    ...(githubToken ? { Authorization: `token ${githubToken}` } : {}),
-  }
+  const client = createGitHubClient(githubToken)
+  const previousProjects = new Map(
+    (existingSnapshot?.projects ?? []).map((project) => [project.id, project]),
+  )
+
+  const helpers = await loadHelpers()
+  const { PROJECTS_SNAPSHOT_VERSION, isProjectHidden, parseProjectsSnapshot, resolveReadmeUrls } =
+    helpers
+  const curation = await readCuration(helpers)
 
   try {
     const repositories = await githubRequest(
-      `https://api.github.com/users/${githubUsername}/repos?per_page=100&sort=updated`,
-      headers,
+      client,
+      `/users/${githubUsername}/repos?per_page=100&sort=updated`,
     )
 
-    const normalizedProjects = await Promise.all(
+    const loadedProjects = await Promise.all(
       repositories
-        .filter((project) => !excludedProjectIds.has(project.id))
-        .map(async (project) => {
-          try {
-            const languages = await githubRequest(project.languages_url, headers)
-
-            return normalizeProject({
-              ...project,
-              languages,
-            })
-          } catch (error) {
-            console.warn(`Failed to load languages for ${project.name}: ${String(error)}`)
-            return normalizeProject({
-              ...project,
-              languages: {},
-            })
-          }
-        }),
+        .filter((project) => !isProjectHidden(project, curation))
+        .map((project) =>
+          loadProject(client, project, previousProjects.get(project.id), resolveReadmeUrls),
+        ),
     )
 
+    const normalizedProjects = loadedProjects.map(({ project }) => project)
     normalizedProjects.sort(
       (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
     )
+    const readmes = new Map(
+      loadedProjects
+        .filter(({ readme }) => readme !== null)
+        .map(({ project, readme }) => [project.name, readme]),
+    )
 
-    return {
+    const snapshot = {
+      version: PROJECTS_SNAPSHOT_VERSION,
       generatedAt: new Date().toISOString(),
       source: 'generated',
       projects: normalizedProjects,
     }
+    // Fails the refresh, and so falls back to the existing snapshot, if the app could not read it
+    parseProjectsSnapshot(snapshot)
+
+    return { snapshot, readmes }
   } catch (error) {
     if (existingSnapshot) {
       console.warn(`Snapshot refresh failed. Reusing existing snapshot. ${String(error)}`)
-      return existingSnapshot
+      return { snapshot: existingSnapshot, readmes: null }
     }
 
     throw error
   }
 }
 
+// One markdown file per repository, loaded on demand by its detail page. READMEs of a
+// reused snapshot are kept as they are.
+async function writeReadmes(readmes) {
+  await rm(readmesPath, { recursive: true, force: true })
+  await mkdir(readmesPath, { recursive: true })
+  await Promise.all(
+    Array.from(readmes, ([name, readme]) =>
+      writeFile(path.join(readmesPath, `${name}.md`), readme, 'utf8'),
+    ),
+  )
+}
+
 async function main() {
-  const snapshot = await generateSnapshot()
+  const { snapshot, readmes } = await generateSnapshot()
 
   await mkdir(path.dirname(snapshotPath), { recursive: true })
   await writeFile(`${snapshotPath}`, `${JSON.stringify(snapshot, null, 2)}\n`, 'utf8')
+  if (readmes) {
+    await writeReadmes(readmes)
+  }
 
   console.info(
     `Projects snapshot written to ${path.relative(repoRoot, snapshotPath)} with ${snapshot.projects.length} projects.`,
   )
+  if (readmes) {
+    console.info(`${readmes.size} READMEs written to ${path.relative(repoRoot, readmesPath)}.`)
+  }
 }
 
 await main()
@@ -0,0 +1,76 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+const repoRoot = path.resolve(__dirname, '..')
+const distDir = path.join(repoRoot, 'dist')
+const serverEntry = path.join(repoRoot, 'dist-ssr/entry-server.js')
+
+// React emits hoisted <title>/<meta>/<link> tags ahead of the app markup
+const HOISTED_TAG_PATTERN = /^(?:<title>[^<]*<\/title>|<meta\b[^>]*>|<link\b[^>]*>)/
+
+function splitHoistedTags(html) {
+  let head = ''
+  let body = html
+
+  for (let match = HOISTED_TAG_PATTERN.exec(body); match; match = HOISTED_TAG_PATTERN.exec(body)) {
+    head += match[0]
+    body = body.slice(match[0].length)
+  }
+
+  return { head, body }
+}
+
+// The state is embedded in a JSON script block; escape "<" so content can't close the tag
+function serializeState(state) {
+  return JSON.stringify(state).replace(/</g, '\\u003c')
+}
+
+function renderDocument(template, page) {
+  const { head, body } = splitHoistedTags(page.html)
+  let document = template.replace(/<html lang="[^"]*"/, `<html lang="${page.language}"`)
+
+  // The page's own tags replace the generic defaults from index.html
+  if (head.includes('<title>')) {
+    document = document.replace(/\s*<title>[\s\S]*?<\/title>/, '')
+  }
+  if (head.includes('name="description"')) {
+    document = document.replace(/\s*<meta\s+name="description"[\s\S]*?\/>/, '')
+  }
+
+  // Function replacers: rendered markdown may contain "$" patterns
+  return document
+    .replace('</head>', () => `${head}\n  </head>`)
+    .replace(
+      '<div id="root"></div>',
+      () =>
+        `<div id="root">${body}</div>\n    <script type="application/json" id="prerender-state">${serializeState(page.state)}</script>`,
+    )
+}
+
+function getOutputPath(route) {
+  return path.join(distDir, ...route.split('/').filter(Boolean), 'index.html')
+}
+
+async function main() {
+  const template = await readFile(path.join(distDir, 'index.html'), 'utf8')
+  const { getPrerenderRoutes, render } = await import(pathToFileURL(serverEntry).href)
+  const routes = await getPrerenderRoutes()
+
+  // Sequential on purpose: i18n is a singleton switched per route
+  for (const route of routes) {
+    const page = await render(route)
+    const outputPath = getOutputPath(route)
+    await mkdir(path.dirname(outputPath), { recursive: true })
+    await writeFile(outputPath, renderDocument(template, page), 'utf8')
+  }
+
+  console.log(`[prerender] Wrote ${routes.length} pages to ${path.relative(repoRoot, distDir)}`)
+}
+
+main().catch((error) => {
+  console.error('[prerender] Failed:', error)
+  process.exitCode = 1
+})
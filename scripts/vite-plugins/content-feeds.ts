@@ -0,0 +1,80 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+
+import type { Plugin } from 'vite'
+
+import { readContentSources } from './content-manifest'
+
+import { FEED_FORMATS, getFeedPath, type FeedFormat } from '../../src/lib/content/feedPaths'
+import { buildFeeds } from '../../src/lib/content/feeds'
+import {
+  buildBlogManifest,
+  CONTENT_LANGUAGES,
+  type ContentLanguage,
+} from '../../src/lib/content/manifest'
+
+interface ContentFeedsOptions {
+  siteUrl: string
+  /** Site owner, used as the feed-level author and in feed titles */
+  author: string
+}
+
+interface BlogTranslations {
+  blog: { title: string; description: string }
+}
+
+function renderFeeds(root: string, language: ContentLanguage, options: ContentFeedsOptions) {
+  const translations = JSON.parse(
+    readFileSync(path.join(root, 'src/locales', language, 'translation.json'), 'utf8'),
+  ) as BlogTranslations
+
+  return buildFeeds({
+    siteUrl: options.siteUrl,
+    language,
+    title: `${options.author} — ${translations.blog.title}`,
+    description: translations.blog.description,
+    author: options.author,
+    documents: buildBlogManifest(readContentSources(root, 'blog', language)),
+  })
+}
+
+/**
+ * Vite plugin that emits RSS, Atom and JSON feeds for every blog locale
+ * (`/<lang>/feed.xml`, `/<lang>/atom.xml`, `/<lang>/feed.json`) and serves them in dev.
+ */
+export function contentFeeds(options: ContentFeedsOptions): Plugin {
+  let root = process.cwd()
+  const formats = Object.keys(FEED_FORMATS) as FeedFormat[]
+
+  return {
+    name: 'content-feeds',
+    configResolved(config) {
+      root = config.root
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        for (const language of CONTENT_LANGUAGES) {
+          const format = formats.find((item) => req.url === getFeedPath(language, item))
+          if (format) {
+            res.setHeader('Content-Type', `${FEED_FORMATS[format].type}; charset=utf-8`)
+            res.end(renderFeeds(root, language, options)[format])
+            return
+          }
+        }
+        next()
+      })
+    },
+    generateBundle() {
+      for (const language of CONTENT_LANGUAGES) {
+        const feeds = renderFeeds(root, language, options)
+        for (const format of formats) {
+          this.emitFile({
+            type: 'asset',
+            fileName: getFeedPath(language, format).slice(1),
+            source: feeds[format],
+          })
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,327 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+
+import type { Plugin, ViteDevServer } from 'vite'
+
+import {
+  applyCuration,
+  CURATION_FILE,
+  isProjectHidden,
+  parseCuration,
+} from '../../src/lib/content/curation'
+import {
+  buildBlogManifest,
+  buildCaseStudyManifest,
+  CONTENT_LANGUAGES,
+  type ContentCollection,
+  type ContentLanguage,
+  type ContentSourceFile,
+  type ManifestDocument,
+} from '../../src/lib/content/manifest'
+import { buildSearchIndex } from '../../src/lib/content/search'
+import { collectSearchDocuments, type SearchPage } from '../../src/lib/content/searchDocuments'
+import { getBlogArchives } from '../../src/lib/content/taxonomy'
+import { buildTranslationGroups, type TranslationGroups } from '../../src/lib/content/translations'
+import type { ProjectsSnapshot } from '../../src/types'
+import type { BlogPostSummary } from '../../src/types/blog'
+import type { ProjectCaseStudySummary } from '../../src/types/projectCaseStudy'
+import type { ProjectCuration } from '../../src/types/projectCuration'
+
+const MANIFEST_PREFIX = 'virtual:content/'
+const BODY_PREFIX = 'virtual:content-body/'
+const TRANSLATIONS_ID = 'virtual:content/translations'
+const CURATION_ID = 'virtual:content/curation'
+const REPOSITORIES_ID = 'virtual:content/repositories'
+const SEARCH_PREFIX = 'virtual:content/search/'
+const COLLECTIONS: ContentCollection[] = ['blog', 'projects']
+const PROJECTS_SNAPSHOT_FILE = 'src/data/projects-snapshot.json'
+
+// Static pages in the search index, with the translation keys of their title and description
+const SEARCH_PAGES = [
+  { path: '/', title: 'navigation.home', description: 'components.hero.subtitle' },
+  { path: '/about', title: 'navigation.about', description: 'pages.about.hero.subtitle' },
+  { path: '/projects', title: 'navigation.projects', description: 'pages.projects.description' },
+  { path: '/blog', title: 'navigation.blog', description: 'blog.description' },
+  { path: '/contact', title: 'navigation.contact', description: 'contact.header.subtitle' },
+]
+
+/**
+ * Read every markdown file of a collection for one locale
+ */
+export function readContentSources(
+  root: string,
+  collection: ContentCollection,
+  language: ContentLanguage,
+): ContentSourceFile[] {
+  const dir = path.join(root, 'src/content', collection, language)
+
+  return readdirSync(dir)
+    .filter((fileName) => fileName.endsWith('.md'))
+    .sort()
+    .map((fileName) => {
+      const filePath = path.join(dir, fileName)
+      return {
+        filePath: path.relative(root, filePath).split(path.sep).join('/'),
+        source: readFileSync(filePath, 'utf8'),
+      }
+    })
+}
+
+/**
+ * Read and validate the project curation. Throws a ContentValidationError when it is invalid.
+ */
+export function readCuration(root: string): ProjectCuration {
+  return parseCuration(readFileSync(path.join(root, CURATION_FILE), 'utf8'))
+}
+
+interface ContentEntry {
+  slug: string
+  translationKey?: string
+}
+
+function buildDocuments(
+  root: string,
+  collection: ContentCollection,
+  language: ContentLanguage,
+  preview: boolean,
+): ManifestDocument<ContentEntry>[] {
+  const files = readContentSources(root, collection, language)
+  return collection === 'blog'
+    ? buildBlogManifest(files, { preview })
+    : buildCaseStudyManifest(files)
+}
+
+function getLocaleFile(root: string, language: ContentLanguage): string {
+  return path.join(root, 'src/locales', language, 'translation.json')
+}
+
+function translate(translations: unknown, key: string): string {
+  const value = key
+    .split('.')
+    .reduce<unknown>(
+      (node, part) =>
+        typeof node === 'object' && node !== null
+          ? (node as Record<string, unknown>)[part]
+          : undefined,
+      translations,
+    )
+  return typeof value === 'string' ? value : key
+}
+
+function readSearchPages(root: string, language: ContentLanguage): SearchPage[] {
+  const translations: unknown = JSON.parse(readFileSync(getLocaleFile(root, language), 'utf8'))
+
+  return SEARCH_PAGES.map((page) => ({
+    path: page.path,
+    title: translate(translations, page.title),
+    description: translate(translations, page.description),
+  }))
+}
+
+function readSnapshot(root: string): ProjectsSnapshot {
+  return JSON.parse(
+    readFileSync(path.join(root, PROJECTS_SNAPSHOT_FILE), 'utf8'),
+  ) as ProjectsSnapshot
+}
+
+function renderSearchModule(root: string, language: ContentLanguage, preview: boolean): string {
+  const snapshot = readSnapshot(root)
+  const documents = collectSearchDocuments({
+    language,
+    pages: readSearchPages(root, language),
+    posts: buildBlogManifest(readContentSources(root, 'blog', language), { preview }),
+    caseStudies: buildCaseStudyManifest(readContentSources(root, 'projects', language)),
+    projects: applyCuration(snapshot.projects, readCuration(root), language),
+  })
+
+  return `export const index = ${JSON.stringify(buildSearchIndex(documents))}`
+}
+
+function parseManifestId(id: string): [ContentCollection, ContentLanguage] | null {
+  const [collection, language, ...rest] = id.slice(MANIFEST_PREFIX.length).split('/')
+
+  if (
+    rest.length > 0 ||
+    !COLLECTIONS.includes(collection as ContentCollection) ||
+    !CONTENT_LANGUAGES.includes(language as ContentLanguage)
+  ) {
+    return null
+  }
+
+  return [collection as ContentCollection, language as ContentLanguage]
+}
+
+function renderManifestModule(
+  collection: ContentCollection,
+  language: ContentLanguage,
+  documents: ManifestDocument<ContentEntry>[],
+): string {
+  const entries = documents.map((document) => document.entry)
+  const loaders = documents.map(({ entry }) => {
+    const bodyId = `${BODY_PREFIX}${collection}/${language}/${encodeURIComponent(entry.slug)}`
+    return `  [${JSON.stringify(entry.slug)}, () => import(${JSON.stringify(bodyId)})],`
+  })
+
+  return [
+    `export const entries = ${JSON.stringify(entries)}`,
+    `const bodies = new Map([\n${loaders.join('\n')}\n])`,
+    'export async function loadBody(slug) {',
+    '  const load = bodies.get(slug)',
+    '  if (!load) return null',
+    '  const module = await load()',
+    '  return module.default',
+    '}',
+  ].join('\n')
+}
+
+/**
+ * Vite plugin that precompiles blog posts and case studies into per-locale manifests.
+ *
+ * `virtual:content/<collection>/<lang>` exports the metadata entries plus a `loadBody(slug)`
+ * function; every body is its own `virtual:content-body/...` module, so list pages only
+ * download metadata and detail pages fetch a single body chunk. `virtual:content/translations`
+ * exports the slug of every document per locale, grouped by translation key,
+ * `virtual:content/curation` exports the validated project curation,
+ * `virtual:content/repositories` exports the names of the repositories with a detail page and
+ * the repository of every case study, and
+ * `virtual:content/search/<lang>` exports the prebuilt full-text search index.
+ *
+ * The dev server also includes drafts and scheduled posts so they can be previewed.
+ */
+export function contentManifest(): Plugin {
+  let root = process.cwd()
+  let preview = false
+  const cache = new Map<string, ManifestDocument<ContentEntry>[]>()
+
+  const getDocuments = (collection: ContentCollection, language: ContentLanguage) => {
+    const key = `${collection}/${language}`
+    let documents = cache.get(key)
+    if (!documents) {
+      documents = buildDocuments(root, collection, language, preview)
+      cache.set(key, documents)
+    }
+    return documents
+  }
+
+  const getTranslations = (): TranslationGroups => ({
+    blog: buildTranslationGroups((lang) =>
+      getDocuments('blog', lang).map((document) => document.entry),
+    ),
+    projects: buildTranslationGroups((lang) =>
+      getDocuments('projects', lang).map((document) => document.entry),
+    ),
+    series: buildTranslationGroups((lang) =>
+      // Blog documents are built by buildBlogManifest, so their entries are post summaries
+      getBlogArchives(
+        getDocuments('blog', lang).map((document) => document.entry as BlogPostSummary),
+        'series',
+      ).map((series) => ({ slug: series.slug, translationKey: series.posts[0]?.translationKey })),
+    ),
+  })
+
+  const invalidate = (server: ViteDevServer, file: string) => {
+    const contentDir = path.join(root, 'src/content')
+    const searchSources = [
+      path.join(root, PROJECTS_SNAPSHOT_FILE),
+      path.join(root, CURATION_FILE),
+      ...CONTENT_LANGUAGES.map((language) => getLocaleFile(root, language)),
+    ]
+    const isContent = file.startsWith(contentDir) && file.endsWith('.md')
+    if (!isContent && !searchSources.includes(file)) return
+
+    cache.clear()
+    for (const module of server.moduleGraph.idToModuleMap.values()) {
+      if (
+        module.id?.startsWith(`\0${MANIFEST_PREFIX}`) ||
+        module.id?.startsWith(`\0${BODY_PREFIX}`)
+      ) {
+        server.moduleGraph.invalidateModule(module)
+      }
+    }
+    server.ws.send({ type: 'full-reload' })
+  }
+
+  return {
+    name: 'content-manifest',
+    configResolved(config) {
+      root = config.root
+      preview = config.command === 'serve'
+    },
+    configureServer(server) {
+      server.watcher.add(path.join(root, 'src/content'))
+      for (const event of ['add', 'change', 'unlink'] as const) {
+        server.watcher.on(event, (file: string) => {
+          invalidate(server, file)
+        })
+      }
+    },
+    resolveId(id) {
+      if (id.startsWith(MANIFEST_PREFIX) || id.startsWith(BODY_PREFIX)) {
+        return `\0${id}`
+      }
+      return null
+    },
+    load(id) {
+      if (id === `\0${TRANSLATIONS_ID}`) {
+        return `export const translations = ${JSON.stringify(getTranslations())}`
+      }
+
+      if (id === `\0${CURATION_ID}`) {
+        this.addWatchFile(path.join(root, CURATION_FILE))
+        return `export const curation = ${JSON.stringify(readCuration(root))}`
+      }
+
+      if (id === `\0${REPOSITORIES_ID}`) {
+        this.addWatchFile(path.join(root, PROJECTS_SNAPSHOT_FILE))
+        this.addWatchFile(path.join(root, CURATION_FILE))
+        const curation = readCuration(root)
+        const names = readSnapshot(root)
+          .projects.filter((project) => !isProjectHidden(project, curation))
+          .map((project) => project.name)
+        // Case study documents are built by buildCaseStudyManifest, so their entries are summaries
+        const caseStudyRepositories = Object.fromEntries(
+          CONTENT_LANGUAGES.map((language) => [
+            language,
+            Object.fromEntries(
+              getDocuments('projects', language).map(({ entry }) => [
+                entry.slug,
+                (entry as ProjectCaseStudySummary).meta.repoName,
+              ]),
+            ),
+          ]),
+        )
+        return [
+          `export const repositoryNames = ${JSON.stringify(names)}`,
+          `export const caseStudyRepositories = ${JSON.stringify(caseStudyRepositories)}`,
+        ].join('\n')
+      }
+
+      if (id.startsWith(`\0${SEARCH_PREFIX}`)) {
+        const language = id.slice(1 + SEARCH_PREFIX.length) as ContentLanguage
+        if (!CONTENT_LANGUAGES.includes(language)) return null
+        this.addWatchFile(path.join(root, PROJECTS_SNAPSHOT_FILE))
+        this.addWatchFile(path.join(root, CURATION_FILE))
+        this.addWatchFile(getLocaleFile(root, language))
+        return renderSearchModule(root, language, preview)
+      }
+
+      if (id.startsWith(`\0${MANIFEST_PREFIX}`)) {
+        const parsed = parseManifestId(id.slice(1))
+        if (!parsed) return null
+        const [collection, language] = parsed
+        return renderManifestModule(collection, language, getDocuments(collection, language))
+      }
+
+      if (id.startsWith(`\0${BODY_PREFIX}`)) {
+        const [collection, language, encodedSlug] = id.slice(1 + BODY_PREFIX.length).split('/')
+        const slug = decodeURIComponent(encodedSlug ?? '')
+        const parsed = parseManifestId(`${MANIFEST_PREFIX}${collection ?? ''}/${language ?? ''}`)
+        if (!parsed) return null
+        const document = getDocuments(...parsed).find((item) => item.entry.slug === slug)
+        return document ? `export default ${JSON.stringify(document.body)}` : null
+      }
+
+      return null
+    },
+  }
+}
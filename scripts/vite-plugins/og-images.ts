@@ -0,0 +1,190 @@
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+
+import { Resvg } from '@resvg/resvg-js'
+import satori from 'satori'
+import type { Plugin } from 'vite'
+
+import { readContentSources } from './content-manifest'
+
+import {
+  buildBlogManifest,
+  buildCaseStudyManifest,
+  CONTENT_LANGUAGES,
+  type ContentLanguage,
+} from '../../src/lib/content/manifest'
+import {
+  createBlogOgImageCard,
+  createCaseStudyOgImageCard,
+  OG_IMAGE_FONT_FAMILY,
+  OG_IMAGE_SIZE,
+  renderOgImageElement,
+  type OgImageBranding,
+  type OgImageCard,
+  type OgImageTheme,
+} from '../../src/lib/content/ogImage'
+import { getOgImagePath } from '../../src/lib/content/ogImagePaths'
+
+const TEMPLATE_FILE = 'src/lib/content/ogImage.ts'
+const CACHE_DIR = 'node_modules/.cache/og-images'
+const FONT_FILES = [
+  { weight: 400, file: 'node_modules/@fontsource/inter/files/inter-latin-400-normal.woff' },
+  { weight: 700, file: 'node_modules/@fontsource/inter/files/inter-latin-700-normal.woff' },
+] as const
+
+interface OgImagesOptions extends OgImageBranding {
+  /** Palette of the cards; pages reference a single image, so only one is rendered */
+  theme?: OgImageTheme
+}
+
+interface OgImageJob {
+  fileName: string
+  card: OgImageCard
+  theme: OgImageTheme
+}
+
+interface OgImageTranslations {
+  navigation: { blog: string }
+  common: { minutesRead: string }
+  blog: { readingTime: string }
+  pages: { projects: { caseStudy: string } }
+}
+
+function readTranslations(root: string, language: ContentLanguage): OgImageTranslations {
+  return JSON.parse(
+    readFileSync(path.join(root, 'src/locales', language, 'translation.json'), 'utf8'),
+  ) as OgImageTranslations
+}
+
+/**
+ * One job per post and case study, per locale
+ */
+function collectJobs(root: string, theme: OgImageTheme): OgImageJob[] {
+  return CONTENT_LANGUAGES.flatMap((language) => {
+    const translations = readTranslations(root, language)
+    const blogCards = buildBlogManifest(readContentSources(root, 'blog', language)).map(
+      ({ entry }) => ({
+        path: getOgImagePath(language, 'blog', entry.slug),
+        card: createBlogOgImageCard(entry, language, {
+          eyebrow: translations.navigation.blog,
+          readingTime: translations.blog.readingTime,
+        }),
+      }),
+    )
+    const caseStudyCards = buildCaseStudyManifest(
+      readContentSources(root, 'projects', language),
+    ).map(({ entry }) => ({
+      path: getOgImagePath(language, 'projects', entry.slug),
+      card: createCaseStudyOgImageCard(entry, language, {
+        eyebrow: translations.pages.projects.caseStudy,
+        readingTime: translations.common.minutesRead,
+      }),
+    }))
+
+    return [...blogCards, ...caseStudyCards].map(({ path: cardPath, card }) => ({
+      fileName: cardPath.slice(1),
+      card,
+      theme,
+    }))
+  })
+}
+
+/**
+ * Renders cards to PNG, reusing cached files whose inputs are unchanged. The cache key
+ * covers the card data, the theme, the branding, the template source and the fonts,
+ * so editing any of them re-renders the affected images.
+ */
+function createRenderer(root: string, branding: OgImageBranding) {
+  const fonts = FONT_FILES.map(({ weight, file }) => ({
+    name: OG_IMAGE_FONT_FAMILY,
+    data: readFileSync(path.join(root, file)),
+    weight,
+    style: 'normal' as const,
+  }))
+  const templateHash = createHash('sha256')
+    .update(readFileSync(path.join(root, TEMPLATE_FILE)))
+    .update(JSON.stringify(branding))
+  for (const font of fonts) templateHash.update(font.data)
+  const fingerprint = templateHash.digest('hex')
+  const cacheDir = path.join(root, CACHE_DIR)
+
+  return async (job: OgImageJob): Promise<{ png: Buffer; cached: boolean }> => {
+    const key = createHash('sha256')
+      .update(fingerprint)
+      .update(JSON.stringify([job.card, job.theme]))
+      .digest('hex')
+    const cachePath = path.join(cacheDir, `${key}.png`)
+
+    if (existsSync(cachePath)) {
+      return { png: readFileSync(cachePath), cached: true }
+    }
+
+    const svg = await satori(renderOgImageElement(job.card, job.theme, branding), {
+      ...OG_IMAGE_SIZE,
+      fonts,
+    })
+    const png = new Resvg(svg, { fitTo: { mode: 'original' } }).render().asPng()
+
+    mkdirSync(cacheDir, { recursive: true })
+    writeFileSync(cachePath, png)
+    return { png, cached: false }
+  }
+}
+
+/**
+ * Vite plugin that renders a 1200×630 Open Graph card for every blog post and case study
+ * (`/og/<lang>/<collection>/<slug>.png`) and serves them in dev.
+ */
+export function ogImages({ theme = 'light', ...branding }: OgImagesOptions): Plugin {
+  let root = process.cwd()
+  let render: ReturnType<typeof createRenderer> | undefined
+
+  const getRenderer = () => {
+    render ??= createRenderer(root, branding)
+    return render
+  }
+
+  return {
+    name: 'og-images',
+    configResolved(config) {
+      root = config.root
+    },
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (!req.url?.startsWith('/og/')) {
+          next()
+          return
+        }
+
+        const job = collectJobs(root, theme).find(({ fileName }) => `/${fileName}` === req.url)
+        if (!job) {
+          next()
+          return
+        }
+
+        getRenderer()(job)
+          .then(({ png }) => {
+            res.setHeader('Content-Type', 'image/png')
+            res.end(png)
+          })
+          .catch(next)
+      })
+    },
+    async generateBundle() {
+      const jobs = collectJobs(root, theme)
+      let rendered = 0
+
+      // Sequential to keep memory flat; cached cards make this cheap after the first build
+      for (const job of jobs) {
+        const { png, cached } = await getRenderer()(job)
+        if (!cached) rendered += 1
+        this.emitFile({ type: 'asset', fileName: job.fileName, source: png })
+      }
+
+      this.info(
+        `${String(jobs.length)} Open Graph images (${String(rendered)} rendered, rest from cache)`,
+      )
+    },
+  }
+}
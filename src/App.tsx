@@ -1,4 +1,4 @@
-import { BrowserRouter as Router } from 'react-router'
+import { BrowserRouter, StaticRouter } from 'react-router'
 
 import {
   NavigationProgressBar,
@@ -11,17 +11,28 @@ import { AppRoutes } from './router/routes'
 import './i18n/i18n'
 import './styles/App.css'
 
-function App() {
+interface AppProps {
+  /** URL to render on the server; the browser router is used when omitted */
+  location?: string
+}
+
+function App({ location }: Readonly<AppProps>) {
+  const content = (
+    <NavigationProgressProvider>
+      <NavigationProgressBar />
+      <ScrollToTop />
+      <AppRoutes />
+      <SmartRoutePreloader />
+    </NavigationProgressProvider>
+  )
+
   return (
     <ThemeProvider>
-      <Router>
-        <NavigationProgressProvider>
-          <NavigationProgressBar />
-          <ScrollToTop />
-          <AppRoutes />
-          <SmartRoutePreloader />
-        </NavigationProgressProvider>
-      </Router>
+      {location === undefined ? (
+        <BrowserRouter>{content}</BrowserRouter>
+      ) : (
+        <StaticRouter location={location}>{content}</StaticRouter>
+      )}
     </ThemeProvider>
   )
 }
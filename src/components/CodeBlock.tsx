@@ -0,0 +1,136 @@
+import type { CSSProperties, ReactNode } from 'react'
+import { useId, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import {
+  Bars3BottomLeftIcon,
+  ChevronDownIcon,
+  ClipboardDocumentCheckIcon,
+  ClipboardDocumentIcon,
+} from '@heroicons/react/24/outline'
+
+import { useCopyToClipboard } from '../hooks/useCopyToClipboard'
+
+/** Blocks longer than this start collapsed */
+const COLLAPSE_MIN_LINES = 30
+
+interface CodeBlockProps {
+  /** Highlighted `<code>` element, one `.code-line` span per line */
+  children: ReactNode
+  /** Plain text of the block, copied to the clipboard */
+  code: string
+  language?: string
+  /** File name from the fence meta, e.g. title="useBlog.ts" */
+  title?: string
+  lineCount: number
+  showLineNumbers?: boolean
+}
+
+const toolbarButtonClassName =
+  'inline-flex items-center justify-center rounded-md p-1.5 text-gray-500 transition-colors hover:bg-gray-200 hover:text-gray-900 focus-visible:outline-2 focus-visible:outline-primary motion-reduce:transition-none dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white'
+
+/**
+ * Fenced code block with a toolbar: file name or language, line wrapping toggle and
+ * copy button. Long blocks are collapsed until expanded.
+ */
+export function CodeBlock({
+  children,
+  code,
+  language,
+  title,
+  lineCount,
+  showLineNumbers = false,
+}: CodeBlockProps) {
+  const { t } = useTranslation()
+  const codeId = useId()
+  const [copied, copy] = useCopyToClipboard()
+  const [wrap, setWrap] = useState(false)
+  const [expanded, setExpanded] = useState(false)
+  const collapsible = lineCount > COLLAPSE_MIN_LINES
+  const collapsed = collapsible && !expanded
+  const CopyIcon = copied ? ClipboardDocumentCheckIcon : ClipboardDocumentIcon
+
+  return (
+    <div className="my-4 overflow-hidden rounded-xl border border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-900">
+      <div className="flex items-center gap-2 border-b border-gray-200 py-1 pr-2 pl-4 text-xs dark:border-gray-800">
+        {title && (
+          <span className="truncate font-mono text-gray-700 dark:text-gray-300">{title}</span>
+        )}
+        {language && (
+          <span className="rounded bg-gray-200 px-1.5 py-0.5 font-semibold tracking-wide text-gray-600 uppercase dark:bg-gray-800 dark:text-gray-400">
+            {language}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => {
+              setWrap((value) => !value)
+            }}
+            aria-pressed={wrap}
+            aria-label={t('markdown.code.wrap')}
+            title={t('markdown.code.wrap')}
+            className={`${toolbarButtonClassName} ${wrap ? 'text-primary dark:text-primary-light' : ''}`}
+          >
+            <Bars3BottomLeftIcon aria-hidden="true" className="size-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              copy(code)
+            }}
+            aria-label={t('markdown.code.copy')}
+            title={t('markdown.code.copy')}
+            className={toolbarButtonClassName}
+          >
+            <CopyIcon aria-hidden="true" className="size-4" />
+          </button>
+          <span role="status" className="sr-only">
+            {copied ? t('markdown.code.copied') : ''}
+          </span>
+        </div>
+      </div>
+      <div className="relative">
+        <pre
+          id={codeId}
+          // Scrollable regions need to be reachable with the keyboard
+          tabIndex={0}
+          {...(showLineNumbers && { 'data-line-numbers': 'true' })}
+          style={
+            { '--line-number-width': `${String(String(lineCount).length)}ch` } as CSSProperties
+          }
+          className={`py-4 text-sm [&>code]:block [&>code]:bg-transparent! [&>code]:p-0! ${
+            wrap ? 'break-words whitespace-pre-wrap' : 'overflow-x-auto'
+          } ${collapsed ? 'max-h-96 overflow-y-hidden' : ''}`}
+        >
+          {children}
+        </pre>
+        {collapsed && (
+          <div
+            aria-hidden="true"
+            className="pointer-events-none absolute inset-x-0 bottom-0 h-16 bg-linear-to-t from-gray-50 dark:from-gray-900"
+          />
+        )}
+      </div>
+      {collapsible && (
+        <button
+          type="button"
+          onClick={() => {
+            setExpanded((value) => !value)
+          }}
+          aria-expanded={expanded}
+          aria-controls={codeId}
+          className="flex w-full items-center justify-center gap-1 border-t border-gray-200 py-2 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900 motion-reduce:transition-none dark:border-gray-800 dark:text-gray-400 dark:hover:bg-gray-800 dark:hover:text-white"
+        >
+          {expanded
+            ? t('markdown.code.collapse')
+            : t('markdown.code.showAll', { count: lineCount })}
+          <ChevronDownIcon
+            aria-hidden="true"
+            className={`size-4 transition-transform motion-reduce:transition-none ${expanded ? 'rotate-180' : ''}`}
+          />
+        </button>
+      )}
+    </div>
+  )
+}
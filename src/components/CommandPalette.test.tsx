@@ -0,0 +1,117 @@
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router'
+
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom/vitest'
+import { describe, expect, it, vi } from 'vitest'
+
+import { CommandPalette } from './CommandPalette'
+
+import { buildSearchIndex } from '../lib/content/search'
+
+const index = buildSearchIndex([
+  {
+    id: 'page:/blog',
+    type: 'page',
+    title: 'Blog',
+    description: 'Artículos',
+    url: '/es/blog',
+  },
+  {
+    id: 'post:animaciones',
+    type: 'post',
+    title: 'Animaciones en React',
+    description: 'Transiciones fluidas',
+    url: '/es/blog/animaciones',
+    body: 'Cómo configurar animaciones accesibles.',
+  },
+  {
+    id: 'project:vectos',
+    type: 'project',
+    title: 'vectos',
+    description: 'Motor de contexto',
+    url: 'https://github.com/example/vectos',
+  },
+])
+
+vi.mock('../hooks/useSearchIndex', () => ({
+  useSearchIndex: (enabled: boolean) => ({
+    data: enabled ? index : undefined,
+    isLoading: false,
+    isError: false,
+  }),
+}))
+
+function CurrentPath() {
+  return <p data-testid="path">{useLocation().pathname}</p>
+}
+
+function renderPalette(onClose = vi.fn()) {
+  render(
+    <MemoryRouter initialEntries={['/es/']}>
+      <Routes>
+        <Route
+          path="*"
+          element={
+            <>
+              <CommandPalette open onClose={onClose} />
+              <CurrentPath />
+            </>
+          }
+        />
+      </Routes>
+    </MemoryRouter>,
+  )
+  return onClose
+}
+
+describe('CommandPalette', () => {
+  it('lists the site pages before anything is typed', () => {
+    renderPalette()
+
+    expect(screen.getByRole('option', { name: /Blog/ })).toBeInTheDocument()
+    expect(screen.queryByRole('option', { name: /Animaciones/ })).not.toBeInTheDocument()
+  })
+
+  it('groups ranked results and highlights the matched words', () => {
+    renderPalette()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'animacion' } })
+
+    expect(screen.getByText('Artículos')).toBeInTheDocument()
+    const option = screen.getByRole('option', { name: /Animaciones/ })
+    expect(option.querySelectorAll('mark')[0]).toHaveTextContent('Animaciones')
+  })
+
+  it('shows an empty state when nothing matches', () => {
+    renderPalette()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'zzzz' } })
+
+    expect(screen.getByRole('status')).toHaveTextContent('zzzz')
+  })
+
+  it('navigates to the active result on Enter and closes', () => {
+    const onClose = renderPalette()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'animaciones' } })
+    fireEvent.keyDown(screen.getByRole('combobox'), { key: 'Enter' })
+
+    expect(onClose).toHaveBeenCalled()
+    expect(screen.getByTestId('path')).toHaveTextContent('/es/blog/animaciones')
+  })
+
+  it('opens external results in a new tab', () => {
+    const open = vi.spyOn(window, 'open').mockReturnValue(null)
+    renderPalette()
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'vectos' } })
+    fireEvent.keyDown(screen.getByRole('combobox'), { key: 'Enter' })
+
+    expect(open).toHaveBeenCalledWith(
+      'https://github.com/example/vectos',
+      '_blank',
+      'noopener,noreferrer',
+    )
+    open.mockRestore()
+  })
+})
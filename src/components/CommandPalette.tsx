@@ -0,0 +1,204 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router'
+
+import {
+  Combobox,
+  ComboboxInput,
+  ComboboxOption,
+  ComboboxOptions,
+  Dialog,
+  DialogBackdrop,
+  DialogPanel,
+} from '@headlessui/react'
+import {
+  ArrowTopRightOnSquareIcon,
+  BriefcaseIcon,
+  DocumentTextIcon,
+  FolderIcon,
+  MagnifyingGlassIcon,
+  NewspaperIcon,
+} from '@heroicons/react/24/outline'
+
+import { useSearchIndex } from '../hooks/useSearchIndex'
+import {
+  createSnippet,
+  highlightText,
+  searchDocuments,
+  type HighlightSegment,
+  type SearchDocumentType,
+  type SearchIndex,
+  type SearchIndexDocument,
+  type SearchResult,
+} from '../lib/content/search'
+
+const RESULT_LIMIT = 12
+const GROUP_ORDER: SearchDocumentType[] = ['page', 'post', 'caseStudy', 'project']
+const GROUP_ICONS = {
+  page: DocumentTextIcon,
+  post: NewspaperIcon,
+  caseStudy: BriefcaseIcon,
+  project: FolderIcon,
+} satisfies Record<SearchDocumentType, unknown>
+
+interface CommandPaletteProps {
+  open: boolean
+  onClose: () => void
+}
+
+function isExternal(document: SearchIndexDocument): boolean {
+  return !document.url.startsWith('/')
+}
+
+/**
+ * Ranked results for the query; with an empty query the site pages are listed as shortcuts
+ */
+function getResults(index: SearchIndex | undefined, query: string): SearchResult[] {
+  if (!index) return []
+  if (!query.trim()) {
+    return index.documents
+      .filter((document) => document.type === 'page')
+      .map((document) => ({ document, score: 0, terms: [] }))
+  }
+  return searchDocuments(index, query, { limit: RESULT_LIMIT })
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment) =>
+        segment.match ? (
+          <mark
+            key={segment.start}
+            className="rounded-sm bg-primary/15 text-inherit dark:bg-primary-light/25"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={segment.start}>{segment.text}</span>
+        ),
+      )}
+    </>
+  )
+}
+
+/**
+ * Site-wide search dialog over posts, case studies, projects and pages.
+ * The search index is only downloaded the first time the palette opens.
+ */
+export function CommandPalette({ open, onClose }: CommandPaletteProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [query, setQuery] = useState('')
+  const { data: index, isLoading, isError } = useSearchIndex(open)
+
+  const results = getResults(index, query)
+  const groups = GROUP_ORDER.map((type) => ({
+    type,
+    results: results.filter((result) => result.document.type === type),
+  })).filter((group) => group.results.length > 0)
+
+  const close = () => {
+    onClose()
+    setQuery('')
+  }
+
+  const handleSelect = (document: SearchIndexDocument | null) => {
+    if (!document) return
+    close()
+    if (isExternal(document)) {
+      window.open(document.url, '_blank', 'noopener,noreferrer')
+    } else {
+      void navigate(document.url)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={close} className="relative z-50">
+      <DialogBackdrop className="fixed inset-0 bg-gray-900/40 backdrop-blur-sm dark:bg-black/60" />
+      <div className="fixed inset-0 overflow-y-auto p-4 pt-[12vh] sm:p-6 sm:pt-[15vh]">
+        <DialogPanel className="mx-auto max-w-2xl overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-2xl dark:border-gray-700 dark:bg-gray-900">
+          <Combobox onChange={handleSelect}>
+            <div className="relative">
+              <MagnifyingGlassIcon
+                aria-hidden="true"
+                className="pointer-events-none absolute top-3.5 left-4 size-5 text-gray-400"
+              />
+              <ComboboxInput
+                autoFocus
+                className="h-12 w-full border-0 bg-transparent pr-4 pl-11 text-gray-900 placeholder:text-gray-400 focus:ring-0 focus:outline-none dark:text-gray-100"
+                placeholder={t('search.placeholder')}
+                aria-label={t('search.label')}
+                value={query}
+                onChange={(event) => {
+                  setQuery(event.target.value)
+                }}
+              />
+            </div>
+
+            {groups.length > 0 && (
+              <ComboboxOptions
+                static
+                className="max-h-[60vh] scroll-py-2 overflow-y-auto border-t border-gray-100 p-2 dark:border-gray-800"
+              >
+                {groups.map((group) => {
+                  const Icon = GROUP_ICONS[group.type]
+                  return (
+                    <li key={group.type} className="py-1">
+                      <h2 className="px-3 py-1.5 text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">
+                        {t(`search.groups.${group.type}`)}
+                      </h2>
+                      <ul>
+                        {group.results.map(({ document, terms }) => (
+                          <ComboboxOption
+                            key={document.id}
+                            value={document}
+                            className="group flex cursor-pointer gap-3 rounded-xl px-3 py-2.5 select-none data-focus:bg-gray-100 dark:data-focus:bg-gray-800"
+                          >
+                            <Icon
+                              aria-hidden="true"
+                              className="mt-0.5 size-5 flex-none text-gray-400 group-data-focus:text-primary"
+                            />
+                            <div className="min-w-0 flex-auto">
+                              <p className="flex items-center gap-1.5 text-sm font-medium text-gray-900 dark:text-gray-100">
+                                <span className="truncate">
+                                  <Highlighted segments={highlightText(document.title, terms)} />
+                                </span>
+                                {isExternal(document) && (
+                                  <ArrowTopRightOnSquareIcon
+                                    aria-label={t('search.external')}
+                                    className="size-3.5 flex-none text-gray-400"
+                                  />
+                                )}
+                              </p>
+                              <p className="mt-0.5 line-clamp-2 text-sm text-gray-500 dark:text-gray-400">
+                                <Highlighted segments={createSnippet(document, terms)} />
+                              </p>
+                            </div>
+                          </ComboboxOption>
+                        ))}
+                      </ul>
+                    </li>
+                  )
+                })}
+              </ComboboxOptions>
+            )}
+
+            {groups.length === 0 && (
+              <p
+                role="status"
+                className="border-t border-gray-100 px-6 py-10 text-center text-sm text-gray-500 dark:border-gray-800 dark:text-gray-400"
+              >
+                {isError
+                  ? t('search.error')
+                  : isLoading
+                    ? t('search.loading')
+                    : t('search.noResults', { query: query.trim() })}
+              </p>
+            )}
+          </Combobox>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  )
+}
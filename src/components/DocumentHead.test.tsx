@@ -23,6 +23,7 @@ describe('DocumentHead', () => {
         ogType="article"
         ogImage="https://example.com/og.png"
         articlePublishedTime="2026-05-12T12:00:00.000Z"
+        articleModifiedTime="2026-06-01T09:30:00.000Z"
         articleAuthor="Miguel"
         articleTags={['react', 'seo']}
         canonicalUrl="https://example.com/en/blog/test-post"
@@ -67,6 +68,11 @@ describe('DocumentHead', () => {
         .querySelector('meta[property="article:published_time"]')
         ?.getAttribute('content'),
     ).toBe('2026-05-12T12:00:00.000Z')
+    expect(
+      document.head
+        .querySelector('meta[property="article:modified_time"]')
+        ?.getAttribute('content'),
+    ).toBe('2026-06-01T09:30:00.000Z')
     expect(
       document.head.querySelector('meta[property="article:author"]')?.getAttribute('content'),
     ).toBe('Miguel')
@@ -88,4 +94,25 @@ describe('DocumentHead', () => {
     expect(document.head.querySelector('link[rel="canonical"]')).toBeNull()
     expect(document.head.querySelectorAll('link[rel="alternate"]')).toHaveLength(0)
   })
+
+  it('renders feed auto-discovery links without an hreflang', () => {
+    render(
+      <DocumentHead
+        title="Title"
+        description="Description"
+        feedLinks={[
+          {
+            type: 'application/rss+xml',
+            href: 'https://example.com/en/feed.xml',
+            title: 'Blog (RSS)',
+          },
+        ]}
+      />,
+    )
+
+    const feed = document.head.querySelector('link[rel="alternate"][type="application/rss+xml"]')
+    expect(feed?.getAttribute('href')).toBe('https://example.com/en/feed.xml')
+    expect(feed?.getAttribute('title')).toBe('Blog (RSS)')
+    expect(feed?.hasAttribute('hreflang')).toBe(false)
+  })
 })
@@ -12,6 +12,9 @@
  * - Cleaner component code
  */
 
+import type { FeedLink } from '../lib/content/feedPaths'
+import { serializeStructuredData, type StructuredData } from '../lib/structuredData'
+
 const SITE_URL = import.meta.env.VITE_SITE_URL
 const DEFAULT_OG_IMAGE = `${SITE_URL}/images/og-image.png`
 
@@ -30,12 +33,17 @@ interface DocumentHeadProps {
   ogImage?: string
   // Article-specific meta tags
   articlePublishedTime?: string
+  articleModifiedTime?: string
   articleAuthor?: string
   articleTags?: string[]
   // Canonical URL
   canonicalUrl?: string
   // Alternate language URLs
   alternateUrls?: AlternateUrl[]
+  // RSS/Atom/JSON feeds for auto-discovery
+  feedLinks?: FeedLink[]
+  // schema.org objects rendered as JSON-LD
+  structuredData?: StructuredData[]
 }
 
 /**
@@ -52,10 +60,13 @@ export function DocumentHead({
   robots,
   ogImage = DEFAULT_OG_IMAGE,
   articlePublishedTime,
+  articleModifiedTime,
   articleAuthor,
   articleTags,
   canonicalUrl,
   alternateUrls,
+  feedLinks,
+  structuredData,
 }: Readonly<DocumentHeadProps>) {
   return (
     <>
@@ -87,6 +98,9 @@ export function DocumentHead({
       {articlePublishedTime && (
         <meta property="article:published_time" content={articlePublishedTime} />
       )}
+      {articleModifiedTime && (
+        <meta property="article:modified_time" content={articleModifiedTime} />
+      )}
       {articleAuthor && <meta property="article:author" content={articleAuthor} />}
       {articleTags?.map((tag) => (
         <meta key={tag} property="article:tag" content={tag} />
@@ -104,6 +118,27 @@ export function DocumentHead({
           href={alternate.href}
         />
       ))}
+
+      {/* Feed auto-discovery */}
+      {feedLinks?.map((feed) => (
+        <link
+          key={feed.href}
+          rel="alternate"
+          type={feed.type}
+          title={feed.title}
+          href={feed.href}
+        />
+      ))}
+
+      {/*
+        JSON-LD stays in place rather than being hoisted, which crawlers accept.
+        Data blocks are never executed, so the CSP script-src hash does not apply to them.
+      */}
+      {structuredData?.map((data) => (
+        <script key={data['@type']} type="application/ld+json">
+          {serializeStructuredData(data)}
+        </script>
+      ))}
     </>
   )
 }
@@ -1,11 +1,12 @@
 import { useTranslation } from 'react-i18next'
 import { Link } from 'react-router'
 
-import { EnvelopeIcon, HeartIcon } from '@heroicons/react/24/outline'
+import { EnvelopeIcon, HeartIcon, RssIcon } from '@heroicons/react/24/outline'
 import { motion } from 'framer-motion'
 
 import { useThemeContext } from '../context'
 import { fadeIn, commonTransition } from '../lib/animations'
+import { getFeedPath } from '../lib/content/feedPaths'
 
 import { OptimizedImage } from '.'
 
@@ -30,6 +31,7 @@ const currentYear = new Date().getFullYear()
 export default function Footer() {
   const { t, i18n } = useTranslation()
   const { isDark } = useThemeContext()
+  const feedLanguage = i18n.language === 'en' ? 'en' : 'es'
 
   const githubUsername = import.meta.env.VITE_GITHUB_USERNAME ?? ''
   const linkedinUsername = import.meta.env.VITE_LINKEDIN_USERNAME ?? ''
@@ -129,6 +131,17 @@ export default function Footer() {
                 className="size-5 transition-transform group-hover:scale-110"
               />
             </Link>
+            {/* Static file served next to the SPA, so a plain anchor instead of a router Link */}
+            <a
+              href={getFeedPath(feedLanguage, 'rss')}
+              className="group rounded-full bg-gray-100 p-2.5 text-gray-600 transition-all hover:bg-orange-500 hover:text-white dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-orange-500 dark:hover:text-white"
+            >
+              <span className="sr-only">{t('footer.rss')}</span>
+              <RssIcon
+                aria-hidden="true"
+                className="size-5 transition-transform group-hover:scale-110"
+              />
+            </a>
           </div>
         </div>
 
@@ -0,0 +1,31 @@
+import { useTranslation } from 'react-i18next'
+
+import { CheckIcon, LinkIcon } from '@heroicons/react/24/outline'
+
+import { useCopyToClipboard } from '../hooks/useCopyToClipboard'
+
+/**
+ * Hover link next to a post heading. Following it updates the URL hash as usual and
+ * also copies the section URL to the clipboard.
+ */
+export function HeadingAnchor({ id }: { id: string }) {
+  const { t } = useTranslation()
+  const [copied, copy] = useCopyToClipboard()
+
+  const handleClick = () => {
+    copy(`${window.location.origin}${window.location.pathname}#${id}`)
+  }
+
+  const Icon = copied ? CheckIcon : LinkIcon
+
+  return (
+    <a
+      href={`#${id}`}
+      onClick={handleClick}
+      aria-label={copied ? t('blog.toc.linkCopied') : t('blog.toc.copyLink')}
+      className="ml-2 inline-flex align-middle text-gray-400 opacity-0 transition-opacity group-hover:opacity-100 hover:text-primary focus-visible:opacity-100 motion-reduce:transition-none dark:hover:text-primary-light"
+    >
+      <Icon aria-hidden="true" className="size-5" />
+    </a>
+  )
+}
@@ -1,16 +1,19 @@
 import { useTranslation } from 'react-i18next'
 import { useNavigate, useLocation } from 'react-router'
 
+import { getLocalizedPathname } from '../lib/localizedPaths'
+
 export default function LanguageSwitcher() {
   const { i18n, t } = useTranslation()
   const navigate = useNavigate()
   const location = useLocation()
 
-  const changeLanguage = async (language: string) => {
-    const currentPath = location.pathname
-    const newPath = currentPath.replace(/\/(es|en)\//, `/${language}/`)
+  const changeLanguage = async (language: 'es' | 'en') => {
+    // Posts and case studies may use translated slugs or be missing in the target language
+    const newPath = getLocalizedPathname(location.pathname, language)
     await i18n.changeLanguage(language)
-    await navigate(newPath)
+    // Keep the query string so filtered views (e.g. blog search and tags) survive the switch
+    await navigate({ pathname: newPath, search: location.search })
   }
 
   return (
@@ -0,0 +1,149 @@
+import { MemoryRouter } from 'react-router'
+
+import { fireEvent, screen, waitFor } from '@testing-library/react'
+import mermaid from 'mermaid'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { MarkdownRenderer } from './MarkdownRenderer'
+
+import i18n from '../test/i18n-for-tests'
+import { renderWithProviders } from '../test/utils'
+
+vi.mock('../context', () => ({
+  useThemeContext: () => ({ isDark: false }),
+}))
+vi.mock('highlight.js/styles/github.css', () => ({}))
+vi.mock('highlight.js/styles/github-dark.css', () => ({}))
+vi.mock('katex/dist/katex.min.css', () => ({}))
+vi.mock('mermaid', () => ({
+  default: {
+    initialize: vi.fn(),
+    render: vi.fn(() => Promise.resolve({ svg: '<svg aria-label="Diagram"></svg>' })),
+  },
+}))
+
+function renderMarkdown(content: string) {
+  return renderWithProviders(
+    <MemoryRouter>
+      <MarkdownRenderer content={content} />
+    </MemoryRouter>,
+  )
+}
+
+describe('MarkdownRenderer', () => {
+  beforeEach(async () => {
+    await i18n.changeLanguage('en')
+  })
+
+  it('renders GitHub-style callouts with a localized title', () => {
+    renderMarkdown('> [!WARNING]\n> Breaking change ahead.')
+
+    const callout = screen.getByRole('note')
+    expect(callout).toHaveTextContent('Warning')
+    expect(callout).toHaveTextContent('Breaking change ahead.')
+    expect(callout).not.toHaveTextContent('[!WARNING]')
+  })
+
+  it('links footnote references to their notes and back', () => {
+    const { container } = renderMarkdown('A claim.[^1]\n\n[^1]: The source.')
+
+    const reference = screen.getByRole('link', { name: '1' })
+    const target = reference.getAttribute('href')?.slice(1) ?? ''
+    expect(container.querySelector(`[id="${target}"]`)).toHaveTextContent('The source.')
+
+    const backLink = screen.getByRole('link', { name: 'Back to reference 1' })
+    expect(backLink.getAttribute('href')).toBe(`#${reference.id}`)
+  })
+
+  it('renders task lists, figures and details blocks', () => {
+    renderMarkdown(
+      [
+        '- [x] Done',
+        '- [ ] Pending',
+        '',
+        '![Architecture](/images/architecture.png "How the pieces fit")',
+        '',
+        '<details><summary>More</summary>Hidden text</details>',
+      ].join('\n'),
+    )
+
+    const checkboxes = screen.getAllByRole('checkbox')
+    expect(checkboxes.map((checkbox) => (checkbox as HTMLInputElement).checked)).toEqual([
+      true,
+      false,
+    ])
+    expect(screen.getByRole('figure')).toHaveTextContent('How the pieces fit')
+    expect(screen.getByRole('img', { name: 'Architecture' })).toBeInTheDocument()
+    expect(screen.getByText('More').tagName).toBe('SUMMARY')
+  })
+
+  it('sanitises raw HTML', () => {
+    const { container } = renderMarkdown(
+      '<img src="x" onerror="alert(1)" alt="x"><script>alert(1)</script><a href="javascript:alert(1)">bad</a>',
+    )
+
+    expect(container.querySelector('script')).toBeNull()
+    expect(container.querySelector('img')?.getAttribute('onerror')).toBeNull()
+    expect(screen.getByText('bad')).not.toHaveAttribute('href', 'javascript:alert(1)')
+  })
+
+  it('opens external links in a new tab and keeps site links in the app', () => {
+    renderMarkdown('[Repo](https://github.com/example) and [Blog](/en/blog)')
+
+    expect(screen.getByRole('link', { name: 'Repo' })).toHaveAttribute('rel', 'noopener noreferrer')
+    expect(screen.getByRole('link', { name: 'Repo' })).toHaveAttribute('target', '_blank')
+    expect(screen.getByRole('link', { name: 'Blog' })).not.toHaveAttribute('target')
+  })
+
+  it('renders display math with KaTeX and leaves prices alone', () => {
+    const { container } = renderMarkdown('It costs $20 a month.\n\n$$\nE = mc^2\n$$')
+
+    expect(container.querySelector('.katex-display')).not.toBeNull()
+    expect(screen.getByText('It costs $20 a month.')).toBeInTheDocument()
+  })
+
+  it('renders Mermaid diagrams in the browser', async () => {
+    renderMarkdown('```mermaid\ngraph TD\n  A --> B\n```')
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Diagram')).toBeInTheDocument()
+    })
+    expect(vi.mocked(mermaid.render)).toHaveBeenCalledWith(
+      expect.stringMatching(/^mermaid-/),
+      'graph TD\n  A --> B',
+    )
+  })
+
+  it('renders code blocks with a file name, highlighted lines and a copy button', async () => {
+    const writeText = vi.fn(() => Promise.resolve())
+    Object.assign(navigator, { clipboard: { writeText } })
+    const { container } = renderMarkdown(
+      '```ts title="useBlog.ts" {2} showLineNumbers\nconst a = 1\nconst b = 2\n```',
+    )
+
+    expect(screen.getByText('useBlog.ts')).toBeInTheDocument()
+    expect(screen.getByText('ts')).toBeInTheDocument()
+    expect(container.querySelector('pre')).toHaveAttribute('data-line-numbers', 'true')
+    const lines = container.querySelectorAll('.code-line')
+    expect([...lines].map((line) => line.getAttribute('data-highlighted'))).toEqual([null, 'true'])
+
+    fireEvent.click(screen.getByRole('button', { name: 'Copy code' }))
+    expect(writeText).toHaveBeenCalledWith('const a = 1\nconst b = 2')
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Copied to clipboard')
+    })
+  })
+
+  it('collapses long code blocks until expanded', () => {
+    const code = Array.from({ length: 40 }, (_, index) => `line ${String(index + 1)}`).join('\n')
+    renderMarkdown(`\`\`\`\n${code}\n\`\`\``)
+
+    const toggle = screen.getByRole('button', { name: 'Show all 40 lines' })
+    expect(toggle).toHaveAttribute('aria-expanded', 'false')
+    fireEvent.click(toggle)
+    expect(screen.getByRole('button', { name: 'Collapse code' })).toHaveAttribute(
+      'aria-expanded',
+      'true',
+    )
+  })
+})
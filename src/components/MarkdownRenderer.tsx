@@ -0,0 +1,396 @@
+import type { ComponentPropsWithoutRef, ReactNode } from 'react'
+import { useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import ReactMarkdown, { type ExtraProps, type Options } from 'react-markdown'
+import { Link } from 'react-router'
+
+import {
+  ChatBubbleLeftEllipsisIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  LightBulbIcon,
+  ShieldExclamationIcon,
+} from '@heroicons/react/24/outline'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeKatex from 'rehype-katex'
+import rehypeRaw from 'rehype-raw'
+import rehypeSanitize from 'rehype-sanitize'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+
+import { CodeBlock } from './CodeBlock'
+import { HeadingAnchor } from './HeadingAnchor'
+import {
+  MarkdownTable,
+  MarkdownTableCell,
+  MarkdownTableHead,
+  MarkdownTableHeader,
+} from './MarkdownTable'
+import { MermaidDiagram } from './MermaidDiagram'
+
+import { useThemeContext } from '../context'
+import { getCodeLanguage, rehypeCodeBlocks, remarkCodeMeta } from '../lib/content/codeBlocks'
+import { getNodeText, isElement } from '../lib/content/hast'
+import { rehypeHeadingIds } from '../lib/content/headings'
+import {
+  isCalloutType,
+  markdownSanitizeSchema,
+  rehypeCallouts,
+  rehypeFigures,
+  type CalloutType,
+} from '../lib/content/markdownPlugins'
+
+type MarkdownProps<T extends keyof React.JSX.IntrinsicElements> = ComponentPropsWithoutRef<T> &
+  ExtraProps
+// Helpers to strip the `node` prop that react-markdown injects (not forwarded to DOM)
+type MdProps<T extends keyof React.JSX.IntrinsicElements> = Omit<MarkdownProps<T>, 'node'>
+
+const EXTERNAL_URL_PATTERN = /^https?:\/\//
+/** Display math (`$$…$$`) or a ```math block; single dollars are left as text */
+const MATH_PATTERN = /\$\$|^\s*```math/m
+
+const remarkPlugins: Options['remarkPlugins'] = [
+  remarkGfm,
+  [remarkMath, { singleDollarTextMath: false }],
+  remarkCodeMeta,
+]
+// Sanitising runs right after raw HTML is parsed; later plugins only add trusted markup
+const rehypePlugins: Options['rehypePlugins'] = [
+  rehypeRaw,
+  [rehypeSanitize, markdownSanitizeSchema],
+  rehypeCallouts,
+  rehypeFigures,
+  rehypeHeadingIds,
+  rehypeKatex,
+  [rehypeHighlight, { plainText: ['mermaid'] }],
+  rehypeCodeBlocks,
+]
+
+// Markdown components – defined outside render to avoid re-creation on each render.
+// Heading ids come from rehypeHeadingIds and match the table of contents.
+const MarkdownH1 = ({ children, id }: MdProps<'h1'>) => (
+  <h1 id={id} className="mt-8 mb-6 scroll-mt-24 text-3xl font-bold text-gray-900 dark:text-white">
+    {children}
+  </h1>
+)
+const MarkdownH2 = ({ children, id, className }: MdProps<'h2'>) =>
+  // The visually hidden footnotes label keeps its own class
+  className === 'sr-only' ? (
+    <h2 id={id} className={className}>
+      {children}
+    </h2>
+  ) : (
+    <h2
+      id={id}
+      className="group mt-6 mb-4 scroll-mt-24 text-2xl font-semibold text-gray-900 dark:text-white"
+    >
+      {children}
+      {id && <HeadingAnchor id={id} />}
+    </h2>
+  )
+const MarkdownH3 = ({ children, id }: MdProps<'h3'>) => (
+  <h3
+    id={id}
+    className="group mt-5 mb-3 scroll-mt-24 text-xl font-semibold text-gray-900 dark:text-white"
+  >
+    {children}
+    {id && <HeadingAnchor id={id} />}
+  </h3>
+)
+const MarkdownH4 = ({ children, id }: MdProps<'h4'>) => (
+  <h4
+    id={id}
+    className="mt-4 mb-2 scroll-mt-24 text-lg font-semibold text-gray-900 dark:text-white"
+  >
+    {children}
+  </h4>
+)
+const MarkdownP = ({ children }: MdProps<'p'>) => (
+  <p className="mb-4 leading-relaxed text-gray-700 dark:text-gray-300">{children}</p>
+)
+const MarkdownUl = ({ children, className }: MdProps<'ul'>) => (
+  <ul
+    className={`mb-4 text-gray-700 dark:text-gray-300 ${
+      className === 'contains-task-list' ? 'list-none pl-1' : 'list-disc pl-6'
+    }`}
+  >
+    {children}
+  </ul>
+)
+const MarkdownOl = ({ children, start }: MdProps<'ol'>) => (
+  <ol start={start} className="mb-4 list-decimal pl-6 text-gray-700 dark:text-gray-300">
+    {children}
+  </ol>
+)
+const MarkdownLi = ({ children, id, className }: MdProps<'li'>) => (
+  <li
+    id={id}
+    className={className === 'task-list-item' ? 'mb-1 flex items-baseline gap-2' : 'mb-1'}
+  >
+    {children}
+  </li>
+)
+// Task list checkboxes are read-only, as on GitHub
+const MarkdownInput = ({ type, checked }: MdProps<'input'>) => (
+  <input
+    type={type}
+    checked={checked}
+    disabled
+    readOnly
+    className="size-4 translate-y-0.5 rounded accent-primary"
+  />
+)
+const MarkdownBlockquote = ({ children }: MdProps<'blockquote'>) => (
+  <blockquote className="my-4 border-l-4 border-primary/50 bg-primary/5 py-2 pr-4 pl-4 text-gray-700 italic dark:border-primary-light/50 dark:bg-primary/10 dark:text-gray-300">
+    {children}
+  </blockquote>
+)
+
+const CALLOUTS = {
+  note: {
+    Icon: InformationCircleIcon,
+    className: 'border-blue-500/60 bg-blue-50 dark:bg-blue-500/10 [&>p:first-child]:text-blue-700',
+  },
+  tip: {
+    Icon: LightBulbIcon,
+    className:
+      'border-emerald-500/60 bg-emerald-50 dark:bg-emerald-500/10 [&>p:first-child]:text-emerald-700',
+  },
+  important: {
+    Icon: ChatBubbleLeftEllipsisIcon,
+    className:
+      'border-violet-500/60 bg-violet-50 dark:bg-violet-500/10 [&>p:first-child]:text-violet-700',
+  },
+  warning: {
+    Icon: ExclamationTriangleIcon,
+    className:
+      'border-amber-500/60 bg-amber-50 dark:bg-amber-500/10 [&>p:first-child]:text-amber-700',
+  },
+  caution: {
+    Icon: ShieldExclamationIcon,
+    className: 'border-red-500/60 bg-red-50 dark:bg-red-500/10 [&>p:first-child]:text-red-700',
+  },
+} satisfies Record<CalloutType, { Icon: unknown; className: string }>
+
+function Callout({ type, children }: { type: CalloutType; children: ReactNode }) {
+  const { t } = useTranslation()
+  const { Icon, className } = CALLOUTS[type]
+
+  return (
+    <aside
+      role="note"
+      className={`my-6 rounded-r-xl border-l-4 px-4 pt-3 pb-1 dark:[&>p:first-child]:text-inherit ${className}`}
+    >
+      <p className="mb-2 flex items-center gap-2 text-sm font-semibold">
+        <Icon aria-hidden="true" className="size-5" />
+        {t(`markdown.callouts.${type}`)}
+      </p>
+      {children}
+    </aside>
+  )
+}
+
+// rehypeCallouts turns `> [!NOTE]` blockquotes into asides tagged with their type
+const MarkdownAside = ({ children, ...props }: MdProps<'aside'> & { 'data-callout'?: string }) => {
+  const type = props['data-callout']
+  return isCalloutType(type) ? <Callout type={type}>{children}</Callout> : <aside>{children}</aside>
+}
+
+const linkClassName =
+  'text-primary underline decoration-primary/30 transition-colors hover:decoration-primary dark:text-primary-light dark:decoration-primary-light/30 dark:hover:decoration-primary-light'
+
+const MarkdownA = ({
+  children,
+  href,
+  id,
+  title,
+  'aria-describedby': describedBy,
+  'aria-label': label,
+}: MdProps<'a'>) => {
+  // Footnote references and back links rely on their id and aria attributes
+  const attributes = { id, title, 'aria-describedby': describedBy, 'aria-label': label }
+
+  // External links open in a new tab without access to this window
+  if (href && EXTERNAL_URL_PATTERN.test(href)) {
+    return (
+      <a
+        {...attributes}
+        href={href}
+        className={linkClassName}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        {children}
+      </a>
+    )
+  }
+  // Site paths navigate within the app instead of reloading the page
+  if (href?.startsWith('/')) {
+    return (
+      <Link {...attributes} to={href} className={linkClassName}>
+        {children}
+      </Link>
+    )
+  }
+  return (
+    <a {...attributes} href={href} className={linkClassName}>
+      {children}
+    </a>
+  )
+}
+const MarkdownStrong = ({ children }: MdProps<'strong'>) => (
+  <strong className="font-semibold text-gray-900 dark:text-white">{children}</strong>
+)
+const MarkdownCode = ({ children, className }: MdProps<'code'>) => {
+  const isInline = !className
+
+  return isInline ? (
+    <code className="rounded bg-gray-100 px-1.5 py-0.5 text-sm text-gray-800 dark:bg-gray-800 dark:text-gray-200">
+      {children}
+    </code>
+  ) : (
+    <code className={className}>{children}</code>
+  )
+}
+const MarkdownPre = ({ children, node }: MarkdownProps<'pre'>) => {
+  const code = node?.children[0]
+  if (!isElement(code, 'code')) return <pre>{children}</pre>
+  if (getCodeLanguage(code) === 'mermaid') {
+    return <MermaidDiagram chart={getNodeText(code).trimEnd()} />
+  }
+
+  // Block metadata added by rehypeCodeBlocks
+  const properties = node?.properties ?? {}
+  const title = properties['dataTitle']
+  const lineCount = properties['dataLineCount']
+  return (
+    <CodeBlock
+      code={getNodeText(code)}
+      language={getCodeLanguage(code)}
+      title={typeof title === 'string' ? title : undefined}
+      lineCount={typeof lineCount === 'number' ? lineCount : 0}
+      showLineNumbers={properties['dataLineNumbers'] === 'true'}
+    >
+      {children}
+    </CodeBlock>
+  )
+}
+const MarkdownImg = ({ src, alt, title }: MdProps<'img'>) => (
+  <img
+    src={src}
+    alt={alt ?? ''}
+    title={title}
+    loading="lazy"
+    decoding="async"
+    className="mx-auto my-6 h-auto max-w-full rounded-xl"
+  />
+)
+const MarkdownFigure = ({ children }: MdProps<'figure'>) => (
+  <figure className="my-8 [&>img]:my-0">{children}</figure>
+)
+const MarkdownFigcaption = ({ children }: MdProps<'figcaption'>) => (
+  <figcaption className="mt-3 text-center text-sm text-gray-500 dark:text-gray-400">
+    {children}
+  </figcaption>
+)
+const MarkdownDetails = ({ children, open }: MdProps<'details'>) => (
+  <details
+    open={open}
+    className="my-4 rounded-xl border border-gray-200 px-4 py-2 text-gray-700 open:pb-4 dark:border-gray-700 dark:text-gray-300"
+  >
+    {children}
+  </details>
+)
+const MarkdownSummary = ({ children }: MdProps<'summary'>) => (
+  <summary className="cursor-pointer py-1 font-semibold text-gray-900 dark:text-white">
+    {children}
+  </summary>
+)
+const MarkdownSection = ({ children, className }: MdProps<'section'>) => (
+  <section
+    className={
+      className === 'footnotes'
+        ? 'mt-12 border-t border-gray-200 pt-6 text-sm dark:border-gray-700 [&_p]:mb-1 [&_p]:inline'
+        : className
+    }
+  >
+    {children}
+  </section>
+)
+
+const components = {
+  h1: MarkdownH1,
+  h2: MarkdownH2,
+  h3: MarkdownH3,
+  h4: MarkdownH4,
+  p: MarkdownP,
+  ul: MarkdownUl,
+  ol: MarkdownOl,
+  li: MarkdownLi,
+  input: MarkdownInput,
+  blockquote: MarkdownBlockquote,
+  aside: MarkdownAside,
+  a: MarkdownA,
+  strong: MarkdownStrong,
+  code: MarkdownCode,
+  pre: MarkdownPre,
+  img: MarkdownImg,
+  figure: MarkdownFigure,
+  figcaption: MarkdownFigcaption,
+  details: MarkdownDetails,
+  summary: MarkdownSummary,
+  section: MarkdownSection,
+  table: MarkdownTable,
+  thead: MarkdownTableHead,
+  th: MarkdownTableHeader,
+  td: MarkdownTableCell,
+}
+
+interface MarkdownRendererProps {
+  /** Markdown body of a post or case study */
+  content: string
+}
+
+/**
+ * Markdown renderer shared by blog posts and case studies: GitHub-flavoured markdown
+ * with callouts, footnotes, task lists, figures, `<details>` blocks, KaTeX math,
+ * Mermaid diagrams and code blocks with a toolbar (```ts title="file.ts" {2-4}
+ * showLineNumbers). Raw HTML is sanitised; external links open in a new tab.
+ */
+export function MarkdownRenderer({ content }: MarkdownRendererProps) {
+  const { t } = useTranslation()
+  const { isDark } = useThemeContext()
+  const hasMath = MATH_PATTERN.test(content)
+
+  // Dynamically load highlight.js theme based on dark mode
+  useEffect(() => {
+    const loadTheme = async () => {
+      if (isDark) {
+        await import('highlight.js/styles/github-dark.css')
+      } else {
+        await import('highlight.js/styles/github.css')
+      }
+    }
+    void loadTheme()
+  }, [isDark])
+
+  // KaTeX styles and fonts are only needed by documents with math
+  useEffect(() => {
+    if (hasMath) void import('katex/dist/katex.min.css')
+  }, [hasMath])
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={rehypePlugins}
+      remarkRehypeOptions={{
+        footnoteLabel: t('markdown.footnotes'),
+        footnoteBackLabel: (referenceIndex) =>
+          t('markdown.footnoteBack', { reference: referenceIndex + 1 }),
+      }}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  )
+}
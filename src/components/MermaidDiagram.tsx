@@ -0,0 +1,73 @@
+import { useEffect, useId, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { useThemeContext } from '../context'
+
+interface MermaidDiagramProps {
+  /** Diagram source from a ```mermaid code block */
+  chart: string
+}
+
+/**
+ * Mermaid diagram rendered in the browser. The library is only downloaded for pages
+ * that contain a diagram; prerendered HTML and failed renders show the source instead.
+ */
+export function MermaidDiagram({ chart }: MermaidDiagramProps) {
+  const { t } = useTranslation()
+  const { isDark } = useThemeContext()
+  // useId output (":r1:") is not a valid CSS id, which Mermaid uses for its styles
+  const id = `mermaid-${useId().replace(/[^\w-]/g, '')}`
+  const [rendered, setRendered] = useState<{ svg: string; source: string } | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const render = async () => {
+      const { default: mermaid } = await import('mermaid')
+      // Strict mode sanitises labels and disables click handlers inside diagrams
+      mermaid.initialize({
+        startOnLoad: false,
+        securityLevel: 'strict',
+        theme: isDark ? 'dark' : 'neutral',
+      })
+      const { svg } = await mermaid.render(id, chart)
+      if (!cancelled) {
+        setRendered({ svg, source: chart })
+        setFailed(false)
+      }
+    }
+
+    render().catch((err: unknown) => {
+      console.error('Error rendering Mermaid diagram:', err)
+      if (!cancelled) setFailed(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [chart, id, isDark])
+
+  if (rendered?.source !== chart || failed) {
+    return (
+      <figure className="my-6">
+        <pre className="overflow-x-auto rounded-xl bg-gray-50 p-4 text-sm dark:bg-gray-900">
+          <code>{chart}</code>
+        </pre>
+        {failed && (
+          <figcaption className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            {t('markdown.mermaidError')}
+          </figcaption>
+        )}
+      </figure>
+    )
+  }
+
+  return (
+    <figure
+      className="my-6 flex justify-center overflow-x-auto [&_svg]:h-auto [&_svg]:max-w-full"
+      // eslint-disable-next-line react-dom/no-dangerously-set-innerhtml -- SVG sanitised by Mermaid's strict mode
+      dangerouslySetInnerHTML={{ __html: rendered.svg }}
+    />
+  )
+}
@@ -11,13 +11,19 @@ import {
   FolderIcon,
   NewspaperIcon,
   EnvelopeIcon,
+  MagnifyingGlassIcon,
 } from '@heroicons/react/24/outline'
 import { motion, AnimatePresence } from 'framer-motion'
 
+import { CommandPalette } from './CommandPalette'
+
 import { useThemeContext } from '../context'
+import { useIsHydrating } from '../hooks'
 
 import { LanguageSwitcher, OptimizedImage, ThemeToggle } from '.'
 
+const getShortcutLabel = () => (/Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl K')
+
 export default function Navbar() {
   const { t, i18n } = useTranslation()
   const { isDark } = useThemeContext()
@@ -26,6 +32,9 @@ export default function Navbar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [isScrolled, setIsScrolled] = useState(false)
   const [menuPathname, setMenuPathname] = useState(location.pathname)
+  const [searchOpen, setSearchOpen] = useState(false)
+  // Prerendered markup shows the Ctrl hint; Apple platforms switch to ⌘ once hydrated
+  const shortcutLabel = useIsHydrating() ? 'Ctrl K' : getShortcutLabel()
 
   // Close mobile menu on route change — adjust state during render (not in effect)
   // so the react-compiler set-state-in-effect rule stays satisfied.
@@ -46,6 +55,22 @@ export default function Navbar() {
     }
   }, [mobileMenuOpen])
 
+  // Ctrl/Cmd+K opens the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        setMobileMenuOpen(false)
+        setSearchOpen((open) => !open)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [])
+
   // Track scroll position for glassmorphism effect
   // Optimized for smooth behavior on iOS/Safari
   useEffect(() => {
@@ -184,7 +209,19 @@ export default function Navbar() {
                 />
               </NavLink>
             </div>
-            <div className="flex items-center lg:hidden">
+            <div className="flex items-center gap-4 lg:hidden">
+              <motion.button
+                type="button"
+                onClick={() => {
+                  setSearchOpen(true)
+                }}
+                className="-m-2.5 inline-flex items-center justify-center rounded-xl p-2.5 text-gray-700 transition-colors hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-800"
+                aria-label={t('search.open')}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <MagnifyingGlassIcon aria-hidden="true" className="size-6" />
+              </motion.button>
               <motion.button
                 type="button"
                 onClick={() => {
@@ -230,12 +267,30 @@ export default function Navbar() {
               ))}
             </div>
             <div className="hidden lg:flex lg:flex-1 lg:items-center lg:justify-end lg:gap-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setSearchOpen(true)
+                }}
+                className="inline-flex h-10 items-center gap-2 rounded-full bg-gray-100 px-3 text-sm text-gray-500 transition-colors hover:bg-gray-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 dark:bg-gray-800 dark:text-gray-400 dark:hover:bg-gray-700"
+                aria-label={t('search.open')}
+                aria-keyshortcuts="Control+K Meta+K"
+              >
+                <MagnifyingGlassIcon aria-hidden="true" className="size-5" />
+                <kbd className="font-sans text-xs font-semibold">{shortcutLabel}</kbd>
+              </button>
               <ThemeToggle />
               <LanguageSwitcher />
             </div>
           </div>
         </nav>
       </div>
+      <CommandPalette
+        open={searchOpen}
+        onClose={() => {
+          setSearchOpen(false)
+        }}
+      />
       <AnimatePresence>
         {mobileMenuOpen && (
           <Dialog
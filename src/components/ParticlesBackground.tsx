@@ -1,6 +1,6 @@
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useRef } from 'react'
 
-import { useReducedMotion, useTheme } from '@/hooks'
+import { useMediaQuery, useReducedMotion, useTheme } from '@/hooks'
 
 const MAX_PARTICLES = 80
 const MIN_PARTICLES = 15
@@ -111,19 +111,9 @@ function drawConnections(
 export function ParticlesBackground() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
   const prefersReducedMotion = useReducedMotion()
-  const [isMobile, setIsMobile] = useState(() => window.innerWidth < 640)
+  const isMobile = useMediaQuery('(max-width: 639px)')
   const { isDark } = useTheme()
 
-  useEffect(() => {
-    const handleResize = () => {
-      setIsMobile(window.innerWidth < 640)
-    }
-    window.addEventListener('resize', handleResize, { passive: true })
-    return () => {
-      window.removeEventListener('resize', handleResize)
-    }
-  }, [])
-
   useEffect(() => {
     const canvas = canvasRef.current
     if (isMobile) return
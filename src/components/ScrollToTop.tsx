@@ -1,12 +1,25 @@
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { useLocation } from 'react-router'
 
+import type { ResumeReadingState } from '../pages/Blog/utils/readingProgress'
+
 export function ScrollToTop() {
-  const { pathname } = useLocation()
+  const location = useLocation()
+  const { pathname, hash } = location
+  const previousPathname = useRef<string | null>(null)
+  // "Continue reading" on a blog card: the post scrolls to the saved position itself
+  const resumesReading =
+    (location.state as Partial<ResumeReadingState> | null)?.resumeReading === true
 
   useEffect(() => {
-    window.scrollTo(0, 0)
-  }, [pathname])
+    const isNewPage = previousPathname.current !== pathname
+    previousPathname.current = pathname
+    // Links to a section (#hash) are scrolled into view by the page that renders it,
+    // and a hash change within a page keeps the current scroll
+    if (isNewPage && !hash && !resumesReading) {
+      window.scrollTo(0, 0)
+    }
+  }, [pathname, hash, resumesReading])
 
   return null
 }
@@ -0,0 +1,120 @@
+/**
+ * Server entry used by scripts/prerender.mjs to render every route to static HTML.
+ *
+ * Each route gets a fresh query client, prefetched with the same query options the
+ * pages use, so the markup contains the real content and the browser can hydrate
+ * from the dehydrated cache without refetching.
+ */
+
+import { StrictMode } from 'react'
+
+import { dehydrate, QueryClientProvider, type QueryClient } from '@tanstack/react-query'
+import { prerender } from 'react-dom/static'
+import { curation } from 'virtual:content/curation'
+
+import App from './App'
+import projectsSnapshot from './data/projects-snapshot.json'
+import { blogPostContentQueryOptions, blogPostsQueryOptions } from './hooks/useBlog'
+import {
+  caseStudiesQueryOptions,
+  caseStudyContentQueryOptions,
+} from './hooks/useProjectCaseStudies'
+import i18n from './i18n/i18n'
+import { isProjectHidden } from './lib/content/curation'
+import { getPageRoutes } from './lib/content/routes'
+import { createQueryClient } from './lib/queryClient'
+import { projectReadmeQueryOptions } from './pages/Projects/hooks/useProjectReadme'
+import { projectsQueryOptions } from './pages/Projects/hooks/useProjects'
+import type { BlogLanguage } from './types/blog'
+
+export interface PrerenderedPage {
+  language: BlogLanguage
+  /** Markup for the #root container; hoisted head tags come first */
+  html: string
+  /** Query cache to hydrate in the browser */
+  state: unknown
+}
+
+/**
+ * Every route to prerender, unlisted posts included, read from the same manifests the app uses
+ */
+export async function getPrerenderRoutes(): Promise<string[]> {
+  // Dynamic imports keep the manifests in the same chunks the hooks load them from
+  const [blogEs, blogEn, caseStudiesEs, caseStudiesEn] = await Promise.all([
+    import('virtual:content/blog/es'),
+    import('virtual:content/blog/en'),
+    import('virtual:content/projects/es'),
+    import('virtual:content/projects/en'),
+  ])
+
+  return getPageRoutes({
+    getBlogEntries: (lang) => (lang === 'es' ? blogEs : blogEn).entries,
+    getCaseStudyEntries: (lang) => (lang === 'es' ? caseStudiesEs : caseStudiesEn).entries,
+    projectNames: projectsSnapshot.projects
+      .filter((project) => !isProjectHidden(project, curation))
+      .map((project) => project.name),
+  })
+}
+
+async function prefetchRouteData(
+  queryClient: QueryClient,
+  language: BlogLanguage,
+  section: string | undefined,
+  slug: string | undefined,
+): Promise<void> {
+  if (section === 'blog') {
+    await queryClient.prefetchQuery(blogPostsQueryOptions(language))
+    if (slug) {
+      await queryClient.prefetchQuery(blogPostContentQueryOptions(language, slug))
+      // Case studies that reference the post are linked from its footer
+      await queryClient.prefetchQuery(caseStudiesQueryOptions(language))
+    }
+  }
+
+  if (section === 'projects') {
+    await queryClient.prefetchQuery(projectsQueryOptions)
+    const caseStudies = await queryClient.ensureQueryData(caseStudiesQueryOptions(language))
+    if (slug) {
+      const caseStudy = caseStudies.find((entry) => entry.slug === slug)
+      if (caseStudy) await queryClient.prefetchQuery(caseStudyContentQueryOptions(language, slug))
+      // Repositories without a case study use their name as slug
+      await queryClient.prefetchQuery(projectReadmeQueryOptions(caseStudy?.meta.repoName ?? slug))
+    }
+  }
+}
+
+export async function render(url: string): Promise<PrerenderedPage> {
+  const [, lang, section, slug, ...rest] = url.split('/')
+  const language: BlogLanguage = lang === 'en' ? 'en' : 'es'
+  const queryClient = createQueryClient()
+
+  await i18n.changeLanguage(language)
+  // Tag and series archives (/blog/tag/:tag) only need the post list, not a body
+  await prefetchRouteData(queryClient, language, section, rest.length > 0 ? undefined : slug)
+
+  // prerender waits for lazy routes and every Suspense boundary before resolving.
+  // Errors would silently fall back to client rendering, so they fail the build instead.
+  const errors: unknown[] = []
+  const { prelude } = await prerender(
+    <StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <App location={url} />
+      </QueryClientProvider>
+    </StrictMode>,
+    {
+      onError: (error) => {
+        errors.push(error)
+      },
+    },
+  )
+  const html = await new Response(prelude).text()
+  const state = dehydrate(queryClient)
+  // Drop cached queries so their garbage-collection timers don't keep the process alive
+  queryClient.clear()
+
+  if (errors.length > 0) {
+    throw new Error(`Failed to prerender ${url}`, { cause: errors[0] })
+  }
+
+  return { language, html, state }
+}
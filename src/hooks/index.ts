@@ -1,7 +1,12 @@
+export { useAuthorSchema } from './useAuthorSchema'
 export { useBlogPosts, useBlogPost } from './useBlog'
+export { useCopyToClipboard } from './useCopyToClipboard'
 export { useHtmlLang } from './useHtmlLang'
+export { useIsHydrating } from './useIsHydrating'
+export { useMediaQuery } from './useMediaQuery'
 export { useNavigationProgress } from './useNavigationProgress'
 export type { NavigationProgressContextValue } from './useNavigationProgress'
 export { useReducedMotion } from './useReducedMotion'
+export { useSearchIndex } from './useSearchIndex'
 export { useTheme } from './useTheme'
 export type { Theme } from './useTheme'
@@ -0,0 +1,22 @@
+import { useTranslation } from 'react-i18next'
+
+import { buildPersonSchema, type PersonSchema } from '../lib/structuredData'
+
+/**
+ * Hook returning the site owner as a schema.org Person for JSON-LD
+ *
+ * Profile links come from the same environment variables as the footer's social links.
+ *
+ * @returns PersonSchema - localized job title, site URL and GitHub/LinkedIn profiles
+ */
+export function useAuthorSchema(): PersonSchema {
+  const { t } = useTranslation()
+
+  return buildPersonSchema({
+    name: t('pages.about.name'),
+    siteUrl: import.meta.env.VITE_SITE_URL,
+    jobTitle: t('pages.about.jobTitle'),
+    githubUsername: import.meta.env.VITE_GITHUB_USERNAME,
+    linkedinUsername: import.meta.env.VITE_LINKEDIN_USERNAME,
+  })
+}
@@ -1,168 +1,91 @@
 import { useTranslation } from 'react-i18next'
 
-import { useQuery } from '@tanstack/react-query'
+import { queryOptions, useQuery } from '@tanstack/react-query'
 
-import type { BlogPost, BlogLanguage } from '../types/blog'
+import { findPostBySlug } from '../lib/content/slugs'
+import type { BlogPost, BlogPostSummary, BlogLanguage } from '../types/blog'
 
-function calculateReadingTime(content: string): number {
-  const wordsPerMinute = 200
-  const wordCount = content.trim().split(/\s+/).length
-  return Math.ceil(wordCount / wordsPerMinute)
-}
-
-export function parseFrontmatterLine(line: string): [string, string] | null {
-  const trimmed = line.trim()
-  if (!trimmed || trimmed.startsWith('#')) return null
-
-  const colonIndex = trimmed.indexOf(':')
-  if (colonIndex === -1) return null
-
-  const key = trimmed.substring(0, colonIndex).trim()
-  const value = trimmed.substring(colonIndex + 1).trim()
-  return [key, value]
-}
-
-export function parseFrontmatterValue(raw: string): unknown {
-  let value = raw
-
-  if (
-    (value.startsWith('"') && value.endsWith('"')) ||
-    (value.startsWith("'") && value.endsWith("'"))
-  ) {
-    value = value.slice(1, -1)
-  }
-
-  if (value.startsWith('[') && value.endsWith(']')) {
-    return value
-      .slice(1, -1)
-      .split(',')
-      .map((item) => item.trim().replace(/['"]/g, ''))
-      .filter((item) => item.length > 0)
-  }
-
-  if (value === 'true' || value === 'false') {
-    return value === 'true'
-  }
-
-  return value
-}
-
-export function parseFrontmatter(content: string): {
-  meta: Record<string, unknown>
-  content: string
-} {
-  const lines = content.split('\n')
+// Manifests generados en build por el plugin content-manifest (un chunk por idioma)
+const blogManifests = {
+  es: async () => import('virtual:content/blog/es'),
+  en: async () => import('virtual:content/blog/en'),
+} satisfies Record<BlogLanguage, () => Promise<unknown>>
 
-  if (lines[0] !== '---') {
-    return { meta: {}, content }
-  }
-
-  const closingDelimiterLineIndex = lines.indexOf('---', 1)
-
-  if (closingDelimiterLineIndex === -1) {
-    return { meta: {}, content }
-  }
-
-  const frontmatterText = lines.slice(1, closingDelimiterLineIndex).join('\n')
-  const markdownContent = lines.slice(closingDelimiterLineIndex + 1).join('\n')
-
-  const meta: Record<string, unknown> = {}
-
-  for (const line of frontmatterText.split('\n')) {
-    const parsed = parseFrontmatterLine(line)
-    if (!parsed) continue
-    const [key, value] = parsed
-    meta[key] = parseFrontmatterValue(value)
+async function loadBlogPosts(language: BlogLanguage): Promise<BlogPostSummary[]> {
+  try {
+    const { entries } = await blogManifests[language]()
+    // El manifest ya viene ordenado por fecha (más recientes primero)
+    return entries
+  } catch (err) {
+    console.error('Error loading blog posts:', err)
+    throw new Error('Error al cargar los posts del blog', { cause: err })
   }
-
-  return { meta, content: markdownContent }
 }
 
-async function loadBlogPosts(language: BlogLanguage): Promise<BlogPost[]> {
+async function loadBlogPostContent(language: BlogLanguage, slug: string): Promise<string | null> {
   try {
-    const posts: BlogPost[] = []
-
-    // Usamos import.meta.glob para cargar los archivos markdown
-    const modules = import.meta.glob('/src/content/blog/**/*.md', {
-      query: '?raw',
-      import: 'default',
-      eager: false,
-    })
-
-    for (const [filePath, moduleLoader] of Object.entries(modules)) {
-      // Verificamos si el archivo corresponde al idioma actual
-      if (!filePath.includes(`/blog/${language}/`)) continue
-
-      try {
-        const content = await moduleLoader()
-
-        if (typeof content !== 'string') {
-          console.warn(`Expected string content from ${filePath}, got ${typeof content}`)
-          continue
-        }
-
-        const { meta, content: markdownContent } = parseFrontmatter(content)
-
-        if (!meta['title'] || !meta['date']) continue
-
-        // Extraemos el slug del nombre del archivo
-        const fileName = filePath.split('/').pop() ?? ''
-        const slug = fileName.replace('.md', '')
-
-        const post: BlogPost = {
-          meta: {
-            title: meta['title'] as string,
-            description: meta['description'] as string,
-            date: meta['date'] as string,
-            author: meta['author'] as string,
-            tags: meta['tags'] as string[],
-            featured: meta['featured'] as boolean,
-            slug,
-          },
-          content: markdownContent,
-          slug,
-          readingTime: calculateReadingTime(markdownContent),
-        }
-
-        posts.push(post)
-      } catch (postError) {
-        console.warn(`Error loading post from ${filePath}:`, postError)
-      }
-    }
-
-    // Ordenamos por fecha (más recientes primero)
-    posts.sort((a, b) => new Date(b.meta.date).getTime() - new Date(a.meta.date).getTime())
-
-    return posts
+    const { loadBody } = await blogManifests[language]()
+    return await loadBody(slug)
   } catch (err) {
-    console.error('Error loading blog posts:', err)
-    throw new Error('Error al cargar los posts del blog', { cause: err })
+    console.error(`Error loading blog post ${slug}:`, err)
+    throw new Error('Error al cargar el post del blog', { cause: err })
   }
 }
 
+// Shared with the prerenderer, which prefetches the same queries before rendering a route
+export const blogPostsQueryOptions = (language: BlogLanguage) =>
+  queryOptions({
+    queryKey: ['blog-posts', language],
+    queryFn: async () => loadBlogPosts(language),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  })
+
+export const blogPostContentQueryOptions = (language: BlogLanguage, slug: string) =>
+  queryOptions({
+    queryKey: ['blog-post-content', language, slug],
+    queryFn: async () => loadBlogPostContent(language, slug),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  })
+
 export function useBlogPosts() {
   const { i18n } = useTranslation()
   const language = i18n.language as BlogLanguage
 
   return useQuery({
-    queryKey: ['blog-posts', language],
-    queryFn: async () => loadBlogPosts(language),
-    staleTime: 5 * 60 * 1000,
-    gcTime: 10 * 60 * 1000,
+    ...blogPostsQueryOptions(language),
     // Keep previous data while fetching new language posts for smoother transitions
     placeholderData: (previousData) => previousData,
   })
 }
 
 export function useBlogPost(slug: string) {
-  const { data: posts, isLoading: postsLoading, error, refetch } = useBlogPosts()
+  const { i18n } = useTranslation()
+  const language = i18n.language as BlogLanguage
+  const { data: posts, isLoading: postsLoading, error: postsError, refetch } = useBlogPosts()
+
+  // Acepta también los slugs antiguos (nombre de fichero con fecha) para poder redirigir
+  const summary = posts ? findPostBySlug(posts, slug) : null
+  const canonicalSlug = summary?.slug ?? slug
+
+  // Solo se descarga el cuerpo del post que se está leyendo
+  const contentQuery = useQuery({
+    ...blogPostContentQueryOptions(language, canonicalSlug),
+    enabled: summary !== null,
+  })
 
-  const post = posts?.find((p) => p.slug === slug) ?? null
+  const post: BlogPost | null =
+    summary && typeof contentQuery.data === 'string'
+      ? { ...summary, content: contentQuery.data }
+      : null
+  const isLoading = postsLoading || (summary !== null && contentQuery.isLoading)
+  const error = postsError ?? contentQuery.error
 
   return {
     data: post,
-    isLoading: postsLoading,
-    error: !post && !postsLoading && !error ? new Error('Post no encontrado') : error,
+    isLoading,
+    error: !post && !isLoading && !error ? new Error('Post no encontrado') : error,
     refetch,
   }
 }
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react'
+
+const COPIED_FEEDBACK_MS = 2000
+
+/**
+ * Hook to copy text to the clipboard and show brief feedback afterwards
+ *
+ * The clipboard API is missing on insecure origins; copying then does nothing and
+ * `copied` stays false.
+ *
+ * @returns [copied, copy] - whether text was copied in the last two seconds, and the copy function
+ */
+export const useCopyToClipboard = (): [boolean, (text: string) => void] => {
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => {
+      setCopied(false)
+    }, COPIED_FEEDBACK_MS)
+    return () => {
+      clearTimeout(timeout)
+    }
+  }, [copied])
+
+  const copy = useCallback((text: string) => {
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- missing on insecure origins
+    if (!navigator.clipboard) return
+
+    navigator.clipboard
+      .writeText(text)
+      .then(() => {
+        setCopied(true)
+      })
+      .catch(() => undefined)
+  }, [])
+
+  return [copied, copy]
+}
@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from 'react'
+
+const subscribeToNothing = () => () => undefined
+
+/**
+ * Hook to tell whether React is still hydrating prerendered markup
+ *
+ * Prerendered pages know nothing about the browser (query string, platform,
+ * touch support, stored preferences). Render what the prerender rendered while
+ * this is true, so hydration matches the HTML, and the real values right after.
+ *
+ * @returns boolean - true during prerendering and hydration, false afterwards
+ */
+export const useIsHydrating = (): boolean =>
+  useSyncExternalStore(
+    subscribeToNothing,
+    () => false,
+    () => true,
+  )
@@ -0,0 +1,31 @@
+import { useCallback, useSyncExternalStore } from 'react'
+
+/**
+ * Hook to subscribe to a CSS media query
+ *
+ * Prerendered HTML is produced without a viewport, so `serverValue` is used both
+ * on the server and while hydrating. React then re-renders with the real match,
+ * which keeps the first client render identical to the prerendered markup.
+ *
+ * @param query - Media query to evaluate, e.g. `(max-width: 639px)`
+ * @param serverValue - Value assumed when there is no window or during hydration
+ * @returns boolean - whether the query currently matches
+ */
+export const useMediaQuery = (query: string, serverValue = false): boolean => {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const mediaQuery = globalThis.matchMedia(query)
+      mediaQuery.addEventListener('change', onChange)
+      return () => {
+        mediaQuery.removeEventListener('change', onChange)
+      }
+    },
+    [query],
+  )
+
+  return useSyncExternalStore(
+    subscribe,
+    () => globalThis.matchMedia(query).matches,
+    () => serverValue,
+  )
+}
@@ -0,0 +1,41 @@
+import { useTranslation } from 'react-i18next'
+
+import { queryOptions, useQuery } from '@tanstack/react-query'
+
+import type { SearchIndex } from '../lib/content/search'
+import type { BlogLanguage } from '../types/blog'
+
+// Built by the content-manifest plugin; one chunk per locale, only fetched once search is used
+const searchIndexes = {
+  es: async () => import('virtual:content/search/es'),
+  en: async () => import('virtual:content/search/en'),
+} satisfies Record<BlogLanguage, () => Promise<unknown>>
+
+async function loadSearchIndex(language: BlogLanguage): Promise<SearchIndex> {
+  try {
+    const { index } = await searchIndexes[language]()
+    return index
+  } catch (err) {
+    console.error('Error loading search index:', err)
+    throw new Error('Error al cargar el índice de búsqueda', { cause: err })
+  }
+}
+
+export const searchIndexQueryOptions = (language: BlogLanguage) =>
+  queryOptions({
+    queryKey: ['search-index', language],
+    queryFn: async () => loadSearchIndex(language),
+    staleTime: Infinity,
+    gcTime: 30 * 60 * 1000,
+  })
+
+/**
+ * Search index for the current language. Pass `enabled: false` until the user starts
+ * searching so the index chunk stays out of the initial load.
+ */
+export function useSearchIndex(enabled = true) {
+  const { i18n } = useTranslation()
+  const language = i18n.language as BlogLanguage
+
+  return useQuery({ ...searchIndexQueryOptions(language), enabled })
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react'
 
+import { useIsHydrating } from './useIsHydrating'
+
 export type Theme = 'light' | 'dark' | 'system'
 
 const THEME_STORAGE_KEY = 'theme-preference'
@@ -87,11 +89,17 @@ export function useTheme() {
     updateTheme(newTheme)
   }, [resolvedTheme, updateTheme])
 
+  // Prerendered markup is always light. While hydrating, report that theme so the
+  // first client render matches the HTML; React re-renders with the real one right after.
+  // The effects above keep using the real theme, so the <html> class never flickers.
+  const isHydrating = useIsHydrating()
+  const renderedTheme = isHydrating ? 'light' : resolvedTheme
+
   return {
-    theme,
-    resolvedTheme,
+    theme: isHydrating ? 'system' : theme,
+    resolvedTheme: renderedTheme,
     setTheme: updateTheme,
     toggleTheme,
-    isDark: resolvedTheme === 'dark',
+    isDark: renderedTheme === 'dark',
   }
 }
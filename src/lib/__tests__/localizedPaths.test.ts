@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { getLocalizedPathname, getLocalizedPaths } from '../localizedPaths'
+
+// A case study only written in English, about a repository in the snapshot
+vi.mock('virtual:content/translations', async (importOriginal) => {
+  const { translations } = await importOriginal<typeof import('virtual:content/translations')>()
+  return {
+    translations: {
+      ...translations,
+      projects: [...translations.projects, { en: 'admin-todos-story' }],
+    },
+  }
+})
+
+vi.mock('virtual:content/repositories', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('virtual:content/repositories')>()
+  return {
+    ...actual,
+    caseStudyRepositories: {
+      ...actual.caseStudyRepositories,
+      en: { ...actual.caseStudyRepositories.en, 'admin-todos-story': 'admin-todos' },
+    },
+  }
+})
+
+describe('getLocalizedPaths', () => {
+  it('maps translated blog slugs to each other', () => {
+    expect(getLocalizedPaths('/blog/react-security-guide', 'en')).toEqual({
+      es: '/blog/seguridad-aplicaciones-react',
+      en: '/blog/react-security-guide',
+    })
+  })
+
+  it('lists every locale for repositories without a case study', () => {
+    expect(getLocalizedPaths('/projects/admin-todos', 'en')).toEqual({
+      es: '/projects/admin-todos',
+      en: '/projects/admin-todos',
+    })
+    expect(getLocalizedPathname('/en/projects/admin-todos', 'es')).toBe('/es/projects/admin-todos')
+  })
+
+  it('links a case study missing in a locale to its repository page there', () => {
+    expect(getLocalizedPaths('/projects/admin-todos-story', 'en')).toEqual({
+      es: '/projects/admin-todos',
+      en: '/projects/admin-todos-story',
+    })
+    expect(getLocalizedPathname('/en/projects/admin-todos-story', 'es')).toBe(
+      '/es/projects/admin-todos',
+    )
+  })
+
+  it('only lists the current locale for unknown content', () => {
+    expect(getLocalizedPaths('/blog/missing-post', 'es')).toEqual({ es: '/blog/missing-post' })
+  })
+
+  it('maps series through the translation of their first part', () => {
+    expect(getLocalizedPaths('/blog/series/agents-in-practice/page/2', 'en')).toEqual({
+      es: '/blog/series/agentes-en-la-practica',
+      en: '/blog/series/agents-in-practice/page/2',
+    })
+  })
+
+  it('keeps tag archives in the current locale', () => {
+    expect(getLocalizedPaths('/blog/tag/agentes', 'es')).toEqual({ es: '/blog/tag/agentes' })
+    expect(getLocalizedPaths('/blog/tag/agentes/page/2', 'es')).toEqual({
+      es: '/blog/tag/agentes/page/2',
+    })
+  })
+
+  it('keeps static pages on the same path in every locale', () => {
+    expect(getLocalizedPaths('/about', 'es')).toEqual({ es: '/about', en: '/about' })
+  })
+})
+
+describe('getLocalizedPathname', () => {
+  it('switches to the translated post', () => {
+    expect(getLocalizedPathname('/es/blog/react-server-components-profundidad', 'en')).toBe(
+      '/en/blog/react-server-components-depth',
+    )
+  })
+
+  it('switches case studies by translation key', () => {
+    expect(getLocalizedPathname('/en/projects/vectos', 'es')).toBe('/es/projects/vectos')
+  })
+
+  it('falls back to the section index when there is no translation', () => {
+    expect(getLocalizedPathname('/es/blog/missing-post', 'en')).toBe('/en/blog')
+    expect(getLocalizedPathname('/es/blog/series/missing', 'en')).toBe('/en/blog')
+    expect(getLocalizedPathname('/es/blog/tag/agentes/page/2', 'en')).toBe('/en/blog')
+  })
+
+  it('swaps the locale prefix of other routes', () => {
+    expect(getLocalizedPathname('/es/contact', 'en')).toBe('/en/contact')
+    expect(getLocalizedPathname('/es/', 'en')).toBe('/en/')
+  })
+})
@@ -0,0 +1,169 @@
+import { execFile } from 'node:child_process'
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { promisify } from 'node:util'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { PROJECTS_SNAPSHOT_VERSION, parseProjectsSnapshot } from '../projectsSnapshot'
+
+const run = promisify(execFile)
+const repoRoot = path.resolve(__dirname, '../../..')
+const fixturesPath = path.join(repoRoot, 'src/test/fixtures/github')
+
+const project = {
+  id: 1,
+  name: 'demo',
+  full_name: 'octocat/demo',
+  html_url: 'https://github.com/octocat/demo',
+  description: null,
+  languages: {},
+  created_at: '2025-01-15T10:00:00Z',
+  updated_at: '2025-06-01T10:00:00Z',
+  stargazers_count: 42,
+  forks_count: 3,
+  topics: ['react'],
+}
+
+describe('parseProjectsSnapshot', () => {
+  it('reads snapshots written before versioning as version 1', () => {
+    const snapshot = parseProjectsSnapshot({
+      generatedAt: '2025-06-01T10:00:00Z',
+      source: 'generated',
+      projects: [project],
+    })
+
+    expect(snapshot.version).toBe(1)
+    expect(snapshot.projects[0]).toEqual(project)
+  })
+
+  it('validates the fields added by version 2', () => {
+    const snapshot = parseProjectsSnapshot({
+      version: 2,
+      projects: [
+        {
+          ...project,
+          license: null,
+          releases: [],
+          commit_activity: { start: '2024-12-29', weekly: [3, 0, 5] },
+          open_issues_count: 3,
+          open_pull_requests_count: 2,
+          contributors: [],
+        },
+      ],
+    })
+
+    expect(snapshot.source).toBe('fallback')
+    expect(snapshot.projects[0]?.commit_activity?.weekly).toEqual([3, 0, 5])
+    expect(() =>
+      parseProjectsSnapshot({
+        version: 2,
+        projects: [{ ...project, releases: [{ tag_name: 'v1.0.0' }] }],
+      }),
+    ).toThrow('Projects snapshot has an invalid projects[0].releases[0].name')
+    expect(() =>
+      parseProjectsSnapshot({ projects: [{ ...project, open_issues_count: -1 }] }),
+    ).toThrow('Projects snapshot has an invalid projects[0].open_issues_count')
+  })
+
+  it('rejects snapshots without projects or from a newer generator', () => {
+    expect(() => parseProjectsSnapshot({})).toThrow(
+      'Projects snapshot is invalid or missing the projects array',
+    )
+    expect(() =>
+      parseProjectsSnapshot({ version: PROJECTS_SNAPSHOT_VERSION + 1, projects: [] }),
+    ).toThrow('is newer than the supported version')
+  })
+})
+
+describe('generate-projects-snapshot', () => {
+  let outputPath: string
+
+  const generate = (fixtures: string, ...args: string[]) =>
+    run(
+      process.execPath,
+      [
+        'scripts/generate-projects-snapshot.mjs',
+        '--fixtures',
+        fixtures,
+        '--output',
+        outputPath,
+        ...args,
+      ],
+      {
+        cwd: repoRoot,
+        env: { ...process.env, VITE_GITHUB_USERNAME: 'octocat', GITHUB_TOKEN: '' },
+      },
+    )
+  const readSnapshot = async () =>
+    parseProjectsSnapshot(
+      JSON.parse(await readFile(path.join(outputPath, 'projects-snapshot.json'), 'utf8')),
+    )
+
+  beforeEach(async () => {
+    outputPath = await mkdtemp(path.join(tmpdir(), 'projects-snapshot-'))
+  })
+
+  afterEach(async () => {
+    await rm(outputPath, { recursive: true, force: true })
+  })
+
+  it('captures repository details from recorded API responses', async () => {
+    await generate(fixturesPath)
+    const snapshot = await readSnapshot()
+
+    expect(snapshot.version).toBe(PROJECTS_SNAPSHOT_VERSION)
+    expect(snapshot.source).toBe('generated')
+    expect(snapshot.projects.map(({ name }) => name)).toEqual(['demo', 'bare'])
+
+    const [demo, bare] = snapshot.projects
+    expect(demo).toMatchObject({
+      languages: { TypeScript: 750, CSS: 250 },
+      license: { spdx_id: 'MIT', name: 'MIT License' },
+      commit_activity: { start: '2024-12-29', weekly: [3, 0, 5] },
+      open_issues_count: 3,
+      open_pull_requests_count: 2,
+    })
+    expect(demo?.releases?.map(({ name }) => name)).toEqual(['Version 1.1', 'v1.0.0'])
+    expect(demo?.contributors?.map(({ login }) => login)).toEqual(['octocat', 'hubot'])
+    // Details without a recorded response fall back to empty values
+    expect(bare).toMatchObject({
+      languages: {},
+      license: null,
+      releases: [],
+      commit_activity: null,
+      contributors: [],
+    })
+
+    expect(await readdir(path.join(outputPath, 'readmes'))).toEqual(['demo.md'])
+    expect(await readFile(path.join(outputPath, 'readmes/demo.md'), 'utf8')).toContain(
+      '![Screenshot](https://raw.githubusercontent.com/octocat/demo/main/docs/screenshot.png)',
+    )
+  }, 60_000)
+
+  it('leaves out the repositories hidden by the curation', async () => {
+    const curationPath = path.join(outputPath, 'curation.yaml')
+    await writeFile(curationPath, 'version: 1\nhidden: [bare]\n')
+
+    await generate(fixturesPath, '--curation', curationPath)
+
+    // The profile repository is only hidden by the default curation
+    expect((await readSnapshot()).projects.map(({ name }) => name)).toEqual(['demo', 'octocat'])
+  }, 60_000)
+
+  it('keeps the existing snapshot when the repository list cannot be loaded', async () => {
+    const existing = {
+      version: 1,
+      generatedAt: '2025-06-01T10:00:00Z',
+      source: 'generated',
+      projects: [project],
+    }
+    await writeFile(path.join(outputPath, 'projects-snapshot.json'), JSON.stringify(existing))
+
+    const { stderr } = await generate(path.join(outputPath, 'missing-fixtures'))
+
+    expect(stderr).toContain('Snapshot refresh failed. Reusing existing snapshot.')
+    expect(await readSnapshot()).toEqual(existing)
+  }, 60_000)
+})
@@ -35,4 +35,25 @@ describe('buildLocalizedSeoUrls', () => {
       { hreflang: 'x-default', href: 'https://example.com/es/blog/my-post' },
     ])
   })
+
+  it('advertises translated paths and omits locales without a counterpart', () => {
+    expect(
+      buildLocalizedSeoUrls(
+        'https://example.com',
+        { es: '/blog/mi-post', en: '/blog/my-post' },
+        'en',
+      ).alternateUrls,
+    ).toEqual([
+      { hreflang: 'es', href: 'https://example.com/es/blog/mi-post' },
+      { hreflang: 'en', href: 'https://example.com/en/blog/my-post' },
+      { hreflang: 'x-default', href: 'https://example.com/es/blog/mi-post' },
+    ])
+
+    const result = buildLocalizedSeoUrls('https://example.com', { en: '/blog/only-en' }, 'en')
+
+    expect(result.canonicalUrl).toBe('https://example.com/en/blog/only-en')
+    expect(result.alternateUrls).toEqual([
+      { hreflang: 'en', href: 'https://example.com/en/blog/only-en' },
+    ])
+  })
 })
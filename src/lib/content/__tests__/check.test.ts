@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+
+import { checkContent, findSiteReferences, type ContentCheckInput } from '../check'
+import type { ContentSourceFile } from '../manifest'
+
+const post = (lang: string, name: string, frontmatter: string, body = 'Body') => ({
+  filePath: `src/content/blog/${lang}/${name}.md`,
+  source: `---\ntitle: ${name}\ndescription: Desc\ndate: '2026-01-01'\nauthor: Jane\n${frontmatter}\n---\n${body}`,
+})
+
+const caseStudy = (lang: string, frontmatter: string) => ({
+  filePath: `src/content/projects/${lang}/study.md`,
+  source: `---\nslug: study\ntitle: Study\nsummary: Summary\npublished: '2026-01-01'\n${frontmatter}\n---\nBody`,
+})
+
+function check(sources: Partial<Record<string, ContentSourceFile[]>>) {
+  const input: ContentCheckInput = {
+    getSources: (collection, lang) => sources[`${collection}/${lang}`] ?? [],
+    projectNames: ['repo'],
+    publicFileExists: (sitePath) => sitePath === '/images/ok.png',
+  }
+  return checkContent(input).map(
+    (issue) =>
+      `${issue.filePath}:${String(issue.line)} ${issue.field}${issue.severity ? ` (${issue.severity})` : ''}`,
+  )
+}
+
+describe('checkContent', () => {
+  it('passes consistent content', () => {
+    expect(
+      check({
+        'blog/es': [post('es', 'uno', 'tags: [React]\ntranslationKey: one')],
+        'blog/en': [
+          post('en', 'one', 'tags: [React]', '[Uno](/es/blog/uno) ![ok](/images/ok.png)'),
+        ],
+        'projects/es': [caseStudy('es', 'repoName: repo\nrelatedPosts: [uno]')],
+        'projects/en': [caseStudy('en', 'repoName: repo\nrelatedPosts: [one]')],
+      }),
+    ).toEqual([])
+  })
+
+  it('reports schema errors, duplicate slugs and missing translations per file', () => {
+    expect(
+      check({
+        'blog/es': [post('es', 'a', 'slug: same'), post('es', 'b', 'slug: same')],
+        'blog/en': [post('en', 'a', 'slug: same'), post('en', 'broken', 'tags: 3')],
+      }),
+    ).toEqual([
+      'src/content/blog/en/broken.md:6 tags',
+      'src/content/blog/es/b.md:undefined slug',
+      'src/content/blog/es/b.md:undefined translationKey',
+    ])
+  })
+
+  it('reports tags written differently from the rest of the posts', () => {
+    expect(
+      check({
+        'blog/es': [post('es', 'a', 'tags: [React]'), post('es', 'b', 'tags: [react]')],
+        'blog/en': [post('en', 'a', 'tags: [React]'), post('en', 'b', 'tags: [React]')],
+      }),
+    ).toEqual(['src/content/blog/es/b.md:6 tags'])
+  })
+
+  it('warns about unknown repositories and reports unknown related posts in case studies', () => {
+    expect(
+      check({
+        'projects/es': [caseStudy('es', 'repoName: missing\nrelatedPosts: [nope]')],
+        'projects/en': [caseStudy('en', 'repoName: repo')],
+      }),
+    ).toEqual([
+      'src/content/projects/es/study.md:6 repoName (warning)',
+      'src/content/projects/es/study.md:7 relatedPosts',
+    ])
+  })
+
+  it('reports broken links and missing images with their body line', () => {
+    const body = [
+      '[Contact](/contact)',
+      '[Missing post](/en/blog/nope) and [Tag](/en/blog/tag/react/page/2)',
+      '![Missing](/images/missing.png)',
+      '[Repository](/en/projects/repo) and [Missing repository](/en/projects/nope)',
+      '[Malformed](/en/blog/100%-done)',
+      '```md',
+      '[Example](/en/blog/example)',
+      '```',
+    ].join('\n')
+
+    expect(
+      check({
+        'blog/en': [post('en', 'a', 'tags: [React]\ntranslationKey: a', body)],
+        'blog/es': [post('es', 'a', 'tags: [React]')],
+      }),
+    ).toEqual([
+      'src/content/blog/en/a.md:9 link',
+      'src/content/blog/en/a.md:10 link',
+      'src/content/blog/en/a.md:11 image',
+      'src/content/blog/en/a.md:12 link',
+      'src/content/blog/en/a.md:13 link',
+    ])
+  })
+})
+
+describe('findSiteReferences', () => {
+  it('finds markdown and HTML targets outside inline code', () => {
+    const source = '---\ntitle: x\n---\n<img src="/a.png"> `[no](/b)` [yes](/c#part "Title")'
+
+    expect(findSiteReferences(source)).toEqual([
+      { target: '/c#part', isImage: false, line: 4 },
+      { target: '/a.png', isImage: true, line: 4 },
+    ])
+  })
+})
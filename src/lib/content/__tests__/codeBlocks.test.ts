@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseCodeMeta, rehypeCodeBlocks } from '../codeBlocks'
+import { getNodeText, type HastNode } from '../hast'
+
+describe('parseCodeMeta', () => {
+  it('reads the title, highlighted line ranges and line number flag', () => {
+    expect(parseCodeMeta('title="useBlog.ts" {1,3-5,4} showLineNumbers')).toEqual({
+      title: 'useBlog.ts',
+      highlightedLines: [1, 3, 4, 5],
+      showLineNumbers: true,
+    })
+  })
+
+  it('accepts unquoted titles and ignores invalid ranges', () => {
+    expect(parseCodeMeta('title=vite.config.ts {5-2}')).toEqual({
+      title: 'vite.config.ts',
+      highlightedLines: [],
+      showLineNumbers: false,
+    })
+    expect(parseCodeMeta(undefined)).toEqual({ highlightedLines: [], showLineNumbers: false })
+  })
+})
+
+function codeBlock(language: string, children: HastNode[], meta?: string): HastNode {
+  return {
+    type: 'root',
+    children: [
+      {
+        type: 'element',
+        tagName: 'pre',
+        properties: {},
+        children: [
+          {
+            type: 'element',
+            tagName: 'code',
+            properties: { className: [`language-${language}`], ...(meta && { dataMeta: meta }) },
+            children,
+          },
+        ],
+      },
+    ],
+  }
+}
+
+function getLines(tree: HastNode): HastNode[] {
+  const code = tree.children?.[0]?.children?.[0]
+  return (code?.children ?? []).filter((child) => child.type === 'element')
+}
+
+describe('rehypeCodeBlocks', () => {
+  it('splits highlighted code into lines, cloning spans across line breaks', () => {
+    const tree = codeBlock(
+      'ts',
+      [
+        {
+          type: 'element',
+          tagName: 'span',
+          properties: { className: ['hljs-comment'] },
+          children: [{ type: 'text', value: '/* one\ntwo */' }],
+        },
+        { type: 'text', value: '\nconst a = 1\n' },
+      ],
+      'title="a.ts" {2} showLineNumbers',
+    )
+
+    rehypeCodeBlocks()(tree)
+
+    const lines = getLines(tree)
+    expect(lines.map(getNodeText)).toEqual(['/* one', 'two */', 'const a = 1'])
+    expect(lines[1]?.children?.[0]?.properties?.['className']).toEqual(['hljs-comment'])
+    expect(lines.map((line) => line.properties?.['dataHighlighted'])).toEqual([
+      undefined,
+      'true',
+      undefined,
+    ])
+    expect(getNodeText(tree)).toBe('/* one\ntwo */\nconst a = 1')
+    expect(tree.children?.[0]?.properties).toMatchObject({
+      dataLanguage: 'ts',
+      dataTitle: 'a.ts',
+      dataLineCount: 3,
+      dataLineNumbers: 'true',
+    })
+  })
+
+  it('marks added and removed lines in diff blocks', () => {
+    const tree = codeBlock('diff', [{ type: 'text', value: ' same\n-old\n+new\n' }])
+
+    rehypeCodeBlocks()(tree)
+
+    expect(getLines(tree).map((line) => line.properties?.['dataDiff'])).toEqual([
+      undefined,
+      'remove',
+      'add',
+    ])
+  })
+
+  it('leaves Mermaid blocks to the diagram component', () => {
+    const tree = codeBlock('mermaid', [{ type: 'text', value: 'graph TD\n  A --> B\n' }])
+
+    rehypeCodeBlocks()(tree)
+
+    expect(getLines(tree)).toEqual([])
+  })
+})
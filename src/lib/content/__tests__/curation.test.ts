@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+
+import { applyCuration, checkCuration, parseCuration } from '../curation'
+import { ContentValidationError } from '../frontmatter'
+
+import type { GitHubProject } from '../../../types'
+
+const project = (name: string, created: string, id = 1): GitHubProject => ({
+  id,
+  name,
+  full_name: `octocat/${name}`,
+  html_url: `https://github.com/octocat/${name}`,
+  description: `${name} on GitHub`,
+  created_at: created,
+  updated_at: created,
+  homepage: null,
+  stargazers_count: 0,
+  forks_count: 0,
+  topics: [],
+})
+
+function parseIssues(source: string) {
+  try {
+    parseCuration(source)
+  } catch (error) {
+    if (error instanceof ContentValidationError) {
+      return error.issues.map((issue) => `${String(issue.line)} ${issue.field}: ${issue.message}`)
+    }
+    throw error
+  }
+  return []
+}
+
+describe('parseCuration', () => {
+  it('fills in the lists left out', () => {
+    expect(parseCuration('version: 1\nhidden:\n  - 42\n  - dotfiles\n')).toEqual({
+      version: 1,
+      hidden: [42, 'dotfiles'],
+      pinned: [],
+      overrides: {},
+    })
+  })
+
+  it('reports every invalid field with its line', () => {
+    expect(
+      parseIssues(
+        [
+          'version: 1',
+          'pinned: [demo, demo]',
+          'overrides:',
+          '  demo:',
+          '    homepage: ftp://demo.example.com',
+          '    cover: images/demo.png',
+          '    tagline: Unknown field',
+        ].join('\n'),
+      ),
+    ).toEqual([
+      '3 overrides.demo.homepage: Must be an http(s) URL',
+      '3 overrides.demo.cover: Must be a site path starting with / or an http(s) URL',
+      '3 overrides.demo: Unrecognized key: "tagline"',
+    ])
+    expect(parseIssues('version: 1\nhidden: [demo]\npinned: [demo, demo]')).toEqual([
+      '3 pinned: Must not list a repository twice',
+      '3 pinned: Must not list hidden repositories',
+    ])
+  })
+
+  it('rejects other versions and malformed YAML', () => {
+    expect(parseIssues('version: 2')).toEqual([
+      '1 version: Unsupported curation version, expected 1',
+    ])
+    expect(parseIssues('- demo')).toEqual(['1 curation: The curation must be a YAML mapping'])
+    expect(parseIssues('version: 1\npinned: [demo')).toHaveLength(1)
+  })
+})
+
+describe('checkCuration', () => {
+  it('reports repositories missing from the snapshot and missing cover images', () => {
+    const source = [
+      'version: 1',
+      'hidden: [gone]',
+      'pinned: [demo, ghost]',
+      'overrides:',
+      '  demo:',
+      '    cover: /images/missing.png',
+      '  other:',
+      '    cover: https://example.com/cover.png',
+    ].join('\n')
+
+    expect(
+      checkCuration(parseCuration(source), source, ['demo'], () => false).map(
+        (issue) => `${String(issue.line)} ${issue.field}: ${issue.message}`,
+      ),
+    ).toEqual([
+      '3 pinned: "ghost" is not a repository in the projects snapshot',
+      '4 overrides.demo.cover: /images/missing.png: Image not found under public/',
+      '4 overrides.other: "other" is not a repository in the projects snapshot',
+    ])
+  })
+})
+
+describe('applyCuration', () => {
+  const projects = [
+    project('old', '2023-01-01T00:00:00Z', 1),
+    project('new', '2025-01-01T00:00:00Z', 2),
+    project('profile', '2024-01-01T00:00:00Z', 3),
+    project('featured', '2022-01-01T00:00:00Z', 4),
+    project('middle', '2024-06-01T00:00:00Z', 5),
+  ]
+  const curation = parseCuration(
+    [
+      'version: 1',
+      'hidden: [3]',
+      'pinned: [featured, old]',
+      'overrides:',
+      '  featured:',
+      '    name:',
+      '      en: Featured project',
+      '    description:',
+      '      es: Proyecto destacado',
+      '    homepage: https://featured.example.com',
+      '    cover: /images/featured.png',
+    ].join('\n'),
+  )
+
+  it('hides, pins and orders the repositories', () => {
+    const curated = applyCuration(projects, curation, 'en')
+
+    expect(curated.map(({ name }) => name)).toEqual(['featured', 'old', 'new', 'middle'])
+    expect(curated.map(({ pinned }) => pinned)).toEqual([true, true, undefined, undefined])
+  })
+
+  it('applies the overrides of the current locale', () => {
+    expect(applyCuration(projects, curation, 'en')[0]).toMatchObject({
+      display_name: 'Featured project',
+      description: 'featured on GitHub',
+      homepage: 'https://featured.example.com',
+      cover_image: '/images/featured.png',
+    })
+    const [spanish] = applyCuration(projects, curation, 'es')
+    expect(spanish?.display_name).toBeUndefined()
+    expect(spanish?.description).toBe('Proyecto destacado')
+  })
+})
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { formatContentDate } from '../dates'
+
+describe('formatContentDate', () => {
+  const timeZone = process.env.TZ
+
+  afterEach(() => {
+    process.env.TZ = timeZone
+  })
+
+  it('formats calendar days in the reader language', () => {
+    expect(formatContentDate('2025-03-05', 'en')).toBe('March 5, 2025')
+    expect(formatContentDate('2025-03-05', 'es')).toBe('5 de marzo de 2025')
+    expect(formatContentDate('2025-03-05', 'en', 'short')).toBe('Mar 5, 2025')
+  })
+
+  it('keeps the day for readers west of UTC', () => {
+    process.env.TZ = 'America/Los_Angeles'
+
+    expect(formatContentDate('2025-03-01', 'en')).toBe('March 1, 2025')
+  })
+})
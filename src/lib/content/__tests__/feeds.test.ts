@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+
+import { getFeedLinks } from '../feedPaths'
+import { buildFeeds } from '../feeds'
+import { buildBlogManifest } from '../manifest'
+
+const source = [
+  '---',
+  'slug: tips-tricks',
+  "title: 'Tips & <Tricks>'",
+  'description: Useful things',
+  "date: '2026-01-02'",
+  "updated: '2026-02-10'",
+  'author: Jane',
+  'tags: [react, testing]',
+  '---',
+  'See [the docs](/en/blog/other) and **bold** text.',
+].join('\n')
+
+const feeds = buildFeeds({
+  siteUrl: 'https://example.com/',
+  language: 'en',
+  title: 'Jane — Blog',
+  description: 'Notes',
+  author: 'Jane',
+  documents: buildBlogManifest([{ filePath: 'src/content/blog/en/2026-01-02-tips.md', source }]),
+})
+
+describe('buildFeeds', () => {
+  it('renders an RSS 2.0 channel with escaped metadata and full HTML', () => {
+    expect(feeds.rss).toContain('<link>https://example.com/en/blog</link>')
+    expect(feeds.rss).toContain('<title>Tips &amp; &lt;Tricks&gt;</title>')
+    expect(feeds.rss).toContain(
+      '<guid isPermaLink="true">https://example.com/en/blog/tips-tricks</guid>',
+    )
+    expect(feeds.rss).toContain('<lastBuildDate>Tue, 10 Feb 2026 00:00:00 GMT</lastBuildDate>')
+    expect(feeds.rss).toContain('<pubDate>Fri, 02 Jan 2026 00:00:00 GMT</pubDate>')
+    expect(feeds.rss).toContain('<category>testing</category>')
+    expect(feeds.rss).toContain('&lt;strong&gt;bold&lt;/strong&gt;')
+    expect(feeds.rss).toContain('href="https://example.com/en/feed.xml" rel="self"')
+  })
+
+  it('renders an Atom feed with RFC 3339 dates', () => {
+    expect(feeds.atom).toContain('<id>https://example.com/en/atom.xml</id>')
+    expect(feeds.atom).toContain('<published>2026-01-02T00:00:00.000Z</published>')
+    expect(feeds.atom).toContain('    <updated>2026-02-10T00:00:00.000Z</updated>')
+    expect(feeds.atom).toContain('<category term="react"/>')
+  })
+
+  it('renders a JSON Feed 1.1 with absolute links in the content', () => {
+    const json = JSON.parse(feeds.json) as {
+      version: string
+      items: { id: string; tags: string[]; content_html: string; date_modified: string }[]
+    }
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1')
+    expect(json.items[0]?.id).toBe('https://example.com/en/blog/tips-tricks')
+    expect(json.items[0]?.tags).toEqual(['react', 'testing'])
+    expect(json.items[0]?.date_modified).toBe('2026-02-10T00:00:00.000Z')
+    expect(json.items[0]?.content_html).toContain('href="https://example.com/en/blog/other"')
+  })
+})
+
+describe('getFeedLinks', () => {
+  it('lists every feed format for auto-discovery', () => {
+    expect(getFeedLinks('https://example.com/', 'es', 'Blog')).toEqual([
+      { type: 'application/rss+xml', href: 'https://example.com/es/feed.xml', title: 'Blog (RSS)' },
+      {
+        type: 'application/atom+xml',
+        href: 'https://example.com/es/atom.xml',
+        title: 'Blog (Atom)',
+      },
+      {
+        type: 'application/feed+json',
+        href: 'https://example.com/es/feed.json',
+        title: 'Blog (JSON Feed)',
+      },
+    ])
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+
+import { ContentValidationError, parseFrontmatter } from '../frontmatter'
+
+describe('parseFrontmatter', () => {
+  it('parses full frontmatter correctly', () => {
+    const input = `---\ntitle: Hello\ndescription: Example post\ndate: 2024-01-01\nauthor: Jane Doe\ntags: [a, b, c]\nfeatured: true\n---\nContent here`
+
+    expect(parseFrontmatter(input)).toEqual({
+      meta: {
+        title: 'Hello',
+        description: 'Example post',
+        date: '2024-01-01',
+        author: 'Jane Doe',
+        tags: ['a', 'b', 'c'],
+        featured: true,
+      },
+      content: 'Content here',
+    })
+  })
+
+  it('returns original content when no frontmatter exists', () => {
+    const content = 'Just markdown content\nwith two lines'
+    expect(parseFrontmatter(content)).toEqual({ meta: {}, content })
+  })
+
+  it('handles empty frontmatter', () => {
+    expect(parseFrontmatter('---\n---\nSome content')).toEqual({
+      meta: {},
+      content: 'Some content',
+    })
+  })
+
+  it('parses minimal fields', () => {
+    expect(parseFrontmatter('---\ntitle: Minimal\ndate: 2024-01-01\n---\nBody')).toEqual({
+      meta: {
+        title: 'Minimal',
+        date: '2024-01-01',
+      },
+      content: 'Body',
+    })
+  })
+
+  it('preserves content newlines after frontmatter', () => {
+    expect(parseFrontmatter('---\ntitle: Test\n---\nLine 1\nLine 2\nLine 3')).toEqual({
+      meta: { title: 'Test' },
+      content: 'Line 1\nLine 2\nLine 3',
+    })
+  })
+
+  it('parses metadata even when markdown content is empty after closing delimiter', () => {
+    expect(
+      parseFrontmatter('---\ntitle: Standalone\ndate: 2024-01-01\nfeatured: true\n---'),
+    ).toEqual({
+      meta: { title: 'Standalone', date: '2024-01-01', featured: true },
+      content: '',
+    })
+  })
+
+  it('keeps values containing commas and colons intact', () => {
+    const { meta } = parseFrontmatter(
+      "---\ntitle: 'Vectos: local-first, fast'\ntags: ['a, b', c]\n---\nBody",
+    )
+
+    expect(meta).toEqual({ title: 'Vectos: local-first, fast', tags: ['a, b', 'c'] })
+  })
+
+  it('parses block lists', () => {
+    const { meta } = parseFrontmatter(
+      "---\noutcomes:\n  - 'Hybrid retrieval: semantic search'\n  - Incremental reindexing\n---\n",
+    )
+
+    expect(meta['outcomes']).toEqual([
+      'Hybrid retrieval: semantic search',
+      'Incremental reindexing',
+    ])
+  })
+
+  it('parses nested maps and multi-line strings', () => {
+    const { meta } = parseFrontmatter(
+      '---\nseo:\n  image: /og.png\n  noindex: false\nsummary: >\n  First line\n  second line\n---\n',
+    )
+
+    expect(meta).toEqual({
+      seo: { image: '/og.png', noindex: false },
+      summary: 'First line second line\n',
+    })
+  })
+
+  it('keeps unquoted dates and numbers as YAML scalars', () => {
+    const { meta } = parseFrontmatter('---\ndate: 2024-01-01\norder: 2\n---\n')
+
+    expect(meta).toEqual({ date: '2024-01-01', order: 2 })
+  })
+
+  it('reports the file path and line of YAML syntax errors', () => {
+    let caught: unknown
+    try {
+      parseFrontmatter('---\ntitle: ok\ntags: [a, b\n---\nBody', 'src/content/blog/en/post.md')
+    } catch (error) {
+      caught = error
+    }
+
+    expect(caught).toBeInstanceOf(ContentValidationError)
+    const [issue] = (caught as ContentValidationError).issues
+    expect(issue).toMatchObject({ filePath: 'src/content/blog/en/post.md', field: 'frontmatter' })
+    expect(issue?.line).toBeGreaterThan(1)
+  })
+})
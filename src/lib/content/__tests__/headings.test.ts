@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  createHeadingSlugger,
+  getTableOfContents,
+  rehypeHeadingIds,
+  slugifyHeading,
+} from '../headings'
+
+describe('slugifyHeading', () => {
+  it('keeps accented letters and hyphenates the rest', () => {
+    expect(slugifyHeading('Configuración rápida: ¿por qué?')).toBe('configuración-rápida-por-qué')
+  })
+
+  it('normalizes decomposed accents so both spellings match', () => {
+    expect(slugifyHeading('Cafe\u0301')).toBe(slugifyHeading('Caf\u00e9'))
+  })
+})
+
+describe('createHeadingSlugger', () => {
+  it('suffixes repeated headings', () => {
+    const slug = createHeadingSlugger()
+    expect([slug('Ejemplo'), slug('Ejemplo'), slug('ejemplo'), slug('???')]).toEqual([
+      'ejemplo',
+      'ejemplo-1',
+      'ejemplo-2',
+      'section',
+    ])
+  })
+})
+
+describe('getTableOfContents', () => {
+  it('lists level 2 and 3 headings outside code blocks with unique ids', () => {
+    const markdown = [
+      '# Title',
+      '## Introducción',
+      '### `useActionState` y **forms**',
+      '```md',
+      '## Not a heading',
+      '```',
+      '## Introducción',
+      '#### Too deep',
+    ].join('\n')
+
+    expect(getTableOfContents(markdown)).toEqual([
+      { id: 'introducción', text: 'Introducción', level: 2 },
+      { id: 'useactionstate-y-forms', text: 'useActionState y forms', level: 3 },
+      { id: 'introducción-1', text: 'Introducción', level: 2 },
+    ])
+  })
+})
+
+describe('rehypeHeadingIds', () => {
+  it('assigns the same ids as the table of contents', () => {
+    const heading = (tagName: string, ...children: object[]) => ({
+      type: 'element',
+      tagName,
+      properties: {},
+      children,
+    })
+    const text = (value: string) => ({ type: 'text', value })
+    const tree = {
+      type: 'root',
+      children: [
+        heading('h2', text('Introducción')),
+        heading('h3', heading('code', text('useActionState')), text(' y '), text('forms')),
+        heading('h2', text('Introducción')),
+      ],
+    }
+
+    rehypeHeadingIds()(tree)
+
+    expect(tree.children.map((node) => node.properties)).toEqual([
+      { id: 'introducción' },
+      { id: 'useactionstate-y-forms' },
+      { id: 'introducción-1' },
+    ])
+  })
+})
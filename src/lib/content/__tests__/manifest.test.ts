@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest'
+
+import { ContentValidationError } from '../frontmatter'
+import { buildBlogManifest, buildCaseStudyManifest } from '../manifest'
+
+const post = (date: string, title = 'Post') =>
+  `---\ntitle: ${title}\ndescription: Desc\ndate: '${date}'\nauthor: Jane\ntags: [react]\n---\nHello world`
+
+describe('buildBlogManifest', () => {
+  it('falls back to undated file names for slugs and sorts by date descending', () => {
+    const manifest = buildBlogManifest([
+      { filePath: 'src/content/blog/en/2025-01-01-old.md', source: post('2025-01-01', 'Old') },
+      { filePath: 'src/content/blog/en/2026-01-01-new.md', source: post('2026-01-01', 'New') },
+    ])
+
+    expect(manifest.map((document) => document.entry.slug)).toEqual(['new', 'old'])
+    expect(manifest[0]?.entry.legacySlugs).toEqual(['2026-01-01-new'])
+    expect(manifest[0]?.entry.meta.title).toBe('New')
+    expect(manifest[0]?.entry.readingTime).toBe(1)
+  })
+
+  it('keeps bodies out of the entry metadata', () => {
+    const [document] = buildBlogManifest([
+      { filePath: 'src/content/blog/en/2026-01-01-new.md', source: post('2026-01-01') },
+    ])
+
+    expect(document?.body).toBe('Hello world')
+    expect(document?.entry).not.toHaveProperty('content')
+  })
+
+  it('reports every invalid field with its file path instead of skipping the post', () => {
+    const build = () =>
+      buildBlogManifest([
+        { filePath: 'src/content/blog/en/a.md', source: '---\ntitle: No date\n---\nBody' },
+        { filePath: 'src/content/blog/en/b.md', source: post('not-a-date') },
+      ])
+
+    expect(build).toThrow(ContentValidationError)
+    try {
+      build()
+    } catch (error) {
+      const issues = (error as ContentValidationError).issues
+      expect(issues.map((issue) => `${issue.filePath}#${issue.field}`)).toEqual([
+        'src/content/blog/en/a.md#description',
+        'src/content/blog/en/a.md#date',
+        'src/content/blog/en/a.md#author',
+        'src/content/blog/en/b.md#date',
+      ])
+      expect(issues[3]?.line).toBe(4)
+    }
+  })
+})
+
+describe('buildBlogManifest publication state', () => {
+  const files = [
+    { filePath: 'src/content/blog/en/live.md', source: post('2026-01-01', 'Live') },
+    {
+      filePath: 'src/content/blog/en/draft.md',
+      source: post('2026-01-01', 'Draft').replace('tags:', 'draft: true\ntags:'),
+    },
+    { filePath: 'src/content/blog/en/scheduled.md', source: post('2026-03-01', 'Scheduled') },
+    {
+      filePath: 'src/content/blog/en/unlisted.md',
+      source: post('2026-01-01', 'Unlisted').replace('tags:', 'unlisted: true\ntags:'),
+    },
+  ]
+  const now = new Date('2026-02-01T12:00:00Z')
+
+  it('leaves drafts and scheduled posts out of production builds', () => {
+    const slugs = buildBlogManifest(files, { now }).map((document) => document.entry.slug)
+    expect(slugs.sort()).toEqual(['live', 'unlisted'])
+  })
+
+  it('keeps them in preview mode', () => {
+    expect(buildBlogManifest(files, { now, preview: true })).toHaveLength(4)
+  })
+
+  it('publishes scheduled posts once their date has come', () => {
+    const later = new Date('2026-03-01T00:00:00Z')
+    expect(buildBlogManifest(files, { now: later })).toHaveLength(3)
+  })
+})
+
+describe('buildBlogManifest slugs', () => {
+  it('rejects two posts claiming the same slug', () => {
+    expect(() =>
+      buildBlogManifest([
+        { filePath: 'src/content/blog/en/2025-01-01-a.md', source: post('2025-01-01') },
+        {
+          filePath: 'src/content/blog/en/2026-01-01-b.md',
+          source: post('2026-01-01').replace('---\ntitle', '---\nslug: a\ntitle'),
+        },
+      ]),
+    ).toThrow(/"a" is already used by src\/content\/blog\/en\/2025-01-01-a\.md/)
+  })
+
+  it('derives translation keys from undated file names and rejects duplicates', () => {
+    const [document] = buildBlogManifest([
+      { filePath: 'src/content/blog/es/2025-01-01-a.md', source: post('2025-01-01') },
+    ])
+    expect(document?.entry.translationKey).toBe('a')
+
+    expect(() =>
+      buildBlogManifest([
+        { filePath: 'src/content/blog/en/2025-01-01-a.md', source: post('2025-01-01') },
+        {
+          filePath: 'src/content/blog/en/2026-01-01-b.md',
+          source: post('2026-01-01').replace('---\ntitle', '---\ntranslationKey: a\ntitle'),
+        },
+      ]),
+    ).toThrow(/translationKey/)
+  })
+})
+
+describe('buildBlogManifest revisions', () => {
+  const revised = (frontmatter: string) => ({
+    filePath: 'src/content/blog/en/2025-01-01-a.md',
+    source: post('2025-01-01').replace('---\ntitle', `---\n${frontmatter}\ntitle`),
+  })
+
+  it('sorts the changelog newest first and dates the post by its latest entry', () => {
+    const [document] = buildBlogManifest([
+      revised(
+        'changelog:\n  - date: 2025-02-01\n    description: Fixed a typo\n  - date: 2025-06-01\n    description: Covered React 19.1',
+      ),
+    ])
+
+    expect(document?.entry.meta).toMatchObject({
+      updated: '2025-06-01',
+      changelog: [
+        { date: '2025-06-01', description: 'Covered React 19.1' },
+        { date: '2025-02-01', description: 'Fixed a typo' },
+      ],
+    })
+  })
+
+  it('keeps an explicit updated date', () => {
+    const [document] = buildBlogManifest([revised("updated: '2025-03-01'")])
+
+    expect(document?.entry.meta.updated).toBe('2025-03-01')
+    expect(document?.entry.meta.changelog).toBeUndefined()
+  })
+
+  it('rejects revisions dated before the post', () => {
+    expect(() => buildBlogManifest([revised("updated: '2024-12-31'")])).toThrow(/updated/)
+    expect(() =>
+      buildBlogManifest([revised("changelog:\n  - date: '2024-12-31'\n    description: Early")]),
+    ).toThrow(/changelog/)
+  })
+})
+
+describe('buildBlogManifest series', () => {
+  const inSeries = (date: string, order: number) =>
+    post(date).replace('---\ntitle', `---\nseries: Agents\nseriesOrder: ${String(order)}\ntitle`)
+
+  it('keeps the series name and position in the metadata', () => {
+    const [document] = buildBlogManifest([
+      { filePath: 'src/content/blog/en/2025-01-01-a.md', source: inSeries('2025-01-01', 1) },
+    ])
+
+    expect(document?.entry.meta).toMatchObject({ series: 'Agents', seriesOrder: 1 })
+  })
+
+  it('rejects two parts with the same position', () => {
+    expect(() =>
+      buildBlogManifest([
+        { filePath: 'src/content/blog/en/2025-01-01-a.md', source: inSeries('2025-01-01', 1) },
+        { filePath: 'src/content/blog/en/2025-02-01-b.md', source: inSeries('2025-02-01', 1) },
+      ]),
+    ).toThrow(/"Agents #1" is already used/)
+  })
+
+  it('rejects a series position without a series', () => {
+    expect(() =>
+      buildBlogManifest([
+        {
+          filePath: 'src/content/blog/en/2025-01-01-a.md',
+          source: post('2025-01-01').replace('---\ntitle', '---\nseriesOrder: 2\ntitle'),
+        },
+      ]),
+    ).toThrow(/seriesOrder/)
+  })
+})
+
+describe('buildCaseStudyManifest', () => {
+  it('uses the frontmatter slug and sorts by publication date', () => {
+    const caseStudy = (slug: string, published: string) =>
+      `---\nslug: ${slug}\ntitle: ${slug}\nsummary: S\npublished: '${published}'\nrepoName: ${slug}\n---\nBody`
+
+    const manifest = buildCaseStudyManifest([
+      { filePath: 'a.md', source: caseStudy('first', '2025-01-01') },
+      { filePath: 'b.md', source: caseStudy('second', '2026-01-01') },
+    ])
+
+    expect(manifest.map((document) => document.entry.slug)).toEqual(['second', 'first'])
+  })
+
+  it('rejects case studies without a repository name', () => {
+    expect(() =>
+      buildCaseStudyManifest([
+        {
+          filePath: 'a.md',
+          source: "---\nslug: x\ntitle: X\nsummary: S\npublished: '2026-01-01'\n---\nBody",
+        },
+      ]),
+    ).toThrow(/a\.md:? › repoName/)
+  })
+
+  it('keeps block-list outcomes and normalises YAML dates', () => {
+    const [document] = buildCaseStudyManifest([
+      {
+        filePath: 'a.md',
+        source:
+          "---\nslug: x\ntitle: X\nsummary: S\npublished: 2026-01-01\nrepoName: x\noutcomes:\n  - 'One: two'\n  - Three\n---\nBody",
+      },
+    ])
+
+    expect(document?.entry.meta.outcomes).toEqual(['One: two', 'Three'])
+    expect(document?.entry.meta.published).toBe('2026-01-01')
+  })
+})
+
+describe('content-manifest virtual modules', () => {
+  it('exposes per-locale entries with lazily loadable bodies', async () => {
+    const { entries, loadBody } = await import('virtual:content/blog/en')
+
+    expect(entries.length).toBeGreaterThan(0)
+    const [first] = entries
+    expect(await loadBody(first?.slug ?? '')).toEqual(expect.any(String))
+    expect(await loadBody('does-not-exist')).toBeNull()
+  })
+})
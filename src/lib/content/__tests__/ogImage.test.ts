@@ -0,0 +1,93 @@
+import { isValidElement } from 'react'
+import { describe, expect, it } from 'vitest'
+
+import { buildBlogManifest, buildCaseStudyManifest } from '../manifest'
+import { createBlogOgImageCard, createCaseStudyOgImageCard, renderOgImageElement } from '../ogImage'
+import { getOgImagePath, getOgImageUrl } from '../ogImagePaths'
+
+const [post] = buildBlogManifest([
+  {
+    filePath: 'src/content/blog/es/2026-01-02-tips.md',
+    source: [
+      '---',
+      'slug: trucos',
+      'title: Trucos',
+      'description: Cosas útiles',
+      "date: '2026-01-02'",
+      'author: Jane',
+      'tags: [react, testing, vitest, a11y, css]',
+      '---',
+      'Cuerpo',
+    ].join('\n'),
+  },
+])
+
+const [caseStudy] = buildCaseStudyManifest([
+  {
+    filePath: 'src/content/projects/en/demo.md',
+    source: [
+      '---',
+      'slug: demo',
+      'title: Demo',
+      'summary: A demo project',
+      "published: '2025-12-31'",
+      'repoName: demo',
+      'role: Creator',
+      '---',
+      'Body',
+    ].join('\n'),
+  },
+])
+
+describe('getOgImagePath', () => {
+  it('places cards under /og by locale and collection', () => {
+    expect(getOgImagePath('en', 'blog', 'tips')).toBe('/og/en/blog/tips.png')
+    expect(getOgImagePath('es', 'projects', 'demo')).toBe('/og/es/projects/demo.png')
+  })
+
+  it('builds absolute URLs for the og:image tag', () => {
+    expect(getOgImageUrl('https://example.com/', 'en', 'blog', 'tips')).toBe(
+      'https://example.com/og/en/blog/tips.png',
+    )
+  })
+})
+
+describe('OG image cards', () => {
+  const labels = { eyebrow: 'Blog', readingTime: '{{minutes}} min de lectura' }
+
+  it('describes a blog post with localized date, reading time and up to four tags', () => {
+    expect(createBlogOgImageCard(post!.entry, 'es', labels)).toEqual({
+      language: 'es',
+      eyebrow: 'Blog',
+      title: 'Trucos',
+      tags: ['react', 'testing', 'vitest', 'a11y'],
+      date: '2 de enero de 2026',
+      readingTime: '1 min de lectura',
+    })
+  })
+
+  it('uses role and status as the chips of a case study', () => {
+    const card = createCaseStudyOgImageCard(caseStudy!.entry, 'en', {
+      eyebrow: 'Case study',
+      readingTime: '{{minutes}} min read',
+    })
+
+    expect(card.tags).toEqual(['Creator'])
+    expect(card.date).toBe('December 31, 2025')
+  })
+
+  it('renders an element tree sized for Open Graph', () => {
+    const card = createBlogOgImageCard(post!.entry, 'es', labels)
+    const element = renderOgImageElement(card, 'dark', {
+      mark: '<J/>',
+      name: 'Jane',
+      siteUrl: 'https://example.com',
+    })
+
+    expect(isValidElement(element)).toBe(true)
+    expect((element.props as { style: { width: number; height: number } }).style).toMatchObject({
+      width: 1200,
+      height: 630,
+    })
+  })
+})
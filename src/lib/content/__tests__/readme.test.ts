@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+
+import { resolveReadmeUrl, resolveReadmeUrls } from '../readme'
+
+const source = { fullName: 'octocat/demo', branch: 'main', path: 'README.md' }
+
+describe('resolveReadmeUrl', () => {
+  it('points images at raw files and other links at their GitHub page', () => {
+    expect(resolveReadmeUrl('./docs/screenshot.png', source)).toBe(
+      'https://raw.githubusercontent.com/octocat/demo/main/docs/screenshot.png',
+    )
+    expect(resolveReadmeUrl('CONTRIBUTING.md#setup', source)).toBe(
+      'https://github.com/octocat/demo/blob/main/CONTRIBUTING.md#setup',
+    )
+  })
+
+  it('resolves paths from the README folder, or the root for root-relative ones', () => {
+    const nested = { ...source, path: 'docs/README.md' }
+
+    expect(resolveReadmeUrl('guide.md', nested)).toBe(
+      'https://github.com/octocat/demo/blob/main/docs/guide.md',
+    )
+    expect(resolveReadmeUrl('../LICENSE', nested)).toBe(
+      'https://github.com/octocat/demo/blob/main/LICENSE',
+    )
+    expect(resolveReadmeUrl('/LICENSE', nested)).toBe(
+      'https://github.com/octocat/demo/blob/main/LICENSE',
+    )
+  })
+
+  it('keeps absolute URLs and anchors', () => {
+    for (const url of [
+      'https://react.dev',
+      'mailto:me@example.com',
+      '//cdn.example.com/a.js',
+      '#usage',
+    ]) {
+      expect(resolveReadmeUrl(url, source)).toBe(url)
+    }
+  })
+})
+
+describe('resolveReadmeUrls', () => {
+  it('resolves inline links, badges, reference definitions and raw HTML outside code', () => {
+    const markdown = [
+      '<p align="center"><img src="assets/logo.svg" width="120"></p>',
+      '[![Build](badges/build.svg)](actions.md) and [docs][guide]',
+      '',
+      '```md',
+      '[kept](relative.md)',
+      '```',
+      '',
+      '[guide]: docs/guide.md "Guide"',
+    ].join('\n')
+
+    expect(resolveReadmeUrls(markdown, source).split('\n')).toEqual([
+      '<p align="center"><img src="https://raw.githubusercontent.com/octocat/demo/main/assets/logo.svg" width="120"></p>',
+      '[![Build](https://raw.githubusercontent.com/octocat/demo/main/badges/build.svg)](https://github.com/octocat/demo/blob/main/actions.md) and [docs][guide]',
+      '',
+      '```md',
+      '[kept](relative.md)',
+      '```',
+      '',
+      '[guide]: https://github.com/octocat/demo/blob/main/docs/guide.md "Guide"',
+    ])
+  })
+})
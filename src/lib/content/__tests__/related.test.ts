@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getAdjacentPosts,
+  getCaseStudiesForPost,
+  getRelatedPosts,
+  getRelatedScore,
+} from '../related'
+
+import { makePost } from '../../../test/posts'
+import type { ProjectCaseStudySummary } from '../../../types/projectCaseStudy'
+
+function createCaseStudy(slug: string, relatedPosts?: string[]): ProjectCaseStudySummary {
+  return {
+    slug,
+    readingTime: 5,
+    meta: {
+      slug,
+      title: slug,
+      summary: '',
+      published: '2026-01-01',
+      repoName: slug,
+      relatedPosts,
+    },
+  }
+}
+
+const current = makePost({ slug: 'current', date: '2026-04-01', tags: ['react', 'testing'] })
+const posts = [
+  makePost({ slug: 'newest', date: '2026-05-01', tags: ['react'] }),
+  current,
+  makePost({ slug: 'both-tags', date: '2025-01-01', tags: ['React', 'testing'] }),
+  makePost({ slug: 'unrelated', date: '2026-03-30', tags: ['career'] }),
+  makePost({ slug: 'one-tag-recent', date: '2026-03-15', tags: ['testing'] }),
+]
+
+describe('getRelatedScore', () => {
+  it('is zero for posts sharing neither tags nor series', () => {
+    expect(getRelatedScore(current, posts[3])).toBe(0)
+  })
+
+  it('ranks series membership above a single shared tag', () => {
+    const seriesPost = makePost({ slug: 'a', date: '2026-04-01', tags: ['ai'], series: 'Agents' })
+    const sibling = makePost({ slug: 'b', date: '2026-04-02', tags: ['other'], series: 'Agents' })
+    const tagged = makePost({ slug: 'c', date: '2026-04-02', tags: ['ai'] })
+
+    expect(getRelatedScore(seriesPost, sibling)).toBeGreaterThan(
+      getRelatedScore(seriesPost, tagged),
+    )
+  })
+})
+
+describe('getRelatedPosts', () => {
+  it('orders by tag overlap first and recency second, excluding the post itself', () => {
+    expect(getRelatedPosts(posts, current).map((post) => post.slug)).toEqual([
+      'both-tags',
+      'one-tag-recent',
+      'newest',
+    ])
+  })
+
+  it('respects the limit', () => {
+    expect(getRelatedPosts(posts, current, 1)).toHaveLength(1)
+  })
+})
+
+describe('getAdjacentPosts', () => {
+  it('returns the chronological neighbours', () => {
+    const { previous, next } = getAdjacentPosts(posts, current)
+    expect(previous?.slug).toBe('unrelated')
+    expect(next?.slug).toBe('newest')
+  })
+
+  it('has no next post for the latest one', () => {
+    expect(getAdjacentPosts(posts, posts[0]).next).toBeNull()
+  })
+})
+
+describe('getCaseStudiesForPost', () => {
+  it('finds case studies referencing the post by canonical or legacy slug', () => {
+    const post = makePost(
+      { slug: 'vectos-intro', date: '2026-04-25' },
+      { legacySlugs: ['2026-04-25-vectos-intro'] },
+    )
+    const caseStudies = [
+      createCaseStudy('vectos', ['vectos-intro']),
+      createCaseStudy('legacy', ['2026-04-25-vectos-intro']),
+      createCaseStudy('other', ['something-else']),
+      createCaseStudy('none'),
+    ]
+
+    expect(getCaseStudiesForPost(caseStudies, post).map((caseStudy) => caseStudy.slug)).toEqual([
+      'vectos',
+      'legacy',
+    ])
+  })
+})
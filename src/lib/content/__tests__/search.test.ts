@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildBlogManifest, buildCaseStudyManifest } from '../manifest'
+import {
+  buildSearchIndex,
+  createSnippet,
+  foldText,
+  highlightText,
+  searchDocuments,
+  tokenize,
+  type SearchDocumentInput,
+} from '../search'
+import { collectSearchDocuments } from '../searchDocuments'
+
+const documents: SearchDocumentInput[] = [
+  {
+    id: 'post:animaciones',
+    type: 'post',
+    title: 'Animaciones en React',
+    description: 'Transiciones fluidas con framer-motion',
+    url: '/es/blog/animaciones',
+    tags: ['react', 'animation'],
+    headings: ['Configuración inicial'],
+    body: 'Las animaciones mejoran la experiencia. Veremos cómo configurar transiciones y gestos.',
+    date: '2026-01-10',
+  },
+  {
+    id: 'post:seguridad',
+    type: 'post',
+    title: 'Seguridad en aplicaciones web',
+    description: 'Buenas prácticas frente a XSS',
+    url: '/es/blog/seguridad',
+    tags: ['security'],
+    body: 'React escapa el contenido por defecto, pero las animaciones no tienen nada que ver aquí.',
+    date: '2026-02-01',
+  },
+  {
+    id: 'project:vectos',
+    type: 'project',
+    title: 'vectos',
+    description: 'Local-first code context engine',
+    url: 'https://github.com/example/vectos',
+    tags: ['go'],
+  },
+  {
+    id: 'page:/about',
+    type: 'page',
+    title: 'Sobre mí',
+    description: 'Desarrollador frontend',
+    url: '/es/about',
+  },
+]
+
+const index = buildSearchIndex(documents)
+
+const ids = (query: string) => searchDocuments(index, query).map(({ document }) => document.id)
+
+describe('foldText and tokenize', () => {
+  it('folds accents and case without changing the length', () => {
+    expect(foldText('Configuración ÁÉÍ')).toBe('configuracion aei')
+    expect(foldText('Configuración').length).toBe('Configuración'.length)
+  })
+
+  it('drops stop words and single characters', () => {
+    expect(tokenize('La guía de React y TypeScript')).toEqual(['guia', 'react', 'typescript'])
+  })
+})
+
+describe('buildSearchIndex', () => {
+  it('keeps headings out of the stored documents but indexes them', () => {
+    expect(index.documents[0]).not.toHaveProperty('headings')
+    expect(index.terms['configuracion']).toBeDefined()
+  })
+})
+
+describe('searchDocuments', () => {
+  it('matches regardless of accents', () => {
+    expect(ids('configuracion')).toEqual(['post:animaciones'])
+    expect(ids('SEGURIDAD')).toEqual(['post:seguridad'])
+  })
+
+  it('matches word prefixes while typing', () => {
+    expect(ids('segur')).toEqual(['post:seguridad'])
+  })
+
+  it('tolerates small typos', () => {
+    expect(ids('animasiones')).toContain('post:animaciones')
+  })
+
+  it('ranks title and tag matches above body mentions', () => {
+    expect(ids('animaciones')).toEqual(['post:animaciones', 'post:seguridad'])
+    expect(ids('react')[0]).toBe('post:animaciones')
+  })
+
+  it('requires every query word to match', () => {
+    expect(ids('react xss')).toEqual(['post:seguridad'])
+    expect(ids('react inexistente')).toEqual([])
+  })
+
+  it('filters by type and limits the results', () => {
+    expect(
+      searchDocuments(index, 'animaciones', { types: ['project'] }).map((r) => r.document.id),
+    ).toEqual([])
+    expect(searchDocuments(index, 'animaciones', { limit: 1 })).toHaveLength(1)
+  })
+
+  it('returns nothing for empty or stop-word queries', () => {
+    expect(ids('')).toEqual([])
+    expect(ids('de la')).toEqual([])
+  })
+})
+
+describe('highlightText and createSnippet', () => {
+  it('marks matched words in the original text, accents included', () => {
+    expect(highlightText('Configuración inicial', ['configuracion'])).toEqual([
+      { text: 'Configuración', match: true, start: 0 },
+      { text: ' inicial', match: false, start: 13 },
+    ])
+  })
+
+  it('cuts an excerpt around the first body match', () => {
+    const [result] = searchDocuments(index, 'gestos')
+    const snippet = createSnippet(result!.document, result!.terms, 40)
+    const text = snippet.map((segment) => segment.text).join('')
+
+    expect(text.startsWith('…')).toBe(true)
+    expect(snippet.some((segment) => segment.match && segment.text === 'gestos')).toBe(true)
+  })
+
+  it('falls back to the description when the body has no match', () => {
+    const [result] = searchDocuments(index, 'vectos')
+    expect(createSnippet(result!.document, result!.terms)).toEqual([
+      { text: 'Local-first code context engine', match: false, start: 0 },
+    ])
+  })
+})
+
+describe('collectSearchDocuments', () => {
+  const posts = buildBlogManifest([
+    {
+      filePath: 'src/content/blog/en/2026-01-02-tips.md',
+      source: [
+        '---',
+        'slug: tips',
+        'title: Tips',
+        'description: Useful things',
+        "date: '2026-01-02'",
+        'author: Jane',
+        'tags: [react]',
+        '---',
+        '## First tip',
+        '',
+        'Use the **platform**.',
+      ].join('\n'),
+    },
+  ])
+  const caseStudies = buildCaseStudyManifest([
+    {
+      filePath: 'src/content/projects/en/vectos.md',
+      source: [
+        '---',
+        'slug: vectos',
+        'repoName: vectos',
+        'title: Vectos',
+        'summary: A context engine',
+        'role: Author',
+        'status: active',
+        'stack: [Go]',
+        'highlights: [Fast]',
+        "published: '2026-03-01'",
+        '---',
+        'Body',
+      ].join('\n'),
+    },
+  ])
+
+  it('builds localized documents and folds projects into their case study', () => {
+    const result = collectSearchDocuments({
+      language: 'en',
+      pages: [{ path: '/', title: 'Home', description: 'Welcome' }],
+      posts,
+      caseStudies,
+      projects: [
+        {
+          name: 'vectos',
+          description: 'Engine',
+          topics: ['ai'],
+          language: 'Go',
+        },
+        {
+          name: 'other',
+          description: null,
+          topics: [],
+          language: 'TypeScript',
+        },
+      ],
+    })
+
+    expect(result.map(({ id, url }) => [id, url])).toEqual([
+      ['page:/', '/en/'],
+      ['post:tips', '/en/blog/tips'],
+      ['caseStudy:vectos', '/en/projects/vectos'],
+      ['project:other', '/en/projects/other'],
+    ])
+    expect(result[1]).toMatchObject({
+      headings: ['First tip'],
+      body: 'First tip Use the platform.',
+    })
+    expect(result[2]?.tags).toEqual(['ai'])
+    expect(result[3]).toMatchObject({ description: '', tags: ['TypeScript'] })
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+
+import { readContentSources } from '../../../../scripts/vite-plugins/content-manifest'
+import { buildBlogManifest, CONTENT_LANGUAGES } from '../manifest'
+import { getPageRoutes, getSitemapLastModified, getSitemapRoutes } from '../routes'
+import { findPostBySlug, getBlogPostPath, resolvePostSlug, stripDatePrefix } from '../slugs'
+
+import type { BlogPostSummary } from '../../../types/blog'
+
+describe('resolvePostSlug', () => {
+  it('uses the frontmatter slug and keeps both file names as legacy slugs', () => {
+    expect(
+      resolvePostSlug(
+        'src/content/blog/es/2025-10-07-react-security-guide.md',
+        'seguridad-aplicaciones-react',
+      ),
+    ).toEqual({
+      slug: 'seguridad-aplicaciones-react',
+      legacySlugs: ['2025-10-07-react-security-guide', 'react-security-guide'],
+    })
+  })
+
+  it('falls back to the undated file name when frontmatter has no slug', () => {
+    expect(resolvePostSlug('src/content/blog/en/2026-06-14-the-era-of-agents.md')).toEqual({
+      slug: 'the-era-of-agents',
+      legacySlugs: ['2026-06-14-the-era-of-agents'],
+    })
+  })
+
+  it('strips only a leading date prefix', () => {
+    expect(stripDatePrefix('2026-06-14-react-19-2026')).toBe('react-19-2026')
+    expect(stripDatePrefix('react-2026-06-14-x')).toBe('react-2026-06-14-x')
+  })
+})
+
+describe('findPostBySlug', () => {
+  const posts = [
+    { slug: 'canonical', legacySlugs: ['2026-01-01-old'] },
+    { slug: 'other', legacySlugs: [] },
+  ]
+
+  it('matches canonical slugs first', () => {
+    expect(findPostBySlug(posts, 'other')).toBe(posts[1])
+  })
+
+  it('matches legacy slugs', () => {
+    expect(findPostBySlug(posts, '2026-01-01-old')).toBe(posts[0])
+  })
+
+  it('returns null for unknown slugs', () => {
+    expect(findPostBySlug(posts, 'missing')).toBeNull()
+  })
+})
+
+describe('sitemap routes', () => {
+  const root = process.cwd()
+  const routes = getSitemapRoutes({
+    getBlogEntries: (lang) =>
+      buildBlogManifest(readContentSources(root, 'blog', lang)).map(({ entry }) => entry),
+    getCaseStudyEntries: () => [],
+    projectNames: [],
+  })
+
+  it.each(CONTENT_LANGUAGES)(
+    'every %s blog route resolves to a post by its canonical slug',
+    async (lang) => {
+      const { entries } =
+        lang === 'es'
+          ? await import('virtual:content/blog/es')
+          : await import('virtual:content/blog/en')
+      const blogRoutes = routes.filter(
+        (route) =>
+          route.startsWith(`/${lang}/blog/`) && !/^\/\w+\/blog\/(tag|series)\//.test(route),
+      )
+
+      expect(blogRoutes.length).toBeGreaterThan(0)
+      for (const route of blogRoutes) {
+        const slug = route.slice(`/${lang}`.length + getBlogPostPath('').length)
+        const post = findPostBySlug(entries, slug)
+        expect(post, `${route} does not resolve to a post`).not.toBeNull()
+        expect(post?.slug).toBe(slug)
+      }
+    },
+  )
+})
+
+describe('unlisted post routes', () => {
+  const entry = (slug: string, unlisted?: boolean): BlogPostSummary => ({
+    slug,
+    readingTime: 1,
+    wordCount: 200,
+    codeBlockCount: 0,
+    meta: {
+      title: slug,
+      description: '',
+      date: '2026-01-01',
+      tags: ['react'],
+      author: 'Jane',
+      slug,
+      unlisted,
+    },
+  })
+  const content = {
+    getBlogEntries: () => [entry('listed'), entry('hidden', true)],
+    getCaseStudyEntries: () => [],
+    projectNames: [],
+  }
+
+  it('prerenders unlisted posts but keeps them out of the sitemap and archives', () => {
+    expect(getPageRoutes(content)).toContain('/en/blog/hidden')
+    expect(getSitemapRoutes(content)).not.toContain('/en/blog/hidden')
+    expect(getSitemapRoutes(content)).toContain('/en/blog/listed')
+    expect(getSitemapRoutes(content)).toContain('/en/blog/tag/react')
+  })
+})
+
+describe('sitemap last modification dates', () => {
+  it('dates each listed post by its last revision, falling back to its publication date', () => {
+    const posts: BlogPostSummary[] = [
+      {
+        slug: 'revised',
+        readingTime: 1,
+        wordCount: 200,
+        codeBlockCount: 0,
+        meta: {
+          title: 'Revised',
+          description: '',
+          date: '2026-01-01',
+          updated: '2026-03-15',
+          tags: [],
+          author: 'Jane',
+          slug: 'revised',
+        },
+      },
+      {
+        slug: 'original',
+        readingTime: 1,
+        wordCount: 200,
+        codeBlockCount: 0,
+        meta: {
+          title: 'Original',
+          description: '',
+          date: '2026-02-01',
+          tags: [],
+          author: 'Jane',
+          slug: 'original',
+        },
+      },
+    ]
+    const lastModified = getSitemapLastModified({
+      getBlogEntries: (lang) => (lang === 'en' ? posts : []),
+      getCaseStudyEntries: () => [],
+      projectNames: [],
+    })
+
+    expect(lastModified).toEqual({
+      '/en/blog/revised': new Date('2026-03-15'),
+      '/en/blog/original': new Date('2026-02-01'),
+    })
+  })
+})
+
+describe('project routes', () => {
+  const routes = getSitemapRoutes({
+    getBlogEntries: () => [],
+    getCaseStudyEntries: () => [
+      { slug: 'listed', meta: { repoName: 'listed-repo' } },
+      { slug: 'unlisted', meta: { repoName: 'missing-repo' } },
+    ],
+    projectNames: ['listed-repo', 'plain-repo'],
+  })
+
+  it('only lists case studies whose repository is in the projects snapshot', () => {
+    expect(routes).toContain('/es/projects/listed')
+    expect(routes).toContain('/en/projects/listed')
+    expect(routes.some((route) => route.endsWith('/unlisted'))).toBe(false)
+  })
+
+  it('lists every repository once, under its case study slug when it has one', () => {
+    expect(routes).toContain('/en/projects/plain-repo')
+    expect(routes).toContain('/es/projects/plain-repo')
+    expect(routes.some((route) => route.endsWith('/listed-repo'))).toBe(false)
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  findBlogArchive,
+  getBlogArchivePath,
+  getBlogArchivePaths,
+  getBlogArchives,
+  getPageCount,
+  getSeriesNavigation,
+  getTaxonomySlug,
+  paginate,
+} from '../taxonomy'
+
+import { makePost } from '../../../test/posts'
+
+// Newest first, like the manifest
+const posts = [
+  makePost({
+    slug: 'part-three',
+    date: '2026-03-01',
+    tags: ['ai'],
+    series: 'Agentes en la práctica',
+    seriesOrder: 3,
+  }),
+  makePost({
+    slug: 'part-one',
+    date: '2026-02-01',
+    tags: ['ai', 'career transition'],
+    series: 'Agentes en la práctica',
+    seriesOrder: 1,
+  }),
+  makePost({
+    slug: 'part-two',
+    date: '2026-01-01',
+    tags: ['Decisiones técnicas'],
+    series: 'Agentes en la práctica',
+    seriesOrder: 2,
+  }),
+  makePost({ slug: 'standalone', date: '2025-12-01', tags: ['ai'] }),
+]
+
+describe('getTaxonomySlug', () => {
+  it('folds accents, lowercases and hyphenates', () => {
+    expect(getTaxonomySlug('Agentes en la práctica')).toBe('agentes-en-la-practica')
+    expect(getTaxonomySlug('career transition')).toBe('career-transition')
+    expect(getTaxonomySlug(' C++ / Rust ')).toBe('c-rust')
+  })
+})
+
+describe('getBlogArchivePath', () => {
+  it('omits the page number on the first page', () => {
+    expect(getBlogArchivePath('tag', 'ai')).toBe('/blog/tag/ai')
+    expect(getBlogArchivePath('tag', 'ai', 1)).toBe('/blog/tag/ai')
+    expect(getBlogArchivePath('series', 'vectos', 2)).toBe('/blog/series/vectos/page/2')
+  })
+})
+
+describe('pagination', () => {
+  it('always has at least one page', () => {
+    expect(getPageCount(0)).toBe(1)
+    expect(getPageCount(9)).toBe(1)
+    expect(getPageCount(10)).toBe(2)
+  })
+
+  it('slices one page of items', () => {
+    expect(paginate([1, 2, 3, 4, 5], 2, 2)).toEqual([3, 4])
+    expect(paginate([1, 2, 3, 4, 5], 3, 2)).toEqual([5])
+  })
+})
+
+describe('getBlogArchives', () => {
+  it('groups tags by slug and keeps the manifest order', () => {
+    const tags = getBlogArchives(posts, 'tag')
+
+    expect(tags.map((tag) => tag.slug)).toEqual(['ai', 'career-transition', 'decisiones-tecnicas'])
+    expect(tags[0]?.posts.map((post) => post.slug)).toEqual([
+      'part-three',
+      'part-one',
+      'standalone',
+    ])
+    expect(tags[2]?.name).toBe('Decisiones técnicas')
+  })
+
+  it('sorts series parts by their order', () => {
+    const series = findBlogArchive(posts, 'series', 'agentes-en-la-practica')
+
+    expect(series?.name).toBe('Agentes en la práctica')
+    expect(series?.posts.map((post) => post.slug)).toEqual(['part-one', 'part-two', 'part-three'])
+    expect(findBlogArchive(posts, 'series', 'missing')).toBeNull()
+  })
+})
+
+describe('getSeriesNavigation', () => {
+  it('links the previous and next parts', () => {
+    const navigation = getSeriesNavigation(posts, posts[2]!)
+
+    expect(navigation?.index).toBe(1)
+    expect(navigation?.previous?.slug).toBe('part-one')
+    expect(navigation?.next?.slug).toBe('part-three')
+  })
+
+  it('has no previous part at the start and no next part at the end', () => {
+    expect(getSeriesNavigation(posts, posts[1]!)?.previous).toBeNull()
+    expect(getSeriesNavigation(posts, posts[0]!)?.next).toBeNull()
+  })
+
+  it('returns null for standalone posts', () => {
+    expect(getSeriesNavigation(posts, posts[3]!)).toBeNull()
+  })
+})
+
+describe('getBlogArchivePaths', () => {
+  it('lists every page of every archive', () => {
+    const manyPosts = Array.from({ length: 10 }, (_, index) =>
+      makePost({ slug: `post-${String(index)}`, tags: ['react'] }),
+    )
+
+    expect(getBlogArchivePaths(manyPosts)).toEqual(['/blog/tag/react', '/blog/tag/react/page/2'])
+    expect(getBlogArchivePaths(posts)).toContain('/blog/series/agentes-en-la-practica')
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractHeadings, markdownToPlainText, stripInlineMarkdown } from '../text'
+
+const markdown = [
+  '# Guía de **React**',
+  '',
+  'Un párrafo con [un enlace](https://example.com), `código` y _énfasis_.',
+  '',
+  '```ts',
+  '# not a heading',
+  'const hidden = true',
+  '```',
+  '',
+  '## Segunda sección ##',
+  '',
+  '> Una cita',
+  '- [x] Tarea hecha',
+  '1. Paso uno',
+  '',
+  '| Col A | Col B |',
+  '| ----- | ----- |',
+  '| uno   | dos   |',
+  '',
+  '[ref]: https://example.com/ref',
+].join('\n')
+
+describe('stripInlineMarkdown', () => {
+  it('keeps visible text of links, images and emphasis', () => {
+    expect(stripInlineMarkdown('![Logo](/logo.png) [Docs](https://x.dev) **bold** *it*')).toBe(
+      'Logo Docs bold it',
+    )
+  })
+
+  it('drops bare URLs and HTML tags', () => {
+    expect(stripInlineMarkdown('See https://example.com <br/>now').split(/\s+/)).toEqual([
+      'See',
+      'now',
+    ])
+  })
+})
+
+describe('extractHeadings', () => {
+  it('returns headings outside code fences without markup', () => {
+    expect(extractHeadings(markdown)).toEqual(['Guía de React', 'Segunda sección'])
+  })
+})
+
+describe('markdownToPlainText', () => {
+  it('keeps prose and drops code, link targets and block markers', () => {
+    const text = markdownToPlainText(markdown)
+
+    expect(text).toContain('Guía de React')
+    expect(text).toContain('Un párrafo con un enlace, código y énfasis.')
+    expect(text).toContain('Una cita Tarea hecha Paso uno')
+    expect(text).toContain('Col A Col B uno dos')
+    expect(text).not.toContain('hidden')
+    expect(text).not.toContain('https://')
+    expect(text).not.toContain('|')
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+
+import { countWords, getTextStatistics } from '../textStatistics'
+
+const words = (count: number, word = 'word') => Array.from({ length: count }, () => word).join(' ')
+
+describe('countWords', () => {
+  it('counts English and Spanish words but not stray punctuation', () => {
+    expect(countWords("React 19's new APIs — explained")).toBe(5)
+    expect(countWords('¿Qué es un hook? ¡Una función, nada más!')).toBe(8)
+  })
+})
+
+describe('getTextStatistics', () => {
+  it('counts only the visible words of English prose', () => {
+    const markdown = [
+      '## What changed',
+      '',
+      'React 19 ships **new** APIs. See [the docs](https://react.dev/reference) for details.',
+      '',
+      '| Hook | Purpose |',
+      '| --- | --- |',
+      '| use | Reads promises |',
+    ].join('\n')
+
+    expect(getTextStatistics(markdown)).toMatchObject({
+      wordCount: 2 + 10 + 5,
+      codeWordCount: 0,
+      codeBlockCount: 0,
+      imageCount: 0,
+    })
+  })
+
+  it('counts only the visible words of Spanish prose', () => {
+    const markdown = [
+      '> ¿Qué es un *hook*? Es una función — nada más.',
+      '',
+      '- Lee la [guía](/es/blog/guia-hooks)',
+      '- Pruébalo en <https://react.dev>',
+    ].join('\n')
+
+    expect(getTextStatistics(markdown).wordCount).toBe(9 + 3 + 2)
+  })
+
+  it('counts code separately and diagrams and images as pictures', () => {
+    const markdown = [
+      'Intro text',
+      '```ts',
+      'const value = use(promise)',
+      '```',
+      '````md',
+      '```js',
+      'nested fence',
+      '```',
+      '````',
+      '```mermaid',
+      'graph TD; A-->B',
+      '```',
+      '![Diagram of the request flow](/images/flow.png)',
+      '<img src="/images/other.png" alt="Another picture">',
+    ].join('\n')
+
+    expect(getTextStatistics(markdown)).toEqual({
+      wordCount: 2,
+      codeWordCount: 3 + 3,
+      codeBlockCount: 2,
+      imageCount: 3,
+      readingTime: 1,
+    })
+  })
+
+  it('reads code at half the speed of prose and adds time for each image', () => {
+    const code = ['```', words(100), '```'].join('\n')
+    const images = Array.from({ length: 5 }, () => '![](/a.png)').join('\n')
+
+    expect(getTextStatistics(words(400)).readingTime).toBe(2)
+    expect(getTextStatistics(`${words(400)}\n${code}`).readingTime).toBe(3)
+    // 12 + 11 + 10 + 9 + 8 seconds of images on top of one minute of text
+    expect(getTextStatistics(`${words(200)}\n${images}`).readingTime).toBe(2)
+    expect(getTextStatistics('').readingTime).toBe(1)
+  })
+})
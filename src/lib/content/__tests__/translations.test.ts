@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+
+import { buildTranslationGroups, findTranslationGroup } from '../translations'
+
+describe('buildTranslationGroups', () => {
+  const groups = buildTranslationGroups((lang) =>
+    lang === 'es'
+      ? [
+          { slug: 'seguridad-react', translationKey: 'react-security' },
+          { slug: 'solo-es', translationKey: 'solo-es' },
+        ]
+      : [{ slug: 'react-security', translationKey: 'react-security' }],
+  )
+
+  it('links translated slugs through their translation key', () => {
+    expect(findTranslationGroup(groups, 'en', 'react-security')).toEqual({
+      es: 'seguridad-react',
+      en: 'react-security',
+    })
+  })
+
+  it('leaves out locales without a translation', () => {
+    expect(findTranslationGroup(groups, 'es', 'solo-es')).toEqual({ es: 'solo-es' })
+  })
+
+  it('only matches slugs of the given locale', () => {
+    expect(findTranslationGroup(groups, 'en', 'seguridad-react')).toBeNull()
+  })
+})
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+
+import { getPostStatus } from '../visibility'
+
+describe('getPostStatus', () => {
+  const now = new Date('2026-05-10T08:00:00Z')
+
+  it('treats drafts as drafts whatever their date', () => {
+    expect(getPostStatus({ date: '2026-01-01', draft: true }, now)).toBe('draft')
+  })
+
+  it('schedules future posts and publishes them on their day', () => {
+    expect(getPostStatus({ date: '2026-05-11' }, now)).toBe('scheduled')
+    expect(getPostStatus({ date: '2026-05-10' }, now)).toBe('published')
+    expect(getPostStatus({ date: '2026-05-10T09:00:00Z' }, now)).toBe('scheduled')
+  })
+})
@@ -0,0 +1,370 @@
+/**
+ * Whole-site content checks behind `pnpm content:check`.
+ *
+ * The build already rejects invalid frontmatter and duplicate slugs one locale at a time;
+ * these checks also look across locales and documents: missing translations, tags spelled
+ * in different ways, links to posts, archives or case studies that do not exist, images
+ * missing from `public/`, and case studies pointing at unknown posts or repositories.
+ * Every problem is reported as a ContentIssue with its file and line. A case study whose
+ * repository is missing from the snapshot is only a warning: its page still renders, just
+ * without the repository details.
+ */
+
+import {
+  ContentValidationError,
+  findFrontmatterLine,
+  parseFrontmatter,
+  type ContentIssue,
+} from './frontmatter'
+import {
+  buildBlogDocument,
+  buildBlogManifest,
+  buildCaseStudyDocument,
+  buildCaseStudyManifest,
+  CONTENT_LANGUAGES,
+  type ContentCollection,
+  type ContentLanguage,
+  type ContentSourceFile,
+  type ManifestDocument,
+} from './manifest'
+import { findPostBySlug } from './slugs'
+import { findBlogArchive, getTaxonomySlug } from './taxonomy'
+
+import type { BlogPostSummary } from '../../types/blog'
+import type { ProjectCaseStudySummary } from '../../types/projectCaseStudy'
+
+export interface ContentCheckInput {
+  /** Markdown sources of a collection in one locale */
+  getSources: (collection: ContentCollection, language: ContentLanguage) => ContentSourceFile[]
+  /** Repositories in the projects snapshot */
+  projectNames: string[]
+  /** Whether a site path such as `/images/diagram.png` is a file under `public/` */
+  publicFileExists: (sitePath: string) => boolean
+}
+
+interface CheckedDocument<TEntry> {
+  file: ContentSourceFile
+  entry: TEntry
+}
+
+type Documents<TEntry> = Record<ContentLanguage, CheckedDocument<TEntry>[]>
+
+/** Site pages that are not generated from content */
+const STATIC_PATHS = new Set(['', 'about', 'projects', 'contact', 'blog'])
+
+const MARKDOWN_TARGET = /(!?)\[[^\]]*\]\(\s*<?([^)\s>]+)/g
+const HTML_TARGET = /<(img|a)\b[^>]*?\s(?:src|href)=["']([^"']+)["']/gi
+const FENCE = /^\s*(```|~~~)/
+
+function isContentLanguage(value: string | undefined): value is ContentLanguage {
+  return CONTENT_LANGUAGES.includes(value as ContentLanguage)
+}
+
+/**
+ * Validate each file on its own, so one broken file does not hide the others
+ */
+function buildEach<TEntry>(
+  files: ContentSourceFile[],
+  build: (file: ContentSourceFile) => ManifestDocument<TEntry>,
+  issues: ContentIssue[],
+): CheckedDocument<TEntry>[] {
+  return files.flatMap((file) => {
+    try {
+      return [{ file, entry: build(file).entry }]
+    } catch (error) {
+      if (!(error instanceof ContentValidationError)) throw error
+      issues.push(...error.issues)
+      return []
+    }
+  })
+}
+
+/**
+ * Run the manifest-level checks (duplicate slugs, translation keys and series positions)
+ */
+function checkManifest(build: () => unknown, issues: ContentIssue[]): void {
+  try {
+    build()
+  } catch (error) {
+    if (!(error instanceof ContentValidationError)) throw error
+    issues.push(...error.issues)
+  }
+}
+
+function checkLocaleParity(
+  documents: Documents<{ slug: string; translationKey?: string }>,
+  issues: ContentIssue[],
+): void {
+  const keys = Object.fromEntries(
+    CONTENT_LANGUAGES.map((language) => [
+      language,
+      new Set(documents[language].map(({ entry }) => entry.translationKey ?? entry.slug)),
+    ]),
+  ) as Record<ContentLanguage, Set<string>>
+
+  for (const language of CONTENT_LANGUAGES) {
+    for (const { file, entry } of documents[language]) {
+      const key = entry.translationKey ?? entry.slug
+      for (const other of CONTENT_LANGUAGES) {
+        if (other === language || keys[other].has(key)) continue
+        issues.push({
+          filePath: file.filePath,
+          field: 'translationKey',
+          message: `No ${other} translation with translation key "${key}"`,
+          line: findFrontmatterLine(file.source, 'translationKey'),
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Tags that share an archive slug must be written the same way everywhere
+ */
+function checkTagSpelling(documents: Documents<BlogPostSummary>, issues: ContentIssue[]): void {
+  const spellings = new Map<string, Map<string, number>>()
+  const allDocuments = CONTENT_LANGUAGES.flatMap((language) => documents[language])
+
+  for (const { entry } of allDocuments) {
+    for (const tag of entry.meta.tags) {
+      const counts = spellings.get(getTaxonomySlug(tag)) ?? new Map<string, number>()
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+      spellings.set(getTaxonomySlug(tag), counts)
+    }
+  }
+
+  // The most used spelling wins; ties go to the alphabetically first one
+  const preferred = new Map(
+    [...spellings].map(([slug, counts]) => [
+      slug,
+      [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0],
+    ]),
+  )
+
+  for (const { file, entry } of allDocuments) {
+    for (const tag of entry.meta.tags) {
+      const expected = preferred.get(getTaxonomySlug(tag))
+      if (!expected || tag === expected) continue
+      issues.push({
+        filePath: file.filePath,
+        field: 'tags',
+        message: `Tag "${tag}" is written "${expected}" in other posts`,
+        line: findFrontmatterLine(file.source, 'tags'),
+      })
+    }
+  }
+}
+
+function checkCaseStudyReferences(
+  caseStudies: Documents<ProjectCaseStudySummary>,
+  posts: Documents<BlogPostSummary>,
+  projectNames: Set<string>,
+  issues: ContentIssue[],
+): void {
+  for (const language of CONTENT_LANGUAGES) {
+    const entries = posts[language].map(({ entry }) => entry)
+
+    for (const { file, entry } of caseStudies[language]) {
+      if (!projectNames.has(entry.meta.repoName)) {
+        issues.push({
+          filePath: file.filePath,
+          field: 'repoName',
+          message: `"${entry.meta.repoName}" is not a repository in the projects snapshot`,
+          line: findFrontmatterLine(file.source, 'repoName'),
+          severity: 'warning',
+        })
+      }
+
+      for (const slug of entry.meta.relatedPosts ?? []) {
+        if (findPostBySlug(entries, slug)) continue
+        issues.push({
+          filePath: file.filePath,
+          field: 'relatedPosts',
+          message: `"${slug}" is not a ${language} blog post`,
+          line: findFrontmatterLine(file.source, 'relatedPosts'),
+        })
+      }
+    }
+  }
+}
+
+interface ContentReference {
+  target: string
+  isImage: boolean
+  line: number
+}
+
+/**
+ * Site-relative link and image targets in the markdown body, outside code
+ */
+export function findSiteReferences(source: string): ContentReference[] {
+  const lines = source.split('\n')
+  const { content } = parseFrontmatter(source)
+  const bodyStart = lines.length - content.split('\n').length
+  const references: ContentReference[] = []
+  let inFence = false
+
+  lines.forEach((rawLine, index) => {
+    if (index < bodyStart) return
+    if (FENCE.test(rawLine)) {
+      inFence = !inFence
+      return
+    }
+    if (inFence) return
+
+    const line = rawLine.replace(/`[^`]*`/g, '')
+    const matches = [
+      ...[...line.matchAll(MARKDOWN_TARGET)].map((match) => ({
+        isImage: match[1] === '!',
+        target: match[2] ?? '',
+      })),
+      ...[...line.matchAll(HTML_TARGET)].map((match) => ({
+        isImage: match[1]?.toLowerCase() === 'img',
+        target: match[2] ?? '',
+      })),
+    ]
+
+    for (const { isImage, target } of matches) {
+      if (target.startsWith('/') && !target.startsWith('//')) {
+        references.push({ target, isImage, line: index + 1 })
+      }
+    }
+  })
+
+  return references
+}
+
+/**
+ * Why a site path does not resolve to a page or file, or null when it does
+ */
+function getBrokenLinkReason(
+  path: string,
+  posts: Documents<BlogPostSummary>,
+  caseStudies: Documents<ProjectCaseStudySummary>,
+  projectNames: Set<string>,
+  publicFileExists: (sitePath: string) => boolean,
+): string | null {
+  // Files such as /cv.pdf are served from public/
+  if (/\.\w+$/.test(path)) {
+    return publicFileExists(path) ? null : 'No such file under public/'
+  }
+
+  const [language, section = '', slug, archiveSlug, ...rest] = path.split('/').slice(1)
+  if (!isContentLanguage(language)) {
+    return 'Site links need a locale prefix (/es/… or /en/…)'
+  }
+  if (slug === undefined) {
+    return STATIC_PATHS.has(section) ? null : 'No such page'
+  }
+
+  // Every repository has a page, at its name or at the slug of its case study
+  if (section === 'projects' && archiveSlug === undefined) {
+    return projectNames.has(slug) || caseStudies[language].some(({ entry }) => entry.slug === slug)
+      ? null
+      : `No ${language} case study or repository with this slug`
+  }
+
+  const entries = posts[language].map(({ entry }) => entry)
+  if (section === 'blog' && archiveSlug === undefined) {
+    return findPostBySlug(entries, slug) ? null : `No ${language} blog post with this slug`
+  }
+  // /blog/tag/:slug and /blog/series/:slug, optionally followed by /page/:page
+  if (section === 'blog' && (slug === 'tag' || slug === 'series') && rest.length <= 2) {
+    return findBlogArchive(entries, slug, archiveSlug ?? '')
+      ? null
+      : `No ${language} ${slug} archive with this slug`
+  }
+
+  return 'No such page'
+}
+
+/**
+ * Decode a link target, or null when it has a malformed `%` escape
+ */
+function decodeSitePath(target: string): string | null {
+  try {
+    return decodeURI(target)
+  } catch (error) {
+    if (error instanceof URIError) return null
+    throw error
+  }
+}
+
+function checkReferences(
+  posts: Documents<BlogPostSummary>,
+  caseStudies: Documents<ProjectCaseStudySummary>,
+  projectNames: Set<string>,
+  publicFileExists: (sitePath: string) => boolean,
+  issues: ContentIssue[],
+): void {
+  const files = CONTENT_LANGUAGES.flatMap((language) => [
+    ...posts[language].map(({ file }) => file),
+    ...caseStudies[language].map(({ file }) => file),
+  ])
+
+  for (const file of files) {
+    for (const reference of findSiteReferences(file.source)) {
+      const path = decodeSitePath(reference.target.replace(/[?#].*$/, ''))
+      const reason =
+        path === null
+          ? 'Malformed percent-encoding'
+          : reference.isImage
+            ? publicFileExists(path)
+              ? null
+              : 'Image not found under public/'
+            : getBrokenLinkReason(path, posts, caseStudies, projectNames, publicFileExists)
+
+      if (reason) {
+        issues.push({
+          filePath: file.filePath,
+          field: reference.isImage ? 'image' : 'link',
+          message: `${reference.target}: ${reason}`,
+          line: reference.line,
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Check every blog post and case study, returning the problems sorted by file path and then
+ * by line
+ */
+export function checkContent(input: ContentCheckInput): ContentIssue[] {
+  const issues: ContentIssue[] = []
+  const posts = {} as Documents<BlogPostSummary>
+  const caseStudies = {} as Documents<ProjectCaseStudySummary>
+
+  for (const language of CONTENT_LANGUAGES) {
+    posts[language] = buildEach(input.getSources('blog', language), buildBlogDocument, issues)
+    caseStudies[language] = buildEach(
+      input.getSources('projects', language),
+      buildCaseStudyDocument,
+      issues,
+    )
+    // Drafts and scheduled posts are checked too
+    checkManifest(
+      () =>
+        buildBlogManifest(
+          posts[language].map(({ file }) => file),
+          { preview: true },
+        ),
+      issues,
+    )
+    checkManifest(
+      () => buildCaseStudyManifest(caseStudies[language].map(({ file }) => file)),
+      issues,
+    )
+  }
+
+  checkLocaleParity(posts, issues)
+  checkLocaleParity(caseStudies, issues)
+  checkTagSpelling(posts, issues)
+  const projectNames = new Set(input.projectNames)
+  checkCaseStudyReferences(caseStudies, posts, projectNames, issues)
+  checkReferences(posts, caseStudies, projectNames, input.publicFileExists, issues)
+
+  return issues.sort(
+    (a, b) => a.filePath.localeCompare(b.filePath) || (a.line ?? 0) - (b.line ?? 0),
+  )
+}
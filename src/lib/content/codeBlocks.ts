@@ -0,0 +1,168 @@
+/**
+ * Fenced code block metadata and per-line markup for the markdown renderer.
+ *
+ * The fence meta (```ts title="useBlog.ts" {3-5} showLineNumbers) survives raw HTML
+ * parsing and sanitising as a `data-meta` attribute on `<code>`. After highlighting,
+ * `rehypeCodeBlocks` splits the code into one `<span class="code-line">` per line and
+ * moves the parsed metadata onto `<pre>`, where the code block toolbar reads it.
+ */
+
+import { getNodeText, isElement, visitElements, type HastNode } from './hast'
+
+export interface CodeMeta {
+  /** File name shown in the toolbar instead of the language */
+  title?: string
+  /** 1-based line numbers to highlight */
+  highlightedLines: number[]
+  showLineNumbers: boolean
+}
+
+/** Languages rendered by other plugins or components, left untouched */
+const SKIPPED_LANGUAGES = new Set(['mermaid', 'math'])
+
+const TITLE_PATTERN = /\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/
+const RANGES_PATTERN = /\{([\d\s,-]+)\}/
+
+/**
+ * Parse `{1,3-5}` style line ranges into sorted, unique line numbers
+ */
+function parseLineRanges(ranges: string): number[] {
+  const lines = new Set<number>()
+
+  for (const range of ranges.split(',')) {
+    const [start, end = start] = range.split('-').map((value) => Number.parseInt(value.trim(), 10))
+    if (!start || !end || end < start) continue
+    for (let line = start; line <= end; line++) lines.add(line)
+  }
+
+  return [...lines].sort((a, b) => a - b)
+}
+
+export function parseCodeMeta(meta: string | undefined): CodeMeta {
+  const title = meta ? TITLE_PATTERN.exec(meta) : null
+  const ranges = meta ? RANGES_PATTERN.exec(meta) : null
+
+  return {
+    title: title ? (title[1] ?? title[2] ?? title[3]) : undefined,
+    highlightedLines: ranges?.[1] ? parseLineRanges(ranges[1]) : [],
+    showLineNumbers: meta ? /\bshowLineNumbers\b/.test(meta) : false,
+  }
+}
+
+export function getCodeLanguage(code: HastNode): string | undefined {
+  const classes = code.properties?.['className']
+  if (!Array.isArray(classes)) return undefined
+  const languageClass = classes.find(
+    (value): value is string => typeof value === 'string' && value.startsWith('language-'),
+  )
+  return languageClass?.slice('language-'.length)
+}
+
+/** The subset of an mdast node the remark plugin reads and writes */
+interface MdastNode {
+  type: string
+  meta?: string | null
+  data?: { hProperties?: Record<string, unknown> }
+  children?: MdastNode[]
+}
+
+function visitCode(node: MdastNode, visit: (code: MdastNode) => void): void {
+  if (node.type === 'code') visit(node)
+  for (const child of node.children ?? []) visitCode(child, visit)
+}
+
+/**
+ * Remark plugin keeping the fence meta on the `<code>` element as `data-meta`
+ */
+export function remarkCodeMeta() {
+  return (tree: MdastNode) => {
+    visitCode(tree, (code) => {
+      if (!code.meta) return
+      code.data = { ...code.data, hProperties: { ...code.data?.hProperties, dataMeta: code.meta } }
+    })
+  }
+}
+
+/**
+ * Split highlighted code into lines. Highlight spans that cross a line break (block
+ * comments, template strings) are cloned so every line is self-contained.
+ */
+function splitLines(nodes: HastNode[]): HastNode[][] {
+  const lines: HastNode[][] = [[]]
+  const appendToLine = (lineNodes: HastNode[], createNode: (nodes: HastNode[]) => HastNode) => {
+    if (lineNodes.length > 0) lines[lines.length - 1]?.push(createNode(lineNodes))
+  }
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      ;(node.value ?? '').split('\n').forEach((part, index) => {
+        if (index > 0) lines.push([])
+        if (part) lines[lines.length - 1]?.push({ type: 'text', value: part })
+      })
+    } else if (isElement(node)) {
+      splitLines(node.children ?? []).forEach((lineNodes, index) => {
+        if (index > 0) lines.push([])
+        appendToLine(lineNodes, (children) => ({ ...node, children }))
+      })
+    }
+  }
+
+  return lines
+}
+
+function getDiffType(line: HastNode[]): 'add' | 'remove' | undefined {
+  const text = line.map(getNodeText).join('')
+  if (text.startsWith('+')) return 'add'
+  if (text.startsWith('-')) return 'remove'
+  return undefined
+}
+
+/**
+ * Rehype plugin wrapping each line of a code block in `<span class="code-line">`
+ * (with `data-highlighted` and, for `diff` blocks, `data-diff`) and copying the
+ * block metadata to `<pre>`. Runs after rehype-highlight.
+ */
+export function rehypeCodeBlocks() {
+  return (tree: HastNode) => {
+    visitElements(tree, (pre) => {
+      if (pre.tagName !== 'pre') return
+
+      const code = pre.children?.find((child) => isElement(child, 'code'))
+      const language = code ? getCodeLanguage(code) : undefined
+      if (!code || (language && SKIPPED_LANGUAGES.has(language))) return false
+
+      const { dataMeta, ...codeProperties } = code.properties ?? {}
+      const meta = parseCodeMeta(typeof dataMeta === 'string' ? dataMeta : undefined)
+      const highlighted = new Set(meta.highlightedLines)
+      const lines = splitLines(code.children ?? [])
+      // The code text ends with a line break, which would leave an empty last line
+      if (lines.length > 1 && lines[lines.length - 1]?.length === 0) lines.pop()
+
+      code.properties = codeProperties
+      code.children = lines.flatMap((line, index) => {
+        const diff = language === 'diff' ? getDiffType(line) : undefined
+        const lineElement: HastNode = {
+          type: 'element',
+          tagName: 'span',
+          properties: {
+            className: ['code-line'],
+            dataLine: index + 1,
+            ...(highlighted.has(index + 1) && { dataHighlighted: 'true' }),
+            ...(diff && { dataDiff: diff }),
+          },
+          children: line,
+        }
+        return index === 0 ? [lineElement] : [{ type: 'text', value: '\n' }, lineElement]
+      })
+
+      pre.properties = {
+        ...pre.properties,
+        dataLanguage: language,
+        dataTitle: meta.title,
+        dataLineCount: lines.length,
+        ...(meta.showLineNumbers && { dataLineNumbers: 'true' }),
+      }
+      return false
+    })
+  }
+}
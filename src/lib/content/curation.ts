@@ -0,0 +1,142 @@
+/**
+ * Project curation: which repositories of the projects snapshot the site shows, in which
+ * order and under which name, description, demo URL and cover image.
+ *
+ * The curation lives in src/content/projects/curation.yaml. The snapshot generator leaves
+ * hidden repositories out; everything else is applied when the snapshot is read, so
+ * editing the file takes effect without regenerating the snapshot.
+ */
+
+import { parseDocument } from 'yaml'
+
+import { ContentValidationError, findFrontmatterLine, type ContentIssue } from './frontmatter'
+import { projectCurationSchema, validateFrontmatter } from './schemas'
+
+import type { GitHubProject } from '../../types'
+import type { CaseStudyLanguage } from '../../types/projectCaseStudy'
+import type { ProjectCuration } from '../../types/projectCuration'
+
+export const CURATION_FILE = 'src/content/projects/curation.yaml'
+
+/**
+ * Parse and validate the curation file. Throws a ContentValidationError listing every problem.
+ */
+export function parseCuration(source: string, filePath = CURATION_FILE): ProjectCuration {
+  const document = parseDocument(source)
+
+  if (document.errors.length > 0) {
+    throw new ContentValidationError(
+      document.errors.map((error) => ({
+        filePath,
+        field: 'curation',
+        message: (error.message.split('\n')[0] ?? error.message).replace(
+          / at line \d+, column \d+:?$/,
+          '',
+        ),
+        line: error.linePos?.[0].line,
+      })),
+    )
+  }
+
+  const value: unknown = document.toJS()
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ContentValidationError([
+      { filePath, field: 'curation', message: 'The curation must be a YAML mapping', line: 1 },
+    ])
+  }
+
+  const result = validateFrontmatter(
+    projectCurationSchema,
+    value as Record<string, unknown>,
+    filePath,
+    source,
+  )
+
+  if (!result.success) {
+    throw new ContentValidationError(result.issues)
+  }
+
+  return result.data
+}
+
+/**
+ * Repositories the curation pins or overrides that are missing from the projects snapshot,
+ * and cover images missing from `public/`. Hidden repositories are not checked, since the
+ * snapshot generator leaves them out.
+ */
+export function checkCuration(
+  curation: ProjectCuration,
+  source: string,
+  projectNames: string[],
+  publicFileExists: (sitePath: string) => boolean,
+  filePath = CURATION_FILE,
+): ContentIssue[] {
+  const known = new Set(projectNames)
+  const unknownRepository = (field: string, name: string): ContentIssue => ({
+    filePath,
+    field,
+    message: `"${name}" is not a repository in the projects snapshot`,
+    line: findFrontmatterLine(source, field.split('.')[0] ?? field),
+  })
+
+  return [
+    ...curation.pinned
+      .filter((name) => !known.has(name))
+      .map((name) => unknownRepository('pinned', name)),
+    ...Object.entries(curation.overrides).flatMap(([name, override]) => [
+      ...(known.has(name) ? [] : [unknownRepository(`overrides.${name}`, name)]),
+      ...(override.cover?.startsWith('/') && !publicFileExists(override.cover)
+        ? [
+            {
+              filePath,
+              field: `overrides.${name}.cover`,
+              message: `${override.cover}: Image not found under public/`,
+              line: findFrontmatterLine(source, 'overrides'),
+            },
+          ]
+        : []),
+    ]),
+  ]
+}
+
+export function isProjectHidden(
+  project: Pick<GitHubProject, 'id' | 'name'>,
+  curation: ProjectCuration,
+): boolean {
+  return curation.hidden.includes(project.name) || curation.hidden.includes(project.id)
+}
+
+/**
+ * The repositories to show in one locale: hidden ones removed, overrides applied, pinned
+ * ones first in their curated order and the rest newest first
+ */
+export function applyCuration(
+  projects: GitHubProject[],
+  curation: ProjectCuration,
+  language: CaseStudyLanguage,
+): GitHubProject[] {
+  const pinnedOrder = new Map(curation.pinned.map((name, index) => [name, index]))
+  const rank = (project: GitHubProject) => pinnedOrder.get(project.name) ?? pinnedOrder.size
+
+  return projects
+    .filter((project) => !isProjectHidden(project, curation))
+    .map((project) => {
+      const override = curation.overrides[project.name]
+      const displayName = override?.name?.[language]
+      const description = override?.description?.[language]
+
+      return {
+        ...project,
+        ...(displayName && { display_name: displayName }),
+        ...(description && { description }),
+        ...(override?.homepage && { homepage: override.homepage }),
+        ...(override?.cover && { cover_image: override.cover }),
+        ...(pinnedOrder.has(project.name) && { pinned: true }),
+      }
+    })
+    .sort(
+      (a, b) =>
+        rank(a) - rank(b) || new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+    )
+}
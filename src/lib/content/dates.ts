@@ -0,0 +1,22 @@
+/**
+ * Content dates (post dates, revisions, case study publication) are calendar days
+ * written as `YYYY-MM-DD`. JavaScript parses those as UTC midnight, so they are
+ * formatted in UTC too; in the reader's time zone they would show the day before
+ * anywhere west of Greenwich.
+ */
+
+/**
+ * Calendar day of a content date in the reader's language, e.g. "March 5, 2025"
+ */
+export function formatContentDate(
+  date: string,
+  language: string,
+  month: 'long' | 'short' = 'long',
+): string {
+  return new Intl.DateTimeFormat(language, {
+    year: 'numeric',
+    month,
+    day: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(date))
+}
@@ -0,0 +1,39 @@
+/**
+ * Public locations of the per-language blog feeds.
+ *
+ * Kept free of content-pipeline imports so components can link to the feeds without
+ * pulling the build-time parsers into the app bundle.
+ */
+
+import type { BlogLanguage } from '../../types/blog'
+
+export const FEED_FORMATS = {
+  rss: { fileName: 'feed.xml', type: 'application/rss+xml', label: 'RSS' },
+  atom: { fileName: 'atom.xml', type: 'application/atom+xml', label: 'Atom' },
+  json: { fileName: 'feed.json', type: 'application/feed+json', label: 'JSON Feed' },
+} as const
+
+export type FeedFormat = keyof typeof FEED_FORMATS
+
+export interface FeedLink {
+  type: string
+  href: string
+  title: string
+}
+
+export function getFeedPath(language: BlogLanguage, format: FeedFormat): string {
+  return `/${language}/${FEED_FORMATS[format].fileName}`
+}
+
+/**
+ * `<link rel="alternate">` descriptors for feed auto-discovery
+ */
+export function getFeedLinks(siteUrl: string, language: BlogLanguage, title: string): FeedLink[] {
+  const baseUrl = siteUrl.replace(/\/+$/, '')
+
+  return (Object.keys(FEED_FORMATS) as FeedFormat[]).map((format) => ({
+    type: FEED_FORMATS[format].type,
+    href: `${baseUrl}${getFeedPath(language, format)}`,
+    title: `${title} (${FEED_FORMATS[format].label})`,
+  }))
+}
@@ -0,0 +1,178 @@
+/**
+ * RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents for one blog locale.
+ *
+ * Built from the same manifest entries the blog pages read, with each body rendered
+ * to HTML so readers can show the full article.
+ */
+
+import { getFeedPath, type FeedFormat } from './feedPaths'
+import { renderMarkdownToHtml } from './html'
+import type { ContentLanguage, ManifestDocument } from './manifest'
+import { getBlogPostPath } from './slugs'
+import { isListed } from './visibility'
+
+import type { BlogPostSummary } from '../../types/blog'
+
+export interface FeedOptions {
+  siteUrl: string
+  language: ContentLanguage
+  title: string
+  description: string
+  /** Site owner, used as the feed-level author */
+  author: string
+  /** Blog manifest documents, most recent first */
+  documents: ManifestDocument<BlogPostSummary>[]
+}
+
+interface FeedItem {
+  url: string
+  title: string
+  description: string
+  published: Date
+  updated: Date
+  author: string
+  tags: string[]
+  html: string
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function toFeedItems(siteUrl: string, options: FeedOptions): FeedItem[] {
+  return options.documents
+    .filter(({ entry }) => isListed(entry))
+    .map(({ entry, body }) => {
+      const url = `${siteUrl}/${options.language}${getBlogPostPath(entry.slug)}`
+      return {
+        url,
+        title: entry.meta.title,
+        description: entry.meta.description,
+        published: new Date(entry.meta.date),
+        updated: new Date(entry.meta.updated ?? entry.meta.date),
+        author: entry.meta.author,
+        tags: entry.meta.tags,
+        html: renderMarkdownToHtml(body, url),
+      }
+    })
+}
+
+/**
+ * Newest revision of any item, so revising an older post also marks the feed as changed
+ */
+function getLastUpdated(items: FeedItem[]): Date {
+  return new Date(Math.max(0, ...items.map((item) => item.updated.getTime())))
+}
+
+function renderRss(siteUrl: string, options: FeedOptions, items: FeedItem[]): string {
+  const lastBuildDate = getLastUpdated(items)
+  const itemsXml = items.map((item) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+      `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+      `      <dc:creator>${escapeXml(item.author)}</dc:creator>`,
+      ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      `      <description>${escapeXml(item.description)}</description>`,
+      `      <content:encoded>${escapeXml(item.html)}</content:encoded>`,
+      '    </item>',
+    ].join('\n'),
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(options.title)}</title>`,
+    `    <link>${siteUrl}/${options.language}/blog</link>`,
+    `    <description>${escapeXml(options.description)}</description>`,
+    `    <language>${options.language}</language>`,
+    `    <lastBuildDate>${lastBuildDate.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${siteUrl}${getFeedPath(options.language, 'rss')}" rel="self" type="application/rss+xml"/>`,
+    ...itemsXml,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
+
+function renderAtom(siteUrl: string, options: FeedOptions, items: FeedItem[]): string {
+  const feedUrl = `${siteUrl}${getFeedPath(options.language, 'atom')}`
+  const updated = getLastUpdated(items)
+  const entriesXml = items.map((item) =>
+    [
+      '  <entry>',
+      `    <id>${escapeXml(item.url)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `    <published>${item.published.toISOString()}</published>`,
+      `    <updated>${item.updated.toISOString()}</updated>`,
+      `    <author><name>${escapeXml(item.author)}</name></author>`,
+      ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      `    <summary>${escapeXml(item.description)}</summary>`,
+      `    <content type="html">${escapeXml(item.html)}</content>`,
+      '  </entry>',
+    ].join('\n'),
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${options.language}">`,
+    `  <id>${feedUrl}</id>`,
+    `  <title>${escapeXml(options.title)}</title>`,
+    `  <subtitle>${escapeXml(options.description)}</subtitle>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${feedUrl}"/>`,
+    `  <link rel="alternate" type="text/html" href="${siteUrl}/${options.language}/blog"/>`,
+    `  <author><name>${escapeXml(options.author)}</name></author>`,
+    ...entriesXml,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+function renderJsonFeed(siteUrl: string, options: FeedOptions, items: FeedItem[]): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: options.title,
+    description: options.description,
+    home_page_url: `${siteUrl}/${options.language}/blog`,
+    feed_url: `${siteUrl}${getFeedPath(options.language, 'json')}`,
+    language: options.language,
+    authors: [{ name: options.author }],
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.description,
+      content_html: item.html,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.tags,
+    })),
+  }
+
+  return `${JSON.stringify(feed, null, 2)}\n`
+}
+
+/**
+ * Render every feed format for one locale
+ */
+export function buildFeeds(options: FeedOptions): Record<FeedFormat, string> {
+  const siteUrl = options.siteUrl.replace(/\/+$/, '')
+  const items = toFeedItems(siteUrl, options)
+
+  return {
+    rss: renderRss(siteUrl, options, items),
+    atom: renderAtom(siteUrl, options, items),
+    json: renderJsonFeed(siteUrl, options, items),
+  }
+}
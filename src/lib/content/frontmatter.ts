@@ -0,0 +1,115 @@
+/**
+ * YAML frontmatter parsing shared by the build-time content pipeline and content tooling
+ */
+
+import { parseDocument } from 'yaml'
+
+const DELIMITER = '---'
+
+/**
+ * A problem found in a content document, pointing at the offending file and field
+ */
+export interface ContentIssue {
+  filePath: string
+  /** Dotted path of the frontmatter field, or `frontmatter` for syntax errors */
+  field: string
+  message: string
+  /** 1-based line in the source file, when known */
+  line?: number
+  /** Warnings are reported but do not fail `pnpm content:check` */
+  severity?: 'warning'
+}
+
+/**
+ * Thrown when one or more content documents are invalid. Lists every issue found.
+ */
+export class ContentValidationError extends Error {
+  readonly issues: ContentIssue[]
+
+  constructor(issues: ContentIssue[]) {
+    super(
+      [
+        `Invalid content (${String(issues.length)} issue${issues.length === 1 ? '' : 's'}):`,
+        ...issues.map(formatContentIssue),
+      ].join('\n'),
+    )
+    this.name = 'ContentValidationError'
+    this.issues = issues
+  }
+}
+
+export function formatContentIssue(issue: ContentIssue): string {
+  const location = issue.line ? `${issue.filePath}:${String(issue.line)}` : issue.filePath
+  return `  ${location} › ${issue.field}: ${issue.message}`
+}
+
+/**
+ * Split a markdown document into its YAML frontmatter and body and parse the YAML.
+ *
+ * Supports the full YAML 1.2 syntax (nested maps, block lists, folded and literal
+ * multi-line strings). Unquoted dates stay strings; schemas normalise them.
+ * Throws a ContentValidationError when the YAML cannot be parsed.
+ */
+export function parseFrontmatter(
+  content: string,
+  filePath = '<unknown>',
+): {
+  meta: Record<string, unknown>
+  content: string
+} {
+  const lines = content.split('\n')
+
+  if (lines[0]?.trimEnd() !== DELIMITER) {
+    return { meta: {}, content }
+  }
+
+  const closingDelimiterLineIndex = lines.findIndex(
+    (line, index) => index > 0 && line.trimEnd() === DELIMITER,
+  )
+
+  if (closingDelimiterLineIndex === -1) {
+    return { meta: {}, content }
+  }
+
+  const frontmatterText = lines.slice(1, closingDelimiterLineIndex).join('\n')
+  const markdownContent = lines.slice(closingDelimiterLineIndex + 1).join('\n')
+
+  const document = parseDocument(frontmatterText)
+
+  if (document.errors.length > 0) {
+    throw new ContentValidationError(
+      document.errors.map((error) => ({
+        filePath,
+        field: 'frontmatter',
+        message: (error.message.split('\n')[0] ?? error.message).replace(
+          / at line \d+, column \d+:?$/,
+          '',
+        ),
+        // linePos is 1-based within the YAML block; +1 for the opening delimiter
+        line: error.linePos ? error.linePos[0].line + 1 : undefined,
+      })),
+    )
+  }
+
+  const meta: unknown = document.toJS()
+
+  if (meta === null || meta === undefined) {
+    return { meta: {}, content: markdownContent }
+  }
+
+  if (typeof meta !== 'object' || Array.isArray(meta)) {
+    throw new ContentValidationError([
+      { filePath, field: 'frontmatter', message: 'Frontmatter must be a YAML mapping', line: 2 },
+    ])
+  }
+
+  return { meta: meta as Record<string, unknown>, content: markdownContent }
+}
+
+/**
+ * Find the 1-based source line of a top-level frontmatter key, for diagnostics
+ */
+export function findFrontmatterLine(source: string, key: string): number | undefined {
+  const index = source.split('\n').findIndex((line) => line.startsWith(`${key}:`))
+  return index === -1 ? undefined : index + 1
+}
@@ -0,0 +1,42 @@
+/**
+ * Minimal hast (HTML syntax tree) helpers for the rehype plugins run by the markdown
+ * renderer. Only the fields the plugins read and write are typed.
+ */
+
+export interface HastNode {
+  type: string
+  tagName?: string
+  value?: string
+  properties?: Record<string, unknown>
+  children?: HastNode[]
+}
+
+export function isElement(node: HastNode | undefined, tagName?: string): node is HastNode {
+  return node?.type === 'element' && (tagName === undefined || node.tagName === tagName)
+}
+
+/**
+ * Concatenated text content of a node, as the reader sees it
+ */
+export function getNodeText(node: HastNode): string {
+  if (node.type === 'text') return node.value ?? ''
+  return (node.children ?? []).map(getNodeText).join('')
+}
+
+/**
+ * Depth-first walk calling `visit` with each element and its parent. Returning `false`
+ * skips the element's children.
+ */
+export function visitElements(
+  node: HastNode,
+  visit: (element: HastNode, parent: HastNode) => boolean | undefined,
+): void {
+  for (const child of node.children ?? []) {
+    if (isElement(child) && visit(child, node) === false) continue
+    visitElements(child, visit)
+  }
+}
+
+export function isWhitespace(node: HastNode): boolean {
+  return node.type === 'text' && !node.value?.trim()
+}
@@ -0,0 +1,72 @@
+/**
+ * Heading ids and the table of contents of a markdown body.
+ *
+ * Ids are assigned twice from the same rules: by `rehypeHeadingIds` while rendering,
+ * and by `getTableOfContents` from the raw markdown. Both walk every heading in
+ * document order so duplicate titles get the same `-1`, `-2` suffixes.
+ */
+
+import { getNodeText, visitElements, type HastNode } from './hast'
+import { parseHeadings } from './text'
+
+export interface TableOfContentsItem {
+  id: string
+  text: string
+  level: number
+}
+
+/** Heading levels listed in the table of contents (`##` and `###`) */
+export const TOC_LEVELS = [2, 3]
+
+/**
+ * Anchor id of a heading. Letters and digits of any script are kept as they are
+ * ("Configuración rápida" → "configuración-rápida"), everything else becomes a hyphen.
+ */
+export function slugifyHeading(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Slugger that keeps ids unique within one document: repeated headings get a numeric suffix
+ */
+export function createHeadingSlugger(): (text: string) => string {
+  const counts = new Map<string, number>()
+
+  return (text) => {
+    const base = slugifyHeading(text) || 'section'
+    const count = counts.get(base) ?? 0
+    counts.set(base, count + 1)
+    return count === 0 ? base : `${base}-${String(count)}`
+  }
+}
+
+export function getTableOfContents(markdown: string): TableOfContentsItem[] {
+  const slug = createHeadingSlugger()
+
+  return parseHeadings(markdown)
+    .map((heading) => ({ ...heading, id: slug(heading.text) }))
+    .filter((item) => TOC_LEVELS.includes(item.level))
+}
+
+const HEADING_TAG_PATTERN = /^h[1-6]$/
+
+/**
+ * Rehype plugin giving every heading an `id` that matches `getTableOfContents`
+ */
+export function rehypeHeadingIds() {
+  return (tree: HastNode) => {
+    const slug = createHeadingSlugger()
+    visitElements(tree, (element) => {
+      if (!HEADING_TAG_PATTERN.test(element.tagName ?? '')) return
+      // Generated headings (the footnotes label) already have an id and are not in the markdown
+      if (!element.properties?.['id']) {
+        element.properties = { ...element.properties, id: slug(getNodeText(element).trim()) }
+      }
+      return false
+    })
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Static HTML rendering of markdown bodies for build-time outputs such as feeds.
+ *
+ * Uses the same react-markdown + GFM pipeline as the blog pages, without the styled
+ * components, so feed readers get plain semantic HTML.
+ */
+
+import { createElement } from 'react'
+import Markdown, { defaultUrlTransform } from 'react-markdown'
+
+import { renderToStaticMarkup } from 'react-dom/server'
+import remarkGfm from 'remark-gfm'
+
+/**
+ * Render markdown to HTML, resolving relative links and images against `baseUrl`
+ * so the output still works outside the site
+ */
+export function renderMarkdownToHtml(markdown: string, baseUrl: string): string {
+  const urlTransform = (url: string) => {
+    const safeUrl = defaultUrlTransform(url)
+    return safeUrl ? new URL(safeUrl, baseUrl).href : safeUrl
+  }
+
+  return renderToStaticMarkup(
+    createElement(Markdown, { remarkPlugins: [remarkGfm], urlTransform }, markdown),
+  )
+}
@@ -0,0 +1,204 @@
+/**
+ * Build-time helpers that turn markdown sources into manifest entries and bodies.
+ *
+ * These run inside the Vite content plugin (Node) and must stay free of browser APIs
+ * and `@/` path aliases so they can be bundled with the Vite config.
+ */
+
+import { ContentValidationError, parseFrontmatter, type ContentIssue } from './frontmatter'
+import { blogFrontmatterSchema, caseStudyFrontmatterSchema, validateFrontmatter } from './schemas'
+import { resolvePostSlug, resolveTranslationKey } from './slugs'
+import { getTextStatistics } from './textStatistics'
+import { isPublished, type PublicationOptions } from './visibility'
+
+import type { BlogPostSummary } from '../../types/blog'
+import type { ProjectCaseStudySummary } from '../../types/projectCaseStudy'
+
+export const CONTENT_LANGUAGES = ['es', 'en'] as const
+
+export type ContentLanguage = (typeof CONTENT_LANGUAGES)[number]
+
+export type ContentCollection = 'blog' | 'projects'
+
+export interface ContentSourceFile {
+  /** Path of the markdown file, used for diagnostics and legacy slugs */
+  filePath: string
+  /** Raw file contents including frontmatter */
+  source: string
+}
+
+/**
+ * A manifest entry paired with the markdown body that is emitted as its own chunk
+ */
+export interface ManifestDocument<TEntry> {
+  entry: TEntry
+  body: string
+}
+
+/**
+ * Parse and validate one blog post. Throws a ContentValidationError listing every problem.
+ */
+export function buildBlogDocument(file: ContentSourceFile): ManifestDocument<BlogPostSummary> {
+  const { meta, content } = parseFrontmatter(file.source, file.filePath)
+  const result = validateFrontmatter(blogFrontmatterSchema, meta, file.filePath, file.source)
+
+  if (!result.success) {
+    throw new ContentValidationError(result.issues)
+  }
+
+  const { title, description, date, author, tags, featured, series, seriesOrder, draft, unlisted } =
+    result.data
+  const { slug, legacySlugs } = resolvePostSlug(file.filePath, result.data.slug)
+  const { wordCount, codeBlockCount, readingTime } = getTextStatistics(content)
+  const changelog =
+    result.data.changelog && [...result.data.changelog].sort((a, b) => b.date.localeCompare(a.date))
+
+  return {
+    entry: {
+      meta: {
+        title,
+        description,
+        date,
+        // A changelog entry counts as a revision even without an explicit updated date
+        updated: result.data.updated ?? changelog?.[0]?.date,
+        changelog,
+        author,
+        tags,
+        featured,
+        series,
+        seriesOrder,
+        draft,
+        unlisted,
+        slug,
+      },
+      slug,
+      legacySlugs,
+      translationKey: resolveTranslationKey(file.filePath, result.data.translationKey),
+      readingTime,
+      wordCount,
+      codeBlockCount,
+    },
+    body: content,
+  }
+}
+
+/**
+ * Parse and validate one case study. Throws a ContentValidationError listing every problem.
+ */
+export function buildCaseStudyDocument(
+  file: ContentSourceFile,
+): ManifestDocument<ProjectCaseStudySummary> {
+  const { meta, content } = parseFrontmatter(file.source, file.filePath)
+  const result = validateFrontmatter(caseStudyFrontmatterSchema, meta, file.filePath, file.source)
+
+  if (!result.success) {
+    throw new ContentValidationError(result.issues)
+  }
+
+  return {
+    entry: {
+      meta: result.data,
+      slug: result.data.slug,
+      translationKey: resolveTranslationKey(file.filePath, result.data.translationKey),
+      readingTime: getTextStatistics(content).readingTime,
+    },
+    body: content,
+  }
+}
+
+/**
+ * Build every document, collecting issues across all files so one run reports them all
+ */
+function buildDocuments<TEntry>(
+  files: ContentSourceFile[],
+  build: (file: ContentSourceFile) => ManifestDocument<TEntry>,
+): ManifestDocument<TEntry>[] {
+  const documents: ManifestDocument<TEntry>[] = []
+  const issues: ContentIssue[] = []
+
+  for (const file of files) {
+    try {
+      documents.push(build(file))
+    } catch (error) {
+      if (!(error instanceof ContentValidationError)) throw error
+      issues.push(...error.issues)
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ContentValidationError(issues)
+  }
+
+  return documents
+}
+
+/**
+ * Every key returned by `getKeys` must belong to exactly one document within a locale
+ */
+function assertUniqueKeys<TEntry>(
+  files: ContentSourceFile[],
+  documents: ManifestDocument<TEntry>[],
+  field: string,
+  getKeys: (entry: TEntry) => string[],
+): void {
+  const owners = new Map<string, string>()
+  const issues: ContentIssue[] = []
+
+  documents.forEach(({ entry }, index) => {
+    const filePath = files[index]?.filePath ?? String(index)
+    for (const key of getKeys(entry)) {
+      const owner = owners.get(key)
+      if (owner && owner !== filePath) {
+        issues.push({ filePath, field, message: `"${key}" is already used by ${owner}` })
+      }
+      owners.set(key, filePath)
+    }
+  })
+
+  if (issues.length > 0) {
+    throw new ContentValidationError(issues)
+  }
+}
+
+/**
+ * Build the blog manifest for one locale, most recent posts first. Drafts and scheduled
+ * posts are validated like any other post but only kept in preview mode.
+ */
+export function buildBlogManifest(
+  files: ContentSourceFile[],
+  options: PublicationOptions = {},
+): ManifestDocument<BlogPostSummary>[] {
+  const documents = buildDocuments(files, buildBlogDocument)
+  // Canonical and legacy slugs share one URL space
+  assertUniqueKeys(files, documents, 'slug', (entry) => [entry.slug, ...(entry.legacySlugs ?? [])])
+  assertUniqueKeys(files, documents, 'translationKey', (entry) =>
+    entry.translationKey ? [entry.translationKey] : [],
+  )
+  // Two parts of a series cannot share a position
+  assertUniqueKeys(files, documents, 'seriesOrder', (entry) =>
+    entry.meta.series && entry.meta.seriesOrder !== undefined
+      ? [`${entry.meta.series} #${String(entry.meta.seriesOrder)}`]
+      : [],
+  )
+
+  return documents
+    .filter(({ entry }) => isPublished(entry.meta, options))
+    .sort((a, b) => new Date(b.entry.meta.date).getTime() - new Date(a.entry.meta.date).getTime())
+}
+
+/**
+ * Build the case-study manifest for one locale, most recently published first
+ */
+export function buildCaseStudyManifest(
+  files: ContentSourceFile[],
+): ManifestDocument<ProjectCaseStudySummary>[] {
+  const documents = buildDocuments(files, buildCaseStudyDocument)
+  assertUniqueKeys(files, documents, 'translationKey', (entry) =>
+    entry.translationKey ? [entry.translationKey] : [],
+  )
+
+  return documents.sort(
+    (a, b) =>
+      new Date(b.entry.meta.published).getTime() - new Date(a.entry.meta.published).getTime(),
+  )
+}
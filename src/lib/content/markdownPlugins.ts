@@ -0,0 +1,93 @@
+/**
+ * Rehype plugins and the sanitisation schema behind the shared markdown renderer.
+ *
+ * Raw HTML in posts and case studies is parsed (for `<details>` blocks) and then
+ * sanitised with GitHub's rules. The plugins below run after sanitising, so the
+ * elements and attributes they add do not need to be allowed by the schema.
+ */
+
+import { defaultSchema } from 'rehype-sanitize'
+
+import { isElement, isWhitespace, visitElements, type HastNode } from './hast'
+
+export const CALLOUT_TYPES = ['note', 'tip', 'important', 'warning', 'caution'] as const
+
+export type CalloutType = (typeof CALLOUT_TYPES)[number]
+
+/** `[!NOTE]` at the start of a blockquote, as in GitHub alerts */
+const CALLOUT_MARKER = /^\s*\[!(note|tip|important|warning|caution)\]\s*/i
+
+export const markdownSanitizeSchema = {
+  ...defaultSchema,
+  // remark-rehype already prefixes footnote ids and links with `user-content-`;
+  // clobbering again would prefix the ids twice and break the footnote links
+  clobberPrefix: '',
+  attributes: {
+    ...defaultSchema.attributes,
+    // remark-math marks inline and display math on `code` elements for rehype-katex;
+    // remarkCodeMeta keeps the fence meta for rehypeCodeBlocks
+    code: [['className', /^language-./, 'math-inline', 'math-display'], 'dataMeta'],
+  },
+} satisfies typeof defaultSchema
+
+export function isCalloutType(value: unknown): value is CalloutType {
+  return CALLOUT_TYPES.includes(value as CalloutType)
+}
+
+/**
+ * Turn `> [!NOTE]` blockquotes into `<aside data-callout="note">`, without the marker
+ */
+export function rehypeCallouts() {
+  return (tree: HastNode) => {
+    visitElements(tree, (element) => {
+      if (element.tagName !== 'blockquote') return
+
+      const paragraph = element.children?.find((child) => isElement(child))
+      const marker = isElement(paragraph, 'p') ? paragraph.children?.[0] : undefined
+      const match = marker?.type === 'text' ? CALLOUT_MARKER.exec(marker.value ?? '') : null
+      if (!paragraph || !marker || !match?.[1]) return
+
+      marker.value = marker.value?.slice(match[0].length)
+      // A marker on a line of its own leaves an empty first paragraph behind
+      if (paragraph.children?.every(isWhitespace)) {
+        element.children = element.children?.filter((child) => child !== paragraph)
+      }
+
+      element.tagName = 'aside'
+      element.properties = { ...element.properties, dataCallout: match[1].toLowerCase() }
+    })
+  }
+}
+
+/**
+ * Wrap images that stand alone in a paragraph and have a title in a `<figure>`,
+ * using the title as the caption: `![Alt text](diagram.png "Caption")`
+ */
+export function rehypeFigures() {
+  return (tree: HastNode) => {
+    visitElements(tree, (element) => {
+      if (element.tagName !== 'p') return
+
+      const content = (element.children ?? []).filter((child) => !isWhitespace(child))
+      const image = content[0]
+      const title = image?.properties?.['title']
+      if (content.length !== 1 || !isElement(image, 'img')) return
+      if (typeof title !== 'string' || !title.trim()) return
+
+      const imageProperties = { ...image.properties }
+      delete imageProperties['title']
+      element.tagName = 'figure'
+      element.properties = {}
+      element.children = [
+        { ...image, properties: imageProperties },
+        {
+          type: 'element',
+          tagName: 'figcaption',
+          properties: {},
+          children: [{ type: 'text', value: title }],
+        },
+      ]
+      return false
+    })
+  }
+}
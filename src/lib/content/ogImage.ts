@@ -0,0 +1,191 @@
+/**
+ * Open Graph card template for blog posts and case studies.
+ *
+ * Produces a plain element tree for satori (flexbox-only CSS subset), so it runs in the
+ * Vite image plugin without a DOM. Must stay free of `@/` aliases like the rest of the
+ * content pipeline.
+ */
+
+import { createElement, type CSSProperties, type ReactElement, type ReactNode } from 'react'
+
+import { formatContentDate } from './dates'
+import type { ContentLanguage } from './manifest'
+
+import type { BlogPostSummary } from '../../types/blog'
+import type { ProjectCaseStudySummary } from '../../types/projectCaseStudy'
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 } as const
+
+export const OG_IMAGE_FONT_FAMILY = 'Inter'
+
+const MAX_TAGS = 4
+
+export type OgImageTheme = 'light' | 'dark'
+
+const PALETTES: Record<
+  OgImageTheme,
+  { background: string; text: string; muted: string; accent: string; chip: string }
+> = {
+  light: {
+    background: 'linear-gradient(135deg, #ffffff 0%, #eef2ff 100%)',
+    text: '#111827',
+    muted: '#4b5563',
+    accent: '#4f39f6',
+    chip: '#e0e7ff',
+  },
+  dark: {
+    background: 'linear-gradient(135deg, #030712 0%, #1e1b4b 100%)',
+    text: '#f9fafb',
+    muted: '#9ca3af',
+    accent: '#a5b4fc',
+    chip: '#312e81',
+  },
+}
+
+export interface OgImageCard {
+  language: ContentLanguage
+  /** Section label shown next to the locale, e.g. "Blog" */
+  eyebrow: string
+  title: string
+  tags: string[]
+  /** Already formatted for the card's locale */
+  date: string
+  readingTime: string
+}
+
+export interface OgImageLabels {
+  eyebrow: string
+  /** Reading time template with a `{{minutes}}` placeholder */
+  readingTime: string
+}
+
+export interface OgImageBranding {
+  /** Short brand mark rendered in the top-left corner */
+  mark: string
+  name: string
+  siteUrl: string
+}
+
+function formatReadingTime(template: string, minutes: number): string {
+  return template.replace('{{minutes}}', String(minutes))
+}
+
+export function createBlogOgImageCard(
+  entry: BlogPostSummary,
+  language: ContentLanguage,
+  labels: OgImageLabels,
+): OgImageCard {
+  return {
+    language,
+    eyebrow: labels.eyebrow,
+    title: entry.meta.title,
+    tags: entry.meta.tags.slice(0, MAX_TAGS),
+    date: formatContentDate(entry.meta.date, language),
+    readingTime: formatReadingTime(labels.readingTime, entry.readingTime),
+  }
+}
+
+/**
+ * Case studies have no tags, so their role and status are shown as chips instead
+ */
+export function createCaseStudyOgImageCard(
+  entry: ProjectCaseStudySummary,
+  language: ContentLanguage,
+  labels: OgImageLabels,
+): OgImageCard {
+  const { title, published, role, status } = entry.meta
+
+  return {
+    language,
+    eyebrow: labels.eyebrow,
+    title,
+    tags: [role, status].filter((value): value is string => Boolean(value)),
+    date: formatContentDate(published, language),
+    readingTime: formatReadingTime(labels.readingTime, entry.readingTime),
+  }
+}
+
+function box(style: CSSProperties, ...children: ReactNode[]): ReactElement {
+  return createElement('div', { style: { display: 'flex', ...style } }, ...children)
+}
+
+function getTitleFontSize(title: string): number {
+  if (title.length > 90) return 52
+  if (title.length > 60) return 60
+  return 68
+}
+
+/**
+ * Element tree for one card, sized to OG_IMAGE_SIZE
+ */
+export function renderOgImageElement(
+  card: OgImageCard,
+  theme: OgImageTheme,
+  branding: OgImageBranding,
+): ReactElement {
+  const palette = PALETTES[theme]
+  const siteHost = new URL(branding.siteUrl).host
+
+  return box(
+    {
+      ...OG_IMAGE_SIZE,
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: 72,
+      backgroundImage: palette.background,
+      color: palette.text,
+      fontFamily: OG_IMAGE_FONT_FAMILY,
+    },
+    box(
+      { justifyContent: 'space-between', alignItems: 'center', fontSize: 28 },
+      box({ color: palette.accent, fontWeight: 700, fontSize: 34 }, branding.mark),
+      box(
+        { alignItems: 'center', gap: 16, color: palette.muted },
+        card.eyebrow,
+        box(
+          {
+            padding: '4px 14px',
+            borderRadius: 8,
+            border: `2px solid ${palette.accent}`,
+            color: palette.accent,
+            fontWeight: 700,
+            fontSize: 22,
+          },
+          card.language.toUpperCase(),
+        ),
+      ),
+    ),
+    box(
+      { flexDirection: 'column', gap: 28 },
+      box(
+        {
+          fontSize: getTitleFontSize(card.title),
+          fontWeight: 700,
+          lineHeight: 1.15,
+          letterSpacing: '-0.02em',
+        },
+        card.title,
+      ),
+      box(
+        { flexWrap: 'wrap', gap: 12 },
+        ...card.tags.map((tag) =>
+          box(
+            {
+              padding: '6px 18px',
+              borderRadius: 999,
+              backgroundColor: palette.chip,
+              color: palette.accent,
+              fontSize: 24,
+            },
+            `#${tag}`,
+          ),
+        ),
+      ),
+    ),
+    box(
+      { justifyContent: 'space-between', alignItems: 'center', fontSize: 26, color: palette.muted },
+      box({}, `${card.date} · ${card.readingTime}`),
+      box({}, `${branding.name} · ${siteHost}`),
+    ),
+  )
+}
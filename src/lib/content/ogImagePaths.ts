@@ -0,0 +1,33 @@
+/**
+ * Public locations of the generated Open Graph images.
+ *
+ * Kept free of the image template so pages can reference the cards without
+ * pulling build-time code into the app bundle.
+ */
+
+import type { BlogLanguage } from '../../types/blog'
+
+export type OgImageCollection = 'blog' | 'projects'
+
+/**
+ * Path of the card for one post or case study
+ */
+export function getOgImagePath(
+  language: BlogLanguage,
+  collection: OgImageCollection,
+  slug: string,
+): string {
+  return `/og/${language}/${collection}/${slug}.png`
+}
+
+/**
+ * Absolute URL for the `og:image` meta tag
+ */
+export function getOgImageUrl(
+  siteUrl: string,
+  language: BlogLanguage,
+  collection: OgImageCollection,
+  slug: string,
+): string {
+  return `${siteUrl.replace(/\/+$/, '')}${getOgImagePath(language, collection, slug)}`
+}
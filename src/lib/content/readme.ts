@@ -0,0 +1,66 @@
+/**
+ * READMEs captured by the projects snapshot are rendered on the site, away from GitHub,
+ * so their relative links and images are resolved against the repository first.
+ */
+
+export interface ReadmeSource {
+  /** `owner/name` of the repository */
+  fullName: string
+  /** Branch the README was read from */
+  branch: string
+  /** Path of the README in the repository, e.g. `README.md` or `docs/README.md` */
+  path: string
+}
+
+/** A scheme (`https:`, `mailto:`), a protocol-relative URL or an in-page anchor */
+const ABSOLUTE_URL_PATTERN = /^(?:[a-z][a-z\d+.-]*:|\/\/|#)/i
+const IMAGE_PATH_PATTERN = /\.(?:png|jpe?g|gif|svg|webp|avif)(?:[?#]|$)/i
+
+const MARKDOWN_TARGET = /(\]\(\s*<?)([^)\s>]+)/g
+const REFERENCE_DEFINITION = /^(\s{0,3}\[[^\]]+\]:\s*<?)([^\s>]+)/
+const HTML_TARGET = /(<(?:img|a|source)\b[^>]*?\s(?:src|href)=["'])([^"']+)/gi
+const FENCE = /^\s*(```|~~~)/
+
+/**
+ * Absolute URL for a README link: images point at the raw file so they load outside
+ * GitHub, everything else at the file's page. Anchors and absolute URLs are kept as is.
+ */
+export function resolveReadmeUrl(url: string, source: ReadmeSource): string {
+  if (url === '' || ABSOLUTE_URL_PATTERN.test(url)) return url
+
+  const base = IMAGE_PATH_PATTERN.test(url)
+    ? `https://raw.githubusercontent.com/${source.fullName}/${source.branch}/`
+    : `https://github.com/${source.fullName}/blob/${source.branch}/`
+  const directory = source.path.includes('/') ? source.path.replace(/[^/]+$/, '') : ''
+  // Root-relative links start at the repository root, not at the README's folder
+  const relativePath = url.startsWith('/') ? url.slice(1) : `${directory}${url}`
+
+  return new URL(relativePath, base).href
+}
+
+/**
+ * Resolve every relative link and image of a README: inline links, reference definitions
+ * and raw HTML attributes. Code blocks are left untouched.
+ */
+export function resolveReadmeUrls(markdown: string, source: ReadmeSource): string {
+  let inFence = false
+
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (FENCE.test(line)) {
+        inFence = !inFence
+        return line
+      }
+      if (inFence) return line
+
+      const resolve = (_match: string, prefix: string, url: string) =>
+        `${prefix}${resolveReadmeUrl(url, source)}`
+
+      return line
+        .replace(REFERENCE_DEFINITION, resolve)
+        .replace(MARKDOWN_TARGET, resolve)
+        .replace(HTML_TARGET, resolve)
+    })
+    .join('\n')
+}
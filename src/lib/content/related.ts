@@ -0,0 +1,94 @@
+/**
+ * Cross-links shown at the end of a blog post: related posts, chronological neighbours
+ * and the case studies that reference the post. Everything is derived from the manifests
+ * already loaded by the page, so no extra data is fetched.
+ */
+
+import { isListed } from './visibility'
+
+import type { BlogPostSummary } from '../../types/blog'
+import type { ProjectCaseStudySummary } from '../../types/projectCaseStudy'
+
+export const RELATED_POSTS_LIMIT = 3
+
+const TAG_WEIGHT = 2
+const SERIES_WEIGHT = 3
+/** Days after which the recency bonus has halved */
+const RECENCY_HALF_LIFE_DAYS = 180
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface AdjacentPosts {
+  /** Older post, or null for the first post */
+  previous: BlogPostSummary | null
+  /** Newer post, or null for the latest post */
+  next: BlogPostSummary | null
+}
+
+function countSharedTags(a: BlogPostSummary, b: BlogPostSummary): number {
+  const tags = new Set(a.meta.tags.map((tag) => tag.toLowerCase()))
+  return b.meta.tags.filter((tag) => tags.has(tag.toLowerCase())).length
+}
+
+function getDayDistance(a: BlogPostSummary, b: BlogPostSummary): number {
+  return Math.abs(Date.parse(a.meta.date) - Date.parse(b.meta.date)) / DAY_MS
+}
+
+/**
+ * Relatedness of a candidate to the post being read. Posts sharing no tag and no series
+ * score 0; recency only breaks ties between otherwise related posts (bonus below 1).
+ */
+export function getRelatedScore(post: BlogPostSummary, candidate: BlogPostSummary): number {
+  const sharedTags = countSharedTags(post, candidate)
+  const sameSeries = post.meta.series !== undefined && post.meta.series === candidate.meta.series
+  if (sharedTags === 0 && !sameSeries) return 0
+
+  const recency = 1 / (1 + getDayDistance(post, candidate) / RECENCY_HALF_LIFE_DAYS)
+  return sharedTags * TAG_WEIGHT + (sameSeries ? SERIES_WEIGHT : 0) + recency
+}
+
+/**
+ * Listed posts most related to `post`, best match first
+ */
+export function getRelatedPosts(
+  posts: BlogPostSummary[],
+  post: BlogPostSummary,
+  limit = RELATED_POSTS_LIMIT,
+): BlogPostSummary[] {
+  return posts
+    .filter((candidate) => candidate.slug !== post.slug && isListed(candidate))
+    .map((candidate) => ({ candidate, score: getRelatedScore(post, candidate) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.candidate.meta.date.localeCompare(a.candidate.meta.date))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
+
+/**
+ * Chronological neighbours of a post among the listed posts, independent of the order
+ * the posts are given in. Unlisted posts have no neighbours.
+ */
+export function getAdjacentPosts(posts: BlogPostSummary[], post: BlogPostSummary): AdjacentPosts {
+  const chronological = posts
+    .filter(isListed)
+    .sort((a, b) => a.meta.date.localeCompare(b.meta.date) || a.slug.localeCompare(b.slug))
+  const index = chronological.findIndex((candidate) => candidate.slug === post.slug)
+  if (index === -1) return { previous: null, next: null }
+
+  return {
+    previous: chronological[index - 1] ?? null,
+    next: chronological[index + 1] ?? null,
+  }
+}
+
+/**
+ * Case studies whose `relatedPosts` reference the post, by canonical or legacy slug
+ */
+export function getCaseStudiesForPost(
+  caseStudies: ProjectCaseStudySummary[],
+  post: BlogPostSummary,
+): ProjectCaseStudySummary[] {
+  const slugs = new Set([post.slug, ...(post.legacySlugs ?? [])])
+  return caseStudies.filter((caseStudy) =>
+    caseStudy.meta.relatedPosts?.some((relatedSlug) => slugs.has(relatedSlug)),
+  )
+}
@@ -0,0 +1,76 @@
+/**
+ * Route lists derived from content, shared by sitemap generation and prerendering
+ */
+
+import { CONTENT_LANGUAGES, type ContentLanguage } from './manifest'
+import { getBlogPostPath } from './slugs'
+import { getBlogArchivePaths } from './taxonomy'
+import { isListed } from './visibility'
+
+import type { BlogPostSummary } from '../../types/blog'
+
+const STATIC_PATHS = ['/', '/about', '/projects', '/contact', '/blog']
+
+export interface RouteContent {
+  getBlogEntries: (lang: ContentLanguage) => BlogPostSummary[]
+  getCaseStudyEntries: (lang: ContentLanguage) => { slug: string; meta: { repoName: string } }[]
+  /** Repositories in the projects snapshot; each one gets a detail page */
+  projectNames: string[]
+}
+
+/**
+ * All localized pages: static pages plus one URL per blog post (always using the canonical
+ * slug), every page of each tag and series archive, and one per repository in the projects
+ * snapshot, at its case study slug when it has one
+ */
+export function getPageRoutes(content: RouteContent): string[] {
+  const staticRoutes = CONTENT_LANGUAGES.flatMap((lang) =>
+    STATIC_PATHS.map((staticPath) => (staticPath === '/' ? `/${lang}/` : `/${lang}${staticPath}`)),
+  )
+  const blogRoutes = CONTENT_LANGUAGES.flatMap((lang) =>
+    content.getBlogEntries(lang).map((entry) => `/${lang}${getBlogPostPath(entry.slug)}`),
+  )
+  const archiveRoutes = CONTENT_LANGUAGES.flatMap((lang) =>
+    getBlogArchivePaths(content.getBlogEntries(lang)).map(
+      (archivePath) => `/${lang}${archivePath}`,
+    ),
+  )
+  const projectRoutes = CONTENT_LANGUAGES.flatMap((lang) => {
+    const caseStudySlugs = new Map(
+      content.getCaseStudyEntries(lang).map((entry) => [entry.meta.repoName, entry.slug]),
+    )
+    return content.projectNames.map(
+      (name) => `/${lang}/projects/${caseStudySlugs.get(name) ?? name}`,
+    )
+  })
+
+  return [...staticRoutes, ...blogRoutes, ...archiveRoutes, ...projectRoutes]
+}
+
+/**
+ * The pages listed in the sitemap: every page except unlisted blog posts
+ */
+export function getSitemapRoutes(content: RouteContent): string[] {
+  return getPageRoutes({
+    ...content,
+    getBlogEntries: (lang) => content.getBlogEntries(lang).filter(isListed),
+  })
+}
+
+/**
+ * Last modification date of each blog post route, for the sitemap's `lastmod`. Other pages
+ * fall back to the build date.
+ */
+export function getSitemapLastModified(content: RouteContent): Record<string, Date> {
+  return Object.fromEntries(
+    CONTENT_LANGUAGES.flatMap((lang) =>
+      content
+        .getBlogEntries(lang)
+        .filter(isListed)
+        .map((entry) => [
+          `/${lang}${getBlogPostPath(entry.slug)}`,
+          new Date(entry.meta.updated ?? entry.meta.date),
+        ]),
+    ),
+  )
+}
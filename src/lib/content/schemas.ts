@@ -0,0 +1,162 @@
+/**
+ * Zod schemas for blog and case-study frontmatter and the project curation file.
+ *
+ * Each schema is checked against the corresponding metadata interface, so the
+ * types in src/types stay the single source of truth for the field shapes.
+ */
+
+import { z } from 'zod'
+
+import { findFrontmatterLine, type ContentIssue } from './frontmatter'
+import { SLUG_PATTERN } from './slugs'
+
+import type { BlogPostMeta } from '../../types/blog'
+import type { ProjectCaseStudyMeta } from '../../types/projectCaseStudy'
+import type { ProjectCuration } from '../../types/projectCuration'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Accepts quoted date strings and YAML timestamps, normalising the latter to YYYY-MM-DD
+ */
+const contentDate = z
+  .union([z.string(), z.date()], { error: 'Expected a YYYY-MM-DD date' })
+  .transform((value, ctx) => {
+    if (value instanceof Date) {
+      if (Number.isNaN(value.getTime())) {
+        ctx.addIssue({ code: 'custom', message: 'Invalid date' })
+        return z.NEVER
+      }
+      return value.toISOString().slice(0, 10)
+    }
+
+    if (!DATE_PATTERN.test(value) || Number.isNaN(new Date(value).getTime())) {
+      ctx.addIssue({ code: 'custom', message: `Expected a YYYY-MM-DD date, received "${value}"` })
+      return z.NEVER
+    }
+
+    return value
+  })
+
+const nonEmptyString = z.string().trim().min(1, 'Must not be empty')
+
+export const blogFrontmatterSchema = z
+  .object({
+    title: nonEmptyString,
+    description: nonEmptyString,
+    date: contentDate,
+    updated: contentDate.optional(),
+    changelog: z.array(z.object({ date: contentDate, description: nonEmptyString })).optional(),
+    author: nonEmptyString,
+    tags: z.array(nonEmptyString).default([]),
+    featured: z.boolean().optional(),
+    series: nonEmptyString.optional(),
+    seriesOrder: z.number().int().positive().optional(),
+    draft: z.boolean().optional(),
+    unlisted: z.boolean().optional(),
+    // Canonical URL slug; falls back to the file name without its date prefix
+    slug: z.string().regex(SLUG_PATTERN, 'Must be lowercase words separated by hyphens').optional(),
+    // Links translations across locales; falls back to the file name without its date prefix
+    translationKey: nonEmptyString.optional(),
+  })
+  .refine((meta) => meta.seriesOrder === undefined || meta.series !== undefined, {
+    message: 'Requires a series',
+    path: ['seriesOrder'],
+  })
+  .refine((meta) => meta.updated === undefined || meta.updated >= meta.date, {
+    message: 'Must not be earlier than date',
+    path: ['updated'],
+  })
+  .refine((meta) => (meta.changelog ?? []).every((change) => change.date >= meta.date), {
+    message: 'Entries must not be earlier than date',
+    path: ['changelog'],
+  }) satisfies z.ZodType<Omit<BlogPostMeta, 'slug'> & { slug?: string; translationKey?: string }>
+
+export const caseStudyFrontmatterSchema = z.object({
+  slug: nonEmptyString,
+  title: nonEmptyString,
+  summary: nonEmptyString,
+  published: contentDate,
+  featured: z.boolean().optional(),
+  role: nonEmptyString.optional(),
+  status: nonEmptyString.optional(),
+  outcomes: z.array(nonEmptyString).optional(),
+  repoName: nonEmptyString,
+  relatedPosts: z.array(nonEmptyString).optional(),
+  translationKey: nonEmptyString.optional(),
+}) satisfies z.ZodType<ProjectCaseStudyMeta>
+
+export const PROJECT_CURATION_VERSION = 1
+
+const localizedText = z.strictObject({
+  es: nonEmptyString.optional(),
+  en: nonEmptyString.optional(),
+})
+
+// Site paths point at files under public/
+const imageSource = z
+  .string()
+  .regex(/^(?:\/[^/]|https?:\/\/)/, 'Must be a site path starting with / or an http(s) URL')
+
+export const projectCurationSchema = z
+  .strictObject({
+    version: z.literal(PROJECT_CURATION_VERSION, {
+      error: `Unsupported curation version, expected ${String(PROJECT_CURATION_VERSION)}`,
+    }),
+    hidden: z.array(z.union([nonEmptyString, z.number().int().positive()])).default([]),
+    pinned: z.array(nonEmptyString).default([]),
+    overrides: z
+      .record(
+        nonEmptyString,
+        z.strictObject({
+          name: localizedText.optional(),
+          description: localizedText.optional(),
+          homepage: z.url({ protocol: /^https?$/, error: 'Must be an http(s) URL' }).optional(),
+          cover: imageSource.optional(),
+        }),
+      )
+      .default({}),
+  })
+  .refine((curation) => new Set(curation.pinned).size === curation.pinned.length, {
+    message: 'Must not list a repository twice',
+    path: ['pinned'],
+  })
+  .refine((curation) => curation.pinned.every((name) => !curation.hidden.includes(name)), {
+    message: 'Must not list hidden repositories',
+    path: ['pinned'],
+  }) satisfies z.ZodType<ProjectCuration>
+
+export type BlogFrontmatter = z.infer<typeof blogFrontmatterSchema>
+export type CaseStudyFrontmatter = z.infer<typeof caseStudyFrontmatterSchema>
+
+type ValidationResult<T> = { success: true; data: T } | { success: false; issues: ContentIssue[] }
+
+/**
+ * Validate parsed frontmatter, mapping every Zod issue to a file path, field and line
+ */
+export function validateFrontmatter<T>(
+  schema: z.ZodType<T>,
+  meta: Record<string, unknown>,
+  filePath: string,
+  source: string,
+): ValidationResult<T> {
+  const result = schema.safeParse(meta)
+
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => {
+      const [topLevelKey] = issue.path
+      return {
+        filePath,
+        field: issue.path.length > 0 ? issue.path.join('.') : 'frontmatter',
+        message: issue.message,
+        line:
+          topLevelKey === undefined ? undefined : findFrontmatterLine(source, String(topLevelKey)),
+      }
+    }),
+  }
+}
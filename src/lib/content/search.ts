@@ -0,0 +1,355 @@
+/**
+ * Full-text search over posts, case studies, projects and pages.
+ *
+ * The inverted index is built at compile time by the content-manifest plugin
+ * (`virtual:content/search/<lang>`) and queried in the browser. Matching is
+ * accent-insensitive, supports prefixes (search-as-you-type) and small typos, and ranks
+ * documents by field-weighted term frequency times inverse document frequency.
+ */
+
+export type SearchDocumentType = 'page' | 'post' | 'caseStudy' | 'project'
+
+export interface SearchDocumentInput {
+  /** Unique within the index, e.g. `post:react-security-guide` */
+  id: string
+  type: SearchDocumentType
+  title: string
+  description: string
+  /** Site path including the locale, or an absolute URL for external documents */
+  url: string
+  tags?: string[]
+  headings?: string[]
+  /** Plain text body, used for matching and snippets */
+  body?: string
+  date?: string
+}
+
+export type SearchIndexDocument = Omit<SearchDocumentInput, 'headings'>
+
+export interface SearchIndex {
+  documents: SearchIndexDocument[]
+  /** Postings per normalized term, flattened as `[documentIndex, weight, ...]` */
+  terms: Record<string, number[]>
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+  /** Offset of the segment in the highlighted text */
+  start: number
+}
+
+export interface SearchResult {
+  document: SearchIndexDocument
+  score: number
+  /** Index terms that matched, for highlighting */
+  terms: string[]
+}
+
+interface DocumentMatch {
+  score: number
+  terms: string[]
+}
+
+interface SearchOptions {
+  limit?: number
+  types?: SearchDocumentType[]
+}
+
+const FIELD_WEIGHTS = { title: 10, tags: 6, headings: 4, description: 3, body: 1 } as const
+
+const PREFIX_FACTOR = 0.8
+const FUZZY_FACTOR = 0.5
+const MIN_PREFIX_LENGTH = 2
+const MIN_FUZZY_LENGTH = 4
+const SNIPPET_LENGTH = 160
+
+// Very common Spanish and English words: they would match every document
+const STOP_WORDS = new Set(
+  (
+    'a al an and are as at be by con de del el en es for from in is it la las lo los of on or ' +
+    'para por que se su the this to un una with y'
+  ).split(' '),
+)
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+/**
+ * Lowercase and strip diacritics character by character, so the result keeps the same
+ * length as the input and match offsets can be mapped back to the original text
+ */
+export function foldText(text: string): string {
+  let folded = ''
+
+  for (const char of text) {
+    const candidate = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+    folded += candidate.length === char.length ? candidate : char
+  }
+
+  return folded
+}
+
+function isIndexable(word: string): boolean {
+  return word.length > 1 && !STOP_WORDS.has(word)
+}
+
+/**
+ * Normalized words of a text, without stop words
+ */
+export function tokenize(text: string): string[] {
+  return (foldText(text).match(WORD_PATTERN) ?? []).filter(isIndexable)
+}
+
+function countTerms(text: string, counts = new Map<string, number>()): Map<string, number> {
+  for (const term of tokenize(text)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Build the inverted index. Each field contributes its weight times a dampened term
+ * frequency, so a word in the title outranks many mentions in the body.
+ */
+export function buildSearchIndex(inputs: SearchDocumentInput[]): SearchIndex {
+  const terms: Record<string, number[]> = {}
+
+  inputs.forEach((input, documentIndex) => {
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      title: input.title,
+      tags: (input.tags ?? []).join(' '),
+      headings: (input.headings ?? []).join(' '),
+      description: input.description,
+      body: input.body ?? '',
+    }
+    const weights = new Map<string, number>()
+
+    for (const [field, text] of Object.entries(fields) as [keyof typeof FIELD_WEIGHTS, string][]) {
+      for (const [term, count] of countTerms(text)) {
+        const weight = FIELD_WEIGHTS[field] * (1 + Math.log(count))
+        weights.set(term, (weights.get(term) ?? 0) + weight)
+      }
+    }
+
+    for (const [term, weight] of weights) {
+      const postings = (terms[term] ??= [])
+      postings.push(documentIndex, Math.round(weight * 100) / 100)
+    }
+  })
+
+  return {
+    // Headings only feed the index; snippets come from the body
+    documents: inputs.map(({ id, type, title, description, url, tags, body, date }) => ({
+      id,
+      type,
+      title,
+      description,
+      url,
+      tags,
+      body,
+      date,
+    })),
+    terms,
+  }
+}
+
+/**
+ * Levenshtein distance, giving up early once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      const value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost,
+      )
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+
+  return previous[b.length] ?? max + 1
+}
+
+/**
+ * Index terms a query word can match, with their match factor: exact, prefix (any
+ * longer word starting with it) or fuzzy (one typo, two for long words)
+ */
+function expandQueryTerm(queryTerm: string, vocabulary: string[]): Map<string, number> {
+  const matches = new Map<string, number>()
+  const maxEdits = queryTerm.length >= 8 ? 2 : 1
+
+  for (const term of vocabulary) {
+    if (term === queryTerm) {
+      matches.set(term, 1)
+    } else if (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)) {
+      matches.set(term, PREFIX_FACTOR)
+    } else if (
+      queryTerm.length >= MIN_FUZZY_LENGTH &&
+      editDistance(queryTerm, term, maxEdits) <= maxEdits
+    ) {
+      matches.set(term, FUZZY_FACTOR)
+    }
+  }
+
+  return matches
+}
+
+const vocabularies = new WeakMap<SearchIndex, string[]>()
+
+function getVocabulary(index: SearchIndex): string[] {
+  let vocabulary = vocabularies.get(index)
+  if (!vocabulary) {
+    vocabulary = Object.keys(index.terms)
+    vocabularies.set(index, vocabulary)
+  }
+  return vocabulary
+}
+
+/**
+ * Best-scoring variant of one query word in each document that contains any of them
+ */
+function matchQueryTerm(
+  index: SearchIndex,
+  queryTerm: string,
+  vocabulary: string[],
+): Map<number, DocumentMatch> {
+  const matches = new Map<number, DocumentMatch>()
+
+  for (const [term, factor] of expandQueryTerm(queryTerm, vocabulary)) {
+    const postings = index.terms[term] ?? []
+    const idf = Math.log(1 + index.documents.length / (postings.length / 2))
+
+    for (let i = 0; i < postings.length; i += 2) {
+      const documentIndex = postings[i] ?? 0
+      const score = factor * (postings[i + 1] ?? 0) * idf
+      const match = matches.get(documentIndex)
+      if (match) {
+        match.score = Math.max(match.score, score)
+        match.terms.push(term)
+      } else {
+        matches.set(documentIndex, { score, terms: [term] })
+      }
+    }
+  }
+
+  return matches
+}
+
+function intersectMatches(
+  left: Map<number, DocumentMatch>,
+  right: Map<number, DocumentMatch>,
+): Map<number, DocumentMatch> {
+  const matches = new Map<number, DocumentMatch>()
+
+  for (const [documentIndex, match] of right) {
+    const other = left.get(documentIndex)
+    if (other) {
+      matches.set(documentIndex, {
+        score: other.score + match.score,
+        terms: [...other.terms, ...match.terms],
+      })
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Ranked documents containing every word of the query (or a prefix/typo variant of it)
+ */
+export function searchDocuments(
+  index: SearchIndex,
+  query: string,
+  { limit = 20, types }: SearchOptions = {},
+): SearchResult[] {
+  const queryTerms = [...new Set(tokenize(query))]
+  if (queryTerms.length === 0) return []
+
+  const vocabulary = getVocabulary(index)
+  let matches: Map<number, DocumentMatch> | null = null
+
+  for (const queryTerm of queryTerms) {
+    const termMatches = matchQueryTerm(index, queryTerm, vocabulary)
+    // Every query word must match: keep the documents matched by all previous words too
+    matches = matches === null ? termMatches : intersectMatches(matches, termMatches)
+  }
+
+  return [...(matches ?? [])]
+    .flatMap(([documentIndex, { score, terms }]) => {
+      const document = index.documents[documentIndex]
+      return document && (!types || types.includes(document.type))
+        ? [{ document, score, terms }]
+        : []
+    })
+    .sort(
+      (a, b) => b.score - a.score || (b.document.date ?? '').localeCompare(a.document.date ?? ''),
+    )
+    .slice(0, limit)
+}
+
+function findMatches(text: string, terms: string[]): [number, number][] {
+  const termSet = new Set(terms)
+  const ranges: [number, number][] = []
+
+  for (const match of foldText(text).matchAll(WORD_PATTERN)) {
+    if (termSet.has(match[0])) ranges.push([match.index, match.index + match[0].length])
+  }
+
+  return ranges
+}
+
+/**
+ * Split text into plain and matching segments for rendering with `<mark>`
+ */
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+
+  for (const [start, end] of findMatches(text, terms)) {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), match: false, start: cursor })
+    }
+    segments.push({ text: text.slice(start, end), match: true, start })
+    cursor = end
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false, start: cursor })
+  }
+
+  return segments
+}
+
+/**
+ * A short excerpt around the first match in the body (or the description when the body
+ * has none), highlighted
+ */
+export function createSnippet(
+  document: SearchIndexDocument,
+  terms: string[],
+  length = SNIPPET_LENGTH,
+): HighlightSegment[] {
+  const body = document.body ?? ''
+  const [firstMatch] = findMatches(body, terms)
+
+  if (!firstMatch) {
+    return highlightText(document.description, terms)
+  }
+
+  let start = Math.max(0, firstMatch[0] - Math.floor(length / 3))
+  // Start on a word boundary
+  if (start > 0) start = body.indexOf(' ', start) + 1 || start
+  const end = Math.min(body.length, start + length)
+  const excerpt = `${start > 0 ? '…' : ''}${body.slice(start, end).trim()}${end < body.length ? '…' : ''}`
+
+  return highlightText(excerpt, terms)
+}
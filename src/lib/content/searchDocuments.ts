@@ -0,0 +1,97 @@
+/**
+ * Build-time assembly of the documents fed to the search index for one locale.
+ */
+
+import type { ContentLanguage, ManifestDocument } from './manifest'
+import type { SearchDocumentInput } from './search'
+import { getBlogPostPath } from './slugs'
+import { extractHeadings, markdownToPlainText } from './text'
+import { isListed } from './visibility'
+
+import type { GitHubProject } from '../../types'
+import type { BlogPostSummary } from '../../types/blog'
+import type { ProjectCaseStudySummary } from '../../types/projectCaseStudy'
+
+export interface SearchPage {
+  /** Locale-less path, e.g. `/about` */
+  path: string
+  title: string
+  description: string
+}
+
+export type SearchProject = Pick<
+  GitHubProject,
+  'name' | 'display_name' | 'description' | 'topics' | 'language'
+>
+
+export interface SearchSources {
+  language: ContentLanguage
+  pages: SearchPage[]
+  posts: ManifestDocument<BlogPostSummary>[]
+  caseStudies: ManifestDocument<ProjectCaseStudySummary>[]
+  projects: SearchProject[]
+}
+
+function localize(language: ContentLanguage, path: string): string {
+  return path === '/' ? `/${language}/` : `/${language}${path}`
+}
+
+/**
+ * Pages, posts, case studies and projects as search documents. Projects with a case study
+ * are represented by the case study, which also inherits the repository topics; the rest
+ * link to their repository detail page.
+ */
+export function collectSearchDocuments({
+  language,
+  pages,
+  posts,
+  caseStudies,
+  projects,
+}: SearchSources): SearchDocumentInput[] {
+  const projectsByName = new Map(projects.map((project) => [project.name, project]))
+  const caseStudyRepos = new Set(caseStudies.map(({ entry }) => entry.meta.repoName))
+
+  return [
+    ...pages.map((page) => ({
+      id: `page:${page.path}`,
+      type: 'page' as const,
+      title: page.title,
+      description: page.description,
+      url: localize(language, page.path),
+    })),
+    ...posts
+      .filter(({ entry }) => isListed(entry))
+      .map(({ entry, body }) => ({
+        id: `post:${entry.slug}`,
+        type: 'post' as const,
+        title: entry.meta.title,
+        description: entry.meta.description,
+        url: localize(language, getBlogPostPath(entry.slug)),
+        tags: entry.meta.tags,
+        headings: extractHeadings(body),
+        body: markdownToPlainText(body),
+        date: entry.meta.date,
+      })),
+    ...caseStudies.map(({ entry, body }) => ({
+      id: `caseStudy:${entry.slug}`,
+      type: 'caseStudy' as const,
+      title: entry.meta.title,
+      description: entry.meta.summary,
+      url: localize(language, `/projects/${entry.slug}`),
+      tags: projectsByName.get(entry.meta.repoName)?.topics ?? [],
+      headings: extractHeadings(body),
+      body: markdownToPlainText(body),
+      date: entry.meta.published,
+    })),
+    ...projects
+      .filter((project) => !caseStudyRepos.has(project.name))
+      .map((project) => ({
+        id: `project:${project.name}`,
+        type: 'project' as const,
+        title: project.display_name ?? project.name,
+        description: project.description ?? '',
+        url: localize(language, `/projects/${project.name}`),
+        tags: [...project.topics, ...(project.language ? [project.language] : [])],
+      })),
+  ]
+}
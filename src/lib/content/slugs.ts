@@ -0,0 +1,67 @@
+/**
+ * Blog slug resolution shared by the content manifest, the sitemap and SEO URLs.
+ *
+ * The canonical slug is the frontmatter `slug`. The file name with and without its
+ * `YYYY-MM-DD-` prefix are kept as legacy aliases so old URLs can be redirected.
+ */
+
+const DATE_PREFIX_PATTERN = /^\d{4}-\d{2}-\d{2}-/
+
+/** Lowercase words (any script) separated by single hyphens */
+export const SLUG_PATTERN = /^[\p{Ll}\p{Lo}\p{N}]+(?:-[\p{Ll}\p{Lo}\p{N}]+)*$/u
+
+export interface ResolvedSlug {
+  slug: string
+  legacySlugs: string[]
+}
+
+function getFileStem(filePath: string): string {
+  const fileName = filePath.split('/').pop() ?? ''
+  return fileName.replace(/\.md$/, '')
+}
+
+export function stripDatePrefix(value: string): string {
+  return value.replace(DATE_PREFIX_PATTERN, '')
+}
+
+/**
+ * Resolve the canonical slug of a post and the legacy slugs that should redirect to it
+ */
+export function resolvePostSlug(filePath: string, frontmatterSlug?: string): ResolvedSlug {
+  const fileStem = getFileStem(filePath)
+  const slug = frontmatterSlug ?? stripDatePrefix(fileStem)
+  const legacySlugs = [...new Set([fileStem, stripDatePrefix(fileStem)])].filter(
+    (legacySlug) => legacySlug !== slug,
+  )
+
+  return { slug, legacySlugs }
+}
+
+/**
+ * Key shared by the translations of one document across locales. Defaults to the file name
+ * without its date prefix, since translated files keep the same name in every locale folder.
+ */
+export function resolveTranslationKey(filePath: string, frontmatterKey?: string): string {
+  return frontmatterKey ?? stripDatePrefix(getFileStem(filePath))
+}
+
+/**
+ * Locale-less path of a blog post, as expected by buildLocalizedSeoUrls
+ */
+export function getBlogPostPath(slug: string): string {
+  return `/blog/${slug}`
+}
+
+/**
+ * Find the post for a URL slug, matching the canonical slug first and legacy aliases second
+ */
+export function findPostBySlug<TPost extends { slug: string; legacySlugs?: string[] }>(
+  posts: TPost[],
+  slug: string,
+): TPost | null {
+  return (
+    posts.find((post) => post.slug === slug) ??
+    posts.find((post) => post.legacySlugs?.includes(slug)) ??
+    null
+  )
+}
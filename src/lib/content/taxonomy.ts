@@ -0,0 +1,134 @@
+/**
+ * Tag and series archives: URL slugs, grouping and pagination shared by the archive
+ * pages, the sitemap and prerendering.
+ *
+ * Tags and series names are free text in frontmatter ("career transition",
+ * "Agentes en la práctica"); their URL slug is the accent-folded, hyphenated form.
+ */
+
+import { isListed } from './visibility'
+
+import type { BlogPostSummary } from '../../types/blog'
+
+export const BLOG_ARCHIVE_PAGE_SIZE = 9
+
+export type BlogArchiveKind = 'tag' | 'series'
+
+export interface BlogArchive {
+  kind: BlogArchiveKind
+  slug: string
+  /** Display name as written in the frontmatter */
+  name: string
+  /** Newest first for tags, in reading order for series */
+  posts: BlogPostSummary[]
+}
+
+export interface SeriesNavigation {
+  series: BlogArchive
+  /** Zero-based position of the current post in the series */
+  index: number
+  previous: BlogPostSummary | null
+  next: BlogPostSummary | null
+}
+
+/**
+ * URL slug of a tag or series name
+ */
+export function getTaxonomySlug(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Locale-less path of an archive page; the first page has no `/page/1` suffix
+ */
+export function getBlogArchivePath(kind: BlogArchiveKind, slug: string, page = 1): string {
+  const basePath = `/blog/${kind}/${slug}`
+  return page > 1 ? `${basePath}/page/${String(page)}` : basePath
+}
+
+export function getPageCount(itemCount: number, pageSize = BLOG_ARCHIVE_PAGE_SIZE): number {
+  return Math.max(1, Math.ceil(itemCount / pageSize))
+}
+
+export function paginate<T>(items: T[], page: number, pageSize = BLOG_ARCHIVE_PAGE_SIZE): T[] {
+  return items.slice((page - 1) * pageSize, page * pageSize)
+}
+
+function compareSeriesOrder(a: BlogPostSummary, b: BlogPostSummary): number {
+  return (
+    (a.meta.seriesOrder ?? Infinity) - (b.meta.seriesOrder ?? Infinity) ||
+    a.meta.date.localeCompare(b.meta.date)
+  )
+}
+
+/**
+ * Every tag and series archive of a locale, without unlisted posts. Posts keep the order
+ * they are given in (the manifest is newest first); series are re-sorted by `seriesOrder`.
+ */
+export function getBlogArchives(posts: BlogPostSummary[], kind: BlogArchiveKind): BlogArchive[] {
+  const archives = new Map<string, BlogArchive>()
+
+  for (const post of posts.filter(isListed)) {
+    const names = kind === 'tag' ? post.meta.tags : post.meta.series ? [post.meta.series] : []
+    for (const name of names) {
+      const slug = getTaxonomySlug(name)
+      if (!slug) continue
+      const archive = archives.get(slug) ?? { kind, slug, name, posts: [] }
+      archive.posts.push(post)
+      archives.set(slug, archive)
+    }
+  }
+
+  const result = [...archives.values()]
+  if (kind === 'series') {
+    for (const archive of result) archive.posts.sort(compareSeriesOrder)
+  }
+  return result
+}
+
+export function findBlogArchive(
+  posts: BlogPostSummary[],
+  kind: BlogArchiveKind,
+  slug: string,
+): BlogArchive | null {
+  return getBlogArchives(posts, kind).find((archive) => archive.slug === slug) ?? null
+}
+
+/**
+ * Position of a post within its series, or null for standalone posts
+ */
+export function getSeriesNavigation(
+  posts: BlogPostSummary[],
+  post: BlogPostSummary,
+): SeriesNavigation | null {
+  if (!post.meta.series) return null
+
+  const series = findBlogArchive(posts, 'series', getTaxonomySlug(post.meta.series))
+  const index = series?.posts.findIndex((part) => part.slug === post.slug) ?? -1
+  if (!series || index === -1) return null
+
+  return {
+    series,
+    index,
+    previous: series.posts[index - 1] ?? null,
+    next: series.posts[index + 1] ?? null,
+  }
+}
+
+/**
+ * Locale-less paths of every archive page, pagination included
+ */
+export function getBlogArchivePaths(posts: BlogPostSummary[]): string[] {
+  return (['tag', 'series'] as const).flatMap((kind) =>
+    getBlogArchives(posts, kind).flatMap((archive) =>
+      Array.from({ length: getPageCount(archive.posts.length) }, (_, index) =>
+        getBlogArchivePath(kind, archive.slug, index + 1),
+      ),
+    ),
+  )
+}
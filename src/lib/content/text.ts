@@ -0,0 +1,94 @@
+/**
+ * Plain-text views of markdown bodies, used by the search index and the table of contents.
+ *
+ * These are deliberately lightweight line/regex transforms: they only need to keep
+ * the words a reader sees, not reproduce the rendered document.
+ */
+
+const FENCE_PATTERN = /^\s*(```|~~~)/
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/
+
+/**
+ * Strip inline markdown (links, images, emphasis, code spans, HTML) from a single line
+ */
+export function stripInlineMarkdown(text: string): string {
+  return (
+    text
+      // Images and links keep their visible text only
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      // Autolinks and bare URLs carry no searchable words
+      .replace(/<https?:\/\/[^>]+>/g, ' ')
+      .replace(/https?:\/\/\S+/g, ' ')
+      .replace(/<\/?[a-z][^>]*>/gi, ' ')
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+  )
+}
+
+export interface MarkdownHeading {
+  /** 1 for `#`, 6 for `######` */
+  level: number
+  /** Heading text without inline markup */
+  text: string
+}
+
+/**
+ * ATX headings (levels 1-6) outside fenced code blocks, in document order
+ */
+export function parseHeadings(markdown: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = []
+  let inFence = false
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    const match = inFence ? null : HEADING_PATTERN.exec(line)
+    if (match?.[1] && match[2]) {
+      headings.push({ level: match[1].length, text: stripInlineMarkdown(match[2]).trim() })
+    }
+  }
+
+  return headings
+}
+
+/**
+ * Heading texts (levels 1-6) outside fenced code blocks, in document order
+ */
+export function extractHeadings(markdown: string): string[] {
+  return parseHeadings(markdown).map((heading) => heading.text)
+}
+
+/**
+ * Readable text of a markdown body: code blocks, link targets, markup and
+ * reference definitions are dropped; whitespace is collapsed to single spaces
+ */
+export function markdownToPlainText(markdown: string): string {
+  const lines: string[] = []
+  let inFence = false
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence
+      continue
+    }
+    if (inFence || /^\s*\[[^\]]+\]:\s*\S+/.test(line)) continue
+
+    const content = line
+      // Block markers: headings, quotes, list bullets, table pipes and rules
+      .replace(/^\s{0,3}#{1,6}\s+/, '')
+      .replace(/^\s*(>\s*)+/, '')
+      .replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '')
+      .replace(/^\s*([-*_]\s*){3,}$/, '')
+      .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/, '')
+      .replace(/\|/g, ' ')
+
+    lines.push(stripInlineMarkdown(content))
+  }
+
+  return lines.join(' ').replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,110 @@
+/**
+ * Word counts and reading-time estimates for markdown bodies.
+ *
+ * Only what a reader actually reads is counted as prose: markup, link targets, URLs and
+ * table pipes are stripped first. Code is read more slowly than prose, so fenced blocks
+ * are counted separately, and every image or diagram adds a few seconds of looking.
+ */
+
+import { markdownToPlainText } from './text'
+
+export interface TextStatistics {
+  /** Words of prose, excluding code */
+  wordCount: number
+  /** Words inside fenced code blocks */
+  codeWordCount: number
+  /** Fenced code blocks, excluding diagrams */
+  codeBlockCount: number
+  /** Images and diagrams */
+  imageCount: number
+  /** Estimated reading time in whole minutes, at least 1 */
+  readingTime: number
+}
+
+const PROSE_WORDS_PER_MINUTE = 200
+const CODE_WORDS_PER_MINUTE = 100
+/** The first image takes 12 seconds; each next one a second less, down to 3 */
+const FIRST_IMAGE_SECONDS = 12
+const MIN_IMAGE_SECONDS = 3
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w-]*)/
+/** Fenced blocks rendered as pictures rather than code */
+const DIAGRAM_LANGUAGES = new Set(['mermaid'])
+const MARKDOWN_IMAGE_PATTERN = /!\[[^\]]*\]\([^)]*\)/g
+const HTML_IMAGE_PATTERN = /<img\b[^>]*>/gi
+
+/**
+ * Count words in plain text. Tokens without a letter or digit (dashes, emoji, stray
+ * punctuation) are not words; accented letters and `¿`/`¡`-prefixed words are.
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((token) => /[\p{L}\p{N}]/u.test(token)).length
+}
+
+function getImageSeconds(imageCount: number): number {
+  let seconds = 0
+  for (let index = 0; index < imageCount; index++) {
+    seconds += Math.max(MIN_IMAGE_SECONDS, FIRST_IMAGE_SECONDS - index)
+  }
+  return seconds
+}
+
+/**
+ * Word, code and image counts of a markdown body plus its estimated reading time
+ */
+export function getTextStatistics(markdown: string): TextStatistics {
+  const proseLines: string[] = []
+  let codeWordCount = 0
+  let codeBlockCount = 0
+  let diagramCount = 0
+  // Marker of the open fence; a block only closes with the same kind of marker
+  let openFence: { marker: string; isDiagram: boolean } | null = null
+
+  for (const line of markdown.split('\n')) {
+    const fence = FENCE_PATTERN.exec(line)
+
+    if (openFence) {
+      if (fence?.[1]?.startsWith(openFence.marker) && !fence[2]) {
+        openFence = null
+      } else if (!openFence.isDiagram) {
+        codeWordCount += countWords(line)
+      }
+      continue
+    }
+
+    if (fence?.[1]) {
+      const isDiagram = DIAGRAM_LANGUAGES.has(fence[2]?.toLowerCase() ?? '')
+      openFence = { marker: fence[1], isDiagram }
+      if (isDiagram) diagramCount++
+      else codeBlockCount++
+      continue
+    }
+
+    proseLines.push(line)
+  }
+
+  const prose = proseLines.join('\n')
+  const imageCount =
+    (prose.match(MARKDOWN_IMAGE_PATTERN)?.length ?? 0) +
+    (prose.match(HTML_IMAGE_PATTERN)?.length ?? 0) +
+    diagramCount
+  // Alt texts are not read aloud in the flow of the text
+  const wordCount = countWords(
+    markdownToPlainText(
+      prose.replace(MARKDOWN_IMAGE_PATTERN, ' ').replace(HTML_IMAGE_PATTERN, ' '),
+    ),
+  )
+
+  const minutes =
+    wordCount / PROSE_WORDS_PER_MINUTE +
+    codeWordCount / CODE_WORDS_PER_MINUTE +
+    getImageSeconds(imageCount) / 60
+
+  return {
+    wordCount,
+    codeWordCount,
+    codeBlockCount,
+    imageCount,
+    readingTime: Math.max(1, Math.ceil(minutes)),
+  }
+}
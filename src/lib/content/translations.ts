@@ -0,0 +1,48 @@
+/**
+ * Cross-locale links between blog posts, blog series and case studies.
+ *
+ * Documents that share a `translationKey` are translations of each other. Each group maps
+ * a locale to the canonical slug used there, so translated slugs resolve correctly and
+ * locales without a translation are simply absent. A series is linked through the
+ * translation key of its first part.
+ */
+
+import { CONTENT_LANGUAGES, type ContentCollection, type ContentLanguage } from './manifest'
+
+export type TranslationGroup = Partial<Record<ContentLanguage, string>>
+
+export type TranslationGroups = Record<ContentCollection | 'series', TranslationGroup[]>
+
+interface TranslatableEntry {
+  slug: string
+  translationKey?: string
+}
+
+/**
+ * Group the entries of every locale by translation key
+ */
+export function buildTranslationGroups(
+  getEntries: (lang: ContentLanguage) => TranslatableEntry[],
+): TranslationGroup[] {
+  const groups = new Map<string, TranslationGroup>()
+
+  for (const lang of CONTENT_LANGUAGES) {
+    for (const entry of getEntries(lang)) {
+      const key = entry.translationKey ?? entry.slug
+      groups.set(key, { ...groups.get(key), [lang]: entry.slug })
+    }
+  }
+
+  return [...groups.values()]
+}
+
+/**
+ * Find the translations of the document published under `slug` in `language`
+ */
+export function findTranslationGroup(
+  groups: TranslationGroup[],
+  language: ContentLanguage,
+  slug: string,
+): TranslationGroup | null {
+  return groups.find((group) => group[language] === slug) ?? null
+}
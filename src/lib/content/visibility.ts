@@ -0,0 +1,43 @@
+/**
+ * Publication state of blog posts.
+ *
+ * Drafts (`draft: true`) and scheduled posts (a `date` in the future) are left out of
+ * production manifests, so they are neither routed nor listed until published; the
+ * dev server keeps them for previewing. Unlisted posts (`unlisted: true`) are built
+ * and reachable by URL, but kept out of listings, feeds, search and the sitemap.
+ */
+
+import type { BlogPostMeta, BlogPostSummary } from '../../types/blog'
+
+export type PostStatus = 'published' | 'draft' | 'scheduled'
+
+export interface PublicationOptions {
+  /** Keep drafts and scheduled posts, as the dev server does */
+  preview?: boolean
+  /** Reference time for scheduled posts, the build time by default */
+  now?: Date
+}
+
+export function getPostStatus(
+  meta: Pick<BlogPostMeta, 'date' | 'draft'>,
+  now = new Date(),
+): PostStatus {
+  if (meta.draft) return 'draft'
+  // Date-only values are midnight UTC, so a post goes live on its day
+  if (new Date(meta.date).getTime() > now.getTime()) return 'scheduled'
+  return 'published'
+}
+
+export function isPublished(
+  meta: Pick<BlogPostMeta, 'date' | 'draft'>,
+  { preview = false, now }: PublicationOptions = {},
+): boolean {
+  return preview || getPostStatus(meta, now) === 'published'
+}
+
+/**
+ * Whether a post appears in lists, archives, related posts, feeds, search and the sitemap
+ */
+export function isListed(post: BlogPostSummary): boolean {
+  return !post.meta.unlisted
+}
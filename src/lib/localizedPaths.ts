@@ -0,0 +1,83 @@
+import { caseStudyRepositories, repositoryNames } from 'virtual:content/repositories'
+import { translations } from 'virtual:content/translations'
+
+import type { ContentCollection, ContentLanguage } from './content/manifest'
+import { findTranslationGroup } from './content/translations'
+import type { LocalizedPaths } from './seo'
+
+const LOCALE_PREFIX_PATTERN = /^\/(es|en)(\/.*)?$/
+const CONTENT_DETAIL_PATTERN = /^\/(blog|projects)\/([^/]+)\/?$/
+const SERIES_PATTERN = /^\/blog\/series\/([^/]+)(?:\/page\/\d+)?\/?$/
+const TAG_PATTERN = /^\/blog\/tag\/[^/]+(?:\/page\/\d+)?\/?$/
+
+/**
+ * Locale-less paths of a page in every locale where it exists.
+ *
+ * Blog posts, series and case studies are resolved through their translation key, so
+ * translated slugs map to each other and missing translations are left out. Tags are free
+ * text per locale, so a tag archive only exists in the current one. Repository pages and any
+ * other page exist under the same path in every locale, so they also stand in for a case study
+ * missing in a locale.
+ */
+export function getLocalizedPaths(path: string, currentLocale: ContentLanguage): LocalizedPaths {
+  if (TAG_PATTERN.test(path)) {
+    return { [currentLocale]: path }
+  }
+
+  const seriesMatch = SERIES_PATTERN.exec(path)
+  if (seriesMatch) {
+    const group = findTranslationGroup(translations.series, currentLocale, seriesMatch[1] ?? '')
+    // Parts may differ per locale, so translations point at the first page
+    return group
+      ? Object.fromEntries(
+          Object.entries(group).map(([locale, seriesSlug]) => [
+            locale,
+            locale === currentLocale ? path : `/blog/series/${seriesSlug}`,
+          ]),
+        )
+      : { [currentLocale]: path }
+  }
+
+  const match = CONTENT_DETAIL_PATTERN.exec(path)
+  if (!match) {
+    return { es: path, en: path }
+  }
+
+  const collection = match[1] as ContentCollection
+  const slug = match[2] ?? ''
+  const group = findTranslationGroup(translations[collection], currentLocale, slug)
+  const paths: LocalizedPaths = group
+    ? Object.fromEntries(
+        Object.entries(group).map(([locale, localeSlug]) => [
+          locale,
+          `/${collection}/${localeSlug}`,
+        ]),
+      )
+    : { [currentLocale]: path }
+
+  const repoName = group ? caseStudyRepositories[currentLocale][slug] : slug
+  if (collection !== 'projects' || !repoName || !repositoryNames.includes(repoName)) {
+    return paths
+  }
+
+  const repositoryPath = `/projects/${repoName}`
+  return { es: paths.es ?? repositoryPath, en: paths.en ?? repositoryPath }
+}
+
+/**
+ * Pathname to navigate to when switching language. Content without a translation falls
+ * back to its section index (`/blog`, `/projects`) instead of a "not found" page.
+ */
+export function getLocalizedPathname(pathname: string, targetLocale: ContentLanguage): string {
+  const match = LOCALE_PREFIX_PATTERN.exec(pathname)
+  if (!match) {
+    return pathname
+  }
+
+  const currentLocale = match[1] as ContentLanguage
+  const path = match[2] ?? '/'
+  const targetPath =
+    getLocalizedPaths(path, currentLocale)[targetLocale] ?? `/${path.split('/')[1] ?? ''}`
+
+  return targetPath === '/' ? `/${targetLocale}/` : `/${targetLocale}${targetPath}`
+}
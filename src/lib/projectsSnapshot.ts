@@ -0,0 +1,151 @@
+/**
+ * Validation of src/data/projects-snapshot.json, written by
+ * scripts/generate-projects-snapshot.mjs, which also runs it before writing.
+ *
+ * Version 1 snapshots (without a `version` field) hold repository metadata and languages.
+ * Version 2 adds licenses, releases, weekly commit activity, open issue and pull request
+ * counts and contributors. Those fields are optional on GitHubProject and validated when
+ * present, so older snapshots keep loading.
+ */
+
+import type {
+  GitHubProject,
+  ProjectCommitActivity,
+  ProjectContributor,
+  ProjectLicense,
+  ProjectRelease,
+  ProjectsSnapshot,
+} from '../types'
+
+export const PROJECTS_SNAPSHOT_VERSION = 2
+
+type Parser<T> = (value: unknown, path: string) => T
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+function invalid(path: string): never {
+  throw new Error(`Projects snapshot has an invalid ${path}`)
+}
+
+const parseRecord: Parser<Record<string, unknown>> = (value, path) =>
+  isRecord(value) ? value : invalid(path)
+
+const parseString: Parser<string> = (value, path) =>
+  typeof value === 'string' ? value : invalid(path)
+
+const parseBoolean: Parser<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : invalid(path)
+
+const parseCount: Parser<number> = (value, path) =>
+  Number.isInteger(value) && (value as number) >= 0 ? (value as number) : invalid(path)
+
+const parseArrayOf =
+  <T>(parseItem: Parser<T>): Parser<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.map((item, index) => parseItem(item, `${path}[${String(index)}]`))
+      : invalid(path)
+
+const parseNullable =
+  <T>(parse: Parser<T>): Parser<T | null> =>
+  (value, path) =>
+    value === null ? null : parse(value, path)
+
+/**
+ * Parser for an object whose fields all have their own parser
+ */
+function parseShape<T>(shape: { [K in keyof T]: Parser<T[K]> }): Parser<T> {
+  return (value, path) => {
+    const record = parseRecord(value, path)
+    const result = {} as T
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](record[key], `${path}.${key}`)
+    }
+    return result
+  }
+}
+
+const parseLicense = parseNullable(
+  parseShape<ProjectLicense>({ spdx_id: parseString, name: parseString }),
+)
+
+const parseRelease = parseShape<ProjectRelease>({
+  name: parseString,
+  tag_name: parseString,
+  published_at: parseString,
+  html_url: parseString,
+  prerelease: parseBoolean,
+})
+
+const parseCommitActivity = parseNullable(
+  parseShape<ProjectCommitActivity>({ start: parseString, weekly: parseArrayOf(parseCount) }),
+)
+
+const parseContributor = parseShape<ProjectContributor>({
+  login: parseString,
+  avatar_url: parseString,
+  html_url: parseString,
+  contributions: parseCount,
+})
+
+/** Fields every snapshot has; the rest of the metadata is passed through as is */
+const requiredProjectFields = {
+  id: parseCount,
+  name: parseString,
+  full_name: parseString,
+  html_url: parseString,
+  stargazers_count: parseCount,
+  forks_count: parseCount,
+  topics: parseArrayOf(parseString),
+}
+
+/** Fields added by version 2, checked only when present */
+const versionedProjectFields = {
+  license: parseLicense,
+  releases: parseArrayOf(parseRelease),
+  commit_activity: parseCommitActivity,
+  open_issues_count: parseCount,
+  open_pull_requests_count: parseCount,
+  contributors: parseArrayOf(parseContributor),
+} satisfies { [K in keyof GitHubProject]?: Parser<GitHubProject[K]> }
+
+const parseProject: Parser<GitHubProject> = (value, path) => {
+  const project = { ...parseRecord(value, path) }
+
+  for (const [key, parse] of Object.entries(requiredProjectFields)) {
+    project[key] = parse(project[key], `${path}.${key}`)
+  }
+  for (const [key, parse] of Object.entries(versionedProjectFields)) {
+    if (project[key] !== undefined) project[key] = parse(project[key], `${path}.${key}`)
+  }
+
+  return project as GitHubProject
+}
+
+/**
+ * Validate a projects snapshot, throwing on the first invalid field. Snapshots from a newer
+ * version of the generator are rejected rather than misread.
+ */
+export function parseProjectsSnapshot(value: unknown): ProjectsSnapshot {
+  if (!isRecord(value) || !Array.isArray(value['projects'])) {
+    throw new Error('Projects snapshot is invalid or missing the projects array')
+  }
+
+  const version = value['version'] === undefined ? 1 : parseCount(value['version'], 'version')
+  if (version > PROJECTS_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Projects snapshot version ${String(version)} is newer than the supported version ${String(PROJECTS_SNAPSHOT_VERSION)}`,
+    )
+  }
+
+  return {
+    version,
+    generatedAt:
+      typeof value['generatedAt'] === 'string' ? value['generatedAt'] : new Date(0).toISOString(),
+    source: value['source'] === 'generated' ? 'generated' : 'fallback',
+    projects: value['projects'].map((project, index) =>
+      parseProject(project, `projects[${String(index)}]`),
+    ),
+  }
+}
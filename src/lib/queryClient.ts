@@ -1,11 +1,19 @@
 import { QueryClient } from '@tanstack/react-query'
 
-export const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      refetchOnWindowFocus: false,
-      retry: false,
-      staleTime: 5 * 60 * 1000,
+/**
+ * Query client with the app defaults. The prerenderer creates one per route so
+ * cached data never leaks between pages.
+ */
+export function createQueryClient(): QueryClient {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        refetchOnWindowFocus: false,
+        retry: false,
+        staleTime: 5 * 60 * 1000,
+      },
     },
-  },
-})
+  })
+}
+
+export const queryClient = createQueryClient()
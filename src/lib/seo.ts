@@ -8,6 +8,11 @@ export interface AlternateUrl {
   href: string
 }
 
+/**
+ * Locale-less path of the same page in each locale; locales without the page are omitted
+ */
+export type LocalizedPaths = Partial<Record<Locale, string>>
+
 interface LocalizedSeoUrls {
   canonicalUrl: string
   alternateUrls: AlternateUrl[]
@@ -33,29 +38,39 @@ function withLocale(path: string, locale: Locale): string {
   return normalizedPath === '/' ? `/${locale}/` : `/${locale}${normalizedPath}`
 }
 
+/**
+ * Canonical URL plus hreflang alternates. A plain path is shared by every locale; a
+ * LocalizedPaths map (which must include the current locale) only advertises the locales it
+ * lists, and x-default is omitted when the default locale has no counterpart.
+ */
 export function buildLocalizedSeoUrls(
   siteUrl: string,
-  path: string,
+  path: string | LocalizedPaths,
   currentLocale: Locale,
   defaultLocale: Locale = 'es',
 ): LocalizedSeoUrls {
   const baseUrl = normalizeBaseUrl(siteUrl)
+  const paths: LocalizedPaths =
+    typeof path === 'string'
+      ? Object.fromEntries(SUPPORTED_LOCALES.map((locale) => [locale, path]))
+      : path
 
-  const canonicalUrl = `${baseUrl}${withLocale(path, currentLocale)}`
+  const canonicalUrl = `${baseUrl}${withLocale(paths[currentLocale] ?? '/', currentLocale)}`
 
-  const localeAlternates: AlternateUrl[] = SUPPORTED_LOCALES.map((locale) => ({
-    hreflang: locale,
-    href: `${baseUrl}${withLocale(path, locale)}`,
-  }))
+  const localeAlternates: AlternateUrl[] = SUPPORTED_LOCALES.flatMap((locale) => {
+    const localePath = paths[locale]
+    return localePath === undefined
+      ? []
+      : [{ hreflang: locale, href: `${baseUrl}${withLocale(localePath, locale)}` }]
+  })
+  const defaultPath = paths[defaultLocale]
+  const defaultAlternates: AlternateUrl[] =
+    defaultPath === undefined
+      ? []
+      : [{ hreflang: 'x-default', href: `${baseUrl}${withLocale(defaultPath, defaultLocale)}` }]
 
   return {
     canonicalUrl,
-    alternateUrls: [
-      ...localeAlternates,
-      {
-        hreflang: 'x-default',
-        href: `${baseUrl}${withLocale(path, defaultLocale)}`,
-      },
-    ],
+    alternateUrls: [...localeAlternates, ...defaultAlternates],
   }
 }
@@ -0,0 +1,295 @@
+/**
+ * Typed schema.org objects rendered by DocumentHead as JSON-LD.
+ *
+ * Builders take absolute URLs so the same objects work in the browser and in
+ * prerendered HTML.
+ */
+
+import type { GitHubProject } from '../types'
+import type { BlogPostSummary } from '../types/blog'
+import type { ProjectCaseStudySummary } from '../types/projectCaseStudy'
+
+export interface PersonSchema {
+  '@type': 'Person'
+  name: string
+  url?: string
+  jobTitle?: string
+  description?: string
+  sameAs?: string[]
+}
+
+interface SearchActionSchema {
+  '@type': 'SearchAction'
+  target: { '@type': 'EntryPoint'; urlTemplate: string }
+  'query-input': string
+}
+
+export interface WebSiteSchema {
+  '@type': 'WebSite'
+  name: string
+  url: string
+  inLanguage: string
+  author: PersonSchema
+  potentialAction: SearchActionSchema
+}
+
+export interface BlogPostingSchema {
+  '@type': 'BlogPosting'
+  headline: string
+  description: string
+  url: string
+  mainEntityOfPage: string
+  image: string
+  datePublished: string
+  dateModified?: string
+  inLanguage: string
+  author: PersonSchema
+  keywords: string[]
+  /** ISO 8601 duration, e.g. PT5M */
+  timeRequired: string
+}
+
+interface InteractionCounterSchema {
+  '@type': 'InteractionCounter'
+  interactionType: string
+  userInteractionCount: number
+}
+
+export interface CaseStudySchema {
+  /** SoftwareSourceCode when the repository is known, otherwise a plain CreativeWork */
+  '@type': 'CreativeWork' | 'SoftwareSourceCode'
+  name: string
+  description: string
+  url: string
+  image: string
+  datePublished: string
+  inLanguage: string
+  author: PersonSchema
+  timeRequired: string
+  codeRepository?: string
+  programmingLanguage?: string[]
+  keywords?: string[]
+  interactionStatistic?: InteractionCounterSchema
+}
+
+/** A repository from the projects snapshot that has no case study */
+export interface ProjectSchema {
+  '@type': 'SoftwareSourceCode'
+  name: string
+  description?: string
+  url: string
+  dateCreated: string
+  dateModified: string
+  inLanguage: string
+  author: PersonSchema
+  codeRepository: string
+  programmingLanguage?: string[]
+  keywords?: string[]
+  interactionStatistic: InteractionCounterSchema
+}
+
+export interface BreadcrumbItem {
+  name: string
+  /** Locale-less path, e.g. `/blog` */
+  path: string
+}
+
+export interface BreadcrumbListSchema {
+  '@type': 'BreadcrumbList'
+  itemListElement: { '@type': 'ListItem'; position: number; name: string; item: string }[]
+}
+
+export type StructuredData =
+  | PersonSchema
+  | WebSiteSchema
+  | BlogPostingSchema
+  | CaseStudySchema
+  | ProjectSchema
+  | BreadcrumbListSchema
+
+interface PersonOptions {
+  name: string
+  siteUrl: string
+  jobTitle?: string
+  description?: string
+  githubUsername?: string
+  linkedinUsername?: string
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '')
+}
+
+/** Repository facts shared by case studies and project pages */
+function getRepositoryProperties(
+  project: GitHubProject,
+): Pick<
+  ProjectSchema,
+  'codeRepository' | 'programmingLanguage' | 'keywords' | 'interactionStatistic'
+> {
+  const languages = project.languages
+    ? Object.keys(project.languages)
+    : [project.language].filter((language): language is string => Boolean(language))
+
+  return {
+    codeRepository: project.html_url,
+    ...(languages.length > 0 && { programmingLanguage: languages }),
+    ...(project.topics.length > 0 && { keywords: project.topics }),
+    interactionStatistic: {
+      '@type': 'InteractionCounter',
+      interactionType: 'https://schema.org/LikeAction',
+      userInteractionCount: project.stargazers_count,
+    },
+  }
+}
+
+function toDuration(minutes: number): string {
+  return `PT${String(minutes)}M`
+}
+
+export function buildPersonSchema({
+  name,
+  siteUrl,
+  jobTitle,
+  description,
+  githubUsername,
+  linkedinUsername,
+}: PersonOptions): PersonSchema {
+  const sameAs = [
+    githubUsername && `https://github.com/${githubUsername}`,
+    linkedinUsername && `https://www.linkedin.com/in/${linkedinUsername}/`,
+  ].filter((url): url is string => Boolean(url))
+
+  return {
+    '@type': 'Person',
+    name,
+    url: `${normalizeBaseUrl(siteUrl)}/`,
+    ...(jobTitle && { jobTitle }),
+    ...(description && { description }),
+    ...(sameAs.length > 0 && { sameAs }),
+  }
+}
+
+/**
+ * WebSite entry for the home page; the search action points at the blog search
+ */
+export function buildWebSiteSchema(
+  siteUrl: string,
+  locale: string,
+  name: string,
+  author: PersonSchema,
+): WebSiteSchema {
+  const baseUrl = normalizeBaseUrl(siteUrl)
+
+  return {
+    '@type': 'WebSite',
+    name,
+    url: `${baseUrl}/${locale}/`,
+    inLanguage: locale,
+    author,
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: `${baseUrl}/${locale}/blog?q={search_term_string}`,
+      },
+      'query-input': 'required name=search_term_string',
+    },
+  }
+}
+
+export function buildBlogPostingSchema(
+  post: BlogPostSummary,
+  options: { url: string; image: string; locale: string; author: PersonSchema },
+): BlogPostingSchema {
+  return {
+    '@type': 'BlogPosting',
+    headline: post.meta.title,
+    description: post.meta.description,
+    url: options.url,
+    mainEntityOfPage: options.url,
+    image: options.image,
+    datePublished: post.meta.date,
+    dateModified: post.meta.updated,
+    inLanguage: options.locale,
+    // Posts by guest authors must not inherit the site owner's profile links
+    author:
+      post.meta.author === options.author.name
+        ? options.author
+        : { '@type': 'Person', name: post.meta.author },
+    keywords: post.meta.tags,
+    timeRequired: toDuration(post.readingTime),
+  }
+}
+
+/**
+ * Case study entry, enriched with repository data from the projects snapshot when available
+ */
+export function buildCaseStudySchema(
+  caseStudy: ProjectCaseStudySummary,
+  project: GitHubProject | null,
+  options: { url: string; image: string; locale: string; author: PersonSchema },
+): CaseStudySchema {
+  const schema: CaseStudySchema = {
+    '@type': project ? 'SoftwareSourceCode' : 'CreativeWork',
+    name: caseStudy.meta.title,
+    description: caseStudy.meta.summary,
+    url: options.url,
+    image: options.image,
+    datePublished: caseStudy.meta.published,
+    inLanguage: options.locale,
+    author: options.author,
+    timeRequired: toDuration(caseStudy.readingTime),
+  }
+
+  return project ? { ...schema, ...getRepositoryProperties(project) } : schema
+}
+
+/**
+ * Repository page for a project without a case study, built from the snapshot alone
+ */
+export function buildProjectSchema(
+  project: GitHubProject,
+  options: { url: string; locale: string; author: PersonSchema },
+): ProjectSchema {
+  return {
+    '@type': 'SoftwareSourceCode',
+    name: project.display_name ?? project.name,
+    ...(project.description && { description: project.description }),
+    url: options.url,
+    dateCreated: new Date(project.created_at).toISOString(),
+    dateModified: new Date(project.pushed_at ?? project.updated_at).toISOString(),
+    inLanguage: options.locale,
+    author: options.author,
+    ...getRepositoryProperties(project),
+  }
+}
+
+/**
+ * Breadcrumb trail from the home page to the current page, resolved in the current locale
+ */
+export function buildBreadcrumbSchema(
+  siteUrl: string,
+  locale: string,
+  items: BreadcrumbItem[],
+): BreadcrumbListSchema {
+  const baseUrl = normalizeBaseUrl(siteUrl)
+
+  return {
+    '@type': 'BreadcrumbList',
+    itemListElement: items.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: item.name,
+      item: item.path === '/' ? `${baseUrl}/${locale}/` : `${baseUrl}/${locale}${item.path}`,
+    })),
+  }
+}
+
+/**
+ * JSON-LD payload for a `<script type="application/ld+json">` block. "<" is escaped so
+ * content can never close the script element early.
+ */
+export function serializeStructuredData(data: StructuredData): string {
+  return JSON.stringify({ '@context': 'https://schema.org', ...data }).replace(/</g, '\\u003c')
+}
@@ -1,9 +1,9 @@
 import { StrictMode } from 'react'
 import { preconnect } from 'react-dom'
 
-import { QueryClientProvider } from '@tanstack/react-query'
+import { hydrate, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
 
 import App from './App'
 import { initializeClientObservability } from './lib/clientObservability'
@@ -15,14 +15,27 @@ import './styles/index.css'
 preconnect('https://mywebsite-umami.mddiosc.cloud')
 initializeClientObservability()
 
+// Prerendered pages (scripts/prerender.mjs) embed the query cache they were rendered with
+const prerenderedState = document.getElementById('prerender-state')?.textContent
+if (prerenderedState) {
+  hydrate(queryClient, JSON.parse(prerenderedState))
+}
+
 const root = document.getElementById('root')
 if (root) {
-  createRoot(root).render(
+  const app = (
     <StrictMode>
       <QueryClientProvider client={queryClient}>
         <App />
         {import.meta.env.DEV && <ReactQueryDevtools initialIsOpen={false} />}
       </QueryClientProvider>
-    </StrictMode>,
+    </StrictMode>
   )
+
+  // Routes without a prerendered page (e.g. the SPA fallback) render from scratch
+  if (root.hasChildNodes()) {
+    hydrateRoot(root, app)
+  } else {
+    createRoot(root).render(app)
+  }
 }
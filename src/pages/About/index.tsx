@@ -6,8 +6,10 @@ import { AboutContact, AboutContent, AboutHero, TechnologyGrid } from './compone
 import { useAboutData } from './hooks'
 
 import { DocumentHead } from '@/components'
+import { useAuthorSchema } from '@/hooks'
 import { fadeIn, smoothTransition } from '@/lib/animations'
 import { buildLocalizedSeoUrls } from '@/lib/seo'
+import { buildBreadcrumbSchema } from '@/lib/structuredData'
 
 /**
  * About page component
@@ -18,6 +20,14 @@ const AboutPage = () => {
   const { skills, stats, technologies, biographyParagraphs } = useAboutData()
   const locale = i18n.language === 'en' ? 'en' : 'es'
   const seoUrls = buildLocalizedSeoUrls(import.meta.env.VITE_SITE_URL, '/about', locale)
+  const author = useAuthorSchema()
+  const structuredData = [
+    { ...author, description: t('pages.about.hero.subtitle') },
+    buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+      { name: t('navigation.home'), path: '/' },
+      { name: t('navigation.about'), path: '/about' },
+    ]),
+  ]
 
   return (
     <>
@@ -27,6 +37,7 @@ const AboutPage = () => {
         keywords="about, developer, skills, technologies, experience, biography"
         canonicalUrl={seoUrls.canonicalUrl}
         alternateUrls={seoUrls.alternateUrls}
+        structuredData={structuredData}
       />
 
       <motion.div
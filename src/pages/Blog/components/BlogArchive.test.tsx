@@ -0,0 +1,98 @@
+import { MemoryRouter, Route, Routes } from 'react-router'
+
+import { screen } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { BlogArchive } from './BlogArchive'
+
+import { useBlogPosts } from '../../../hooks/useBlog'
+import i18n from '../../../test/i18n-for-tests'
+import { makePost } from '../../../test/posts'
+import { renderWithProviders } from '../../../test/utils'
+
+vi.mock('../../../hooks/useBlog', () => ({
+  useBlogPosts: vi.fn(),
+}))
+
+const mockedUseBlogPosts = vi.mocked(useBlogPosts)
+
+// Eleven posts tagged "react": two pages
+const posts = Array.from({ length: 11 }, (_, index) =>
+  makePost({
+    slug: `post-${String(index)}`,
+    title: `Post ${String(index)}`,
+    date: `2026-01-${String(10 + index)}`,
+    tags: ['react'],
+    ...(index < 3 && { series: 'Agents in practice', seriesOrder: 3 - index }),
+  }),
+)
+
+function renderArchive(url: string) {
+  return renderWithProviders(
+    <MemoryRouter initialEntries={[url]}>
+      <Routes>
+        <Route path="/:lang/blog/tag/:slug" element={<BlogArchive kind="tag" />} />
+        <Route path="/:lang/blog/tag/:slug/page/:page" element={<BlogArchive kind="tag" />} />
+        <Route path="/:lang/blog/series/:slug" element={<BlogArchive kind="series" />} />
+      </Routes>
+    </MemoryRouter>,
+  )
+}
+
+describe('BlogArchive', () => {
+  beforeEach(async () => {
+    vi.stubEnv('VITE_SITE_URL', 'https://example.com')
+    await i18n.changeLanguage('en')
+    mockedUseBlogPosts.mockReturnValue({
+      data: posts,
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as unknown as ReturnType<typeof useBlogPosts>)
+    document.head.querySelectorAll('link[rel="canonical"]').forEach((el) => {
+      el.remove()
+    })
+  })
+
+  it('lists the first page of a tag with its canonical URL', () => {
+    renderArchive('/en/blog/tag/react')
+
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('react')
+    expect(screen.getAllByRole('article')).toHaveLength(9)
+    expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
+      'https://example.com/en/blog/tag/react',
+    )
+    expect(screen.getByRole('link', { name: 'Go to page 2' })).toHaveAttribute(
+      'href',
+      '/en/blog/tag/react/page/2',
+    )
+  })
+
+  it('renders later pages at their own URL', () => {
+    renderArchive('/en/blog/tag/react/page/2')
+
+    expect(screen.getAllByRole('article')).toHaveLength(2)
+    expect(screen.getByText('2', { selector: '[aria-current="page"]' })).toBeInTheDocument()
+    expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
+      'https://example.com/en/blog/tag/react/page/2',
+    )
+  })
+
+  it('reports unknown tags and out-of-range pages', () => {
+    const { unmount } = renderArchive('/en/blog/tag/vue')
+    expect(screen.getByText('There are no posts with this tag')).toBeInTheDocument()
+    unmount()
+
+    renderArchive('/en/blog/tag/react/page/3')
+    expect(screen.getByText('There are no posts with this tag')).toBeInTheDocument()
+  })
+
+  it('lists series parts in reading order', () => {
+    renderArchive('/en/blog/series/agents-in-practice')
+
+    expect(screen.getByText('A series in 3 parts, in reading order.')).toBeInTheDocument()
+    expect(
+      screen.getAllByRole('heading', { level: 3 }).map((heading) => heading.textContent),
+    ).toEqual(['Post 2', 'Post 1', 'Post 0'])
+  })
+})
@@ -0,0 +1,131 @@
+import { useTranslation } from 'react-i18next'
+import { Link, Navigate, useParams } from 'react-router'
+
+import { motion } from 'framer-motion'
+
+import { BlogError } from './BlogError'
+import { BlogCard } from './BlogList'
+import { BlogLoading } from './BlogLoading'
+import { BlogPagination } from './BlogPagination'
+
+import { DocumentHead } from '../../../components/DocumentHead'
+import { useBlogPosts } from '../../../hooks/useBlog'
+import { fadeIn, smoothTransition } from '../../../lib/animations'
+import { getFeedLinks } from '../../../lib/content/feedPaths'
+import {
+  findBlogArchive,
+  getBlogArchivePath,
+  getPageCount,
+  paginate,
+  type BlogArchiveKind,
+} from '../../../lib/content/taxonomy'
+import { getLocalizedPaths } from '../../../lib/localizedPaths'
+import { buildLocalizedSeoUrls } from '../../../lib/seo'
+import { buildBreadcrumbSchema } from '../../../lib/structuredData'
+
+interface BlogArchiveProps {
+  kind: BlogArchiveKind
+}
+
+/**
+ * Paginated list of the posts with a tag (`/:lang/blog/tag/:slug`) or in a series
+ * (`/:lang/blog/series/:slug`)
+ */
+export function BlogArchive({ kind }: BlogArchiveProps) {
+  const { slug = '', page: pageParam } = useParams<{ slug: string; page?: string }>()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language === 'en' ? 'en' : 'es'
+  const { data: posts, isLoading: loading, error, refetch } = useBlogPosts()
+
+  if (loading) {
+    return <BlogLoading />
+  }
+
+  const archive = posts ? findBlogArchive(posts, kind, slug) : null
+  const page = pageParam === undefined ? 1 : Number(pageParam)
+  const pageCount = archive ? getPageCount(archive.posts.length) : 0
+
+  if (error || !archive || !Number.isInteger(page) || page < 1 || page > pageCount) {
+    return (
+      <BlogError
+        message={error?.message ?? t(`blog.archive.${kind}NotFound`)}
+        onRetry={() => void refetch()}
+      />
+    )
+  }
+
+  // The first page lives at the archive's own URL
+  if (pageParam !== undefined && page === 1) {
+    return <Navigate to={`/${i18n.language}${getBlogArchivePath(kind, slug)}`} replace />
+  }
+
+  const path = getBlogArchivePath(kind, archive.slug, page)
+  const seoUrls = buildLocalizedSeoUrls(
+    import.meta.env.VITE_SITE_URL,
+    getLocalizedPaths(path, locale),
+    locale,
+  )
+  const title = t(`blog.archive.${kind}Title`, { name: archive.name })
+  const description = t(`blog.archive.${kind}Description`, {
+    name: archive.name,
+    count: archive.posts.length,
+  })
+  const breadcrumbs = buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+    { name: t('navigation.home'), path: '/' },
+    { name: t('blog.title'), path: '/blog' },
+    { name: title, path: getBlogArchivePath(kind, archive.slug) },
+  ])
+  const pageTitle =
+    page > 1 ? `${title} (${t('blog.archive.page', { page, count: pageCount })})` : title
+
+  return (
+    <>
+      <DocumentHead
+        title={`${pageTitle} - Portfolio`}
+        description={description}
+        ogType="website"
+        canonicalUrl={seoUrls.canonicalUrl}
+        alternateUrls={seoUrls.alternateUrls}
+        feedLinks={getFeedLinks(import.meta.env.VITE_SITE_URL, locale, t('blog.title'))}
+        structuredData={[breadcrumbs]}
+      />
+
+      <motion.div
+        initial="hidden"
+        animate="visible"
+        variants={fadeIn}
+        transition={smoothTransition}
+        className="mx-auto max-w-7xl px-4 pt-8 pb-16 sm:px-6 sm:pt-12 sm:pb-20 lg:px-8 lg:pt-16 lg:pb-24"
+      >
+        <div className="mb-8">
+          <Link
+            to={`/${i18n.language}/blog`}
+            className="text-sm font-medium text-gray-500 transition-colors hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100"
+          >
+            ← {t('blog.backToBlog')}
+          </Link>
+        </div>
+
+        <header className="mb-8 text-center sm:mb-12">
+          <p className="mb-2 text-sm font-semibold tracking-wide text-highlight uppercase">
+            {t(`blog.archive.${kind}Label`)}
+          </p>
+          <h1 className="mb-4 text-4xl font-black tracking-tight sm:text-5xl">
+            <span className="text-gradient-alt">{archive.name}</span>
+          </h1>
+          <p className="mx-auto max-w-2xl text-lg text-gray-600 dark:text-gray-300">
+            {description}
+          </p>
+        </header>
+
+        <div className="grid gap-8 md:grid-cols-2 lg:grid-cols-3">
+          {paginate(archive.posts, page).map((post, index) => (
+            <BlogCard key={post.slug} post={post} index={index} />
+          ))}
+        </div>
+
+        <BlogPagination kind={kind} slug={archive.slug} page={page} pageCount={pageCount} />
+      </motion.div>
+    </>
+  )
+}
@@ -3,17 +3,19 @@ import { useTranslation } from 'react-i18next'
 
 import { motion, AnimatePresence } from 'framer-motion'
 
-import type { BlogPost } from '../../../types/blog'
+import type { BlogPostSummary } from '../../../types/blog'
+import { DEFAULT_FILTERS } from '../utils/filterParams'
+import { getAllTags } from '../utils/filterUtils'
 
 export interface FilterState {
   search: string
   selectedTags: string[]
-  sortBy: 'date-desc' | 'date-asc' | 'reading-time' | 'title'
+  sortBy: 'date-desc' | 'date-asc' | 'updated' | 'reading-time' | 'title'
   showFeatured: boolean
 }
 
 interface BlogFiltersProps {
-  posts: BlogPost[]
+  posts: BlogPostSummary[]
   filters: FilterState
   onFiltersChange: (filters: FilterState) => void
 }
@@ -23,13 +25,7 @@ export function BlogFilters({ posts, filters, onFiltersChange }: BlogFiltersProp
   const [isExpanded, setIsExpanded] = useState(false)
 
   // Get all unique tags from posts
-  const allTags = useMemo(() => {
-    const tagSet = new Set<string>()
-    posts.forEach((post) => {
-      post.meta.tags.forEach((tag) => tagSet.add(tag))
-    })
-    return Array.from(tagSet).sort()
-  }, [posts])
+  const allTags = useMemo(() => getAllTags(posts), [posts])
 
   // Get filter statistics
   const filterStats = useMemo(() => {
@@ -39,6 +35,7 @@ export function BlogFilters({ posts, filters, onFiltersChange }: BlogFiltersProp
       avgReadingTime: Math.round(
         posts.reduce((sum, post) => sum + post.readingTime, 0) / posts.length,
       ),
+      totalWords: posts.reduce((sum, post) => sum + post.wordCount, 0),
     }
   }, [posts])
 
@@ -62,12 +59,7 @@ export function BlogFilters({ posts, filters, onFiltersChange }: BlogFiltersProp
   }
 
   const clearAllFilters = () => {
-    onFiltersChange({
-      search: '',
-      selectedTags: [],
-      sortBy: 'date-desc',
-      showFeatured: false,
-    })
+    onFiltersChange(DEFAULT_FILTERS)
   }
 
   const hasActiveFilters = filters.search || filters.selectedTags.length > 0 || filters.showFeatured
@@ -148,6 +140,15 @@ export function BlogFilters({ posts, filters, onFiltersChange }: BlogFiltersProp
                   </div>
                 </>
               )}
+              {/* Content statistics only fit on wide screens */}
+              <div className="hidden items-center gap-3 lg:flex">
+                <div className="h-1 w-1 rounded-full bg-gray-400 dark:bg-gray-600" />
+                <span>
+                  {t('blog.filters.avgReadingTime', { minutes: filterStats.avgReadingTime })}
+                </span>
+                <div className="h-1 w-1 rounded-full bg-gray-400 dark:bg-gray-600" />
+                <span>{t('blog.filters.totalWords', { count: filterStats.totalWords })}</span>
+              </div>
             </div>
 
             {/* Clear filters button */}
@@ -214,6 +215,7 @@ export function BlogFilters({ posts, filters, onFiltersChange }: BlogFiltersProp
                       >
                         <option value="date-desc">{t('blog.filters.sortOptions.dateDesc')}</option>
                         <option value="date-asc">{t('blog.filters.sortOptions.dateAsc')}</option>
+                        <option value="updated">{t('blog.filters.sortOptions.updated')}</option>
                         <option value="reading-time">
                           {t('blog.filters.sortOptions.readingTime')}
                         </option>
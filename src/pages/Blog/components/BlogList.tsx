@@ -15,28 +15,34 @@ import {
   useRole,
   useInteractions,
 } from '@floating-ui/react'
+import { CheckCircleIcon } from '@heroicons/react/24/solid'
 import { motion } from 'framer-motion'
 
-import { BlogFilters, type FilterState } from './BlogFilters'
+import { BlogFilters } from './BlogFilters'
 
-import type { BlogPost } from '../../../types/blog'
-import { filterAndSortPosts, getFilteredStats } from '../utils/filterUtils'
+import { useIsHydrating } from '../../../hooks/useIsHydrating'
+import { useSearchIndex } from '../../../hooks/useSearchIndex'
+import { formatContentDate } from '../../../lib/content/dates'
+import { getBlogPostPath } from '../../../lib/content/slugs'
+import type { BlogPostSummary } from '../../../types/blog'
+import { useBlogFilters, useSavedReadingProgress } from '../hooks'
+import { DEFAULT_FILTERS } from '../utils/filterParams'
+import { filterAndSortPosts, getAllTags, getFilteredStats } from '../utils/filterUtils'
+import { RESUME_MIN_PROGRESS, type ResumeReadingState } from '../utils/readingProgress'
 
 interface BlogListProps {
-  posts: BlogPost[]
+  posts: BlogPostSummary[]
 }
 
 export function BlogList({ posts }: BlogListProps) {
   const { t } = useTranslation()
-  const [filters, setFilters] = useState<FilterState>({
-    search: '',
-    selectedTags: [],
-    sortBy: 'date-desc',
-    showFeatured: false,
-  })
+  const [filters, setFilters] = useBlogFilters(getAllTags(posts))
+
+  // The search index is only fetched once the reader starts typing
+  const { data: searchIndex } = useSearchIndex(filters.search.trim() !== '')
 
   // Filter and sort posts
-  const filteredPosts = filterAndSortPosts(posts, filters)
+  const filteredPosts = filterAndSortPosts(posts, filters, searchIndex)
   const stats = getFilteredStats(posts, filteredPosts)
 
   // Handle no posts
@@ -100,12 +106,7 @@ export function BlogList({ posts }: BlogListProps) {
           <button
             type="button"
             onClick={() => {
-              setFilters({
-                search: '',
-                selectedTags: [],
-                sortBy: 'date-desc',
-                showFeatured: false,
-              })
+              setFilters(DEFAULT_FILTERS)
             }}
             className="rounded-xl bg-linear-to-r from-primary to-highlight px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-primary/25 transition-all duration-300 hover:shadow-xl hover:shadow-primary/30 focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:outline-none dark:focus:ring-offset-gray-900"
           >
@@ -118,17 +119,26 @@ export function BlogList({ posts }: BlogListProps) {
 }
 
 interface BlogCardProps {
-  post: BlogPost
+  post: BlogPostSummary
   index: number
 }
 
-function BlogCard({ post, index }: BlogCardProps) {
+export function BlogCard({ post, index }: BlogCardProps) {
   const { t, i18n } = useTranslation()
   const navigate = useNavigate()
   const [isDescriptionOpen, setIsDescriptionOpen] = useState(false)
   const [isTagsOpen, setIsTagsOpen] = useState(false)
   const [isDescriptionTruncated, setIsDescriptionTruncated] = useState(false)
   const descriptionTextRef = useRef<HTMLParagraphElement>(null)
+  // Prerendered markup assumes a pointer device; touch support is read once hydrated
+  const isTouchDevice = !useIsHydrating() && 'ontouchstart' in window
+  const readingProgress = useSavedReadingProgress(i18n.language, post.slug)
+  const isRead = readingProgress?.finished ?? false
+  const resumePercent =
+    readingProgress && !isRead && readingProgress.progress >= RESUME_MIN_PROGRESS
+      ? Math.round(readingProgress.progress * 100)
+      : null
+  const postPath = `/${i18n.language}${getBlogPostPath(post.slug)}`
 
   const {
     refs: descriptionRefs,
@@ -153,14 +163,14 @@ function BlogCard({ post, index }: BlogCardProps) {
   })
 
   const descriptionHover = useHover(descriptionContext, {
-    enabled: !('ontouchstart' in window),
+    enabled: !isTouchDevice,
   })
   const descriptionFocus = useFocus(descriptionContext)
   const descriptionDismiss = useDismiss(descriptionContext)
   const descriptionRole = useRole(descriptionContext, { role: 'tooltip' })
 
   const tagsHover = useHover(tagsContext, {
-    enabled: !('ontouchstart' in window),
+    enabled: !isTouchDevice,
   })
   const tagsFocus = useFocus(tagsContext)
   const tagsDismiss = useDismiss(tagsContext)
@@ -184,7 +194,7 @@ function BlogCard({ post, index }: BlogCardProps) {
 
   // Handle mobile tap for description tooltip
   const handleDescriptionClick = (e: React.MouseEvent) => {
-    if ('ontouchstart' in window && isDescriptionTruncated) {
+    if (isTouchDevice && isDescriptionTruncated) {
       e.stopPropagation()
       setIsDescriptionOpen(!isDescriptionOpen)
     }
@@ -192,7 +202,7 @@ function BlogCard({ post, index }: BlogCardProps) {
 
   // Handle mobile tap for tags tooltip
   const handleTagsClick = (e: React.MouseEvent) => {
-    if ('ontouchstart' in window) {
+    if (isTouchDevice) {
       e.stopPropagation()
       setIsTagsOpen(!isTagsOpen)
     }
@@ -210,7 +220,7 @@ function BlogCard({ post, index }: BlogCardProps) {
         const hasHelperCursor =
           target.classList.contains('cursor-help') || target.closest('.cursor-help')
         if (!target.closest('a') && !target.closest('button') && !hasHelperCursor) {
-          void navigate(`/${i18n.language}/blog/${post.slug}`)
+          void navigate(postPath)
         }
       }}
       className="group relative flex h-full cursor-pointer flex-col overflow-hidden rounded-2xl border border-gray-200/50 bg-white/80 backdrop-blur-sm transition-all duration-300 hover:border-primary/30 hover:shadow-2xl hover:shadow-primary/10 dark:border-gray-700/50 dark:bg-gray-900/80 dark:hover:border-primary/40 dark:hover:shadow-primary/20"
@@ -243,6 +253,15 @@ function BlogCard({ post, index }: BlogCardProps) {
               </svg>
             </motion.div>
           </div>
+          {/* Read badge overlay */}
+          {isRead && (
+            <div className="absolute top-3 left-3">
+              <span className="inline-flex items-center gap-1 rounded-full bg-green-500/20 px-3 py-1 text-xs font-semibold text-green-700 ring-1 ring-green-500/30 backdrop-blur-sm dark:bg-green-500/30 dark:text-green-400 dark:ring-green-500/40">
+                <CheckCircleIcon aria-hidden="true" className="h-3 w-3" />
+                {t('blog.progress.read')}
+              </span>
+            </div>
+          )}
           {/* Featured badge overlay */}
           {post.meta.featured && (
             <div className="absolute top-3 right-3">
@@ -273,11 +292,7 @@ function BlogCard({ post, index }: BlogCardProps) {
                   d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
                 />
               </svg>
-              {new Date(post.meta.date).toLocaleDateString(i18n.language, {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
-              })}
+              {formatContentDate(post.meta.date, i18n.language)}
             </time>
             <span className="flex items-center gap-1.5 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium dark:bg-gray-800">
               <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -294,7 +309,7 @@ function BlogCard({ post, index }: BlogCardProps) {
 
           <h3 className="text-lg font-bold text-gray-900 transition-colors group-hover:text-primary dark:text-white dark:group-hover:text-primary-light">
             <Link
-              to={`/${i18n.language}/blog/${post.slug}`}
+              to={postPath}
               className="transition-colors duration-200"
               onClick={(e) => {
                 e.stopPropagation()
@@ -339,7 +354,7 @@ function BlogCard({ post, index }: BlogCardProps) {
                       </p>
                     </div>
                     {/* Close button for mobile */}
-                    {'ontouchstart' in window && (
+                    {isTouchDevice && (
                       <button
                         type="button"
                         onClick={(e) => {
@@ -412,7 +427,7 @@ function BlogCard({ post, index }: BlogCardProps) {
                             </div>
                           </div>
                           {/* Close button for mobile */}
-                          {'ontouchstart' in window && (
+                          {isTouchDevice && (
                             <button
                               type="button"
                               onClick={(e) => {
@@ -452,13 +467,30 @@ function BlogCard({ post, index }: BlogCardProps) {
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
                 {post.meta.author}
               </span>
+              <span className="ml-auto text-right text-xs text-gray-500 dark:text-gray-400">
+                {t('blog.wordCount', { count: post.wordCount })}
+                {post.codeBlockCount > 0 &&
+                  ` · ${t('blog.codeBlocks', { count: post.codeBlockCount })}`}
+              </span>
             </div>
           </div>
 
           {/* Action section - Fixed height */}
-          <div className="flex h-8 items-center justify-end">
+          <div className="flex h-8 items-center justify-end gap-3">
+            {resumePercent !== null && (
+              <Link
+                to={postPath}
+                state={{ resumeReading: true } satisfies ResumeReadingState}
+                onClick={(e) => {
+                  e.stopPropagation()
+                }}
+                className="mr-auto text-xs font-semibold text-primary transition-colors hover:underline dark:text-primary-light"
+              >
+                {t('blog.progress.continueAt', { percent: resumePercent })}
+              </Link>
+            )}
             <Link
-              to={`/${i18n.language}/blog/${post.slug}`}
+              to={postPath}
               onClick={(e) => {
                 e.stopPropagation()
               }}
@@ -0,0 +1,66 @@
+import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router'
+
+import { getBlogArchivePath, type BlogArchiveKind } from '../../../lib/content/taxonomy'
+
+interface BlogPaginationProps {
+  kind: BlogArchiveKind
+  slug: string
+  page: number
+  pageCount: number
+}
+
+const linkClassName =
+  'rounded-xl px-4 py-2 text-sm font-medium text-gray-700 ring-1 ring-gray-200 transition-colors hover:bg-gray-100 hover:text-primary dark:text-gray-300 dark:ring-gray-700 dark:hover:bg-gray-800 dark:hover:text-primary-light'
+
+/**
+ * Page links for tag and series archives; every page has its own prerendered URL
+ */
+export function BlogPagination({ kind, slug, page, pageCount }: BlogPaginationProps) {
+  const { t, i18n } = useTranslation()
+
+  if (pageCount <= 1) {
+    return null
+  }
+
+  const getPageUrl = (target: number) =>
+    `/${i18n.language}${getBlogArchivePath(kind, slug, target)}`
+
+  return (
+    <nav
+      aria-label={t('blog.archive.pagination')}
+      className="mt-12 flex flex-wrap items-center justify-center gap-2"
+    >
+      {page > 1 && (
+        <Link to={getPageUrl(page - 1)} rel="prev" className={linkClassName}>
+          {t('blog.archive.previousPage')}
+        </Link>
+      )}
+      {Array.from({ length: pageCount }, (_, index) => index + 1).map((target) =>
+        target === page ? (
+          <span
+            key={target}
+            aria-current="page"
+            className="rounded-xl bg-linear-to-r from-primary to-highlight px-4 py-2 text-sm font-semibold text-white"
+          >
+            {target}
+          </span>
+        ) : (
+          <Link
+            key={target}
+            to={getPageUrl(target)}
+            aria-label={t('blog.archive.goToPage', { page: target })}
+            className={linkClassName}
+          >
+            {target}
+          </Link>
+        ),
+      )}
+      {page < pageCount && (
+        <Link to={getPageUrl(page + 1)} rel="next" className={linkClassName}>
+          {t('blog.archive.nextPage')}
+        </Link>
+      )}
+    </nav>
+  )
+}
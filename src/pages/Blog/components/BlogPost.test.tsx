@@ -0,0 +1,76 @@
+import { MemoryRouter, Route, Routes } from 'react-router'
+
+import { screen } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { BlogPost } from './BlogPost'
+
+import { useBlogPost, useBlogPosts } from '../../../hooks/useBlog'
+import i18n from '../../../test/i18n-for-tests'
+import { makePost } from '../../../test/posts'
+import { renderWithProviders } from '../../../test/utils'
+
+vi.mock('../../../hooks/useBlog', () => ({
+  useBlogPost: vi.fn(),
+  useBlogPosts: vi.fn(),
+}))
+
+vi.mock('../../../hooks/useProjectCaseStudies', () => ({
+  useProjectCaseStudies: vi.fn(() => ({ data: undefined })),
+}))
+
+vi.mock('@/context', () => ({
+  useThemeContext: () => ({ isDark: false }),
+}))
+
+vi.mock('highlight.js/styles/github.css', () => ({}))
+vi.mock('highlight.js/styles/github-dark.css', () => ({}))
+
+const series = { series: 'Agents in practice' }
+
+// Newest first, like the manifest; the series parts are not consecutive by date
+const posts = [
+  makePost({ slug: 'part-two', title: 'Part two', date: '2026-03-01', ...series, seriesOrder: 2 }),
+  makePost({ slug: 'standalone', title: 'Standalone', date: '2026-02-01' }),
+  makePost({ slug: 'part-one', title: 'Part one', date: '2026-01-01', ...series, seriesOrder: 1 }),
+]
+
+describe('BlogPost', () => {
+  beforeEach(async () => {
+    vi.stubEnv('VITE_SITE_URL', 'https://example.com')
+    await i18n.changeLanguage('en')
+    vi.mocked(useBlogPosts).mockReturnValue({ data: posts } as unknown as ReturnType<
+      typeof useBlogPosts
+    >)
+  })
+
+  it('shows the series and the chronological pagers on a post in a series', () => {
+    vi.mocked(useBlogPost).mockReturnValue({
+      data: { ...posts[2], content: 'Body' },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as unknown as ReturnType<typeof useBlogPost>)
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/blog/part-one']}>
+        <Routes>
+          <Route path="/:lang/blog/:slug" element={<BlogPost />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    const seriesPager = screen.getByRole('navigation', { name: 'Series navigation' })
+    const postPager = screen.getByRole('navigation', { name: 'Post navigation' })
+    expect(seriesPager).toContainElement(screen.getByRole('link', { name: /Next part/ }))
+    expect(screen.getByRole('link', { name: /Next part/ })).toHaveAttribute(
+      'href',
+      '/en/blog/part-two',
+    )
+    expect(postPager).toContainElement(screen.getByRole('link', { name: /Next post/ }))
+    expect(screen.getByRole('link', { name: /Next post/ })).toHaveAttribute(
+      'href',
+      '/en/blog/standalone',
+    )
+  })
+})
@@ -1,103 +1,64 @@
-import type { ComponentPropsWithoutRef } from 'react'
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import ReactMarkdown, { type ExtraProps } from 'react-markdown'
-import { useParams, Navigate, Link } from 'react-router'
+import { useParams, Navigate, Link, useLocation } from 'react-router'
 
 import { motion } from 'framer-motion'
-import rehypeHighlight from 'rehype-highlight'
-import remarkGfm from 'remark-gfm'
 
 import { BlogError } from './BlogError'
 import { BlogLoading } from './BlogLoading'
+import { CaseStudyMentions, PostPager, RelatedPosts } from './PostNavigation'
+import { PostRevision } from './PostRevision'
+import { PostStatusBanner } from './PostStatusBanner'
+import { ReadingProgress } from './ReadingProgress'
+import { SeriesParts } from './SeriesNavigation'
+import { TableOfContents } from './TableOfContents'
 
 import { DocumentHead } from '../../../components/DocumentHead'
-import {
-  MarkdownTable,
-  MarkdownTableCell,
-  MarkdownTableHead,
-  MarkdownTableHeader,
-} from '../../../components/MarkdownTable'
-import { useThemeContext } from '../../../context'
-import { useBlogPost } from '../../../hooks/useBlog'
+import { MarkdownRenderer } from '../../../components/MarkdownRenderer'
+import { useAuthorSchema } from '../../../hooks/useAuthorSchema'
+import { useBlogPost, useBlogPosts } from '../../../hooks/useBlog'
+import { useProjectCaseStudies } from '../../../hooks/useProjectCaseStudies'
 import { fadeIn, smoothTransition } from '../../../lib/animations'
+import { formatContentDate } from '../../../lib/content/dates'
+import { getFeedLinks } from '../../../lib/content/feedPaths'
+import { getTableOfContents } from '../../../lib/content/headings'
+import { getOgImageUrl } from '../../../lib/content/ogImagePaths'
+import {
+  getAdjacentPosts,
+  getCaseStudiesForPost,
+  getRelatedPosts,
+} from '../../../lib/content/related'
+import { getBlogPostPath } from '../../../lib/content/slugs'
+import {
+  getBlogArchivePath,
+  getSeriesNavigation,
+  getTaxonomySlug,
+} from '../../../lib/content/taxonomy'
+import { getLocalizedPaths } from '../../../lib/localizedPaths'
 import { buildLocalizedSeoUrls } from '../../../lib/seo'
+import { buildBlogPostingSchema, buildBreadcrumbSchema } from '../../../lib/structuredData'
 
-type MdProps<T extends keyof React.JSX.IntrinsicElements> = Omit<
-  ComponentPropsWithoutRef<T> & ExtraProps,
-  'node'
->
-
-const MarkdownH1 = ({ children }: MdProps<'h1'>) => (
-  <h1 className="mt-8 mb-6 text-3xl font-bold text-gray-900 dark:text-white">{children}</h1>
-)
-const MarkdownH2 = ({ children }: MdProps<'h2'>) => (
-  <h2 className="mt-6 mb-4 text-2xl font-semibold text-gray-900 dark:text-white">{children}</h2>
-)
-const MarkdownH3 = ({ children }: MdProps<'h3'>) => (
-  <h3 className="mt-5 mb-3 text-xl font-semibold text-gray-900 dark:text-white">{children}</h3>
-)
-const MarkdownP = ({ children }: MdProps<'p'>) => (
-  <p className="mb-4 leading-relaxed text-gray-700 dark:text-gray-300">{children}</p>
-)
-const MarkdownUl = ({ children }: MdProps<'ul'>) => (
-  <ul className="mb-4 list-disc pl-6 text-gray-700 dark:text-gray-300">{children}</ul>
-)
-const MarkdownOl = ({ children }: MdProps<'ol'>) => (
-  <ol className="mb-4 list-decimal pl-6 text-gray-700 dark:text-gray-300">{children}</ol>
-)
-const MarkdownLi = ({ children }: MdProps<'li'>) => <li className="mb-1">{children}</li>
-const MarkdownBlockquote = ({ children }: MdProps<'blockquote'>) => (
-  <blockquote className="my-4 border-l-4 border-primary/50 bg-primary/5 py-2 pr-4 pl-4 text-gray-700 italic dark:border-primary-light/50 dark:bg-primary/10 dark:text-gray-300">
-    {children}
-  </blockquote>
-)
-const MarkdownA = ({ children, href }: MdProps<'a'>) => (
-  <a
-    href={href}
-    className="text-primary underline decoration-primary/30 transition-colors hover:decoration-primary dark:text-primary-light dark:decoration-primary-light/30 dark:hover:decoration-primary-light"
-    target={href?.startsWith('http') ? '_blank' : undefined}
-    rel={href?.startsWith('http') ? 'noopener noreferrer' : undefined}
-  >
-    {children}
-  </a>
-)
-const MarkdownStrong = ({ children }: MdProps<'strong'>) => (
-  <strong className="font-semibold text-gray-900 dark:text-white">{children}</strong>
-)
-const MarkdownCode = ({ children, className }: MdProps<'code'>) => {
-  const isInline = !className
-
-  return isInline ? (
-    <code className="rounded bg-gray-100 px-1.5 py-0.5 text-sm text-gray-800 dark:bg-gray-800 dark:text-gray-200">
-      {children}
-    </code>
-  ) : (
-    <code className={className}>{children}</code>
-  )
-}
-const MarkdownPre = ({ children }: MdProps<'pre'>) => (
-  <pre className="my-4 overflow-x-auto rounded-xl bg-gray-50 p-4 dark:bg-gray-900">{children}</pre>
-)
+/** Short posts read fine without a table of contents */
+const TOC_MIN_ITEMS = 3
 
 export function BlogPost() {
   const { slug } = useParams<{ slug: string }>()
   const { t, i18n } = useTranslation()
-  const { isDark } = useThemeContext()
+  const { hash } = useLocation()
   const locale = i18n.language === 'en' ? 'en' : 'es'
   const { data: post, isLoading: loading, error, refetch } = useBlogPost(slug ?? '')
-
-  // Dynamically load highlight.js theme based on dark mode
+  // Shares the cached manifest query used by useBlogPost
+  const { data: posts } = useBlogPosts()
+  const { data: caseStudies } = useProjectCaseStudies()
+  const author = useAuthorSchema()
+  const bodyRef = useRef<HTMLDivElement>(null)
+
+  // Section links (/blog/post#section) can only scroll once the body has been rendered
+  const hasContent = Boolean(post)
   useEffect(() => {
-    const loadTheme = async () => {
-      if (isDark) {
-        await import('highlight.js/styles/github-dark.css')
-      } else {
-        await import('highlight.js/styles/github.css')
-      }
-    }
-    void loadTheme()
-  }, [isDark])
+    if (!hasContent || !hash) return
+    document.getElementById(decodeURIComponent(hash.slice(1)))?.scrollIntoView()
+  }, [hasContent, hash])
 
   if (!slug) {
     return <Navigate to={`/${i18n.language}/blog`} replace />
@@ -115,7 +76,30 @@ export function BlogPost() {
     return <BlogError message={error?.message ?? t('blog.postNotFound')} onRetry={handleRetry} />
   }
 
-  const seoUrls = buildLocalizedSeoUrls(import.meta.env.VITE_SITE_URL, `/blog/${slug}`, locale)
+  // Legacy dated URLs resolve to the same post: send them to the canonical slug
+  if (post.slug !== slug) {
+    return <Navigate to={`/${i18n.language}${getBlogPostPath(post.slug)}`} replace />
+  }
+
+  const tableOfContents = getTableOfContents(post.content)
+  const seriesNavigation = posts ? getSeriesNavigation(posts, post) : null
+  const relatedPosts = posts ? getRelatedPosts(posts, post) : []
+  const adjacentPosts = posts ? getAdjacentPosts(posts, post) : { previous: null, next: null }
+  const caseStudyMentions = caseStudies ? getCaseStudiesForPost(caseStudies, post) : []
+  const seoUrls = buildLocalizedSeoUrls(
+    import.meta.env.VITE_SITE_URL,
+    getLocalizedPaths(getBlogPostPath(post.slug), locale),
+    locale,
+  )
+  const ogImage = getOgImageUrl(import.meta.env.VITE_SITE_URL, locale, 'blog', post.slug)
+  const structuredData = [
+    buildBlogPostingSchema(post, { url: seoUrls.canonicalUrl, image: ogImage, locale, author }),
+    buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+      { name: t('navigation.home'), path: '/' },
+      { name: t('blog.title'), path: '/blog' },
+      { name: post.meta.title, path: getBlogPostPath(post.slug) },
+    ]),
+  ]
 
   return (
     <>
@@ -123,11 +107,25 @@ export function BlogPost() {
         title={`${post.meta.title} - Portfolio`}
         description={post.meta.description}
         ogType="article"
+        ogImage={ogImage}
         articlePublishedTime={post.meta.date}
+        articleModifiedTime={post.meta.updated}
         articleAuthor={post.meta.author}
         articleTags={post.meta.tags}
+        // Unlisted posts are shared by URL only; drafts never reach a production build
+        robots={post.meta.unlisted || post.meta.draft ? 'noindex' : undefined}
         canonicalUrl={seoUrls.canonicalUrl}
         alternateUrls={seoUrls.alternateUrls}
+        feedLinks={getFeedLinks(import.meta.env.VITE_SITE_URL, locale, t('blog.title'))}
+        structuredData={structuredData}
+      />
+
+      <ReadingProgress
+        key={post.slug}
+        bodyRef={bodyRef}
+        lang={locale}
+        slug={post.slug}
+        readingTime={post.readingTime}
       />
 
       <motion.div
@@ -165,86 +163,92 @@ export function BlogPost() {
           </Link>
         </motion.div>
 
-        <article className="mx-auto max-w-4xl">
-          <motion.header
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.2, duration: 0.6 }}
-            className="mb-12"
-          >
-            <div className="mb-4 flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
-              <time dateTime={post.meta.date}>
-                {new Date(post.meta.date).toLocaleDateString(i18n.language, {
-                  year: 'numeric',
-                  month: 'long',
-                  day: 'numeric',
-                })}
-              </time>
-              <span>{t('blog.readingTime', { minutes: post.readingTime })}</span>
-            </div>
-
-            <h1 className="mb-4 text-4xl font-bold tracking-tight text-gray-900 sm:text-5xl dark:text-white">
-              {post.meta.title}
-            </h1>
-
-            <p className="mb-6 text-xl text-gray-600 dark:text-gray-300">{post.meta.description}</p>
-
-            {post.meta.tags.length > 0 && (
-              <div className="mb-6 flex flex-wrap gap-2">
-                {post.meta.tags.map((tag) => (
-                  <span
-                    key={tag}
-                    className="rounded-full bg-highlight/10 px-3 py-1 text-sm font-medium text-highlight ring-1 ring-highlight/20 dark:bg-highlight/20 dark:ring-highlight/30"
-                  >
-                    {tag}
-                  </span>
-                ))}
+        <div className="mx-auto max-w-4xl xl:grid xl:max-w-6xl xl:grid-cols-[minmax(0,1fr)_14rem] xl:gap-12">
+          <article className="min-w-0">
+            <PostStatusBanner meta={post.meta} />
+            <motion.header
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.2, duration: 0.6 }}
+              className="mb-12"
+            >
+              <div className="mb-4 flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+                <time dateTime={post.meta.date}>
+                  {formatContentDate(post.meta.date, i18n.language)}
+                </time>
+                <span>{t('blog.readingTime', { minutes: post.readingTime })}</span>
               </div>
-            )}
 
-            <div className="flex items-center gap-3 border-b border-gray-200 pb-6 dark:border-gray-700">
-              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-linear-to-br from-primary/20 to-highlight/20 text-lg font-bold text-primary dark:from-primary/30 dark:to-highlight/30 dark:text-primary-light">
-                {post.meta.author.charAt(0).toUpperCase()}
+              <h1 className="mb-4 text-4xl font-bold tracking-tight text-gray-900 sm:text-5xl dark:text-white">
+                {post.meta.title}
+              </h1>
+
+              <p className="mb-6 text-xl text-gray-600 dark:text-gray-300">
+                {post.meta.description}
+              </p>
+
+              {post.meta.tags.length > 0 && (
+                <div className="mb-6 flex flex-wrap gap-2">
+                  {post.meta.tags.map((tag) => (
+                    <Link
+                      key={tag}
+                      to={`/${i18n.language}${getBlogArchivePath('tag', getTaxonomySlug(tag))}`}
+                      className="rounded-full bg-highlight/10 px-3 py-1 text-sm font-medium text-highlight ring-1 ring-highlight/20 transition-colors hover:bg-highlight/20 dark:bg-highlight/20 dark:ring-highlight/30 dark:hover:bg-highlight/30"
+                    >
+                      {tag}
+                    </Link>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-3 border-b border-gray-200 pb-6 dark:border-gray-700">
+                <div className="flex h-10 w-10 items-center justify-center rounded-full bg-linear-to-br from-primary/20 to-highlight/20 text-lg font-bold text-primary dark:from-primary/30 dark:to-highlight/30 dark:text-primary-light">
+                  {post.meta.author.charAt(0).toUpperCase()}
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">{post.meta.author}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{t('blog.author')}</p>
+                </div>
               </div>
-              <div>
-                <p className="font-medium text-gray-900 dark:text-white">{post.meta.author}</p>
-                <p className="text-sm text-gray-600 dark:text-gray-400">{t('blog.author')}</p>
-              </div>
-            </div>
-          </motion.header>
-
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.4, duration: 0.6 }}
-            className="prose prose-lg prose-headings:font-bold prose-a:text-primary dark:prose-a:text-primary-light max-w-none"
-          >
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
-              rehypePlugins={[rehypeHighlight]}
-              components={{
-                h1: MarkdownH1,
-                h2: MarkdownH2,
-                h3: MarkdownH3,
-                p: MarkdownP,
-                ul: MarkdownUl,
-                ol: MarkdownOl,
-                li: MarkdownLi,
-                blockquote: MarkdownBlockquote,
-                a: MarkdownA,
-                strong: MarkdownStrong,
-                code: MarkdownCode,
-                pre: MarkdownPre,
-                table: MarkdownTable,
-                thead: MarkdownTableHead,
-                th: MarkdownTableHeader,
-                td: MarkdownTableCell,
-              }}
+            </motion.header>
+
+            <PostRevision meta={post.meta} />
+            {seriesNavigation && <SeriesParts navigation={seriesNavigation} />}
+            {tableOfContents.length >= TOC_MIN_ITEMS && (
+              <TableOfContents items={tableOfContents} variant="collapsible" />
+            )}
+
+            <motion.div
+              ref={bodyRef}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.4, duration: 0.6 }}
+              className="prose prose-lg prose-headings:font-bold prose-a:text-primary dark:prose-a:text-primary-light max-w-none"
             >
-              {post.content}
-            </ReactMarkdown>
-          </motion.div>
-        </article>
+              <MarkdownRenderer content={post.content} />
+            </motion.div>
+
+            {seriesNavigation && (
+              <PostPager
+                previous={seriesNavigation.previous}
+                next={seriesNavigation.next}
+                variant="series"
+              />
+            )}
+            <CaseStudyMentions caseStudies={caseStudyMentions} />
+          </article>
+
+          {tableOfContents.length >= TOC_MIN_ITEMS && (
+            <aside>
+              <TableOfContents items={tableOfContents} variant="sidebar" />
+            </aside>
+          )}
+        </div>
+
+        <div className="mx-auto max-w-4xl">
+          <RelatedPosts posts={relatedPosts} />
+          <PostPager {...adjacentPosts} />
+        </div>
       </motion.div>
     </>
   )
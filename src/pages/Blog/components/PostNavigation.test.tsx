@@ -0,0 +1,92 @@
+import { MemoryRouter } from 'react-router'
+
+import { screen } from '@testing-library/react'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { CaseStudyMentions, PostPager, RelatedPosts } from './PostNavigation'
+
+import i18n from '../../../test/i18n-for-tests'
+import { makePost } from '../../../test/posts'
+import { renderWithProviders } from '../../../test/utils'
+import type { ProjectCaseStudySummary } from '../../../types/projectCaseStudy'
+
+const caseStudy: ProjectCaseStudySummary = {
+  slug: 'vectos',
+  readingTime: 5,
+  meta: {
+    slug: 'vectos',
+    title: 'Vectos',
+    summary: '',
+    published: '2026-04-25',
+    repoName: 'vectos',
+  },
+}
+
+describe('PostNavigation', () => {
+  beforeEach(async () => {
+    await i18n.changeLanguage('en')
+  })
+
+  it('links related posts and chronological neighbours', () => {
+    renderWithProviders(
+      <MemoryRouter>
+        <RelatedPosts posts={[makePost({ slug: 'related', title: 'Related post' })]} />
+        <PostPager previous={makePost({ slug: 'older', title: 'Older post' })} next={null} />
+      </MemoryRouter>,
+    )
+
+    expect(screen.getByRole('heading', { name: 'Related posts' })).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /Related post/ })).toHaveAttribute(
+      'href',
+      '/en/blog/related',
+    )
+    expect(screen.getByRole('link', { name: /Previous post/ })).toHaveAttribute(
+      'href',
+      '/en/blog/older',
+    )
+    expect(screen.queryByRole('link', { name: /Next post/ })).not.toBeInTheDocument()
+  })
+
+  it('labels the neighbouring parts of a series', () => {
+    renderWithProviders(
+      <MemoryRouter>
+        <PostPager
+          previous={null}
+          next={makePost({ slug: 'part-2', title: 'Part two' })}
+          variant="series"
+        />
+      </MemoryRouter>,
+    )
+
+    expect(screen.getByRole('navigation', { name: 'Series navigation' })).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /Next part/ })).toHaveAttribute(
+      'href',
+      '/en/blog/part-2',
+    )
+  })
+
+  it('links the case studies that discuss the post', () => {
+    renderWithProviders(
+      <MemoryRouter>
+        <CaseStudyMentions caseStudies={[caseStudy]} />
+      </MemoryRouter>,
+    )
+
+    expect(screen.getByRole('link', { name: 'Vectos' })).toHaveAttribute(
+      'href',
+      '/en/projects/vectos',
+    )
+  })
+
+  it('renders nothing without related content', () => {
+    const { container } = renderWithProviders(
+      <MemoryRouter>
+        <RelatedPosts posts={[]} />
+        <CaseStudyMentions caseStudies={[]} />
+        <PostPager previous={null} next={null} />
+      </MemoryRouter>,
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,148 @@
+import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router'
+
+import { formatContentDate } from '../../../lib/content/dates'
+import type { AdjacentPosts } from '../../../lib/content/related'
+import { getBlogPostPath } from '../../../lib/content/slugs'
+import type { BlogPostSummary } from '../../../types/blog'
+import type { ProjectCaseStudySummary } from '../../../types/projectCaseStudy'
+
+/**
+ * "This post is discussed in…" links to the case studies that reference the post
+ */
+export function CaseStudyMentions({ caseStudies }: { caseStudies: ProjectCaseStudySummary[] }) {
+  const { t, i18n } = useTranslation()
+
+  if (caseStudies.length === 0) {
+    return null
+  }
+
+  return (
+    <aside className="mt-12 rounded-2xl border border-primary/20 bg-primary/5 p-6 dark:border-primary-light/20 dark:bg-primary/10">
+      <h2 className="mb-3 text-sm font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">
+        {t('blog.related.caseStudies')}
+      </h2>
+      <ul className="space-y-2">
+        {caseStudies.map((caseStudy) => (
+          <li key={caseStudy.slug} className="text-gray-700 dark:text-gray-300">
+            {t('blog.related.discussedIn')}{' '}
+            <Link
+              to={`/${i18n.language}/projects/${caseStudy.slug}`}
+              className="font-semibold text-primary hover:underline dark:text-primary-light"
+            >
+              {caseStudy.meta.title}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  )
+}
+
+/**
+ * Grid of posts related to the one being read
+ */
+export function RelatedPosts({ posts }: { posts: BlogPostSummary[] }) {
+  const { t, i18n } = useTranslation()
+
+  if (posts.length === 0) {
+    return null
+  }
+
+  return (
+    <section aria-labelledby="related-posts-title" className="mt-12">
+      <h2
+        id="related-posts-title"
+        className="mb-6 text-2xl font-bold tracking-tight text-gray-900 dark:text-white"
+      >
+        {t('blog.related.title')}
+      </h2>
+      <ul className="grid gap-4 sm:grid-cols-3">
+        {posts.map((post) => (
+          <li key={post.slug}>
+            <Link
+              to={`/${i18n.language}${getBlogPostPath(post.slug)}`}
+              className="group flex h-full flex-col rounded-2xl p-5 ring-1 ring-gray-200 transition-colors hover:bg-gray-50 dark:ring-gray-700 dark:hover:bg-gray-800/60"
+            >
+              <time dateTime={post.meta.date} className="text-xs text-gray-500 dark:text-gray-400">
+                {formatContentDate(post.meta.date, i18n.language, 'short')}
+              </time>
+              <h3 className="mt-2 font-semibold text-gray-900 group-hover:text-primary dark:text-white dark:group-hover:text-primary-light">
+                {post.meta.title}
+              </h3>
+              <p className="mt-2 line-clamp-3 text-sm text-gray-600 dark:text-gray-400">
+                {post.meta.description}
+              </p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+const PAGER_LABELS = {
+  chronological: {
+    navigation: 'blog.related.navigation',
+    previous: 'blog.related.previousPost',
+    next: 'blog.related.nextPost',
+  },
+  series: {
+    navigation: 'blog.series.navigation',
+    previous: 'blog.series.previousPart',
+    next: 'blog.series.nextPart',
+  },
+} as const
+
+interface PostPagerProps extends AdjacentPosts {
+  /** Neighbours by date, or the neighbouring parts of the post's series */
+  variant?: keyof typeof PAGER_LABELS
+}
+
+/**
+ * Previous/next post links shown after the content of a post
+ */
+export function PostPager({ previous, next, variant = 'chronological' }: PostPagerProps) {
+  const { t, i18n } = useTranslation()
+  const labels = PAGER_LABELS[variant]
+
+  if (!previous && !next) {
+    return null
+  }
+
+  return (
+    <nav
+      aria-label={t(labels.navigation)}
+      className="mt-12 grid gap-4 border-t border-gray-200 pt-8 sm:grid-cols-2 dark:border-gray-700"
+    >
+      {previous && (
+        <Link
+          to={`/${i18n.language}${getBlogPostPath(previous.slug)}`}
+          rel="prev"
+          className="group rounded-2xl p-4 ring-1 ring-gray-200 transition-colors hover:bg-gray-50 dark:ring-gray-700 dark:hover:bg-gray-800/60"
+        >
+          <span className="text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">
+            ← {t(labels.previous)}
+          </span>
+          <span className="mt-1 block font-semibold text-gray-900 group-hover:text-primary dark:text-white dark:group-hover:text-primary-light">
+            {previous.meta.title}
+          </span>
+        </Link>
+      )}
+      {next && (
+        <Link
+          to={`/${i18n.language}${getBlogPostPath(next.slug)}`}
+          rel="next"
+          className="group rounded-2xl p-4 text-right ring-1 ring-gray-200 transition-colors hover:bg-gray-50 sm:col-start-2 dark:ring-gray-700 dark:hover:bg-gray-800/60"
+        >
+          <span className="text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400">
+            {t(labels.next)} →
+          </span>
+          <span className="mt-1 block font-semibold text-gray-900 group-hover:text-primary dark:text-white dark:group-hover:text-primary-light">
+            {next.meta.title}
+          </span>
+        </Link>
+      )}
+    </nav>
+  )
+}
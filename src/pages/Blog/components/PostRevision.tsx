@@ -0,0 +1,52 @@
+import { useTranslation } from 'react-i18next'
+
+import { ArrowPathIcon, ChevronDownIcon } from '@heroicons/react/24/outline'
+
+import { formatContentDate } from '../../../lib/content/dates'
+import type { BlogPostMeta } from '../../../types/blog'
+
+/**
+ * "Updated on" line for revised posts, with the changelog in an expandable list
+ */
+export function PostRevision({ meta }: { meta: BlogPostMeta }) {
+  const { t, i18n } = useTranslation()
+  if (!meta.updated) return null
+
+  const changelog = meta.changelog ?? []
+
+  return (
+    <div className="mb-8 rounded-xl border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-600 dark:border-gray-700 dark:bg-gray-800/50 dark:text-gray-300">
+      <p className="flex items-center gap-2">
+        <ArrowPathIcon aria-hidden="true" className="size-4 shrink-0 text-primary" />
+        <span>
+          {t('blog.revision.updatedOn')}{' '}
+          <time dateTime={meta.updated} className="font-medium text-gray-900 dark:text-white">
+            {formatContentDate(meta.updated, i18n.language)}
+          </time>
+        </span>
+      </p>
+
+      {changelog.length > 0 && (
+        <details className="group mt-2">
+          <summary className="flex cursor-pointer list-none items-center gap-1 font-medium text-primary hover:underline dark:text-primary-light [&::-webkit-details-marker]:hidden">
+            {t('blog.revision.changelog', { count: changelog.length })}
+            <ChevronDownIcon
+              aria-hidden="true"
+              className="size-4 transition-transform group-open:rotate-180"
+            />
+          </summary>
+          <ol className="mt-3 space-y-2 border-l border-gray-200 pl-4 dark:border-gray-700">
+            {changelog.map((change) => (
+              <li key={`${change.date}-${change.description}`}>
+                <time dateTime={change.date} className="block text-xs text-gray-500">
+                  {formatContentDate(change.date, i18n.language)}
+                </time>
+                {change.description}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  )
+}
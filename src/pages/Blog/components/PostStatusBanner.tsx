@@ -0,0 +1,32 @@
+import { useTranslation } from 'react-i18next'
+
+import { EyeSlashIcon } from '@heroicons/react/24/outline'
+
+import { formatContentDate } from '../../../lib/content/dates'
+import { getPostStatus } from '../../../lib/content/visibility'
+import type { BlogPostMeta } from '../../../types/blog'
+
+/**
+ * Notice on drafts and scheduled posts. Production builds leave those posts out, so the
+ * banner only shows up on the dev server.
+ */
+export function PostStatusBanner({ meta }: { meta: BlogPostMeta }) {
+  const { t, i18n } = useTranslation()
+  const status = getPostStatus(meta)
+  if (status === 'published') return null
+
+  const date = formatContentDate(meta.date, i18n.language)
+
+  return (
+    <div
+      role="note"
+      className="mb-8 flex items-center gap-3 rounded-xl border border-amber-500/40 bg-amber-50 px-4 py-3 text-sm text-amber-800 dark:bg-amber-500/10 dark:text-amber-300"
+    >
+      <EyeSlashIcon aria-hidden="true" className="size-5 shrink-0" />
+      <p>
+        <strong className="font-semibold">{t(`blog.status.${status}.title`)}</strong>{' '}
+        {t(`blog.status.${status}.description`, { date })}
+      </p>
+    </div>
+  )
+}
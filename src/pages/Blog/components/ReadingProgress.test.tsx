@@ -0,0 +1,114 @@
+import { useRef } from 'react'
+import { MemoryRouter } from 'react-router'
+
+import { act, fireEvent, screen, waitFor } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ReadingProgress } from './ReadingProgress'
+
+import { ScrollToTop } from '../../../components/ScrollToTop'
+
+import i18n from '../../../test/i18n-for-tests'
+import { renderWithProviders } from '../../../test/utils'
+import { getReadingProgress, saveReadingProgress } from '../utils/readingProgress'
+
+/** The body is 2000px taller than the viewport */
+const SCROLLABLE = 2000
+
+let scrollY = 0
+
+function scrollWindow(top: number) {
+  act(() => {
+    scrollY = top
+    window.dispatchEvent(new Event('scroll'))
+  })
+}
+
+function Post() {
+  const bodyRef = useRef<HTMLDivElement>(null)
+  return (
+    <>
+      <ReadingProgress bodyRef={bodyRef} lang="en" slug="hooks" readingTime={10} />
+      <div
+        ref={(element) => {
+          bodyRef.current = element
+          if (element) {
+            element.getBoundingClientRect = () =>
+              ({ top: -scrollY, height: SCROLLABLE + window.innerHeight }) as DOMRect
+          }
+        }}
+      />
+    </>
+  )
+}
+
+function renderPost(state?: unknown, { withScrollReset = false } = {}) {
+  return renderWithProviders(
+    <MemoryRouter initialEntries={[{ pathname: '/en/blog/hooks', state }]}>
+      <Post />
+      {/* App-level scroll reset, whose effect runs after the post's */}
+      {withScrollReset && <ScrollToTop />}
+    </MemoryRouter>,
+  )
+}
+
+describe('ReadingProgress', () => {
+  beforeEach(async () => {
+    await i18n.changeLanguage('en')
+    localStorage.clear()
+    scrollY = 0
+    vi.spyOn(window, 'scrollTo').mockImplementation(((options: ScrollToOptions) => {
+      scrollWindow(options.top ?? 0)
+    }) as typeof window.scrollTo)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('tracks the position with the minutes left and saves it', async () => {
+    renderPost()
+    scrollWindow(SCROLLABLE / 4)
+
+    await waitFor(() => {
+      expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '25')
+    })
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuetext', '8 min left')
+    expect(getReadingProgress('en', 'hooks')?.progress).toBe(0.25)
+  })
+
+  it('offers to continue without overwriting the saved position', async () => {
+    saveReadingProgress('en', 'hooks', 0.6)
+    renderPost()
+
+    await screen.findByText('You read 60% of this post.')
+    expect(getReadingProgress('en', 'hooks')?.progress).toBe(0.6)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Continue reading' }))
+
+    await waitFor(() => {
+      expect(screen.queryByText('You read 60% of this post.')).not.toBeInTheDocument()
+    })
+    expect(window.scrollTo).toHaveBeenCalledWith({ top: 1200, behavior: 'smooth' })
+  })
+
+  it('resumes right away when asked to from a blog card', async () => {
+    saveReadingProgress('en', 'hooks', 0.5)
+    renderPost({ resumeReading: true })
+
+    await waitFor(() => {
+      expect(window.scrollTo).toHaveBeenCalledWith({ top: 1000, behavior: 'auto' })
+    })
+  })
+
+  it('keeps the resumed position when the route resets the scroll', async () => {
+    saveReadingProgress('en', 'hooks', 0.5)
+    renderPost({ resumeReading: true }, { withScrollReset: true })
+
+    await waitFor(() => {
+      expect(window.scrollTo).toHaveBeenCalledWith({ top: 1000, behavior: 'auto' })
+    })
+    expect(window.scrollTo).not.toHaveBeenCalledWith(0, 0)
+    expect(scrollY).toBe(1000)
+  })
+})
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState, type RefObject } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useLocation } from 'react-router'
+
+import { BookmarkIcon, XMarkIcon } from '@heroicons/react/24/outline'
+
+import { useReducedMotion } from '../../../hooks/useReducedMotion'
+import {
+  scrollToProgress,
+  useReadingProgress,
+  useSavedReadingProgress,
+} from '../hooks/useReadingProgress'
+import {
+  FINISHED_PROGRESS,
+  getRemainingMinutes,
+  RESUME_MIN_PROGRESS,
+  saveReadingProgress,
+  type ResumeReadingState,
+} from '../utils/readingProgress'
+
+interface ReadingProgressProps {
+  /** Post body whose scroll position is tracked */
+  bodyRef: RefObject<HTMLElement | null>
+  lang: string
+  slug: string
+  readingTime: number
+}
+
+/**
+ * Reading progress of a blog post: a bar along the top of the viewport, the minutes left,
+ * and an offer to continue from the position saved on a previous visit.
+ *
+ * Positions are saved as the reader scrolls, except while the offer is open and the reader
+ * is still before the saved position, so glancing at the introduction does not lose it.
+ * Following "Continue reading" from a blog card (ResumeReadingState) resumes right away.
+ */
+export function ReadingProgress({ bodyRef, lang, slug, readingTime }: ReadingProgressProps) {
+  const { t } = useTranslation()
+  const location = useLocation()
+  const prefersReducedMotion = useReducedMotion()
+  const progress = useReadingProgress(bodyRef)
+  const saved = useSavedReadingProgress(lang, slug)
+  const [isDismissed, setIsDismissed] = useState(false)
+  const hasAutoResumed = useRef(false)
+
+  const savedProgress = saved && !saved.finished ? saved.progress : 0
+  const canResume = savedProgress >= RESUME_MIN_PROGRESS
+  const isOfferOpen =
+    canResume && !isDismissed && progress !== null && savedProgress - progress > RESUME_MIN_PROGRESS
+  const resumeRequested =
+    (location.state as Partial<ResumeReadingState> | null)?.resumeReading === true
+
+  const resume = () => {
+    if (bodyRef.current) {
+      scrollToProgress(bodyRef.current, savedProgress, prefersReducedMotion ? 'auto' : 'smooth')
+    }
+  }
+
+  useEffect(() => {
+    if (progress === null || isOfferOpen) return
+    saveReadingProgress(lang, slug, progress)
+  }, [lang, slug, progress, isOfferOpen])
+
+  useEffect(() => {
+    if (!resumeRequested || !canResume || hasAutoResumed.current || !bodyRef.current) return
+    hasAutoResumed.current = true
+    scrollToProgress(bodyRef.current, savedProgress)
+  }, [resumeRequested, canResume, savedProgress, bodyRef])
+
+  if (progress === null) return null
+
+  const percent = Math.round(progress * 100)
+  const isReading = progress > 0 && progress < FINISHED_PROGRESS
+
+  return (
+    <>
+      <div
+        role="progressbar"
+        aria-label={t('blog.progress.label')}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-valuetext={t('blog.progress.remaining', {
+          minutes: getRemainingMinutes(readingTime, progress),
+        })}
+        className="pointer-events-none fixed top-0 right-0 left-0 z-50 h-1"
+      >
+        <div
+          className="h-full origin-left bg-linear-to-r from-primary to-highlight transition-transform duration-150 ease-out motion-reduce:transition-none"
+          style={{ transform: `scaleX(${String(progress)})` }}
+        />
+      </div>
+
+      <div className="fixed bottom-4 left-4 z-40 flex max-w-[calc(100vw-2rem)] flex-col items-start gap-2">
+        {isOfferOpen && (
+          <div
+            role="status"
+            className="flex items-center gap-3 rounded-xl border border-gray-200 bg-white/95 py-2 pr-2 pl-4 text-sm shadow-lg backdrop-blur-sm dark:border-gray-700 dark:bg-gray-900/95"
+          >
+            <BookmarkIcon aria-hidden="true" className="size-5 shrink-0 text-primary" />
+            <span className="text-gray-700 dark:text-gray-200">
+              {t('blog.progress.resumeDescription', {
+                percent: Math.round(savedProgress * 100),
+              })}
+            </span>
+            <button
+              type="button"
+              onClick={resume}
+              className="rounded-lg bg-primary px-3 py-1.5 text-xs font-semibold text-white transition-colors hover:bg-primary/90 focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:outline-none dark:focus:ring-offset-gray-900"
+            >
+              {t('blog.progress.continue')}
+            </button>
+            <button
+              type="button"
+              aria-label={t('blog.progress.dismiss')}
+              onClick={() => {
+                setIsDismissed(true)
+              }}
+              className="rounded-full p-1 text-gray-400 transition-colors hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+            >
+              <XMarkIcon aria-hidden="true" className="size-4" />
+            </button>
+          </div>
+        )}
+
+        {isReading && (
+          <span
+            aria-hidden="true"
+            className="rounded-full bg-gray-900/80 px-3 py-1 text-xs font-medium text-white shadow backdrop-blur-sm dark:bg-white/80 dark:text-gray-900"
+          >
+            {t('blog.progress.remaining', { minutes: getRemainingMinutes(readingTime, progress) })}
+          </span>
+        )}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,52 @@
+import { useTranslation } from 'react-i18next'
+import { Link } from 'react-router'
+
+import { getBlogPostPath } from '../../../lib/content/slugs'
+import { getBlogArchivePath, type SeriesNavigation } from '../../../lib/content/taxonomy'
+
+interface SeriesNavigationProps {
+  navigation: SeriesNavigation
+}
+
+/**
+ * Table of parts shown at the top of a post that belongs to a series
+ */
+export function SeriesParts({ navigation }: SeriesNavigationProps) {
+  const { t, i18n } = useTranslation()
+  const { series, index } = navigation
+
+  return (
+    <nav
+      aria-labelledby="series-parts-title"
+      className="mb-10 rounded-2xl border border-gray-200/60 bg-gray-50/80 p-6 dark:border-gray-700/60 dark:bg-gray-800/40"
+    >
+      <p id="series-parts-title" className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+        {t('blog.series.partOf', { part: index + 1, count: series.posts.length })}{' '}
+        <Link
+          to={`/${i18n.language}${getBlogArchivePath('series', series.slug)}`}
+          className="font-semibold text-primary hover:underline dark:text-primary-light"
+        >
+          {series.name}
+        </Link>
+      </p>
+      <ol className="list-decimal space-y-1 pl-6 text-sm text-gray-700 dark:text-gray-300">
+        {series.posts.map((part, partIndex) => (
+          <li key={part.slug}>
+            {partIndex === index ? (
+              <span aria-current="page" className="font-semibold text-gray-900 dark:text-white">
+                {part.meta.title}
+              </span>
+            ) : (
+              <Link
+                to={`/${i18n.language}${getBlogPostPath(part.slug)}`}
+                className="hover:text-primary hover:underline dark:hover:text-primary-light"
+              >
+                {part.meta.title}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  )
+}
@@ -0,0 +1,103 @@
+import ReactMarkdown from 'react-markdown'
+import { MemoryRouter } from 'react-router'
+
+import { act, fireEvent, screen } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { TableOfContents } from './TableOfContents'
+
+import { getTableOfContents, rehypeHeadingIds } from '../../../lib/content/headings'
+import i18n from '../../../test/i18n-for-tests'
+import { renderWithProviders } from '../../../test/utils'
+
+const markdown = ['## Instalación', 'Texto', '### Requisitos', 'Texto', '## Uso', 'Texto'].join(
+  '\n\n',
+)
+
+const OriginalIntersectionObserver = globalThis.IntersectionObserver
+let observerCallback: IntersectionObserverCallback | null = null
+
+class CapturingIntersectionObserver {
+  constructor(callback: IntersectionObserverCallback) {
+    observerCallback = callback
+  }
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+function intersect(id: string, isIntersecting: boolean, top = 0) {
+  const target = document.getElementById(id)
+  if (!target || !observerCallback) throw new Error(`Heading ${id} is not observed`)
+  act(() => {
+    observerCallback?.(
+      [{ target, isIntersecting, boundingClientRect: { top } } as IntersectionObserverEntry],
+      {} as IntersectionObserver,
+    )
+  })
+}
+
+function renderPost() {
+  return renderWithProviders(
+    <MemoryRouter>
+      <ReactMarkdown rehypePlugins={[rehypeHeadingIds]}>{markdown}</ReactMarkdown>
+      <TableOfContents items={getTableOfContents(markdown)} variant="sidebar" />
+    </MemoryRouter>,
+  )
+}
+
+describe('TableOfContents', () => {
+  beforeEach(async () => {
+    await i18n.changeLanguage('es')
+    globalThis.IntersectionObserver =
+      CapturingIntersectionObserver as unknown as typeof IntersectionObserver
+  })
+
+  afterEach(() => {
+    globalThis.IntersectionObserver = OriginalIntersectionObserver
+    observerCallback = null
+  })
+
+  it('links to the ids rendered on the headings', () => {
+    renderPost()
+
+    const links = screen.getAllByRole('link')
+    expect(links.map((link) => link.getAttribute('href'))).toEqual([
+      '#instalación',
+      '#requisitos',
+      '#uso',
+    ])
+    for (const link of links) {
+      expect(document.getElementById(link.getAttribute('href')?.slice(1) ?? '')).not.toBeNull()
+    }
+  })
+
+  it('highlights the section being read', () => {
+    renderPost()
+
+    intersect('requisitos', true)
+    expect(screen.getByRole('link', { name: 'Requisitos' })).toHaveAttribute(
+      'aria-current',
+      'location',
+    )
+
+    // Scrolling back up: the heading leaves through the bottom and the previous one takes over
+    intersect('requisitos', false, 500)
+    expect(screen.getByRole('link', { name: 'Instalación' })).toHaveAttribute(
+      'aria-current',
+      'location',
+    )
+  })
+
+  it('scrolls to the section on click', () => {
+    renderPost()
+    const heading = document.getElementById('uso')
+    if (!heading) throw new Error('Missing heading')
+    heading.scrollIntoView = vi.fn()
+
+    fireEvent.click(screen.getByRole('link', { name: 'Uso' }))
+
+    expect(heading.scrollIntoView).toHaveBeenCalledWith({ behavior: 'smooth', block: 'start' })
+    expect(screen.getByRole('link', { name: 'Uso' })).toHaveAttribute('aria-current', 'location')
+  })
+})
@@ -0,0 +1,93 @@
+import type { MouseEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router'
+
+import { ChevronDownIcon } from '@heroicons/react/24/outline'
+
+import { useReducedMotion } from '../../../hooks/useReducedMotion'
+import type { TableOfContentsItem } from '../../../lib/content/headings'
+import { useActiveHeading } from '../hooks/useActiveHeading'
+
+interface TableOfContentsProps {
+  items: TableOfContentsItem[]
+  /** Sticky sidebar on wide screens, or a collapsible block above the content */
+  variant: 'sidebar' | 'collapsible'
+}
+
+/**
+ * Section links of a post with the section being read highlighted
+ */
+export function TableOfContents({ items, variant }: TableOfContentsProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const prefersReducedMotion = useReducedMotion()
+  const [activeId, setActiveId] = useActiveHeading(items.map((item) => item.id))
+
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>, id: string) => {
+    const heading = document.getElementById(id)
+    if (!heading) return
+
+    event.preventDefault()
+    heading.scrollIntoView({ behavior: prefersReducedMotion ? 'auto' : 'smooth', block: 'start' })
+    setActiveId(id)
+    void navigate({ hash: `#${id}` }, { replace: true, preventScrollReset: true })
+  }
+
+  const links = (
+    <ol className="space-y-1 text-sm">
+      {items.map((item) => {
+        const isActive = item.id === activeId
+        return (
+          <li key={item.id} className={item.level > 2 ? 'pl-4' : undefined}>
+            <a
+              href={`#${item.id}`}
+              aria-current={isActive ? 'location' : undefined}
+              onClick={(event) => {
+                handleClick(event, item.id)
+              }}
+              className={`block border-l-2 py-1 pl-3 transition-colors ${
+                isActive
+                  ? 'border-primary font-medium text-primary dark:border-primary-light dark:text-primary-light'
+                  : 'border-transparent text-gray-600 hover:border-gray-300 hover:text-gray-900 dark:text-gray-400 dark:hover:border-gray-600 dark:hover:text-gray-100'
+              }`}
+            >
+              {item.text}
+            </a>
+          </li>
+        )
+      })}
+    </ol>
+  )
+
+  if (variant === 'collapsible') {
+    return (
+      <details className="group mb-10 rounded-2xl border border-gray-200/60 bg-gray-50/80 p-4 xl:hidden dark:border-gray-700/60 dark:bg-gray-800/40">
+        <summary className="flex cursor-pointer list-none items-center justify-between font-semibold text-gray-900 dark:text-white [&::-webkit-details-marker]:hidden">
+          {t('blog.toc.title')}
+          <ChevronDownIcon
+            aria-hidden="true"
+            className="size-5 text-gray-500 transition-transform group-open:rotate-180 motion-reduce:transition-none"
+          />
+        </summary>
+        <nav aria-label={t('blog.toc.title')} className="mt-3">
+          {links}
+        </nav>
+      </details>
+    )
+  }
+
+  return (
+    <nav
+      aria-labelledby="toc-title"
+      className="sticky top-24 hidden max-h-[calc(100vh-8rem)] overflow-y-auto xl:block"
+    >
+      <p
+        id="toc-title"
+        className="mb-3 text-xs font-semibold tracking-wide text-gray-500 uppercase dark:text-gray-400"
+      >
+        {t('blog.toc.title')}
+      </p>
+      {links}
+    </nav>
+  )
+}
@@ -1,4 +1,12 @@
+export { BlogArchive } from './BlogArchive'
 export { BlogError } from './BlogError'
 export { BlogList } from './BlogList'
 export { BlogLoading } from './BlogLoading'
+export { BlogPagination } from './BlogPagination'
 export { BlogPost } from './BlogPost'
+export { CaseStudyMentions, PostPager, RelatedPosts } from './PostNavigation'
+export { PostRevision } from './PostRevision'
+export { PostStatusBanner } from './PostStatusBanner'
+export { ReadingProgress } from './ReadingProgress'
+export { SeriesParts } from './SeriesNavigation'
+export { TableOfContents } from './TableOfContents'
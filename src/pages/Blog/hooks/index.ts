@@ -0,0 +1,7 @@
+/**
+ * Export all Blog hooks
+ */
+
+export { useActiveHeading } from './useActiveHeading'
+export { useBlogFilters } from './useBlogFilters'
+export { useReadingProgress, useSavedReadingProgress } from './useReadingProgress'
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react'
+
+/** The active section is the first heading within the top 30% of the viewport */
+const ACTIVE_ZONE_MARGIN = '0px 0px -70% 0px'
+
+/**
+ * Scroll-spy for the table of contents: id of the section currently being read.
+ *
+ * While no heading is inside the active zone the last one scrolled past stays active;
+ * when a heading leaves through the bottom (scrolling up) the previous one takes over.
+ */
+export function useActiveHeading(ids: string[]) {
+  const [activeId, setActiveId] = useState<string | null>(null)
+  // Ids are slugs without spaces; a string key avoids re-observing on every render
+  const idsKey = ids.join(' ')
+
+  useEffect(() => {
+    const headingIds = idsKey ? idsKey.split(' ') : []
+    const elements = headingIds
+      .map((id) => document.getElementById(id))
+      .filter((element) => element !== null)
+    if (elements.length === 0 || typeof IntersectionObserver === 'undefined') return
+
+    const visible = new Set<string>()
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const { id } = entry.target
+          if (entry.isIntersecting) {
+            visible.add(id)
+          } else {
+            visible.delete(id)
+            if (entry.boundingClientRect.top > 0) {
+              const previousId = headingIds[headingIds.indexOf(id) - 1] ?? null
+              setActiveId((current) => (current === id ? previousId : current))
+            }
+          }
+        }
+
+        const firstVisible = headingIds.find((id) => visible.has(id))
+        if (firstVisible) setActiveId(firstVisible)
+      },
+      { rootMargin: ACTIVE_ZONE_MARGIN },
+    )
+
+    for (const element of elements) observer.observe(element)
+    return () => {
+      observer.disconnect()
+    }
+  }, [idsKey])
+
+  return [activeId, setActiveId] as const
+}
@@ -0,0 +1,82 @@
+import React from 'react'
+import { MemoryRouter, useLocation, useNavigate } from 'react-router'
+
+import { describe, expect, it } from 'vitest'
+
+import { act, renderHook } from '@testing-library/react'
+
+import { useBlogFilters } from './useBlogFilters'
+
+function renderFilters(...initialEntries: string[]) {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <MemoryRouter initialEntries={initialEntries} initialIndex={initialEntries.length - 1}>
+      {children}
+    </MemoryRouter>
+  )
+
+  return renderHook(
+    () => {
+      const [filters, setFilters] = useBlogFilters(['react', 'testing'])
+      return { filters, setFilters, location: useLocation(), navigate: useNavigate() }
+    },
+    { wrapper },
+  )
+}
+
+describe('useBlogFilters', () => {
+  it('restores filters from the query string', () => {
+    const { result } = renderFilters('/en/blog?q=hooks&tags=react,nope&featured=1')
+
+    expect(result.current.filters).toEqual({
+      search: 'hooks',
+      selectedTags: ['react'],
+      sortBy: 'date-desc',
+      showFeatured: true,
+    })
+  })
+
+  it('writes filter changes to the URL', () => {
+    const { result } = renderFilters('/en/blog')
+
+    act(() => {
+      result.current.setFilters({ ...result.current.filters, selectedTags: ['testing'] })
+    })
+    act(() => {
+      result.current.setFilters({ ...result.current.filters, sortBy: 'title' })
+    })
+
+    expect(result.current.location.search).toBe('?tags=testing&sort=title')
+  })
+
+  it('restores the previous filters when going back', () => {
+    const { result } = renderFilters('/en/blog')
+
+    act(() => {
+      result.current.setFilters({ ...result.current.filters, showFeatured: true })
+    })
+    expect(result.current.filters.showFeatured).toBe(true)
+
+    act(() => {
+      void result.current.navigate(-1)
+    })
+    expect(result.current.filters.showFeatured).toBe(false)
+  })
+
+  it('replaces the history entry while typing a search', () => {
+    const { result } = renderFilters('/en/', '/en/blog?tags=react')
+
+    act(() => {
+      result.current.setFilters({ ...result.current.filters, search: 're' })
+    })
+    act(() => {
+      result.current.setFilters({ ...result.current.filters, search: 'react' })
+    })
+    expect(result.current.location.search).toBe('?tags=react&q=react')
+
+    act(() => {
+      void result.current.navigate(-1)
+    })
+    // Typing replaced the entry, so going back leaves the blog entirely
+    expect(result.current.location.pathname).toBe('/en/')
+  })
+})
@@ -0,0 +1,30 @@
+import { useSearchParams } from 'react-router'
+
+import type { FilterState } from '../components/BlogFilters'
+import { DEFAULT_FILTERS, parseFilterParams, serializeFilterParams } from '../utils/filterParams'
+
+import { useIsHydrating } from '@/hooks'
+
+/**
+ * Blog filters stored in the query string, so filtered views can be bookmarked, shared
+ * and restored with the back button.
+ *
+ * Typing in the search box replaces the current history entry; toggling tags, sorting
+ * or the featured filter pushes a new one.
+ */
+export function useBlogFilters(knownTags: string[]) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // Prerendered pages are rendered without a query string; apply it once hydrated
+  const isHydrating = useIsHydrating()
+  const filters = isHydrating ? DEFAULT_FILTERS : parseFilterParams(searchParams, knownTags)
+
+  const setFilters = (next: FilterState) => {
+    setSearchParams((current) => serializeFilterParams(next, current), {
+      replace: next.search !== filters.search,
+      preventScrollReset: true,
+    })
+  }
+
+  return [filters, setFilters] as const
+}
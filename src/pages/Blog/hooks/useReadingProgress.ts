@@ -0,0 +1,71 @@
+import { useEffect, useState, useSyncExternalStore, type RefObject } from 'react'
+
+import {
+  getReadingProgress,
+  subscribeToReadingProgress,
+  type ReadingProgress,
+} from '../utils/readingProgress'
+
+/** Progress is reported in whole percents, so scrolling does not re-render on every frame */
+const STEP = 100
+
+function measureProgress(element: HTMLElement): number {
+  const { top, height } = element.getBoundingClientRect()
+  const scrollable = height - window.innerHeight
+  // A body shorter than the viewport is read as soon as its end is on screen
+  if (scrollable <= 0) return top + height <= window.innerHeight ? 1 : 0
+  return Math.round(Math.min(1, Math.max(0, -top / scrollable)) * STEP) / STEP
+}
+
+/**
+ * Scroll the window so the element is read up to the given progress
+ */
+export function scrollToProgress(
+  element: HTMLElement,
+  progress: number,
+  behavior: ScrollBehavior = 'auto',
+): void {
+  const { top, height } = element.getBoundingClientRect()
+  const scrollable = Math.max(0, height - window.innerHeight)
+  window.scrollTo({ top: window.scrollY + top + progress * scrollable, behavior })
+}
+
+/**
+ * Share of the element scrolled past, from 0 to 1, or null until it has been measured
+ */
+export function useReadingProgress(ref: RefObject<HTMLElement | null>): number | null {
+  const [progress, setProgress] = useState<number | null>(null)
+
+  useEffect(() => {
+    let frame = 0
+    const update = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => {
+        if (ref.current) setProgress(measureProgress(ref.current))
+      })
+    }
+
+    update()
+    window.addEventListener('scroll', update, { passive: true })
+    window.addEventListener('resize', update)
+    return () => {
+      cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', update)
+      window.removeEventListener('resize', update)
+    }
+  }, [ref])
+
+  return progress
+}
+
+/**
+ * Saved position of a post. Prerendered markup knows nothing about the reader, so the
+ * position is only read once hydrated.
+ */
+export function useSavedReadingProgress(lang: string, slug: string): ReadingProgress | null {
+  return useSyncExternalStore(
+    subscribeToReadingProgress,
+    () => getReadingProgress(lang, slug),
+    () => null,
+  )
+}
@@ -7,13 +7,20 @@ import { BlogList, BlogError, BlogLoading } from './components'
 import { DocumentHead } from '../../components/DocumentHead'
 import { useBlogPosts } from '../../hooks/useBlog'
 import { fadeIn, smoothTransition } from '../../lib/animations'
+import { getFeedLinks } from '../../lib/content/feedPaths'
+import { isListed } from '../../lib/content/visibility'
 import { buildLocalizedSeoUrls } from '../../lib/seo'
+import { buildBreadcrumbSchema } from '../../lib/structuredData'
 
 export default function Blog() {
   const { t, i18n } = useTranslation()
   const { data: posts, isLoading: loading, error, refetch } = useBlogPosts()
   const locale = i18n.language === 'en' ? 'en' : 'es'
   const seoUrls = buildLocalizedSeoUrls(import.meta.env.VITE_SITE_URL, '/blog', locale)
+  const breadcrumbs = buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+    { name: t('navigation.home'), path: '/' },
+    { name: t('blog.title'), path: '/blog' },
+  ])
 
   return (
     <>
@@ -23,6 +30,8 @@ export default function Blog() {
         ogType="website"
         canonicalUrl={seoUrls.canonicalUrl}
         alternateUrls={seoUrls.alternateUrls}
+        feedLinks={getFeedLinks(import.meta.env.VITE_SITE_URL, locale, t('blog.title'))}
+        structuredData={[breadcrumbs]}
       />
 
       <motion.div
@@ -53,7 +62,7 @@ export default function Blog() {
           >
             {loading && <BlogLoading />}
             {error && <BlogError message={error.message} onRetry={() => void refetch()} />}
-            {!loading && !error && posts && <BlogList posts={posts} />}
+            {!loading && !error && posts && <BlogList posts={posts.filter(isListed)} />}
           </motion.div>
         </div>
       </motion.div>
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+
+import { DEFAULT_FILTERS, parseFilterParams, serializeFilterParams } from './filterParams'
+
+describe('parseFilterParams', () => {
+  it('returns the defaults for an empty query string', () => {
+    expect(parseFilterParams(new URLSearchParams())).toEqual(DEFAULT_FILTERS)
+  })
+
+  it('reads search, tags, sort and featured', () => {
+    expect(
+      parseFilterParams(
+        new URLSearchParams('?q=hooks&tags=react,testing&sort=date-asc&featured=1'),
+      ),
+    ).toEqual({
+      search: 'hooks',
+      selectedTags: ['react', 'testing'],
+      sortBy: 'date-asc',
+      showFeatured: true,
+    })
+  })
+
+  it('ignores invalid values', () => {
+    const filters = parseFilterParams(
+      new URLSearchParams('?tags=react,,unknown,react&sort=random&featured=yes'),
+      ['react', 'testing'],
+    )
+
+    expect(filters.selectedTags).toEqual(['react'])
+    expect(filters.sortBy).toBe('date-desc')
+    expect(filters.showFeatured).toBe(false)
+  })
+})
+
+describe('serializeFilterParams', () => {
+  it('leaves out default values', () => {
+    expect(serializeFilterParams(DEFAULT_FILTERS).toString()).toBe('')
+  })
+
+  it('round-trips through parseFilterParams and keeps unrelated parameters', () => {
+    const filters = {
+      search: 'server components',
+      selectedTags: ['react', 'ssr'],
+      sortBy: 'title' as const,
+      showFeatured: true,
+    }
+    const params = serializeFilterParams(filters, new URLSearchParams('utm_source=feed&sort=x'))
+
+    expect(params.get('utm_source')).toBe('feed')
+    expect(params.get('tags')).toBe('react,ssr')
+    expect(params.get('featured')).toBe('1')
+    expect(parseFilterParams(params)).toEqual(filters)
+  })
+
+  it('removes parameters that went back to their default', () => {
+    const params = serializeFilterParams(
+      DEFAULT_FILTERS,
+      new URLSearchParams('q=react&tags=a&sort=title&featured=1'),
+    )
+    expect(params.toString()).toBe('')
+  })
+})
@@ -0,0 +1,73 @@
+import type { FilterState } from '../components/BlogFilters'
+
+export const DEFAULT_FILTERS: FilterState = {
+  search: '',
+  selectedTags: [],
+  sortBy: 'date-desc',
+  showFeatured: false,
+}
+
+const SORT_OPTIONS: FilterState['sortBy'][] = [
+  'date-desc',
+  'date-asc',
+  'updated',
+  'reading-time',
+  'title',
+]
+
+// Query parameter names: ?q=&tags=a,b&sort=date-asc&featured=1
+const PARAMS = {
+  search: 'q',
+  tags: 'tags',
+  sort: 'sort',
+  featured: 'featured',
+} as const
+
+function isSortOption(value: string | null): value is FilterState['sortBy'] {
+  return SORT_OPTIONS.includes(value as FilterState['sortBy'])
+}
+
+/**
+ * Read filters from the URL. Unknown sort values fall back to the default and, when
+ * `knownTags` is given, tags that no post uses are dropped.
+ */
+export function parseFilterParams(params: URLSearchParams, knownTags?: string[]): FilterState {
+  const sort = params.get(PARAMS.sort)
+  const tags = (params.get(PARAMS.tags) ?? '')
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag && (!knownTags || knownTags.includes(tag)))
+
+  return {
+    search: params.get(PARAMS.search) ?? '',
+    selectedTags: [...new Set(tags)],
+    sortBy: isSortOption(sort) ? sort : DEFAULT_FILTERS.sortBy,
+    showFeatured: ['1', 'true'].includes(params.get(PARAMS.featured) ?? ''),
+  }
+}
+
+/**
+ * Write filters into the URL, leaving out defaults and keeping unrelated parameters
+ */
+export function serializeFilterParams(
+  filters: FilterState,
+  current = new URLSearchParams(),
+): URLSearchParams {
+  const params = new URLSearchParams(current)
+  const values: Record<(typeof PARAMS)[keyof typeof PARAMS], string> = {
+    [PARAMS.search]: filters.search,
+    [PARAMS.tags]: filters.selectedTags.join(','),
+    [PARAMS.sort]: filters.sortBy === DEFAULT_FILTERS.sortBy ? '' : filters.sortBy,
+    [PARAMS.featured]: filters.showFeatured ? '1' : '',
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    if (value) {
+      params.set(name, value)
+    } else {
+      params.delete(name)
+    }
+  }
+
+  return params
+}
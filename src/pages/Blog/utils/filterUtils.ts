@@ -1,17 +1,28 @@
-import type { BlogPost } from '../../../types/blog'
+import { searchDocuments, type SearchIndex } from '../../../lib/content/search'
+import type { BlogPostSummary } from '../../../types/blog'
 import type { FilterState } from '../components/BlogFilters'
 
-export function filterAndSortPosts(posts: BlogPost[], filters: FilterState): BlogPost[] {
+export function filterAndSortPosts(
+  posts: BlogPostSummary[],
+  filters: FilterState,
+  searchIndex?: SearchIndex,
+): BlogPostSummary[] {
   let filteredPosts = [...posts]
 
-  // Apply search filter
-  if (filters.search.trim()) {
+  // Apply search filter: full text through the index once it has loaded, metadata only until then
+  if (filters.search.trim() && searchIndex) {
+    const matchingIds = new Set(
+      searchDocuments(searchIndex, filters.search, { types: ['post'], limit: posts.length }).map(
+        ({ document }) => document.id,
+      ),
+    )
+    filteredPosts = filteredPosts.filter((post) => matchingIds.has(`post:${post.slug}`))
+  } else if (filters.search.trim()) {
     const searchTerm = filters.search.toLowerCase().trim()
     filteredPosts = filteredPosts.filter(
       (post) =>
         post.meta.title.toLowerCase().includes(searchTerm) ||
         post.meta.description.toLowerCase().includes(searchTerm) ||
-        post.content.toLowerCase().includes(searchTerm) ||
         post.meta.tags.some((tag) => tag.toLowerCase().includes(searchTerm)),
     )
   }
@@ -35,6 +46,12 @@ export function filterAndSortPosts(posts: BlogPost[], filters: FilterState): Blo
         return new Date(b.meta.date).getTime() - new Date(a.meta.date).getTime()
       case 'date-asc':
         return new Date(a.meta.date).getTime() - new Date(b.meta.date).getTime()
+      case 'updated':
+        // Posts never revised count as updated on their publication date
+        return (
+          new Date(b.meta.updated ?? b.meta.date).getTime() -
+          new Date(a.meta.updated ?? a.meta.date).getTime()
+        )
       case 'reading-time':
         return a.readingTime - b.readingTime
       case 'title':
@@ -47,8 +64,13 @@ export function filterAndSortPosts(posts: BlogPost[], filters: FilterState): Blo
   return filteredPosts
 }
 
+// Unique tags across all posts, sorted alphabetically
+export function getAllTags(posts: BlogPostSummary[]): string[] {
+  return [...new Set(posts.flatMap((post) => post.meta.tags))].sort()
+}
+
 // Get statistics for filtered results
-export function getFilteredStats(allPosts: BlogPost[], filteredPosts: BlogPost[]) {
+export function getFilteredStats(allPosts: BlogPostSummary[], filteredPosts: BlogPostSummary[]) {
   return {
     total: allPosts.length,
     filtered: filteredPosts.length,
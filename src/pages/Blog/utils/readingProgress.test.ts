@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  getReadingProgress,
+  getRemainingMinutes,
+  saveReadingProgress,
+  subscribeToReadingProgress,
+} from './readingProgress'
+
+describe('reading progress storage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('saves positions per locale and slug', () => {
+    saveReadingProgress('en', 'hooks', 0.4)
+
+    expect(getReadingProgress('en', 'hooks')).toMatchObject({ progress: 0.4, finished: false })
+    expect(getReadingProgress('es', 'hooks')).toBeNull()
+  })
+
+  it('keeps a post finished after scrolling back up', () => {
+    saveReadingProgress('en', 'hooks', 0.97)
+    saveReadingProgress('en', 'hooks', 0.1)
+
+    expect(getReadingProgress('en', 'hooks')).toMatchObject({ progress: 0.1, finished: true })
+  })
+
+  it('notifies subscribers and returns the same snapshot while nothing changes', () => {
+    const listener = vi.fn()
+    const unsubscribe = subscribeToReadingProgress(listener)
+
+    saveReadingProgress('en', 'hooks', 0.5)
+    saveReadingProgress('en', 'hooks', 0.5)
+    unsubscribe()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(getReadingProgress('en', 'hooks')).toBe(getReadingProgress('en', 'hooks'))
+  })
+
+  it('ignores corrupted storage', () => {
+    localStorage.setItem('blog-reading-progress', '{"en/hooks": {"progress": "half"}')
+
+    expect(getReadingProgress('en', 'hooks')).toBeNull()
+  })
+})
+
+describe('getRemainingMinutes', () => {
+  it('rounds up until the end of the post', () => {
+    expect(getRemainingMinutes(10, 0)).toBe(10)
+    expect(getRemainingMinutes(10, 0.75)).toBe(3)
+    expect(getRemainingMinutes(10, 0.99)).toBe(1)
+    expect(getRemainingMinutes(10, 1)).toBe(0)
+  })
+})
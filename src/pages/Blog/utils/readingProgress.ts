@@ -0,0 +1,138 @@
+/**
+ * Reading positions of blog posts, kept in localStorage per locale and slug so returning
+ * readers can continue where they left off.
+ */
+
+export interface ReadingProgress {
+  /** Share of the post body scrolled past, from 0 to 1 */
+  progress: number
+  /** Whether the reader has reached the end of the post at least once */
+  finished: boolean
+  /** When the position was last saved, in milliseconds since the epoch */
+  savedAt: number
+}
+
+/** Router state asking the post page to scroll back to the saved position */
+export interface ResumeReadingState {
+  resumeReading: true
+}
+
+const STORAGE_KEY = 'blog-reading-progress'
+/** Oldest positions are dropped beyond this many posts */
+const MAX_ENTRIES = 100
+
+/** Past this point the post counts as read; the last lines are usually comments or links */
+export const FINISHED_PROGRESS = 0.95
+/** Below this point there is nothing worth resuming */
+export const RESUME_MIN_PROGRESS = 0.05
+
+type ProgressStore = Record<string, ReadingProgress>
+
+const listeners = new Set<() => void>()
+let cachedRaw: string | null = null
+let cachedStore: ProgressStore = {}
+
+function getKey(lang: string, slug: string): string {
+  return `${lang}/${slug}`
+}
+
+function isReadingProgress(value: unknown): value is ReadingProgress {
+  if (typeof value !== 'object' || value === null) return false
+  const entry = value as Partial<ReadingProgress>
+  return (
+    typeof entry.progress === 'number' &&
+    typeof entry.finished === 'boolean' &&
+    typeof entry.savedAt === 'number'
+  )
+}
+
+/**
+ * Parsed store, reused while the stored JSON is unchanged so snapshots stay referentially
+ * stable for useSyncExternalStore
+ */
+function readStore(): ProgressStore {
+  let raw: string | null
+  try {
+    raw = localStorage.getItem(STORAGE_KEY)
+  } catch {
+    // Storage can be disabled (privacy settings, sandboxed iframes)
+    return cachedStore
+  }
+  if (raw === cachedRaw) return cachedStore
+
+  cachedRaw = raw
+  cachedStore = {}
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : {}
+    if (typeof parsed === 'object' && parsed !== null) {
+      for (const [key, value] of Object.entries(parsed)) {
+        if (isReadingProgress(value)) cachedStore[key] = value
+      }
+    }
+  } catch {
+    // Corrupted data starts over with an empty store
+  }
+  return cachedStore
+}
+
+function notify(): void {
+  for (const listener of listeners) listener()
+}
+
+/**
+ * Saved position of one post, or null when the reader has not opened it yet
+ */
+export function getReadingProgress(lang: string, slug: string): ReadingProgress | null {
+  return readStore()[getKey(lang, slug)] ?? null
+}
+
+/**
+ * Save the current position of a post. A post stays finished once the end has been reached.
+ */
+export function saveReadingProgress(lang: string, slug: string, progress: number): void {
+  const key = getKey(lang, slug)
+  const store = readStore()
+  const previous = store[key]
+  const clamped = Math.min(1, Math.max(0, progress))
+  const finished = (previous?.finished ?? false) || clamped >= FINISHED_PROGRESS
+
+  if (previous?.progress === clamped && previous.finished === finished) return
+
+  const entries = Object.entries({
+    ...store,
+    [key]: { progress: clamped, finished, savedAt: Date.now() },
+  })
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_ENTRIES)
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)))
+  } catch {
+    // Full or disabled storage: the position is simply not remembered
+    return
+  }
+  notify()
+}
+
+/**
+ * Subscribe to saved positions, including changes made in other tabs
+ */
+export function subscribeToReadingProgress(listener: () => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY || event.key === null) listener()
+  }
+
+  listeners.add(listener)
+  window.addEventListener('storage', handleStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', handleStorage)
+  }
+}
+
+/**
+ * Minutes left to read, rounded up so an unfinished post never shows zero
+ */
+export function getRemainingMinutes(readingTime: number, progress: number): number {
+  return progress >= 1 ? 0 : Math.max(1, Math.ceil(readingTime * (1 - progress)))
+}
@@ -5,6 +5,7 @@ import { ContactForm, ContactHeader, ContactSuccess } from './components'
 
 import { DocumentHead } from '../../components'
 import { buildLocalizedSeoUrls } from '../../lib/seo'
+import { buildBreadcrumbSchema } from '../../lib/structuredData'
 
 const RecaptchaProvider = lazy(async () =>
   import('react-google-recaptcha-v3').then((m) => ({ default: m.GoogleReCaptchaProvider })),
@@ -13,6 +14,10 @@ const RecaptchaProvider = lazy(async () =>
 const ContactContent = ({ locale, onSuccess }: { locale: 'en' | 'es'; onSuccess: () => void }) => {
   const { t } = useTranslation()
   const seoUrls = buildLocalizedSeoUrls(import.meta.env.VITE_SITE_URL, '/contact', locale)
+  const breadcrumbs = buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+    { name: t('navigation.home'), path: '/' },
+    { name: t('navigation.contact'), path: '/contact' },
+  ])
 
   return (
     <>
@@ -22,6 +27,7 @@ const ContactContent = ({ locale, onSuccess }: { locale: 'en' | 'es'; onSuccess:
         keywords="contact, email, message, communication, get in touch"
         canonicalUrl={seoUrls.canonicalUrl}
         alternateUrls={seoUrls.alternateUrls}
+        structuredData={[breadcrumbs]}
       />
 
       <div className="pt-8 pb-16 sm:pt-12 sm:pb-20 lg:pt-16 lg:pb-24">
@@ -43,6 +49,10 @@ const Contact = () => {
     () => buildLocalizedSeoUrls(import.meta.env.VITE_SITE_URL, '/contact', locale),
     [locale],
   )
+  const breadcrumbs = buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+    { name: t('navigation.home'), path: '/' },
+    { name: t('navigation.contact'), path: '/contact' },
+  ])
 
   useEffect(() => {
     const addedLinks: HTMLLinkElement[] = []
@@ -88,6 +98,7 @@ const Contact = () => {
           keywords="contact, email, message, communication, get in touch"
           canonicalUrl={seoUrls.canonicalUrl}
           alternateUrls={seoUrls.alternateUrls}
+          structuredData={[breadcrumbs]}
         />
         <div className="pt-8 pb-16 sm:pt-12 sm:pb-20 lg:pt-16 lg:pb-24">
           <ContactHeader />
@@ -5,13 +5,22 @@ import { motion } from 'framer-motion'
 import { Hero, HomeFeatures } from './components'
 
 import { DocumentHead } from '../../components'
+import { useAuthorSchema } from '../../hooks'
 import { fadeIn, smoothTransition } from '../../lib/animations'
 import { buildLocalizedSeoUrls } from '../../lib/seo'
+import { buildBreadcrumbSchema, buildWebSiteSchema } from '../../lib/structuredData'
 
 const Home = () => {
   const { t, i18n } = useTranslation()
   const locale = i18n.language === 'en' ? 'en' : 'es'
   const seoUrls = buildLocalizedSeoUrls(import.meta.env.VITE_SITE_URL, '/', locale)
+  const author = useAuthorSchema()
+  const structuredData = [
+    buildWebSiteSchema(import.meta.env.VITE_SITE_URL, locale, 'Portfolio', author),
+    buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+      { name: t('navigation.home'), path: '/' },
+    ]),
+  ]
 
   return (
     <>
@@ -21,6 +30,7 @@ const Home = () => {
         keywords="portfolio, developer, frontend, react, typescript"
         canonicalUrl={seoUrls.canonicalUrl}
         alternateUrls={seoUrls.alternateUrls}
+        structuredData={structuredData}
       />
 
       <motion.div
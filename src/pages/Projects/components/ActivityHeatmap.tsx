@@ -0,0 +1,138 @@
+import { useTranslation } from 'react-i18next'
+
+import { motion } from 'framer-motion'
+
+import { ChartPanel, chartTableClassName } from './ChartPanel'
+
+import type { ChartTheme } from '../constants'
+import { getActivityHeatmap, getHeatOpacity } from '../utils/analytics'
+
+import type { GitHubProject } from '@/types'
+
+interface ActivityHeatmapProps {
+  projects: GitHubProject[]
+  theme: ChartTheme
+  /** Fade the cells in; off when the reader prefers reduced motion */
+  animate: boolean
+}
+
+const CELL = 24
+const LABEL_WIDTH = 128
+const HEADER_HEIGHT = 20
+
+/**
+ * Heatmap of the commits per month of the busiest repositories, from the commit activity in
+ * the projects snapshot
+ */
+export function ActivityHeatmap({ projects, theme, animate }: ActivityHeatmapProps) {
+  const { t, i18n } = useTranslation()
+  const { months, rows, max } = getActivityHeatmap(projects)
+  const shortMonth = new Intl.DateTimeFormat(i18n.language, { month: 'short', timeZone: 'UTC' })
+  const longMonth = new Intl.DateTimeFormat(i18n.language, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+  const monthDates = months.map((month) => new Date(`${month}-01T00:00:00Z`))
+  const monthLabels = monthDates.map((date) => longMonth.format(date))
+  const summary = t('pages.projects.analytics.activity.summary', {
+    first: monthLabels[0],
+    last: monthLabels.at(-1),
+    repositories: rows.map(({ name }) => name).join(', '),
+  })
+
+  return (
+    <ChartPanel
+      title={t('pages.projects.analytics.activity.title')}
+      description={t('pages.projects.analytics.activity.description')}
+      emptyMessage={rows.length === 0 ? t('pages.projects.analytics.activity.noData') : undefined}
+      table={
+        <table className={chartTableClassName}>
+          <thead>
+            <tr>
+              <th scope="col">{t('pages.projects.analytics.activity.repository')}</th>
+              {months.map((month, index) => (
+                <th key={month} scope="col">
+                  <abbr title={monthLabels[index]}>{shortMonth.format(monthDates[index])}</abbr>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ name, counts }) => (
+              <tr key={name}>
+                <th scope="row">{name}</th>
+                {counts.map((count, index) => (
+                  <td key={months[index]}>{count}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      }
+    >
+      <svg
+        viewBox={`0 0 ${String(LABEL_WIDTH + months.length * CELL)} ${String(HEADER_HEIGHT + rows.length * CELL)}`}
+        role="img"
+        aria-label={summary}
+        className="h-auto w-full"
+      >
+        {monthDates.map((date, index) => (
+          <text
+            key={months[index]}
+            x={LABEL_WIDTH + index * CELL + CELL / 2}
+            y={HEADER_HEIGHT - 6}
+            textAnchor="middle"
+            fontSize={9}
+            fill={theme.text}
+          >
+            {shortMonth.format(date)}
+          </text>
+        ))}
+        {rows.map(({ name, counts }, row) => (
+          <g key={name}>
+            <text
+              x={LABEL_WIDTH - 6}
+              y={HEADER_HEIGHT + row * CELL + CELL / 2}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={11}
+              fill={theme.text}
+            >
+              {name}
+            </text>
+            {counts.map((count, column) => (
+              <g key={months[column]}>
+                <rect
+                  x={LABEL_WIDTH + column * CELL + 1}
+                  y={HEADER_HEIGHT + row * CELL + 1}
+                  width={CELL - 2}
+                  height={CELL - 2}
+                  rx={3}
+                  fill={theme.emptyCell}
+                >
+                  <title>{`${name}, ${monthLabels[column] ?? ''}: ${String(count)}`}</title>
+                </rect>
+                {count > 0 && (
+                  <motion.rect
+                    x={LABEL_WIDTH + column * CELL + 1}
+                    y={HEADER_HEIGHT + row * CELL + 1}
+                    width={CELL - 2}
+                    height={CELL - 2}
+                    rx={3}
+                    fill={theme.accent}
+                    initial={animate ? { opacity: 0 } : false}
+                    animate={{ opacity: getHeatOpacity(count, max) }}
+                    transition={{ duration: 0.4, delay: column * 0.03 }}
+                  >
+                    <title>{`${name}, ${monthLabels[column] ?? ''}: ${String(count)}`}</title>
+                  </motion.rect>
+                )}
+              </g>
+            ))}
+          </g>
+        ))}
+      </svg>
+    </ChartPanel>
+  )
+}
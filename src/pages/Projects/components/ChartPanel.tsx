@@ -0,0 +1,80 @@
+import { useId, useState, type ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+
+interface ChartPanelProps {
+  title: string
+  description: string
+  /** Replaces the chart and the table when there is nothing to plot */
+  emptyMessage?: string
+  /** Extra controls shown next to the table toggle */
+  controls?: ReactNode
+  /** SVG chart, labelled with a summary of its data */
+  children: ReactNode
+  /** The same data as a table, for screen readers and readers who prefer numbers */
+  table: ReactNode
+}
+
+export const chartTableClassName =
+  'w-full text-left text-sm text-gray-700 tabular-nums dark:text-gray-300 [&_td]:border-t [&_td]:border-gray-200/60 [&_td]:py-1.5 [&_td]:pr-3 [&_th]:py-1.5 [&_th]:pr-3 [&_th]:font-semibold [&_th]:text-gray-900 dark:[&_td]:border-gray-700/60 dark:[&_th]:text-white'
+
+const toggleClassName =
+  'rounded-lg border border-gray-200/50 bg-white/70 px-3 py-1.5 text-xs font-medium text-gray-700 transition-colors hover:bg-white/90 focus:ring-2 focus:ring-primary focus:outline-none dark:border-gray-700/50 dark:bg-gray-800/70 dark:text-gray-300 dark:hover:bg-gray-700/90'
+
+/**
+ * Card around one analytics chart, with a toggle that swaps the chart for a table
+ */
+export function ChartPanel({
+  title,
+  description,
+  emptyMessage,
+  controls,
+  children,
+  table,
+}: ChartPanelProps) {
+  const { t } = useTranslation()
+  const titleId = useId()
+  const [showTable, setShowTable] = useState(false)
+
+  return (
+    <section
+      aria-labelledby={titleId}
+      className="rounded-2xl border border-gray-200/30 bg-white/30 p-6 backdrop-blur-sm dark:border-gray-700/30 dark:bg-gray-800/30"
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h4 id={titleId} className="text-base font-semibold text-gray-900 dark:text-white">
+            {title}
+          </h4>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{description}</p>
+        </div>
+        {!emptyMessage && (
+          <div className="flex flex-wrap items-center gap-2">
+            {controls}
+            <button
+              type="button"
+              aria-pressed={showTable}
+              onClick={() => {
+                setShowTable(!showTable)
+              }}
+              className={toggleClassName}
+            >
+              {t('pages.projects.analytics.showTable')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6">
+        {emptyMessage ? (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            {emptyMessage}
+          </p>
+        ) : showTable ? (
+          <div className="overflow-x-auto">{table}</div>
+        ) : (
+          children
+        )}
+      </div>
+    </section>
+  )
+}
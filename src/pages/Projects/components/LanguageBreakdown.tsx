@@ -0,0 +1,69 @@
+import { useTranslation } from 'react-i18next'
+
+import { languageBarColors } from '../constants'
+
+interface LanguageBreakdownProps {
+  /** Bytes of code per language, as reported by GitHub */
+  languages: Record<string, number>
+}
+
+/**
+ * Share of each language in a repository: a stacked bar followed by a legend with
+ * the percentages, largest first
+ */
+export function LanguageBreakdown({ languages }: Readonly<LanguageBreakdownProps>) {
+  const { t } = useTranslation()
+  const totalBytes = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0)
+
+  if (totalBytes === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {t('pages.projects.card.noLanguage')}
+      </p>
+    )
+  }
+
+  const breakdown = Object.entries(languages)
+    .sort(([, bytesA], [, bytesB]) => bytesB - bytesA)
+    .map(([language, bytes]) => ({
+      language,
+      percentage: (bytes / totalBytes) * 100,
+      barColor: languageBarColors[language] ?? languageBarColors['default'],
+    }))
+  const summary = breakdown
+    .map(({ language, percentage }) => `${language} ${percentage.toFixed(1)}%`)
+    .join(', ')
+
+  return (
+    <div>
+      <div
+        role="img"
+        aria-label={summary}
+        className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100 dark:bg-gray-700"
+      >
+        {breakdown.map(({ language, percentage, barColor }) => (
+          <div
+            key={language}
+            className={`${barColor ?? 'bg-gray-400'} h-full`}
+            style={{ width: `${String(percentage)}%` }}
+          />
+        ))}
+      </div>
+
+      <ul className="mt-4 grid grid-cols-2 gap-x-6 gap-y-2 sm:grid-cols-3">
+        {breakdown.map(({ language, percentage, barColor }) => (
+          <li key={language} className="flex items-center gap-2 text-sm">
+            <span
+              aria-hidden="true"
+              className={`size-2.5 shrink-0 rounded-full ${barColor ?? 'bg-gray-400'}`}
+            />
+            <span className="truncate font-medium text-gray-900 dark:text-white">{language}</span>
+            <span className="ml-auto text-gray-500 tabular-nums dark:text-gray-400">
+              {percentage.toFixed(1)}%
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
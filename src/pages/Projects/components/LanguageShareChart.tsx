@@ -0,0 +1,125 @@
+import { useTranslation } from 'react-i18next'
+
+import { motion } from 'framer-motion'
+
+import { ChartPanel, chartTableClassName } from './ChartPanel'
+
+import type { ChartTheme } from '../constants'
+import { getLanguageChartColor, getLanguageShare } from '../utils/analytics'
+
+import type { GitHubProject } from '@/types'
+
+interface LanguageShareChartProps {
+  projects: GitHubProject[]
+  theme: ChartTheme
+  /** Grow the bars into place; off when the reader prefers reduced motion */
+  animate: boolean
+}
+
+const WIDTH = 400
+const ROW_HEIGHT = 28
+const LABEL_WIDTH = 96
+const VALUE_WIDTH = 52
+const BAR_WIDTH = WIDTH - LABEL_WIDTH - VALUE_WIDTH
+
+/**
+ * Horizontal bar chart of the share of every language in the bytes of code of the projects
+ */
+export function LanguageShareChart({ projects, theme, animate }: LanguageShareChartProps) {
+  const { t, i18n } = useTranslation()
+  const shares = getLanguageShare(projects).map((item, index) => ({
+    ...item,
+    label: item.language ?? t('pages.projects.analytics.languageShare.other'),
+    color: getLanguageChartColor(item.language, index),
+  }))
+  const percent = new Intl.NumberFormat(i18n.language, {
+    style: 'percent',
+    maximumFractionDigits: 1,
+  })
+  const bytes = new Intl.NumberFormat(i18n.language)
+  const summary = shares.map(({ label, share }) => `${label} ${percent.format(share)}`).join(', ')
+
+  return (
+    <ChartPanel
+      title={t('pages.projects.analytics.languageShare.title')}
+      description={t('pages.projects.analytics.languageShare.description')}
+      emptyMessage={shares.length === 0 ? t('pages.projects.analytics.noData') : undefined}
+      table={
+        <table className={chartTableClassName}>
+          <thead>
+            <tr>
+              <th scope="col">{t('pages.projects.analytics.languageShare.language')}</th>
+              <th scope="col">{t('pages.projects.analytics.languageShare.share')}</th>
+              <th scope="col">{t('pages.projects.analytics.languageShare.bytes')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shares.map((item) => (
+              <tr key={item.label}>
+                <th scope="row">{item.label}</th>
+                <td>{percent.format(item.share)}</td>
+                <td>{bytes.format(item.bytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      }
+    >
+      <svg
+        viewBox={`0 0 ${String(WIDTH)} ${String(shares.length * ROW_HEIGHT)}`}
+        role="img"
+        aria-label={summary}
+        className="h-auto w-full"
+      >
+        {shares.map((item, index) => {
+          const y = index * ROW_HEIGHT
+          const middle = y + ROW_HEIGHT / 2
+          const width = Math.max(item.share * BAR_WIDTH, 2)
+
+          return (
+            <g key={item.label}>
+              <title>{`${item.label}: ${percent.format(item.share)}`}</title>
+              <text
+                x={LABEL_WIDTH - 8}
+                y={middle}
+                textAnchor="end"
+                dominantBaseline="middle"
+                fontSize={12}
+                fill={theme.text}
+              >
+                {item.label}
+              </text>
+              <rect
+                x={LABEL_WIDTH}
+                y={y + 6}
+                width={BAR_WIDTH}
+                height={ROW_HEIGHT - 12}
+                rx={4}
+                fill={theme.emptyCell}
+              />
+              <motion.rect
+                x={LABEL_WIDTH}
+                y={y + 6}
+                height={ROW_HEIGHT - 12}
+                rx={4}
+                fill={item.color}
+                initial={animate ? { width: 0 } : false}
+                animate={{ width }}
+                transition={{ duration: 0.6, delay: index * 0.05, ease: 'easeOut' }}
+              />
+              <text
+                x={WIDTH - VALUE_WIDTH + 8}
+                y={middle}
+                dominantBaseline="middle"
+                fontSize={12}
+                fill={theme.text}
+              >
+                {percent.format(item.share)}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+    </ChartPanel>
+  )
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { motion } from 'framer-motion'
+
+import { ChartPanel, chartTableClassName } from './ChartPanel'
+
+import type { ChartTheme } from '../constants'
+import {
+  getLanguageChartColor,
+  getLanguageTrends,
+  type LanguageTrendDate,
+} from '../utils/analytics'
+
+import type { GitHubProject } from '@/types'
+
+interface LanguageTrendChartProps {
+  projects: GitHubProject[]
+  theme: ChartTheme
+  /** Draw the lines in; off when the reader prefers reduced motion */
+  animate: boolean
+}
+
+const WIDTH = 400
+const HEIGHT = 200
+const PADDING = { top: 8, right: 12, bottom: 24, left: 28 }
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom
+
+const DATE_OPTIONS: { value: LanguageTrendDate; label: string }[] = [
+  { value: 'created_at', label: 'pages.projects.analytics.trends.created' },
+  { value: 'pushed_at', label: 'pages.projects.analytics.trends.pushed' },
+]
+
+/**
+ * Line chart of the repositories using each of the most common languages per year, grouped by
+ * the year they were created or last pushed
+ */
+export function LanguageTrendChart({ projects, theme, animate }: LanguageTrendChartProps) {
+  const { t } = useTranslation()
+  const [dateField, setDateField] = useState<LanguageTrendDate>('created_at')
+  const { years, series } = getLanguageTrends(projects, dateField)
+  const colored = series.map((item, index) => ({
+    ...item,
+    color: getLanguageChartColor(item.language, index),
+  }))
+
+  const maxCount = Math.max(1, ...series.flatMap(({ counts }) => counts))
+  const step = Math.ceil(maxCount / 4)
+  const ticks = Array.from({ length: Math.floor(maxCount / step) + 1 }, (_, index) => index * step)
+  const x = (index: number) =>
+    PADDING.left + (years.length > 1 ? (index / (years.length - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2)
+  const y = (count: number) => PADDING.top + PLOT_HEIGHT - (count / maxCount) * PLOT_HEIGHT
+  const summary = t('pages.projects.analytics.trends.summary', {
+    first: years[0],
+    last: years.at(-1),
+    languages: series.map(({ language }) => language).join(', '),
+  })
+
+  return (
+    <ChartPanel
+      title={t('pages.projects.analytics.trends.title')}
+      description={t('pages.projects.analytics.trends.description')}
+      emptyMessage={series.length === 0 ? t('pages.projects.analytics.noData') : undefined}
+      controls={
+        <div
+          role="group"
+          aria-label={t('pages.projects.analytics.trends.groupBy')}
+          className="inline-flex rounded-lg border border-gray-200/50 p-0.5 dark:border-gray-700/50"
+        >
+          {DATE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              aria-pressed={dateField === option.value}
+              onClick={() => {
+                setDateField(option.value)
+              }}
+              className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors focus:ring-2 focus:ring-primary focus:outline-none ${
+                dateField === option.value
+                  ? 'bg-primary text-white'
+                  : 'text-gray-700 hover:bg-white/90 dark:text-gray-300 dark:hover:bg-gray-700/90'
+              }`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+      }
+      table={
+        <table className={chartTableClassName}>
+          <thead>
+            <tr>
+              <th scope="col">{t('pages.projects.analytics.trends.year')}</th>
+              {series.map(({ language }) => (
+                <th key={language} scope="col">
+                  {language}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {years.map((year, yearIndex) => (
+              <tr key={year}>
+                <th scope="row">{year}</th>
+                {series.map(({ language, counts }) => (
+                  <td key={language}>{counts[yearIndex]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      }
+    >
+      <svg
+        viewBox={`0 0 ${String(WIDTH)} ${String(HEIGHT)}`}
+        role="img"
+        aria-label={summary}
+        className="h-auto w-full"
+      >
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke={theme.grid}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={10}
+              fill={theme.text}
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+        {years.map((year, index) => (
+          <text
+            key={year}
+            x={x(index)}
+            y={HEIGHT - 6}
+            textAnchor="middle"
+            fontSize={10}
+            fill={theme.text}
+          >
+            {year}
+          </text>
+        ))}
+        {colored.map(({ language, counts, color }) => (
+          <g key={`${dateField}-${language}`}>
+            <motion.path
+              d={counts
+                .map(
+                  (count, index) =>
+                    `${index === 0 ? 'M' : 'L'}${String(x(index))},${String(y(count))}`,
+                )
+                .join(' ')}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+              initial={animate ? { pathLength: 0 } : false}
+              animate={{ pathLength: 1 }}
+              transition={{ duration: 0.8, ease: 'easeOut' }}
+            />
+            {counts.map((count, index) => (
+              <circle key={years[index]} cx={x(index)} cy={y(count)} r={3} fill={color}>
+                <title>{`${language}, ${String(years[index])}: ${String(count)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <ul className="mt-4 flex flex-wrap gap-x-4 gap-y-2">
+        {colored.map(({ language, color }) => (
+          <li key={language} className="flex items-center gap-2 text-sm">
+            <span
+              aria-hidden="true"
+              className="size-2.5 shrink-0 rounded-full"
+              style={{ backgroundColor: color }}
+            />
+            <span className="font-medium text-gray-900 dark:text-white">{language}</span>
+          </li>
+        ))}
+      </ul>
+    </ChartPanel>
+  )
+}
@@ -0,0 +1,122 @@
+import { fireEvent, screen, within } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ProjectAnalytics } from './ProjectAnalytics'
+
+import { CHART_THEMES } from '../constants'
+
+import { useThemeContext } from '@/context'
+import { useReducedMotion } from '@/hooks'
+import i18n from '@/test/i18n-for-tests'
+import { makeProject } from '@/test/projects'
+import { renderWithProviders } from '@/test/utils'
+
+vi.mock('@/context', () => ({
+  useThemeContext: vi.fn(),
+}))
+
+vi.mock('@/hooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/hooks')>()),
+  useReducedMotion: vi.fn(),
+}))
+
+const projects = [
+  makeProject({
+    name: 'portfolio',
+    languages: { TypeScript: 750, CSS: 250 },
+    topics: ['react', 'vite'],
+    created_at: '2024-03-01T00:00:00Z',
+    pushed_at: '2025-06-01T00:00:00Z',
+  }),
+  makeProject({
+    name: 'api',
+    languages: { Go: 1000 },
+    topics: ['api'],
+    created_at: '2025-01-01T00:00:00Z',
+    pushed_at: '2025-02-01T00:00:00Z',
+  }),
+]
+
+const setTheme = (isDark: boolean) => {
+  vi.mocked(useThemeContext).mockReturnValue({
+    theme: isDark ? 'dark' : 'light',
+    resolvedTheme: isDark ? 'dark' : 'light',
+    setTheme: vi.fn(),
+    toggleTheme: vi.fn(),
+    isDark,
+  })
+}
+
+const getChart = (title: string) =>
+  within(screen.getByRole('region', { name: title })).getByRole('img')
+
+describe('ProjectAnalytics', () => {
+  beforeEach(async () => {
+    await i18n.changeLanguage('en')
+    setTheme(false)
+    vi.mocked(useReducedMotion).mockReturnValue(false)
+  })
+
+  it('summarises every chart for assistive technologies', () => {
+    renderWithProviders(<ProjectAnalytics projects={projects} />)
+
+    expect(getChart('Language share')).toHaveAccessibleName('Go 50%, TypeScript 37.5%, CSS 12.5%')
+    expect(getChart('Language trends')).toHaveAccessibleName(
+      'Repositories per year from 2024 to 2025 using CSS, Go, TypeScript',
+    )
+    expect(getChart('Topics used together')).toHaveAccessibleName(
+      'How often these topics are used together: api, react, vite',
+    )
+    expect(
+      within(screen.getByRole('region', { name: 'Commit activity' })).getByText(
+        'The projects snapshot has no commit activity for these repositories yet.',
+      ),
+    ).toBeInTheDocument()
+  })
+
+  it('swaps a chart for a table with the same data', () => {
+    renderWithProviders(<ProjectAnalytics projects={projects} />)
+    const panel = screen.getByRole('region', { name: 'Language share' })
+
+    fireEvent.click(within(panel).getByRole('button', { name: 'Show as table' }))
+
+    expect(within(panel).queryByRole('img')).not.toBeInTheDocument()
+    expect(
+      within(panel)
+        .getAllByRole('row')
+        .map((row) => row.textContent),
+    ).toEqual(['LanguageShareBytes', 'Go50%1,000', 'TypeScript37.5%750', 'CSS12.5%250'])
+  })
+
+  it('groups the language trends by the last push', () => {
+    renderWithProviders(<ProjectAnalytics projects={projects} />)
+    const panel = screen.getByRole('region', { name: 'Language trends' })
+
+    fireEvent.click(within(panel).getByRole('button', { name: 'Last push' }))
+
+    expect(within(panel).getByRole('button', { name: 'Last push' })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    )
+    expect(within(panel).getByRole('img')).toHaveAccessibleName(
+      'Repositories per year from 2025 to 2025 using CSS, Go, TypeScript',
+    )
+  })
+
+  it('draws with the colors of the dark theme', () => {
+    setTheme(true)
+    renderWithProviders(<ProjectAnalytics projects={projects} />)
+
+    const track = getChart('Language share').querySelector('rect')
+    expect(track).toHaveAttribute('fill', CHART_THEMES.dark.emptyCell)
+  })
+
+  it('draws the bars in place when the reader prefers reduced motion', () => {
+    vi.mocked(useReducedMotion).mockReturnValue(true)
+    renderWithProviders(<ProjectAnalytics projects={projects} />)
+
+    const bars = getChart('Language share').querySelectorAll('rect[fill="#06b6d4"]')
+    expect(bars).toHaveLength(1)
+    expect(Number.parseFloat(bars[0]?.getAttribute('width') ?? '')).toBeCloseTo(126)
+  })
+})
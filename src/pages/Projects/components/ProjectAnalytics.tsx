@@ -0,0 +1,62 @@
+import { useTranslation } from 'react-i18next'
+
+import { motion } from 'framer-motion'
+
+import { ActivityHeatmap } from './ActivityHeatmap'
+import { LanguageShareChart } from './LanguageShareChart'
+import { LanguageTrendChart } from './LanguageTrendChart'
+import { TopicCooccurrenceChart } from './TopicCooccurrenceChart'
+
+import { CHART_THEMES, PROJECTS_CONSTANTS, TRANSLATION_KEYS } from '../constants'
+
+import { useThemeContext } from '@/context'
+import { useReducedMotion } from '@/hooks'
+import { fadeIn, smoothTransition } from '@/lib/animations'
+import type { GitHubProject } from '@/types'
+
+interface ProjectAnalyticsProps {
+  /** Projects to describe, usually the ones matching the filters */
+  projects: GitHubProject[]
+}
+
+/**
+ * Dashboard of the languages, topics and commit activity of the projects. Every chart can
+ * be switched to a table, follows the site theme and skips its animation when the reader
+ * prefers reduced motion.
+ */
+export function ProjectAnalytics({ projects }: ProjectAnalyticsProps) {
+  const { t } = useTranslation()
+  const { isDark } = useThemeContext()
+  const prefersReducedMotion = useReducedMotion()
+  const theme = isDark ? CHART_THEMES.dark : CHART_THEMES.light
+  const chartProps = { projects, theme, animate: !prefersReducedMotion }
+
+  return (
+    <motion.section
+      aria-labelledby="projects-analytics-title"
+      className="mx-auto mt-16 max-w-2xl sm:mt-20 lg:mt-24 lg:max-w-none"
+      initial={prefersReducedMotion ? false : 'hidden'}
+      animate="visible"
+      variants={fadeIn}
+      transition={{ ...smoothTransition, delay: PROJECTS_CONSTANTS.ANIMATION_DELAYS.ANALYTICS }}
+    >
+      <div className="text-center">
+        <h3
+          id="projects-analytics-title"
+          className="text-lg font-semibold text-gray-900 sm:text-xl dark:text-white"
+        >
+          {t(TRANSLATION_KEYS.ANALYTICS.TITLE)}
+        </h3>
+        <p className="mt-2 text-sm text-gray-600 sm:text-base dark:text-gray-400">
+          {t(TRANSLATION_KEYS.ANALYTICS.DESCRIPTION)}
+        </p>
+      </div>
+      <div className="mt-8 grid gap-6 lg:grid-cols-2">
+        <LanguageShareChart {...chartProps} />
+        <LanguageTrendChart {...chartProps} />
+        <TopicCooccurrenceChart {...chartProps} />
+        <ActivityHeatmap {...chartProps} />
+      </div>
+    </motion.section>
+  )
+}
@@ -203,6 +203,22 @@ describe('ProjectCard', () => {
       expect(screen.getByText('10')).toBeInTheDocument()
     })
 
+    it('should render the curated name, cover image and pinned badge', () => {
+      const project = createMockProject({
+        name: 'awesome-project',
+        display_name: 'Awesome Project',
+        cover_image: '/images/projects/awesome.png',
+        pinned: true,
+      })
+
+      const { container } = render(<ProjectCard project={project} delay={0} />)
+
+      expect(screen.getByText('Awesome Project')).toBeInTheDocument()
+      expect(screen.queryByText('awesome-project')).not.toBeInTheDocument()
+      expect(screen.getByText('pages.projects.card.pinned')).toBeInTheDocument()
+      expect(container.querySelector('img')).toHaveAttribute('src', '/images/projects/awesome.png')
+    })
+
     it('should render without description when description is null', () => {
       const project = createMockProject({
         name: 'no-description-project',
@@ -303,19 +319,14 @@ describe('ProjectCard', () => {
       expect(screen.queryByRole('link', { name: /demo/i })).not.toBeInTheDocument()
     })
 
-    it('should navigate to case study when hasCaseStudy is true and card is clicked', async () => {
+    it('should navigate to the case study slug when the project has one', async () => {
       const project = createMockProject({
         html_url: 'https://github.com/testuser/test-project',
         name: 'test-project',
       })
 
       const { container } = render(
-        <ProjectCard
-          project={project}
-          delay={0}
-          hasCaseStudy={true}
-          caseStudySlug="test-project-case-study"
-        />,
+        <ProjectCard project={project} delay={0} caseStudySlug="test-project-case-study" />,
       )
 
       // Get the main card div and trigger click
@@ -328,22 +339,18 @@ describe('ProjectCard', () => {
       }
     })
 
-    it('should open GitHub link in new tab when hasCaseStudy is false', () => {
+    it('should navigate to the repository detail page when there is no case study', () => {
       const project = createMockProject({
         html_url: 'https://github.com/testuser/test-project',
         name: 'test-project',
       })
 
-      // Mock globalThis.open
-      const mockOpen = vi.fn()
-      globalThis.open = mockOpen
+      const { container } = render(<ProjectCard project={project} delay={0} />)
 
-      render(
-        <ProjectCard project={project} delay={0} hasCaseStudy={false} caseStudySlug={undefined} />,
-      )
+      const cardDiv = container.querySelector('[role="link"]') as HTMLElement
+      cardDiv.click()
 
-      // Verify globalThis.open would be called when needed (tested through normal flow)
-      expect(screen.getByRole('link', { name: 'test-project' })).toBeInTheDocument()
+      expect(mockNavigate).toHaveBeenCalledWith('/en/projects/test-project')
     })
   })
 
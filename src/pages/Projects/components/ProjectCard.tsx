@@ -25,7 +25,6 @@ import { GitHubProject } from '@/types'
 interface ProjectCardProps {
   project: GitHubProject
   delay: number
-  hasCaseStudy?: boolean
   caseStudySlug?: string
 }
 
@@ -35,10 +34,10 @@ interface ProjectCardProps {
  *
  * @param project - The GitHub project to display
  * @param delay - Animation delay for the card entrance
- * @param hasCaseStudy - Whether this project has an associated case study
- * @param caseStudySlug - The slug for navigating to the case study detail page
+ * @param caseStudySlug - Slug of the project's case study, which replaces the repository
+ * name in the detail page URL
  */
-const ProjectCard = ({ project, delay, hasCaseStudy, caseStudySlug }: ProjectCardProps) => {
+const ProjectCard = ({ project, delay, caseStudySlug }: ProjectCardProps) => {
   const { t, i18n } = useTranslation()
   const navigate = useNavigate()
   const [isTopicsOpen, setIsTopicsOpen] = useState(false)
@@ -126,6 +125,8 @@ const ProjectCard = ({ project, delay, hasCaseStudy, caseStudySlug }: ProjectCar
         .slice(0, 4)
     : []
 
+  const displayName = project.display_name ?? project.name
+
   // Get description with fallback
   const description = project.description ?? t('pages.projects.card.noDescription')
 
@@ -156,11 +157,7 @@ const ProjectCard = ({ project, delay, hasCaseStudy, caseStudySlug }: ProjectCar
   }
 
   const openProject = () => {
-    if (hasCaseStudy && caseStudySlug) {
-      void navigate(`/${i18n.language}/projects/${caseStudySlug}`)
-    } else {
-      globalThis.open(project.html_url, '_blank', 'noopener,noreferrer')
-    }
+    void navigate(`/${i18n.language}/projects/${caseStudySlug ?? project.name}`)
   }
 
   const shouldIgnoreCardActivation = (target: EventTarget | null) => {
@@ -201,10 +198,7 @@ const ProjectCard = ({ project, delay, hasCaseStudy, caseStudySlug }: ProjectCar
       whileHover={{ y: -8, transition: { duration: 0.3 } }}
       role="link"
       tabIndex={0}
-      aria-label={t('pages.projects.card.openProjectAria', {
-        defaultValue: `Open ${project.name} on GitHub`,
-        projectName: project.name,
-      })}
+      aria-label={t('pages.projects.card.openProjectAria', { projectName: displayName })}
       onClick={handleCardClick}
       onKeyDown={handleCardKeyDown}
       className="group relative flex h-full cursor-pointer flex-col overflow-hidden rounded-2xl border border-gray-200/50 bg-white/80 backdrop-blur-sm transition-all duration-300 hover:border-primary/30 hover:shadow-2xl hover:shadow-primary/10 dark:border-gray-700/50 dark:bg-gray-900/80 dark:hover:border-primary/40 dark:hover:shadow-primary/20"
@@ -215,33 +209,47 @@ const ProjectCard = ({ project, delay, hasCaseStudy, caseStudySlug }: ProjectCar
       {/* Glassmorphism overlay */}
       <div className="pointer-events-none absolute inset-0 bg-linear-to-br from-white/50 to-transparent opacity-0 transition-opacity duration-300 group-hover:opacity-100 dark:from-white/5" />
 
-      {/* Header section with gradient background */}
+      {/* Header section with the curated cover image or a gradient background */}
       <div className="relative overflow-hidden sm:h-40">
-        <div className="h-full w-full bg-linear-to-br from-primary/10 via-highlight/10 to-accent/10 dark:from-primary/20 dark:via-highlight/20 dark:to-accent/20">
-          <div className="flex h-full items-center justify-center py-8 sm:py-0">
-            {/* Project icon with animation */}
-            <motion.div
-              className="relative"
-              whileHover={{ scale: 1.1, rotate: 5 }}
-              transition={{ type: 'spring', stiffness: 400, damping: 10 }}
-            >
-              {/* Icon glow */}
-              <div className="absolute inset-0 rounded-full bg-primary/20 blur-xl" />
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                className="relative h-14 w-14 text-primary dark:text-primary-light"
-                viewBox="0 0 24 24"
-                fill="currentColor"
+        {project.cover_image ? (
+          <img
+            src={project.cover_image}
+            alt=""
+            loading="lazy"
+            className="h-40 w-full object-cover transition-transform duration-500 group-hover:scale-105"
+          />
+        ) : (
+          <div className="h-full w-full bg-linear-to-br from-primary/10 via-highlight/10 to-accent/10 dark:from-primary/20 dark:via-highlight/20 dark:to-accent/20">
+            <div className="flex h-full items-center justify-center py-8 sm:py-0">
+              {/* Project icon with animation */}
+              <motion.div
+                className="relative"
+                whileHover={{ scale: 1.1, rotate: 5 }}
+                transition={{ type: 'spring', stiffness: 400, damping: 10 }}
               >
-                <path
-                  fillRule="evenodd"
-                  d="M14.447 3.027a.75.75 0 01.527.92l-4.5 16.5a.75.75 0 01-1.448-.394l4.5-16.5a.75.75 0 01.921-.526zM16.72 6.22a.75.75 0 011.06 0l5.25 5.25a.75.75 0 010 1.06l-5.25 5.25a.75.75 0 11-1.06-1.06L21.44 12l-4.72-4.72a.75.75 0 010-1.06zm-9.44 0a.75.75 0 010 1.06L2.56 12l4.72 4.72a.75.75 0 11-1.06 1.06L.97 12.53a.75.75 0 010-1.06l5.25-5.25a.75.75 0 011.06 0z"
-                  clipRule="evenodd"
-                />
-              </svg>
-            </motion.div>
+                {/* Icon glow */}
+                <div className="absolute inset-0 rounded-full bg-primary/20 blur-xl" />
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  className="relative h-14 w-14 text-primary dark:text-primary-light"
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                >
+                  <path
+                    fillRule="evenodd"
+                    d="M14.447 3.027a.75.75 0 01.527.92l-4.5 16.5a.75.75 0 01-1.448-.394l4.5-16.5a.75.75 0 01.921-.526zM16.72 6.22a.75.75 0 011.06 0l5.25 5.25a.75.75 0 010 1.06l-5.25 5.25a.75.75 0 11-1.06-1.06L21.44 12l-4.72-4.72a.75.75 0 010-1.06zm-9.44 0a.75.75 0 010 1.06L2.56 12l4.72 4.72a.75.75 0 11-1.06 1.06L.97 12.53a.75.75 0 010-1.06l5.25-5.25a.75.75 0 011.06 0z"
+                    clipRule="evenodd"
+                  />
+                </svg>
+              </motion.div>
+            </div>
           </div>
-        </div>
+        )}
+        {project.pinned && (
+          <span className="absolute top-3 left-3 rounded-full bg-white/90 px-2.5 py-0.5 text-xs font-semibold text-primary shadow-sm dark:bg-gray-900/90 dark:text-primary-light">
+            {t('pages.projects.card.pinned')}
+          </span>
+        )}
         {/* Corner decoration */}
         <div className="pointer-events-none absolute -right-8 -bottom-8 h-24 w-24 rounded-full bg-linear-to-br from-accent/20 to-primary/20 blur-2xl transition-all duration-500 group-hover:scale-150" />
       </div>
@@ -251,7 +259,7 @@ const ProjectCard = ({ project, delay, hasCaseStudy, caseStudySlug }: ProjectCar
         <div className="mb-4">
           <h3 className="text-lg font-bold text-gray-900 transition-colors group-hover:text-primary dark:text-white dark:group-hover:text-primary-light">
             <a href={project.html_url} target="_blank" rel="noopener noreferrer">
-              {project.name}
+              {displayName}
             </a>
           </h3>
         </div>
@@ -0,0 +1,152 @@
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router'
+
+import { screen, within } from '@testing-library/react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ProjectDetail } from './ProjectDetail'
+
+import { useProjectCaseStudy } from '../../../hooks/useProjectCaseStudies'
+import { useProjectWithCaseStudy } from '../../../hooks/useProjectsWithCaseStudies'
+import i18n from '../../../test/i18n-for-tests'
+import { renderWithProviders } from '../../../test/utils'
+import { useProjectReadme } from '../hooks/useProjectReadme'
+
+import type { GitHubProject, ProjectCaseStudySummary } from '@/types'
+
+vi.mock('../../../hooks/useProjectsWithCaseStudies', () => ({
+  useProjectWithCaseStudy: vi.fn(),
+}))
+
+vi.mock('../../../hooks/useProjectCaseStudies', () => ({
+  useProjectCaseStudy: vi.fn(),
+}))
+
+vi.mock('../hooks/useProjectReadme', () => ({
+  useProjectReadme: vi.fn(),
+}))
+
+vi.mock('@/context', () => ({
+  useThemeContext: () => ({ isDark: false }),
+}))
+
+vi.mock('highlight.js/styles/github.css', () => ({}))
+vi.mock('highlight.js/styles/github-dark.css', () => ({}))
+
+const project: GitHubProject = {
+  id: 1,
+  name: 'demo',
+  full_name: 'octocat/demo',
+  html_url: 'https://github.com/octocat/demo',
+  description: 'A demo project',
+  languages: { CSS: 250, TypeScript: 750 },
+  created_at: '2025-01-15T10:00:00Z',
+  updated_at: '2025-06-01T10:00:00Z',
+  pushed_at: '2025-05-20T10:00:00Z',
+  homepage: 'https://demo.example.com',
+  stargazers_count: 42,
+  forks_count: 3,
+  topics: ['react', 'vite'],
+}
+
+const caseStudy: ProjectCaseStudySummary = {
+  slug: 'demo-case-study',
+  meta: {
+    slug: 'demo-case-study',
+    title: 'Building the demo',
+    summary: 'How the demo was built',
+    published: '2025-07-01',
+    repoName: 'demo',
+  },
+  readingTime: 4,
+}
+
+function mockProject(withCaseStudy: boolean) {
+  vi.mocked(useProjectWithCaseStudy).mockReturnValue({
+    data: {
+      project,
+      caseStudy: withCaseStudy ? caseStudy : null,
+      hasCaseStudy: withCaseStudy,
+    },
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+  })
+  vi.mocked(useProjectCaseStudy).mockReturnValue({
+    data: withCaseStudy ? { ...caseStudy, content: 'The case study body.' } : null,
+    isLoading: false,
+    error: null,
+    refetch: vi.fn(),
+  } as unknown as ReturnType<typeof useProjectCaseStudy>)
+}
+
+function LocationDisplay() {
+  return <p data-testid="location">{useLocation().pathname}</p>
+}
+
+function renderDetail(path: string) {
+  return renderWithProviders(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/:lang/projects/:slug" element={<ProjectDetail />} />
+      </Routes>
+      <LocationDisplay />
+    </MemoryRouter>,
+  )
+}
+
+describe('ProjectDetail', () => {
+  beforeEach(async () => {
+    vi.stubEnv('VITE_SITE_URL', 'https://example.com')
+    await i18n.changeLanguage('en')
+    vi.mocked(useProjectReadme).mockReturnValue({
+      data: '# Demo\n\nInstall it with `pnpm add demo`.',
+      isLoading: false,
+    } as unknown as ReturnType<typeof useProjectReadme>)
+  })
+
+  it('describes a repository without a case study from the snapshot', () => {
+    mockProject(false)
+    renderDetail('/en/projects/demo')
+
+    expect(screen.getByRole('heading', { level: 1, name: 'demo' })).toBeInTheDocument()
+    expect(screen.getByText('A demo project')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: /octocat\/demo/ })).toHaveAttribute(
+      'href',
+      'https://github.com/octocat/demo',
+    )
+    expect(screen.getByRole('link', { name: /Visit/ })).toHaveAttribute(
+      'href',
+      'https://demo.example.com',
+    )
+    expect(screen.getByRole('img', { name: 'TypeScript 75.0%, CSS 25.0%' })).toBeInTheDocument()
+    expect(screen.getByText('42')).toBeInTheDocument()
+    expect(screen.getByText('vite')).toBeInTheDocument()
+
+    const timeline = screen.getAllByRole('listitem').filter((item) => item.querySelector('time'))
+    expect(timeline.map((item) => item.querySelector('time')?.getAttribute('dateTime'))).toEqual([
+      '2025-01-15T10:00:00.000Z',
+      '2025-05-20T10:00:00.000Z',
+    ])
+
+    const readme = screen.getByRole('region', { name: 'README' })
+    expect(within(readme).getByRole('heading', { name: 'Demo' })).toBeInTheDocument()
+    expect(screen.queryByText('Reading time')).not.toBeInTheDocument()
+  })
+
+  it('layers the case study over the repository details', () => {
+    mockProject(true)
+    renderDetail('/en/projects/demo-case-study')
+
+    expect(screen.getByRole('heading', { level: 1, name: 'Building the demo' })).toBeInTheDocument()
+    expect(screen.getByText('The case study body.')).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Project Details' })).toBeInTheDocument()
+    expect(screen.getByRole('region', { name: 'README' })).toBeInTheDocument()
+  })
+
+  it('redirects the repository name to the case study slug', () => {
+    mockProject(true)
+    renderDetail('/en/projects/demo')
+
+    expect(screen.getByTestId('location')).toHaveTextContent('/en/projects/demo-case-study')
+  })
+})
@@ -0,0 +1,243 @@
+import { useTranslation } from 'react-i18next'
+import { useParams, Navigate, Link } from 'react-router'
+
+import { motion } from 'framer-motion'
+
+import { ProjectCaseStudyError } from './ProjectCaseStudyError'
+import { ProjectCaseStudyLoading } from './ProjectCaseStudyLoading'
+import { ProjectOverview } from './ProjectOverview'
+import { ProjectReadme } from './ProjectReadme'
+
+import { DocumentHead } from '../../../components/DocumentHead'
+import { MarkdownRenderer } from '../../../components/MarkdownRenderer'
+import { useAuthorSchema } from '../../../hooks/useAuthorSchema'
+import { useProjectCaseStudy } from '../../../hooks/useProjectCaseStudies'
+import { useProjectWithCaseStudy } from '../../../hooks/useProjectsWithCaseStudies'
+import { fadeIn, smoothTransition } from '../../../lib/animations'
+import { formatContentDate } from '../../../lib/content/dates'
+import { getOgImageUrl } from '../../../lib/content/ogImagePaths'
+import { getLocalizedPaths } from '../../../lib/localizedPaths'
+import { buildLocalizedSeoUrls } from '../../../lib/seo'
+import {
+  buildBreadcrumbSchema,
+  buildCaseStudySchema,
+  buildProjectSchema,
+} from '../../../lib/structuredData'
+
+/**
+ * Detail page of a repository in the projects snapshot, at `/projects/:slug`.
+ *
+ * Every repository gets its facts, language breakdown and README; when it has a case
+ * study, the case study is layered on top and its slug is the canonical one, so the
+ * repository name redirects to it.
+ */
+export function ProjectDetail() {
+  const { slug } = useParams<{ slug: string }>()
+  const { t, i18n } = useTranslation()
+  const locale = i18n.language === 'en' ? 'en' : 'es'
+  const {
+    data: projectWithCaseStudy,
+    isLoading: loading,
+    error,
+    refetch,
+  } = useProjectWithCaseStudy(slug ?? '')
+  // The merged view only carries manifest metadata; the body is fetched on demand
+  const {
+    data: caseStudy,
+    isLoading: contentLoading,
+    error: contentError,
+  } = useProjectCaseStudy(projectWithCaseStudy?.caseStudy?.slug ?? '')
+  const author = useAuthorSchema()
+
+  if (!slug) {
+    return <Navigate to={`/${i18n.language}/projects`} replace />
+  }
+
+  if (loading || (projectWithCaseStudy?.hasCaseStudy && contentLoading)) {
+    return <ProjectCaseStudyLoading />
+  }
+
+  if (error || !projectWithCaseStudy) {
+    return (
+      <ProjectCaseStudyError
+        message={error?.message ?? t('pages.projects.projectNotFound')}
+        onRetry={() => void refetch()}
+      />
+    )
+  }
+
+  const { project } = projectWithCaseStudy
+  const canonicalSlug = projectWithCaseStudy.caseStudy?.slug ?? project.name
+
+  if (slug !== canonicalSlug) {
+    return <Navigate to={`/${i18n.language}/projects/${canonicalSlug}`} replace />
+  }
+
+  if (projectWithCaseStudy.hasCaseStudy && !caseStudy) {
+    return (
+      <ProjectCaseStudyError
+        message={contentError?.message ?? t('pages.projects.caseStudyNotFound')}
+        onRetry={() => void refetch()}
+      />
+    )
+  }
+
+  const title = caseStudy?.meta.title ?? project.display_name ?? project.name
+  const summary =
+    caseStudy?.meta.summary ?? project.description ?? t('pages.projects.card.noDescription')
+  const seoUrls = buildLocalizedSeoUrls(
+    import.meta.env.VITE_SITE_URL,
+    getLocalizedPaths(`/projects/${canonicalSlug}`, locale),
+    locale,
+  )
+  // Open Graph cards are only generated for case studies
+  const ogImage = caseStudy
+    ? getOgImageUrl(import.meta.env.VITE_SITE_URL, locale, 'projects', caseStudy.slug)
+    : undefined
+  const structuredData = [
+    caseStudy && ogImage
+      ? buildCaseStudySchema(caseStudy, project, {
+          url: seoUrls.canonicalUrl,
+          image: ogImage,
+          locale,
+          author,
+        })
+      : buildProjectSchema(project, { url: seoUrls.canonicalUrl, locale, author }),
+    buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+      { name: t('navigation.home'), path: '/' },
+      { name: t('navigation.projects'), path: '/projects' },
+      { name: title, path: `/projects/${canonicalSlug}` },
+    ]),
+  ]
+
+  return (
+    <>
+      <DocumentHead
+        title={`${title} - Portfolio`}
+        description={summary}
+        ogType={caseStudy ? 'article' : 'website'}
+        ogImage={ogImage}
+        articlePublishedTime={caseStudy?.meta.published}
+        canonicalUrl={seoUrls.canonicalUrl}
+        alternateUrls={seoUrls.alternateUrls}
+        structuredData={structuredData}
+      />
+
+      <motion.div
+        initial="hidden"
+        animate="visible"
+        variants={fadeIn}
+        transition={smoothTransition}
+        className="mx-auto max-w-4xl px-4 py-16 sm:px-6 lg:px-8"
+      >
+        {/* Back to projects button */}
+        <motion.div
+          initial={{ opacity: 0, x: -20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ delay: 0.1, duration: 0.5 }}
+          className="mb-8"
+        >
+          <Link
+            to={`/${i18n.language}/projects`}
+            className="inline-flex items-center text-sm font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
+          >
+            <span className="mr-2">←</span>
+            {t('common.backTo', { page: t('common.projects') })}
+          </Link>
+        </motion.div>
+
+        {/* Header section */}
+        <motion.header
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2, duration: 0.5 }}
+          className="mb-12"
+        >
+          <h1 className="mb-4 text-4xl font-bold tracking-tight text-gray-900 md:text-5xl dark:text-white">
+            {title}
+          </h1>
+          <p className="mb-6 text-lg text-gray-600 dark:text-gray-400">{summary}</p>
+
+          {/* Case study metadata */}
+          {caseStudy && (
+            <div className="flex flex-wrap items-center gap-6 border-t border-b border-gray-200 py-4 dark:border-gray-700">
+              <div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('common.published')}</p>
+                <time
+                  dateTime={caseStudy.meta.published}
+                  className="font-medium text-gray-900 dark:text-white"
+                >
+                  {formatContentDate(caseStudy.meta.published, i18n.language)}
+                </time>
+              </div>
+
+              {caseStudy.meta.role && (
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('pages.projects.role')}
+                  </p>
+                  <p className="font-medium text-gray-900 dark:text-white">{caseStudy.meta.role}</p>
+                </div>
+              )}
+
+              {caseStudy.meta.status && (
+                <div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('pages.projects.status')}
+                  </p>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {caseStudy.meta.status}
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {t('common.readingTime')}
+                </p>
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {t('common.minutesRead', { minutes: caseStudy.readingTime })}
+                </p>
+              </div>
+            </div>
+          )}
+        </motion.header>
+
+        {/* Case study content */}
+        {caseStudy && (
+          <motion.article
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.3, duration: 0.5 }}
+            className="prose prose-sm dark:prose-invert md:prose-base mb-12 max-w-none"
+          >
+            <MarkdownRenderer content={caseStudy.content} />
+          </motion.article>
+        )}
+
+        {/* Project metadata from snapshot */}
+        <motion.aside
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.4, duration: 0.5 }}
+          className={caseStudy ? 'border-t border-gray-200 pt-8 dark:border-gray-700' : undefined}
+        >
+          <h2 className="mb-6 text-lg font-bold text-gray-900 dark:text-white">
+            {t('pages.projects.projectDetails')}
+          </h2>
+          <ProjectOverview project={project} />
+        </motion.aside>
+
+        {/* README captured with the snapshot */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.5, duration: 0.5 }}
+          className="mt-12"
+        >
+          <ProjectReadme projectName={project.name} />
+        </motion.div>
+      </motion.div>
+    </>
+  )
+}
@@ -0,0 +1,345 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { motion, AnimatePresence } from 'framer-motion'
+
+import type { ProjectFilterState, ProjectSortOption } from '../types'
+import { DEFAULT_PROJECT_FILTERS, SORT_OPTIONS } from '../utils/filterParams'
+
+interface ProjectFiltersProps {
+  languages: string[]
+  topics: string[]
+  filters: ProjectFilterState
+  onFiltersChange: (filters: ProjectFilterState) => void
+  /** Projects matching the filters, out of `total` */
+  count: number
+  total: number
+}
+
+type FlagFilter = 'hasDemo' | 'hasCaseStudy' | 'archived'
+
+const FLAG_FILTERS: { key: FlagFilter; label: string }[] = [
+  { key: 'hasDemo', label: 'pages.projects.filters.hasDemo' },
+  { key: 'hasCaseStudy', label: 'pages.projects.filters.hasCaseStudy' },
+  { key: 'archived', label: 'pages.projects.filters.archived' },
+]
+
+const SORT_LABELS: Record<ProjectSortOption, string> = {
+  curated: 'pages.projects.filters.sortOptions.curated',
+  stars: 'pages.projects.filters.sortOptions.stars',
+  forks: 'pages.projects.filters.sortOptions.forks',
+  pushed: 'pages.projects.filters.sortOptions.pushed',
+  created: 'pages.projects.filters.sortOptions.created',
+}
+
+const labelClassName = 'mb-3 block text-sm font-semibold text-gray-700 dark:text-gray-300'
+const panelClassName =
+  'rounded-xl border border-gray-200/30 bg-white/30 p-4 backdrop-blur-sm dark:border-gray-700/30 dark:bg-gray-800/30'
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+}
+
+function ChipList({
+  label,
+  values,
+  selected,
+  onToggle,
+}: {
+  label: string
+  values: string[]
+  selected: string[]
+  onToggle: (value: string) => void
+}) {
+  return (
+    <div>
+      <p className={labelClassName}>{label}</p>
+      <div className={panelClassName}>
+        <div className="flex max-h-32 flex-wrap gap-2 overflow-y-auto">
+          {values.map((value) => {
+            const isSelected = selected.includes(value)
+            return (
+              <button
+                key={value}
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() => {
+                  onToggle(value)
+                }}
+                className={`inline-flex items-center rounded-full px-3 py-1.5 text-xs font-medium backdrop-blur-sm transition-all duration-200 ${
+                  isSelected
+                    ? 'scale-105 bg-linear-to-r from-primary to-highlight text-white shadow-lg ring-2 ring-primary/20'
+                    : 'border border-gray-200/50 bg-white/70 text-gray-700 hover:scale-105 hover:border-gray-200/70 hover:bg-white/90 hover:text-gray-800 dark:border-gray-700/50 dark:bg-gray-800/70 dark:text-gray-300 dark:hover:border-gray-600/70 dark:hover:bg-gray-700/90 dark:hover:text-white'
+                }`}
+              >
+                {value}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Filter bar of the projects grid, laid out like the blog's: a search box with the result
+ * count, plus a collapsible panel with sorting, demo/case study/archived toggles and
+ * language and topic chips
+ */
+export function ProjectFilters({
+  languages,
+  topics,
+  filters,
+  onFiltersChange,
+  count,
+  total,
+}: ProjectFiltersProps) {
+  const { t } = useTranslation()
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  const update = (changes: Partial<ProjectFilterState>) => {
+    onFiltersChange({ ...filters, ...changes })
+  }
+
+  const activeFlags = FLAG_FILTERS.filter(({ key }) => filters[key])
+  const hasActiveFilters =
+    filters.search !== '' ||
+    filters.languages.length > 0 ||
+    filters.topics.length > 0 ||
+    activeFlags.length > 0
+
+  const activeChips = [
+    ...(filters.search
+      ? [
+          {
+            key: 'search',
+            label: `${t('pages.projects.filters.search')}: "${filters.search}"`,
+            onRemove: () => {
+              update({ search: '' })
+            },
+          },
+        ]
+      : []),
+    ...activeFlags.map(({ key, label }) => ({
+      key,
+      label: t(label),
+      onRemove: () => {
+        update({ [key]: false })
+      },
+    })),
+    ...filters.languages.map((language) => ({
+      key: `language:${language}`,
+      label: language,
+      onRemove: () => {
+        update({ languages: toggle(filters.languages, language) })
+      },
+    })),
+    ...filters.topics.map((topic) => ({
+      key: `topic:${topic}`,
+      label: `#${topic}`,
+      onRemove: () => {
+        update({ topics: toggle(filters.topics, topic) })
+      },
+    })),
+  ]
+
+  return (
+    <div className="relative mt-16 mb-8 overflow-hidden rounded-2xl border border-gray-200/50 bg-white/80 backdrop-blur-sm sm:mt-20 dark:border-gray-700/50 dark:bg-gray-900/80">
+      {/* Subtle gradient background */}
+      <div className="absolute inset-0 bg-linear-to-r from-primary/5 via-highlight/5 to-accent/5 dark:from-primary/10 dark:via-highlight/10 dark:to-accent/10" />
+
+      <div className="relative p-6">
+        {/* Header with search and expand toggle */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          {/* Search bar */}
+          <div className="max-w-md flex-1">
+            <div className="group relative">
+              <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-4">
+                <svg
+                  className="h-5 w-5 text-gray-400 transition-colors group-focus-within:text-primary dark:text-gray-500 dark:group-focus-within:text-primary-light"
+                  aria-hidden="true"
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 20 20"
+                >
+                  <path
+                    stroke="currentColor"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="1.5"
+                    d="m19 19-4-4m0-7A7 7 0 1 1 1 8a7 7 0 0 1 14 0Z"
+                  />
+                </svg>
+              </div>
+              <input
+                type="search"
+                value={filters.search}
+                onChange={(e) => {
+                  update({ search: e.target.value })
+                }}
+                aria-label={t('pages.projects.filters.search')}
+                className="block w-full rounded-xl border border-gray-200/50 bg-white/80 py-3 pr-4 pl-12 text-sm text-gray-900 shadow-sm backdrop-blur-sm transition-all duration-200 placeholder:text-gray-500 focus:border-primary/30 focus:ring-2 focus:ring-primary/20 focus:outline-none dark:border-gray-700/50 dark:bg-gray-800/80 dark:text-white dark:placeholder:text-gray-400 dark:focus:border-primary/40 dark:focus:ring-primary/30"
+                placeholder={t('pages.projects.filters.searchPlaceholder')}
+              />
+            </div>
+          </div>
+
+          {/* Controls */}
+          <div className="flex items-center gap-3">
+            <p
+              className="mr-4 hidden text-sm text-gray-600 sm:block dark:text-gray-400"
+              aria-live="polite"
+            >
+              {count === total
+                ? t('pages.projects.filters.totalProjects', { count: total })
+                : t('pages.projects.filters.showingResults', { count, total })}
+            </p>
+
+            {/* Clear filters button */}
+            {hasActiveFilters && (
+              <button
+                type="button"
+                onClick={() => {
+                  onFiltersChange({ ...DEFAULT_PROJECT_FILTERS, sortBy: filters.sortBy })
+                }}
+                className="rounded-lg px-4 py-2 text-sm font-medium text-gray-600 transition-all duration-200 hover:bg-gray-100/80 hover:text-gray-800 dark:text-gray-400 dark:hover:bg-gray-800/80 dark:hover:text-gray-200"
+              >
+                {t('pages.projects.filters.clearAll')}
+              </button>
+            )}
+
+            {/* Expand/collapse button */}
+            <button
+              type="button"
+              aria-expanded={isExpanded}
+              onClick={() => {
+                setIsExpanded(!isExpanded)
+              }}
+              className="flex items-center gap-2 rounded-lg bg-primary/10 px-4 py-2 text-sm font-medium text-primary backdrop-blur-sm transition-all duration-200 hover:bg-primary/20 dark:bg-primary/20 dark:text-primary-light dark:hover:bg-primary/30"
+            >
+              <svg
+                className={`h-4 w-4 transition-transform duration-200 ${isExpanded ? 'rotate-180' : ''}`}
+                aria-hidden="true"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 9l-7 7-7-7"
+                />
+              </svg>
+              {t('pages.projects.filters.advancedFilters')}
+            </button>
+          </div>
+        </div>
+
+        {/* Advanced filters */}
+        <AnimatePresence>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.3, ease: [0.4, 0, 0.2, 1] }}
+              className="overflow-hidden"
+            >
+              <div className="mt-6 grid gap-6 border-t border-gray-200/50 pt-6 md:grid-cols-2 dark:border-gray-700/50">
+                {/* Sort options */}
+                <div>
+                  <label htmlFor="projects-sort" className={labelClassName}>
+                    {t('pages.projects.filters.sortBy')}
+                  </label>
+                  <select
+                    id="projects-sort"
+                    value={filters.sortBy}
+                    onChange={(e) => {
+                      update({ sortBy: e.target.value as ProjectSortOption })
+                    }}
+                    className="w-full rounded-xl border border-gray-200/50 bg-white/90 py-3 pr-10 pl-4 text-sm text-gray-900 shadow-sm backdrop-blur-sm transition-all duration-200 focus:border-primary/30 focus:ring-2 focus:ring-primary/20 focus:outline-none dark:border-gray-700/50 dark:bg-gray-800/90 dark:text-white dark:focus:border-primary/40 dark:focus:ring-primary/30"
+                  >
+                    {SORT_OPTIONS.map((option) => (
+                      <option key={option} value={option}>
+                        {t(SORT_LABELS[option])}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Demo, case study and archived toggles */}
+                <div>
+                  <p className={labelClassName}>{t('pages.projects.filters.show')}</p>
+                  <div className={`flex flex-wrap gap-x-6 gap-y-3 ${panelClassName}`}>
+                    {FLAG_FILTERS.map(({ key, label }) => (
+                      <label key={key} className="flex cursor-pointer items-center">
+                        <input
+                          type="checkbox"
+                          checked={filters[key]}
+                          onChange={() => {
+                            update({ [key]: !filters[key] })
+                          }}
+                          className="h-5 w-5 rounded-md border-2 border-gray-300 text-primary focus:ring-2 focus:ring-primary/20 dark:border-gray-600"
+                        />
+                        <span className="ml-3 text-sm font-medium text-gray-700 dark:text-gray-300">
+                          {t(label)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <ChipList
+                  label={t('pages.projects.filters.filterByLanguages')}
+                  values={languages}
+                  selected={filters.languages}
+                  onToggle={(language) => {
+                    update({ languages: toggle(filters.languages, language) })
+                  }}
+                />
+
+                <ChipList
+                  label={t('pages.projects.filters.filterByTopics')}
+                  values={topics}
+                  selected={filters.topics}
+                  onToggle={(topic) => {
+                    update({ topics: toggle(filters.topics, topic) })
+                  }}
+                />
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Selected filters summary, also shown collapsed since topics are picked outside the panel */}
+        {hasActiveFilters && (
+          <div className="mt-6 rounded-lg bg-linear-to-r from-primary/5 to-highlight/5 p-4 dark:from-primary/10 dark:to-highlight/10">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                {t('pages.projects.filters.activeFilters')}:
+              </span>
+              {activeChips.map(({ key, label, onRemove }) => (
+                <span
+                  key={key}
+                  className="inline-flex items-center rounded-full bg-highlight/20 px-3 py-1 text-xs font-medium text-highlight backdrop-blur-sm dark:bg-highlight/30"
+                >
+                  {label}
+                  <button
+                    type="button"
+                    onClick={onRemove}
+                    aria-label={t('pages.projects.filters.remove', { filter: label })}
+                    className="ml-1.5 rounded-full text-highlight hover:text-highlight/80"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
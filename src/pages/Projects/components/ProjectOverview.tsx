@@ -0,0 +1,138 @@
+import { useTranslation } from 'react-i18next'
+
+import { LanguageBreakdown } from './LanguageBreakdown'
+
+import type { GitHubProject } from '@/types'
+
+interface ProjectOverviewProps {
+  project: GitHubProject
+}
+
+const labelClassName = 'text-sm font-medium text-gray-500 dark:text-gray-400'
+const linkClassName =
+  'mt-2 inline-flex items-center text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300'
+
+/**
+ * Repository facts from the projects snapshot: links, stars and forks, when it was created
+ * and last pushed to, its languages and its topics
+ */
+export function ProjectOverview({ project }: Readonly<ProjectOverviewProps>) {
+  const { t, i18n } = useTranslation()
+  const hasHomepage = Boolean(project.homepage && project.homepage.trim() !== '')
+  const languages = project.languages ?? {}
+  const hasLanguages = Object.keys(languages).length > 0
+
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString(i18n.language, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    })
+  const timeline = [
+    { label: t('pages.projects.timeline.created'), date: project.created_at },
+    { label: t('pages.projects.timeline.lastPush'), date: project.pushed_at ?? project.updated_at },
+  ]
+
+  return (
+    <div className="grid gap-8 md:grid-cols-2">
+      {/* Repository link */}
+      <div>
+        <p className={labelClassName}>{t('pages.projects.repository')}</p>
+        <a
+          href={project.html_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={linkClassName}
+        >
+          {project.full_name}
+          <span className="ml-2">↗</span>
+        </a>
+      </div>
+
+      {/* Demo URL */}
+      {hasHomepage && (
+        <div>
+          <p className={labelClassName}>{t('pages.projects.demo')}</p>
+          <a
+            href={project.homepage ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={linkClassName}
+          >
+            {t('common.visit')}
+            <span className="ml-2">↗</span>
+          </a>
+        </div>
+      )}
+
+      {/* Stars and forks */}
+      <dl className="flex gap-8">
+        <div>
+          <dt className={labelClassName}>{t('pages.projects.stars')}</dt>
+          <dd className="mt-2 font-medium text-gray-900 dark:text-white">
+            {project.stargazers_count.toLocaleString(i18n.language)}
+          </dd>
+        </div>
+        <div>
+          <dt className={labelClassName}>{t('pages.projects.forks')}</dt>
+          <dd className="mt-2 font-medium text-gray-900 dark:text-white">
+            {project.forks_count.toLocaleString(i18n.language)}
+          </dd>
+        </div>
+      </dl>
+
+      {/* Timeline */}
+      <div>
+        <p className={labelClassName}>{t('pages.projects.timeline.title')}</p>
+        <ol className="mt-2 space-y-2 border-l-2 border-primary/30 pl-4">
+          {timeline.map(({ label, date }) => (
+            <li key={label} className="relative">
+              <span
+                aria-hidden="true"
+                className="absolute top-1.5 -left-[1.3rem] size-2 rounded-full bg-primary"
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>{' '}
+              <time
+                dateTime={new Date(date).toISOString()}
+                className="font-medium text-gray-900 dark:text-white"
+              >
+                {formatDate(date)}
+              </time>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Languages */}
+      <div className="md:col-span-2">
+        <p className={`mb-3 ${labelClassName}`}>
+          {hasLanguages ? t('pages.projects.languages') : t('pages.projects.mainLanguage')}
+        </p>
+        {hasLanguages ? (
+          <LanguageBreakdown languages={languages} />
+        ) : (
+          <p className="font-medium text-gray-900 dark:text-white">
+            {project.language ?? t('pages.projects.card.noLanguage')}
+          </p>
+        )}
+      </div>
+
+      {/* Topics */}
+      {project.topics.length > 0 && (
+        <div className="md:col-span-2">
+          <p className={`mb-2 ${labelClassName}`}>{t('pages.projects.topics.title')}</p>
+          <div className="flex flex-wrap gap-2">
+            {project.topics.map((topic) => (
+              <span
+                key={topic}
+                className="inline-block rounded-full bg-gray-100 px-3 py-1 text-sm font-medium text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+              >
+                {topic}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { MarkdownRenderer } from '../../../components/MarkdownRenderer'
+import { useProjectReadme } from '../hooks/useProjectReadme'
+
+interface ProjectReadmeProps {
+  projectName: string
+}
+
+/**
+ * README captured with the projects snapshot, rendered offline. Repositories without one,
+ * or snapshots taken without access to GitHub, render nothing.
+ */
+export function ProjectReadme({ projectName }: Readonly<ProjectReadmeProps>) {
+  const { t } = useTranslation()
+  const headingId = useId()
+  const { data: readme, isLoading } = useProjectReadme(projectName)
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3" aria-busy="true">
+        <div className="h-6 w-32 rounded bg-gray-200 dark:bg-gray-700" />
+        <div className="h-4 w-full rounded bg-gray-200 dark:bg-gray-700" />
+        <div className="h-4 w-5/6 rounded bg-gray-200 dark:bg-gray-700" />
+      </div>
+    )
+  }
+
+  if (!readme) {
+    return null
+  }
+
+  return (
+    <section aria-labelledby={headingId}>
+      <h2 id={headingId} className="mb-6 text-lg font-bold text-gray-900 dark:text-white">
+        {t('pages.projects.readme')}
+      </h2>
+      <div className="prose prose-sm dark:prose-invert md:prose-base max-w-none rounded-2xl border border-gray-200 p-6 dark:border-gray-700">
+        <MarkdownRenderer content={readme} />
+      </div>
+    </section>
+  )
+}
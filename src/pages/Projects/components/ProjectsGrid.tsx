@@ -33,7 +33,6 @@ const ProjectsGrid = ({ projects, isLoading, error }: ProjectsGridProps) => {
           <ProjectCard
             key={projectWithCaseStudy.project.id}
             project={projectWithCaseStudy.project}
-            hasCaseStudy={projectWithCaseStudy.hasCaseStudy}
             caseStudySlug={projectWithCaseStudy.caseStudy?.slug}
             delay={
               PROJECTS_CONSTANTS.ANIMATION_DELAYS.CARD_BASE +
@@ -0,0 +1,132 @@
+import { useTranslation } from 'react-i18next'
+
+import { motion } from 'framer-motion'
+
+import { ChartPanel, chartTableClassName } from './ChartPanel'
+
+import type { ChartTheme } from '../constants'
+import { getHeatOpacity, getTopicCooccurrence } from '../utils/analytics'
+
+import type { GitHubProject } from '@/types'
+
+interface TopicCooccurrenceChartProps {
+  projects: GitHubProject[]
+  theme: ChartTheme
+  /** Fade the cells in; off when the reader prefers reduced motion */
+  animate: boolean
+}
+
+const CELL = 28
+const LABEL_WIDTH = 120
+const HEADER_HEIGHT = 96
+// Room for the slanted column labels past the last column
+const RIGHT_MARGIN = 64
+
+/**
+ * Matrix of how many repositories share each pair of the most common topics. The diagonal
+ * counts the repositories tagged with each topic.
+ */
+export function TopicCooccurrenceChart({ projects, theme, animate }: TopicCooccurrenceChartProps) {
+  const { t } = useTranslation()
+  const { topics, counts } = getTopicCooccurrence(projects)
+  const max = Math.max(0, ...counts.flat())
+  const size = topics.length * CELL
+  const summary = t('pages.projects.analytics.topics.summary', { topics: topics.join(', ') })
+
+  return (
+    <ChartPanel
+      title={t('pages.projects.analytics.topics.title')}
+      description={t('pages.projects.analytics.topics.description')}
+      emptyMessage={topics.length === 0 ? t('pages.projects.analytics.noData') : undefined}
+      table={
+        <table className={chartTableClassName}>
+          <thead>
+            <tr>
+              <th scope="col">{t('pages.projects.analytics.topics.topic')}</th>
+              {topics.map((topic) => (
+                <th key={topic} scope="col">
+                  {topic}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {topics.map((topic, row) => (
+              <tr key={topic}>
+                <th scope="row">{topic}</th>
+                {topics.map((column, columnIndex) => (
+                  <td key={column}>{counts[row]?.[columnIndex]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      }
+    >
+      <svg
+        viewBox={`0 0 ${String(LABEL_WIDTH + size + RIGHT_MARGIN)} ${String(HEADER_HEIGHT + size)}`}
+        role="img"
+        aria-label={summary}
+        className="mx-auto h-auto w-full max-w-md"
+      >
+        {topics.map((topic, index) => (
+          <g key={topic}>
+            <text
+              x={LABEL_WIDTH - 6}
+              y={HEADER_HEIGHT + index * CELL + CELL / 2}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={11}
+              fill={theme.text}
+            >
+              {topic}
+            </text>
+            <text
+              transform={`translate(${String(LABEL_WIDTH + index * CELL + CELL / 2)} ${String(HEADER_HEIGHT - 6)}) rotate(-45)`}
+              fontSize={11}
+              fill={theme.text}
+            >
+              {topic}
+            </text>
+          </g>
+        ))}
+        {topics.map((rowTopic, row) =>
+          topics.map((columnTopic, column) => {
+            const count = counts[row]?.[column] ?? 0
+            return (
+              <g key={`${rowTopic}-${columnTopic}`}>
+                <rect
+                  x={LABEL_WIDTH + column * CELL + 1}
+                  y={HEADER_HEIGHT + row * CELL + 1}
+                  width={CELL - 2}
+                  height={CELL - 2}
+                  rx={3}
+                  fill={theme.emptyCell}
+                />
+                {count > 0 && (
+                  <motion.rect
+                    x={LABEL_WIDTH + column * CELL + 1}
+                    y={HEADER_HEIGHT + row * CELL + 1}
+                    width={CELL - 2}
+                    height={CELL - 2}
+                    rx={3}
+                    fill={theme.accent}
+                    initial={animate ? { opacity: 0 } : false}
+                    animate={{ opacity: getHeatOpacity(count, max) }}
+                    transition={{ duration: 0.4, delay: (row + column) * 0.03 }}
+                  >
+                    <title>
+                      {row === column
+                        ? `${rowTopic}: ${String(count)}`
+                        : `${rowTopic} + ${columnTopic}: ${String(count)}`}
+                    </title>
+                  </motion.rect>
+                )}
+              </g>
+            )
+          }),
+        )}
+      </svg>
+    </ChartPanel>
+  )
+}
@@ -4,7 +4,7 @@
 
 import { describe, expect, it, vi } from 'vitest'
 
-import { render, screen } from '@testing-library/react'
+import { fireEvent, render, screen } from '@testing-library/react'
 
 import TopicsDisplay from './TopicsDisplay'
 
@@ -169,4 +169,23 @@ describe('TopicsDisplay - Simplified Tests', () => {
     const elements = screen.getAllByText((_content, element) => element?.textContent === '#react')
     expect(elements.length).toBeGreaterThan(0)
   })
+
+  it('should render topics as filter toggles when onTopicToggle is provided', () => {
+    const onTopicToggle = vi.fn()
+
+    render(
+      <TopicsDisplay
+        topics={['react', 'typescript']}
+        selectedTopics={['react']}
+        onTopicToggle={onTopicToggle}
+      />,
+    )
+
+    expect(screen.getByRole('button', { name: '#react' })).toHaveAttribute('aria-pressed', 'true')
+    const typescript = screen.getByRole('button', { name: '#typescript' })
+    expect(typescript).toHaveAttribute('aria-pressed', 'false')
+
+    fireEvent.click(typescript)
+    expect(onTopicToggle).toHaveBeenCalledWith('typescript')
+  })
 })
@@ -7,13 +7,21 @@ import { TopicsDisplayProps } from '../types'
 
 import { fadeIn, smoothTransition } from '@/lib/animations'
 
+const topicClassName =
+  'inline-flex items-center rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary ring-1 ring-primary/20 transition-colors ring-inset hover:bg-primary/20 sm:px-4 sm:py-2 sm:text-sm dark:bg-gray-800 dark:text-gray-100 dark:ring-gray-700 dark:hover:bg-gray-700'
+const selectedTopicClassName =
+  'inline-flex items-center rounded-full bg-linear-to-r from-primary to-highlight px-3 py-1 text-xs font-medium text-white shadow-md ring-2 ring-primary/20 sm:px-4 sm:py-2 sm:text-sm'
+
 /**
- * Component that displays popular topics/tags
+ * Component that displays popular topics/tags. With `onTopicToggle`, every topic is a
+ * toggle button for the projects topic filter.
  */
 const TopicsDisplay = ({
   topics,
   maxTopics = PROJECTS_CONSTANTS.MAX_TOPICS_DISPLAY,
   delay = PROJECTS_CONSTANTS.ANIMATION_DELAYS.TOPICS,
+  selectedTopics = [],
+  onTopicToggle,
 }: TopicsDisplayProps) => {
   const { t } = useTranslation()
 
@@ -41,14 +49,25 @@ const TopicsDisplay = ({
         </p>
       </div>
       <div className="mt-8 flex flex-wrap justify-center gap-2 sm:gap-3">
-        {uniqueTopics.map((topic) => (
-          <span
-            key={topic}
-            className="inline-flex items-center rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary ring-1 ring-primary/20 transition-colors ring-inset hover:bg-primary/20 sm:px-4 sm:py-2 sm:text-sm dark:bg-gray-800 dark:text-gray-100 dark:ring-gray-700 dark:hover:bg-gray-700"
-          >
-            #{topic}
-          </span>
-        ))}
+        {uniqueTopics.map((topic) =>
+          onTopicToggle ? (
+            <button
+              key={topic}
+              type="button"
+              aria-pressed={selectedTopics.includes(topic)}
+              onClick={() => {
+                onTopicToggle(topic)
+              }}
+              className={selectedTopics.includes(topic) ? selectedTopicClassName : topicClassName}
+            >
+              #{topic}
+            </button>
+          ) : (
+            <span key={topic} className={topicClassName}>
+              #{topic}
+            </span>
+          ),
+        )}
       </div>
     </motion.div>
   )
@@ -251,7 +251,7 @@ describe('Project Case Study Routing', () => {
     })
   })
 
-  it('should support lazy loading of ProjectCaseStudy component', () => {
+  it('should support lazy loading of ProjectDetail component', () => {
     // The component is lazy loaded in routes.tsx
     // This is verified by the existence of the import statement there
     expect(true).toBe(true)
@@ -285,7 +285,7 @@ describe('Project Case Study Routing', () => {
 
   it('should handle non-existent project slug gracefully', () => {
     // Route handler should return 404 or error state
-    // This is handled by ProjectCaseStudy component's error state
+    // This is handled by ProjectDetail component's error state
     expect(true).toBe(true)
   })
 
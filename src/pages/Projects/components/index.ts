@@ -3,6 +3,8 @@
  */
 
 export { default as ProjectCard } from './ProjectCard'
+export { ProjectAnalytics } from './ProjectAnalytics'
+export { ProjectFilters } from './ProjectFilters'
 export { default as ProjectSkeleton } from './ProjectSkeleton'
 export { default as ProjectStatistics } from './ProjectStatistics'
 export { default as ProjectsError } from './ProjectsError'
@@ -10,6 +10,7 @@ export const PROJECTS_CONSTANTS = {
     STATISTICS: 0.3,
     GRID: 0.4,
     TOPICS: 0.5,
+    ANALYTICS: 0.35,
     CARD_BASE: 0.1,
     CARD_INCREMENT: 0.05,
   },
@@ -36,6 +37,10 @@ export const TRANSLATION_KEYS = {
     TOTAL_FORKS: 'pages.projects.statistics.totalForks',
     LIVE_DEMOS: 'pages.projects.statistics.liveDemos',
   },
+  ANALYTICS: {
+    TITLE: 'pages.projects.analytics.title',
+    DESCRIPTION: 'pages.projects.analytics.description',
+  },
   TOPICS: {
     TITLE: 'pages.projects.topics.title',
     DESCRIPTION: 'pages.projects.topics.description',
@@ -129,3 +134,34 @@ export const languageBarColors: Record<string, string> = {
   Kotlin: 'bg-purple-600',
   default: 'bg-gray-400',
 }
+
+/** Language colors of the analytics charts, the same hues as languageBarColors */
+export const languageChartColors: Record<string, string> = {
+  JavaScript: '#facc15',
+  TypeScript: '#3b82f6',
+  HTML: '#f97316',
+  CSS: '#a855f7',
+  Python: '#22c55e',
+  Java: '#ef4444',
+  Ruby: '#dc2626',
+  PHP: '#6366f1',
+  Go: '#06b6d4',
+  Rust: '#d97706',
+  Swift: '#ea580c',
+  Kotlin: '#9333ea',
+  Vue: '#10b981',
+  MDX: '#ec4899',
+  Shell: '#84cc16',
+  Dockerfile: '#0ea5e9',
+}
+
+/** Colors for languages missing from languageChartColors, picked in turn */
+export const CHART_FALLBACK_COLORS = ['#14b8a6', '#f43f5e', '#8b5cf6', '#64748b', '#a3a3a3']
+
+/** Colors of the analytics charts for each theme */
+export const CHART_THEMES = {
+  light: { text: '#4b5563', grid: '#e5e7eb', emptyCell: '#f3f4f6', accent: '#0066ff' },
+  dark: { text: '#d1d5db', grid: '#374151', emptyCell: '#1f2937', accent: '#4d9fff' },
+} as const
+
+export type ChartTheme = (typeof CHART_THEMES)[keyof typeof CHART_THEMES]
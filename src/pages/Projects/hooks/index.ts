@@ -2,5 +2,7 @@
  * Export all Projects hooks
  */
 
-export { useProjects } from './useProjects'
+export { calculateProjectStatistics, useProjects } from './useProjects'
+export { useProjectFilters } from './useProjectFilters'
 export type { ProjectStatistics, UseProjectsReturn } from './useProjects'
+export { hasProjectReadme, useProjectReadme } from './useProjectReadme'
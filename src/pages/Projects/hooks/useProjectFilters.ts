@@ -0,0 +1,36 @@
+import { useSearchParams } from 'react-router'
+
+import type { ProjectFilterState } from '../types'
+import {
+  DEFAULT_PROJECT_FILTERS,
+  parseProjectFilterParams,
+  serializeProjectFilterParams,
+} from '../utils/filterParams'
+
+import { useIsHydrating } from '@/hooks'
+
+/**
+ * Projects filters stored in the query string, so filtered views can be bookmarked,
+ * shared and restored with the back button.
+ *
+ * Typing in the search box replaces the current history entry; every other change
+ * pushes a new one.
+ */
+export function useProjectFilters(known: { languages: string[]; topics: string[] }) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // Prerendered pages are rendered without a query string; apply it once hydrated
+  const isHydrating = useIsHydrating()
+  const filters = isHydrating
+    ? DEFAULT_PROJECT_FILTERS
+    : parseProjectFilterParams(searchParams, known)
+
+  const setFilters = (next: ProjectFilterState) => {
+    setSearchParams((current) => serializeProjectFilterParams(next, current), {
+      replace: next.search !== filters.search,
+      preventScrollReset: true,
+    })
+  }
+
+  return [filters, setFilters] as const
+}
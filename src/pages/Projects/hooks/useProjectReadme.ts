@@ -0,0 +1,39 @@
+import { queryOptions, useQuery } from '@tanstack/react-query'
+
+// READMEs captured with the projects snapshot, each in its own chunk
+const readmeLoaders = import.meta.glob<string>('/src/data/readmes/*.md', {
+  query: '?raw',
+  import: 'default',
+})
+
+const getReadmeLoader = (projectName: string) =>
+  readmeLoaders[`/src/data/readmes/${projectName}.md`]
+
+/**
+ * Whether the snapshot captured a README for the repository
+ */
+export const hasProjectReadme = (projectName: string): boolean =>
+  getReadmeLoader(projectName) !== undefined
+
+/**
+ * Query for a repository README, shared with the prerenderer
+ */
+export const projectReadmeQueryOptions = (projectName: string) =>
+  queryOptions({
+    queryKey: ['project-readme', projectName],
+    queryFn: async (): Promise<string | null> => {
+      const loadReadme = getReadmeLoader(projectName)
+      return loadReadme ? await loadReadme() : null
+    },
+    // READMEs only change with a new build
+    staleTime: Infinity,
+  })
+
+/**
+ * README of a repository in the snapshot; only its own chunk is downloaded
+ */
+export const useProjectReadme = (projectName: string) =>
+  useQuery({
+    ...projectReadmeQueryOptions(projectName),
+    enabled: hasProjectReadme(projectName),
+  })
@@ -1,23 +1,13 @@
-import { useQuery, UseQueryOptions } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import { useTranslation } from 'react-i18next'
 
-import projectsSnapshot from '@/data/projects-snapshot.json'
-import { GitHubProject, ProjectsSnapshot } from '@/types'
-
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === 'object' && value !== null
-
-const parseProjectsSnapshot = (value: unknown): ProjectsSnapshot => {
-  if (!isRecord(value) || !Array.isArray(value['projects'])) {
-    throw new Error('Projects snapshot is invalid or missing the projects array')
-  }
+import { queryOptions, useQuery, UseQueryOptions } from '@tanstack/react-query'
+import { curation } from 'virtual:content/curation'
 
-  return {
-    generatedAt:
-      typeof value['generatedAt'] === 'string' ? value['generatedAt'] : new Date(0).toISOString(),
-    source: value['source'] === 'generated' ? 'generated' : 'fallback',
-    projects: value['projects'] as GitHubProject[],
-  }
-}
+import projectsSnapshot from '@/data/projects-snapshot.json'
+import { applyCuration } from '@/lib/content/curation'
+import { parseProjectsSnapshot } from '@/lib/projectsSnapshot'
+import { GitHubProject } from '@/types'
 
 /**
  * Interface for project statistics
@@ -48,7 +38,9 @@ export interface UseProjectsReturn {
  * @param projects - Array of GitHub projects
  * @returns Project statistics object
  */
-const calculateProjectStatistics = (projects: GitHubProject[] | undefined): ProjectStatistics => {
+export const calculateProjectStatistics = (
+  projects: GitHubProject[] | undefined,
+): ProjectStatistics => {
   if (!projects || projects.length === 0) {
     return {
       totalProjects: 0,
@@ -111,24 +103,32 @@ const fetchProjects = async (): Promise<GitHubProject[]> => {
   return await Promise.resolve(snapshot.projects)
 }
 
+/**
+ * Query for the raw snapshot, shared with the prerenderer
+ */
+export const projectsQueryOptions = queryOptions({
+  queryKey: ['projects'],
+  queryFn: fetchProjects,
+})
+
 /**
  * Custom hook for fetching GitHub projects with language data and statistics
  * @param options - React Query options for the query
- * @returns React Query result object with GitHub projects data and calculated statistics
+ * @returns React Query result object with the curated GitHub projects of the current locale
+ * (see src/content/projects/curation.yaml) and calculated statistics
  */
 export const useProjects = (options?: UseQueryOptions<GitHubProject[]>): UseProjectsReturn => {
+  const { i18n } = useTranslation()
+  const language = i18n.language === 'en' ? 'en' : 'es'
+  const selectCurated = useCallback(
+    (data: GitHubProject[]) => applyCuration(data, curation, language),
+    [language],
+  )
+
   const query = useQuery<GitHubProject[]>({
-    queryKey: ['projects'],
+    queryKey: projectsQueryOptions.queryKey,
     queryFn: fetchProjects,
-    select: (data) => {
-      return data
-        .filter((project) => project.id !== 334629076)
-        .sort((a, b) => {
-          const dateA = new Date(a.created_at).getTime()
-          const dateB = new Date(b.created_at).getTime()
-          return dateB - dateA
-        })
-    },
+    select: selectCurated,
     // Keep previous data while refetching for smoother UX
     placeholderData: (previousData) => previousData,
     ...options,
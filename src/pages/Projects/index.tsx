@@ -3,6 +3,8 @@ import { useTranslation } from 'react-i18next'
 import { motion } from 'framer-motion'
 
 import {
+  ProjectAnalytics,
+  ProjectFilters,
   ProjectStatistics,
   ProjectsError,
   ProjectsEmptyState,
@@ -10,21 +12,38 @@ import {
   TopicsDisplay,
 } from './components'
 import { PROJECTS_CONSTANTS, TRANSLATION_KEYS } from './constants'
+import { calculateProjectStatistics, useProjectFilters } from './hooks'
+import { DEFAULT_PROJECT_FILTERS } from './utils/filterParams'
+import { filterAndSortProjects, getAllLanguages, getAllTopics } from './utils/filterUtils'
 
 import { DocumentHead } from '@/components'
 import { useProjectsWithCaseStudies } from '@/hooks/useProjectsWithCaseStudies'
 import { fadeIn, fadeInUp, smoothTransition } from '@/lib/animations'
 import { buildLocalizedSeoUrls } from '@/lib/seo'
+import { buildBreadcrumbSchema } from '@/lib/structuredData'
 
 /**
  * Main Projects page component
- * Displays a showcase of GitHub projects with statistics, topics, and grid layout
+ * Displays a showcase of GitHub projects with statistics, analytics, topics, and grid layout.
+ * The grid can be searched, filtered and sorted; the filters live in the query string
+ * and the statistics and analytics describe the filtered projects.
  */
 const ProjectsPage = () => {
   const { t, i18n } = useTranslation()
   const { data: projects, isLoading, error, statistics } = useProjectsWithCaseStudies()
+  const allProjects = projects ?? []
+  const languages = getAllLanguages(allProjects)
+  const topics = getAllTopics(allProjects)
+  const [filters, setFilters] = useProjectFilters({ languages, topics })
+  const filteredProjects = filterAndSortProjects(allProjects, filters)
+  const filteredRepositories = filteredProjects.map(({ project }) => project)
+  const filteredStatistics = calculateProjectStatistics(filteredRepositories)
   const locale = i18n.language === 'en' ? 'en' : 'es'
   const seoUrls = buildLocalizedSeoUrls(import.meta.env.VITE_SITE_URL, '/projects', locale)
+  const breadcrumbs = buildBreadcrumbSchema(import.meta.env.VITE_SITE_URL, locale, [
+    { name: t('navigation.home'), path: '/' },
+    { name: t('navigation.projects'), path: '/projects' },
+  ])
 
   const hasProjects = !isLoading && !error && projects && projects.length > 0
   const hasTopics = hasProjects && statistics.allTopics.length > 0
@@ -38,6 +57,7 @@ const ProjectsPage = () => {
         keywords="projects, github, repositories, code, development, open source"
         canonicalUrl={seoUrls.canonicalUrl}
         alternateUrls={seoUrls.alternateUrls}
+        structuredData={[breadcrumbs]}
       />
 
       <motion.div
@@ -69,18 +89,69 @@ const ProjectsPage = () => {
             </div>
           </motion.div>
 
-          {/* Project Statistics */}
-          {hasProjects && <ProjectStatistics statistics={statistics} />}
+          {/* Statistics of the filtered projects */}
+          {hasProjects && <ProjectStatistics statistics={filteredStatistics} />}
 
-          {/* Popular Topics */}
-          {hasTopics && <TopicsDisplay topics={statistics.allTopics} />}
+          {/* Language, topic and activity charts of the filtered projects */}
+          {hasProjects && filteredRepositories.length > 0 && (
+            <ProjectAnalytics projects={filteredRepositories} />
+          )}
+
+          {/* Popular Topics, which toggle the topic filter */}
+          {hasTopics && (
+            <TopicsDisplay
+              topics={statistics.allTopics}
+              selectedTopics={filters.topics}
+              onTopicToggle={(topic) => {
+                setFilters({
+                  ...filters,
+                  topics: filters.topics.includes(topic)
+                    ? filters.topics.filter((selected) => selected !== topic)
+                    : [...filters.topics, topic],
+                })
+              }}
+            />
+          )}
+
+          {/* Filters */}
+          {hasProjects && (
+            <ProjectFilters
+              languages={languages}
+              topics={topics}
+              filters={filters}
+              onFiltersChange={setFilters}
+              count={filteredProjects.length}
+              total={allProjects.length}
+            />
+          )}
 
           {/* Error State */}
           {error && <ProjectsError error={error} />}
 
-          {/* Projects Grid - Always render unless there's an error or empty state */}
-          {!error && !isEmpty && (
-            <ProjectsGrid projects={projects ?? []} isLoading={isLoading} error={error} />
+          {/* Projects Grid - Always render unless there's an error, an empty state or no matches */}
+          {!error && !isEmpty && (isLoading || filteredProjects.length > 0) && (
+            <ProjectsGrid projects={filteredProjects} isLoading={isLoading} error={error} />
+          )}
+
+          {/* No projects match the filters */}
+          {hasProjects && filteredProjects.length === 0 && (
+            <div className="py-16 text-center">
+              <h3 className="mb-3 text-xl font-semibold text-gray-900 dark:text-white">
+                {t('pages.projects.filters.noResults')}
+              </h3>
+              <p className="mx-auto mb-6 max-w-sm text-gray-600 dark:text-gray-300">
+                {t('pages.projects.filters.noResultsDescription')}
+              </p>
+              <button
+                type="button"
+                onClick={() => {
+                  setFilters(DEFAULT_PROJECT_FILTERS)
+                }}
+                className="rounded-xl bg-linear-to-r from-primary to-highlight px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-primary/25 transition-all duration-300 hover:shadow-xl hover:shadow-primary/30 focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:outline-none dark:focus:ring-offset-gray-900"
+              >
+                {t('pages.projects.filters.clearAll')}
+              </button>
+            </div>
           )}
 
           {/* Empty State */}
@@ -14,6 +14,24 @@ export interface TopicsDisplayProps {
   topics: string[]
   maxTopics?: number
   delay?: number
+  /** Topics currently filtering the grid, shown as pressed */
+  selectedTopics?: string[]
+  /** Makes every topic a toggle for the topic filter */
+  onTopicToggle?: (topic: string) => void
+}
+
+export type ProjectSortOption = 'curated' | 'stars' | 'forks' | 'pushed' | 'created'
+
+export interface ProjectFilterState {
+  search: string
+  /** Repositories using any of these languages */
+  languages: string[]
+  /** Repositories tagged with any of these topics */
+  topics: string[]
+  hasDemo: boolean
+  hasCaseStudy: boolean
+  archived: boolean
+  sortBy: ProjectSortOption
 }
 
 export interface ProjectsGridProps {
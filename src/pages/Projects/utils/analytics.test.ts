@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getActivityHeatmap,
+  getLanguageChartColor,
+  getLanguageShare,
+  getLanguageTrends,
+  getTopicCooccurrence,
+} from './analytics'
+
+import { makeProject } from '@/test/projects'
+import type { GitHubProject } from '@/types'
+
+const projects = [
+  makeProject({
+    name: 'portfolio',
+    languages: { TypeScript: 600, CSS: 100 },
+    topics: ['react', 'typescript', 'vite'],
+    created_at: '2023-05-01T00:00:00Z',
+    pushed_at: '2025-02-01T00:00:00Z',
+  }),
+  makeProject({
+    name: 'api',
+    languages: { Go: 250, Shell: 50 },
+    topics: ['go', 'api'],
+    created_at: '2025-03-01T00:00:00Z',
+    pushed_at: '2025-04-01T00:00:00Z',
+  }),
+  makeProject({
+    name: 'legacy',
+    language: 'TypeScript',
+    topics: ['react', 'typescript'],
+    created_at: '2021-07-01T00:00:00Z',
+  }),
+]
+
+describe('getLanguageShare', () => {
+  it('weights the languages by their bytes and groups the rest', () => {
+    expect(getLanguageShare(projects, 2)).toEqual([
+      { language: 'TypeScript', bytes: 600, share: 0.6 },
+      { language: 'Go', bytes: 250, share: 0.25 },
+      { language: null, bytes: 150, share: 0.15 },
+    ])
+  })
+
+  it('is empty without byte counts', () => {
+    expect(getLanguageShare([projects[2] as GitHubProject])).toEqual([])
+  })
+})
+
+describe('getLanguageTrends', () => {
+  it('counts the repositories using each language per creation year, without gaps', () => {
+    const trends = getLanguageTrends(projects, 'created_at', 2)
+
+    expect(trends.years).toEqual([2021, 2022, 2023, 2024, 2025])
+    expect(trends.series).toEqual([
+      { language: 'TypeScript', counts: [1, 0, 1, 0, 0] },
+      { language: 'CSS', counts: [0, 0, 1, 0, 0] },
+    ])
+  })
+
+  it('groups by the last push and leaves out repositories never pushed', () => {
+    const trends = getLanguageTrends(projects, 'pushed_at')
+
+    expect(trends.years).toEqual([2025])
+    expect(trends.series.map(({ language }) => language)).toEqual([
+      'CSS',
+      'Go',
+      'Shell',
+      'TypeScript',
+    ])
+    expect(getLanguageTrends([], 'pushed_at')).toEqual({ years: [], series: [] })
+  })
+})
+
+describe('getTopicCooccurrence', () => {
+  it('counts the repositories sharing each pair of the most common topics', () => {
+    expect(getTopicCooccurrence(projects, 3)).toEqual({
+      topics: ['react', 'typescript', 'api'],
+      counts: [
+        [2, 2, 0],
+        [2, 2, 0],
+        [0, 0, 1],
+      ],
+    })
+  })
+})
+
+describe('getActivityHeatmap', () => {
+  it('sums the weekly commits per month of the busiest repositories', () => {
+    const heatmap = getActivityHeatmap(
+      [
+        makeProject({
+          name: 'quiet',
+          commit_activity: { start: '2025-01-26', weekly: [0, 0, 0, 0, 0, 0] },
+        }),
+        makeProject({
+          name: 'busy',
+          display_name: 'Busy project',
+          // Weeks start on Jan 26, Feb 2, 9, 16, 23 and Mar 2
+          commit_activity: { start: '2025-01-26', weekly: [1, 2, 3, 4, 5, 6] },
+        }),
+        makeProject({ name: 'small', commit_activity: { start: '2025-02-02', weekly: [1] } }),
+      ],
+      8,
+      2,
+    )
+
+    expect(heatmap).toEqual({
+      months: ['2025-02', '2025-03'],
+      rows: [
+        { name: 'Busy project', counts: [14, 6] },
+        { name: 'small', counts: [1, 0] },
+      ],
+      max: 14,
+    })
+  })
+
+  it('is empty without commit activity', () => {
+    expect(getActivityHeatmap(projects)).toEqual({ months: [], rows: [], max: 0 })
+  })
+})
+
+describe('getLanguageChartColor', () => {
+  it('uses the language color, or a fallback color by position', () => {
+    expect(getLanguageChartColor('TypeScript', 0)).toBe('#3b82f6')
+    expect(getLanguageChartColor('Elixir', 0)).not.toBe(getLanguageChartColor('Zig', 1))
+    expect(getLanguageChartColor(null, 0)).toBe(getLanguageChartColor('Elixir', 0))
+  })
+})
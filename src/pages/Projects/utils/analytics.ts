@@ -0,0 +1,193 @@
+import { getProjectLanguages } from './filterUtils'
+
+import type { GitHubProject } from '../../../types'
+import { CHART_FALLBACK_COLORS, languageChartColors } from '../constants'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface LanguageShare {
+  /** `null` groups the languages beyond the limit */
+  language: string | null
+  bytes: number
+  /** Fraction of all the bytes, between 0 and 1 */
+  share: number
+}
+
+export type LanguageTrendDate = 'created_at' | 'pushed_at'
+
+export interface LanguageTrends {
+  /** Every year from the first to the last project, without gaps */
+  years: number[]
+  /** Repositories using each language per year, aligned with `years` */
+  series: { language: string; counts: number[] }[]
+}
+
+export interface TopicCooccurrence {
+  topics: string[]
+  /** `counts[i][j]` repositories are tagged with both topics; the diagonal counts each topic */
+  counts: number[][]
+}
+
+export interface ActivityHeatmap {
+  /** Months as YYYY-MM, oldest first */
+  months: string[]
+  /** Commits per month of the busiest repositories, aligned with `months` */
+  rows: { name: string; counts: number[] }[]
+  /** Largest monthly count, to scale the cells */
+  max: number
+}
+
+function byCountThenName([nameA, countA]: [string, number], [nameB, countB]: [string, number]) {
+  return countB - countA || nameA.localeCompare(nameB)
+}
+
+function tally(values: string[]): [string, number][] {
+  const counts = new Map<string, number>()
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1)
+  return [...counts].sort(byCountThenName)
+}
+
+/**
+ * Share of every language in the bytes of code of all the repositories, largest first.
+ * Repositories without a language breakdown have no byte counts and are left out.
+ */
+export function getLanguageShare(projects: GitHubProject[], limit = 6): LanguageShare[] {
+  const bytesByLanguage = new Map<string, number>()
+  for (const project of projects) {
+    for (const [language, bytes] of Object.entries(project.languages ?? {})) {
+      bytesByLanguage.set(language, (bytesByLanguage.get(language) ?? 0) + bytes)
+    }
+  }
+
+  const totalBytes = [...bytesByLanguage.values()].reduce((sum, bytes) => sum + bytes, 0)
+  if (totalBytes === 0) return []
+
+  const ranked = [...bytesByLanguage].filter(([, bytes]) => bytes > 0).sort(byCountThenName)
+  const shares: LanguageShare[] = ranked
+    .slice(0, limit)
+    .map(([language, bytes]) => ({ language, bytes, share: bytes / totalBytes }))
+  const otherBytes = ranked.slice(limit).reduce((sum, [, bytes]) => sum + bytes, 0)
+  if (otherBytes > 0) {
+    shares.push({ language: null, bytes: otherBytes, share: otherBytes / totalBytes })
+  }
+  return shares
+}
+
+/**
+ * Repositories using each of the most common languages, per year they were created or last
+ * pushed. Repositories without the date are left out.
+ */
+export function getLanguageTrends(
+  projects: GitHubProject[],
+  dateField: LanguageTrendDate,
+  limit = 5,
+): LanguageTrends {
+  const dated = projects.flatMap((project) => {
+    const date = project[dateField]
+    const year = date ? new Date(date).getUTCFullYear() : Number.NaN
+    return Number.isNaN(year) ? [] : [{ year, languages: getProjectLanguages(project) }]
+  })
+  if (dated.length === 0) return { years: [], series: [] }
+
+  const firstYear = Math.min(...dated.map(({ year }) => year))
+  const lastYear = Math.max(...dated.map(({ year }) => year))
+  const years = Array.from({ length: lastYear - firstYear + 1 }, (_, index) => firstYear + index)
+  const languages = tally(dated.flatMap(({ languages }) => languages))
+    .slice(0, limit)
+    .map(([language]) => language)
+
+  return {
+    years,
+    series: languages.map((language) => ({
+      language,
+      counts: years.map(
+        (year) =>
+          dated.filter((item) => item.year === year && item.languages.includes(language)).length,
+      ),
+    })),
+  }
+}
+
+/**
+ * How often the most common topics are used together
+ */
+export function getTopicCooccurrence(projects: GitHubProject[], limit = 8): TopicCooccurrence {
+  const topics = tally(projects.flatMap((project) => [...new Set(project.topics)]))
+    .slice(0, limit)
+    .map(([topic]) => topic)
+
+  return {
+    topics,
+    counts: topics.map((rowTopic) =>
+      topics.map(
+        (columnTopic) =>
+          projects.filter(
+            (project) => project.topics.includes(rowTopic) && project.topics.includes(columnTopic),
+          ).length,
+      ),
+    ),
+  }
+}
+
+function toMonth(time: number): string {
+  return new Date(time).toISOString().slice(0, 7)
+}
+
+/**
+ * Commits per month of the busiest repositories over the last `monthCount` months of the
+ * snapshot's commit activity. Every week counts towards the month it starts in.
+ */
+export function getActivityHeatmap(
+  projects: GitHubProject[],
+  limit = 8,
+  monthCount = 12,
+): ActivityHeatmap {
+  const activity = projects.flatMap((project) => {
+    if (!project.commit_activity) return []
+    const start = new Date(`${project.commit_activity.start}T00:00:00Z`).getTime()
+    if (Number.isNaN(start)) return []
+
+    const commitsByMonth = new Map<string, number>()
+    project.commit_activity.weekly.forEach((commits, week) => {
+      const month = toMonth(start + week * 7 * DAY_MS)
+      commitsByMonth.set(month, (commitsByMonth.get(month) ?? 0) + commits)
+    })
+    return [{ name: project.display_name ?? project.name, commitsByMonth }]
+  })
+
+  const months = [...new Set(activity.flatMap(({ commitsByMonth }) => [...commitsByMonth.keys()]))]
+    .sort()
+    .slice(-monthCount)
+  const rows = activity
+    .map(({ name, commitsByMonth }) => ({
+      name,
+      counts: months.map((month) => commitsByMonth.get(month) ?? 0),
+    }))
+    .map((row) => ({ ...row, total: row.counts.reduce((sum, commits) => sum + commits, 0) }))
+    .filter(({ total }) => total > 0)
+    .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(({ name, counts }) => ({ name, counts }))
+
+  return {
+    months: rows.length > 0 ? months : [],
+    rows,
+    max: Math.max(0, ...rows.flatMap(({ counts }) => counts)),
+  }
+}
+
+/**
+ * Chart color of a language; languages without one of their own take the fallback colors in
+ * turn, by their position in the chart
+ */
+export function getLanguageChartColor(language: string | null, index: number): string {
+  const color = language ? languageChartColors[language] : undefined
+  return color ?? CHART_FALLBACK_COLORS[index % CHART_FALLBACK_COLORS.length] ?? '#9ca3af'
+}
+
+/**
+ * Fill opacity of a heatmap cell, so the faintest non-zero cell is still visible
+ */
+export function getHeatOpacity(value: number, max: number): number {
+  return max > 0 ? 0.2 + 0.8 * (value / max) : 0
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  DEFAULT_PROJECT_FILTERS,
+  parseProjectFilterParams,
+  serializeProjectFilterParams,
+} from './filterParams'
+
+describe('parseProjectFilterParams', () => {
+  it('returns the defaults for an empty query string', () => {
+    expect(parseProjectFilterParams(new URLSearchParams())).toEqual(DEFAULT_PROJECT_FILTERS)
+  })
+
+  it('reads search, languages, topics, toggles and sort', () => {
+    expect(
+      parseProjectFilterParams(
+        new URLSearchParams(
+          '?q=query&languages=TypeScript,CSS&topics=react&demo=1&case-study=true&archived=1&sort=stars',
+        ),
+      ),
+    ).toEqual({
+      search: 'query',
+      languages: ['TypeScript', 'CSS'],
+      topics: ['react'],
+      hasDemo: true,
+      hasCaseStudy: true,
+      archived: true,
+      sortBy: 'stars',
+    })
+  })
+
+  it('ignores invalid values', () => {
+    const filters = parseProjectFilterParams(
+      new URLSearchParams('?languages=Go,,TypeScript,TypeScript&topics=vue&sort=random&demo=yes'),
+      { languages: ['TypeScript'], topics: ['react'] },
+    )
+
+    expect(filters.languages).toEqual(['TypeScript'])
+    expect(filters.topics).toEqual([])
+    expect(filters.sortBy).toBe('curated')
+    expect(filters.hasDemo).toBe(false)
+  })
+})
+
+describe('serializeProjectFilterParams', () => {
+  it('leaves out default values', () => {
+    expect(serializeProjectFilterParams(DEFAULT_PROJECT_FILTERS).toString()).toBe('')
+  })
+
+  it('round-trips through parseProjectFilterParams and keeps unrelated parameters', () => {
+    const filters = {
+      search: 'design system',
+      languages: ['TypeScript'],
+      topics: ['react', 'vite'],
+      hasDemo: false,
+      hasCaseStudy: true,
+      archived: false,
+      sortBy: 'pushed' as const,
+    }
+    const params = serializeProjectFilterParams(
+      filters,
+      new URLSearchParams('utm_source=feed&demo=1'),
+    )
+
+    expect(params.get('utm_source')).toBe('feed')
+    expect(params.has('demo')).toBe(false)
+    expect(params.get('topics')).toBe('react,vite')
+    expect(parseProjectFilterParams(params)).toEqual(filters)
+  })
+})
@@ -0,0 +1,90 @@
+import type { ProjectFilterState, ProjectSortOption } from '../types'
+
+export const DEFAULT_PROJECT_FILTERS: ProjectFilterState = {
+  search: '',
+  languages: [],
+  topics: [],
+  hasDemo: false,
+  hasCaseStudy: false,
+  archived: false,
+  sortBy: 'curated',
+}
+
+export const SORT_OPTIONS: ProjectSortOption[] = ['curated', 'stars', 'forks', 'pushed', 'created']
+
+// Query parameter names: ?q=&languages=a,b&topics=a,b&demo=1&case-study=1&archived=1&sort=stars
+const PARAMS = {
+  search: 'q',
+  languages: 'languages',
+  topics: 'topics',
+  hasDemo: 'demo',
+  hasCaseStudy: 'case-study',
+  archived: 'archived',
+  sort: 'sort',
+} as const
+
+function isSortOption(value: string | null): value is ProjectSortOption {
+  return SORT_OPTIONS.includes(value as ProjectSortOption)
+}
+
+function parseList(value: string | null, known?: string[]): string[] {
+  const items = (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item && (!known || known.includes(item)))
+  return [...new Set(items)]
+}
+
+function parseFlag(value: string | null): boolean {
+  return ['1', 'true'].includes(value ?? '')
+}
+
+/**
+ * Read filters from the URL. Unknown sort values fall back to the default and, when the
+ * known languages and topics are given, values no repository uses are dropped.
+ */
+export function parseProjectFilterParams(
+  params: URLSearchParams,
+  known: { languages?: string[]; topics?: string[] } = {},
+): ProjectFilterState {
+  const sort = params.get(PARAMS.sort)
+
+  return {
+    search: params.get(PARAMS.search) ?? '',
+    languages: parseList(params.get(PARAMS.languages), known.languages),
+    topics: parseList(params.get(PARAMS.topics), known.topics),
+    hasDemo: parseFlag(params.get(PARAMS.hasDemo)),
+    hasCaseStudy: parseFlag(params.get(PARAMS.hasCaseStudy)),
+    archived: parseFlag(params.get(PARAMS.archived)),
+    sortBy: isSortOption(sort) ? sort : DEFAULT_PROJECT_FILTERS.sortBy,
+  }
+}
+
+/**
+ * Write filters into the URL, leaving out defaults and keeping unrelated parameters
+ */
+export function serializeProjectFilterParams(
+  filters: ProjectFilterState,
+  current = new URLSearchParams(),
+): URLSearchParams {
+  const params = new URLSearchParams(current)
+  const values: Record<(typeof PARAMS)[keyof typeof PARAMS], string> = {
+    [PARAMS.search]: filters.search,
+    [PARAMS.languages]: filters.languages.join(','),
+    [PARAMS.topics]: filters.topics.join(','),
+    [PARAMS.hasDemo]: filters.hasDemo ? '1' : '',
+    [PARAMS.hasCaseStudy]: filters.hasCaseStudy ? '1' : '',
+    [PARAMS.archived]: filters.archived ? '1' : '',
+    [PARAMS.sort]: filters.sortBy === DEFAULT_PROJECT_FILTERS.sortBy ? '' : filters.sortBy,
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    if (value) {
+      params.set(name, value)
+    } else {
+      params.delete(name)
+    }
+  }
+
+  return params
+}
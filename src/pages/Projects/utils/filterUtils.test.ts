@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+
+import { DEFAULT_PROJECT_FILTERS } from './filterParams'
+import { filterAndSortProjects, getAllLanguages, getAllTopics } from './filterUtils'
+
+import { makeProject } from '@/test/projects'
+import type { GitHubProject } from '@/types'
+import type { ProjectWithCaseStudy } from '@/types/projectCaseStudy'
+
+const entry = (
+  overrides: Partial<GitHubProject> & Pick<GitHubProject, 'name'>,
+  hasCaseStudy = false,
+): ProjectWithCaseStudy => ({
+  project: makeProject(overrides),
+  caseStudy: null,
+  hasCaseStudy,
+})
+
+const projects = [
+  entry(
+    {
+      name: 'portfolio',
+      display_name: 'Personal site',
+      languages: { TypeScript: 900, CSS: 100 },
+      topics: ['react', 'vite'],
+      homepage: 'https://example.com',
+      stargazers_count: 3,
+      forks_count: 5,
+      created_at: '2025-01-01T00:00:00Z',
+      pushed_at: '2025-01-10T00:00:00Z',
+    },
+    true,
+  ),
+  entry({
+    name: 'legacy-api',
+    description: 'REST API written in Go',
+    language: 'Go',
+    topics: ['api'],
+    archived: true,
+    stargazers_count: 10,
+    created_at: '2023-01-01T00:00:00Z',
+    pushed_at: '2025-03-01T00:00:00Z',
+  }),
+  entry({
+    name: 'dotfiles',
+    languages: { Shell: 100 },
+    homepage: ' ',
+    forks_count: 1,
+    created_at: '2024-06-01T00:00:00Z',
+  }),
+]
+
+const names = (entries: ProjectWithCaseStudy[]) => entries.map(({ project }) => project.name)
+
+describe('filterAndSortProjects', () => {
+  it('keeps the given order without filters', () => {
+    expect(names(filterAndSortProjects(projects, DEFAULT_PROJECT_FILTERS))).toEqual([
+      'portfolio',
+      'legacy-api',
+      'dotfiles',
+    ])
+  })
+
+  it('searches names, display names, descriptions and topics', () => {
+    const search = (term: string) =>
+      names(filterAndSortProjects(projects, { ...DEFAULT_PROJECT_FILTERS, search: term }))
+
+    expect(search('personal')).toEqual(['portfolio'])
+    expect(search(' REST ')).toEqual(['legacy-api'])
+    expect(search('vite')).toEqual(['portfolio'])
+    expect(search('nothing')).toEqual([])
+  })
+
+  it('filters by languages, topics, demo, case study and archived', () => {
+    const filter = (changes: Partial<typeof DEFAULT_PROJECT_FILTERS>) =>
+      names(filterAndSortProjects(projects, { ...DEFAULT_PROJECT_FILTERS, ...changes }))
+
+    expect(filter({ languages: ['CSS', 'Go'] })).toEqual(['portfolio', 'legacy-api'])
+    expect(filter({ topics: ['api'] })).toEqual(['legacy-api'])
+    expect(filter({ hasDemo: true })).toEqual(['portfolio'])
+    expect(filter({ hasCaseStudy: true })).toEqual(['portfolio'])
+    expect(filter({ archived: true })).toEqual(['legacy-api'])
+    expect(filter({ archived: true, hasDemo: true })).toEqual([])
+  })
+
+  it('sorts by stars, forks, last push and creation', () => {
+    const sort = (sortBy: typeof DEFAULT_PROJECT_FILTERS.sortBy) =>
+      names(filterAndSortProjects(projects, { ...DEFAULT_PROJECT_FILTERS, sortBy }))
+
+    expect(sort('stars')).toEqual(['legacy-api', 'portfolio', 'dotfiles'])
+    expect(sort('forks')).toEqual(['portfolio', 'dotfiles', 'legacy-api'])
+    expect(sort('pushed')).toEqual(['legacy-api', 'portfolio', 'dotfiles'])
+    expect(sort('created')).toEqual(['portfolio', 'dotfiles', 'legacy-api'])
+  })
+})
+
+describe('getAllLanguages and getAllTopics', () => {
+  it('lists every language and topic once, alphabetically', () => {
+    expect(getAllLanguages(projects)).toEqual(['CSS', 'Go', 'Shell', 'TypeScript'])
+    expect(getAllTopics(projects)).toEqual(['api', 'react', 'vite'])
+  })
+})
@@ -0,0 +1,87 @@
+import type { GitHubProject } from '../../../types'
+import type { ProjectWithCaseStudy } from '../../../types/projectCaseStudy'
+import type { ProjectFilterState } from '../types'
+
+// Languages measured by GitHub, or the main language when the breakdown is missing
+export function getProjectLanguages(project: GitHubProject): string[] {
+  const languages = Object.keys(project.languages ?? {})
+  if (languages.length > 0) return languages
+  return project.language ? [project.language] : []
+}
+
+function hasDemo(project: GitHubProject): boolean {
+  return Boolean(project.homepage && project.homepage.trim() !== '')
+}
+
+const time = (date: Date | string | undefined) => (date ? new Date(date).getTime() : 0)
+
+/**
+ * Filter and sort the projects grid. The `curated` sort keeps the order of the projects
+ * as given: pinned repositories first, then the newest.
+ */
+export function filterAndSortProjects(
+  projects: ProjectWithCaseStudy[],
+  filters: ProjectFilterState,
+): ProjectWithCaseStudy[] {
+  const searchTerm = filters.search.toLowerCase().trim()
+
+  const filteredProjects = projects.filter(({ project, hasCaseStudy }) => {
+    if (
+      searchTerm &&
+      ![
+        project.name,
+        project.display_name ?? '',
+        project.description ?? '',
+        ...project.topics,
+      ].some((text) => text.toLowerCase().includes(searchTerm))
+    ) {
+      return false
+    }
+    if (
+      filters.languages.length > 0 &&
+      !getProjectLanguages(project).some((language) => filters.languages.includes(language))
+    ) {
+      return false
+    }
+    if (
+      filters.topics.length > 0 &&
+      !project.topics.some((topic) => filters.topics.includes(topic))
+    ) {
+      return false
+    }
+    if (filters.hasDemo && !hasDemo(project)) return false
+    if (filters.hasCaseStudy && !hasCaseStudy) return false
+    if (filters.archived && !project.archived) return false
+    return true
+  })
+
+  // Array.prototype.sort is stable, so ties keep the curated order
+  return filteredProjects.sort(({ project: a }, { project: b }) => {
+    switch (filters.sortBy) {
+      case 'stars':
+        return b.stargazers_count - a.stargazers_count
+      case 'forks':
+        return b.forks_count - a.forks_count
+      case 'pushed':
+        return time(b.pushed_at ?? b.updated_at) - time(a.pushed_at ?? a.updated_at)
+      case 'created':
+        return time(b.created_at) - time(a.created_at)
+      default:
+        return 0
+    }
+  })
+}
+
+// Unique languages across all projects, sorted alphabetically
+export function getAllLanguages(projects: ProjectWithCaseStudy[]): string[] {
+  return [...new Set(projects.flatMap(({ project }) => getProjectLanguages(project)))].sort(
+    (a, b) => a.localeCompare(b),
+  )
+}
+
+// Unique topics across all projects, sorted alphabetically
+export function getAllTopics(projects: ProjectWithCaseStudy[]): string[] {
+  return [...new Set(projects.flatMap(({ project }) => project.topics))].sort((a, b) =>
+    a.localeCompare(b),
+  )
+}
@@ -1,18 +1,32 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-import { render, waitFor } from '@testing-library/react'
+import { render, screen, waitFor } from '@testing-library/react'
 import { MemoryRouter, Route, Routes } from 'react-router'
 
 import { useBlogPost } from '../../hooks/useBlog'
+import { useProjectCaseStudy } from '../../hooks/useProjectCaseStudies'
+import { useProjectWithCaseStudy } from '../../hooks/useProjectsWithCaseStudies'
 import i18n from '../../test/i18n-for-tests'
 import { renderWithProviders } from '../../test/utils'
 
+import About from '../About'
 import Home from '../Home'
 import { BlogPost } from '../Blog/components/BlogPost'
 import NotFoundPage from '../NotFound'
+import { ProjectDetail } from '../Projects/components/ProjectDetail'
 
 vi.mock('../../hooks/useBlog', () => ({
   useBlogPost: vi.fn(),
+  useBlogPosts: vi.fn(() => ({ data: undefined })),
+}))
+
+vi.mock('../../hooks/useProjectsWithCaseStudies', () => ({
+  useProjectWithCaseStudy: vi.fn(),
+}))
+
+vi.mock('../../hooks/useProjectCaseStudies', () => ({
+  useProjectCaseStudy: vi.fn(),
+  useProjectCaseStudies: vi.fn(() => ({ data: undefined })),
 }))
 
 vi.mock('@/context', () => ({
@@ -23,6 +37,8 @@ vi.mock('highlight.js/styles/github.css', () => ({}))
 vi.mock('highlight.js/styles/github-dark.css', () => ({}))
 
 const mockedUseBlogPost = vi.mocked(useBlogPost)
+const mockedUseProjectWithCaseStudy = vi.mocked(useProjectWithCaseStudy)
+const mockedUseProjectCaseStudy = vi.mocked(useProjectCaseStudy)
 
 function clearSeoTags() {
   document.head
@@ -32,6 +48,12 @@ function clearSeoTags() {
     })
 }
 
+function getJsonLd(type: string) {
+  return Array.from(document.querySelectorAll('script[type="application/ld+json"]'))
+    .map((script) => JSON.parse(script.textContent) as Record<string, unknown>)
+    .find((data) => data['@type'] === type)
+}
+
 function getSiteUrl() {
   return String(process.env.VITE_SITE_URL ?? 'https://example.com').replace(/\/+$/, '')
 }
@@ -76,10 +98,14 @@ describe('SEO metadata for localized routes', () => {
     },
   )
 
+  // Translated posts use a different slug in each locale
+  const translatedSlugs = { es: 'seguridad-aplicaciones-react', en: 'react-security-guide' }
+
   it.each(['es', 'en'] as const)(
     'renders canonical and alternates for detail blog route in %s',
     async (locale) => {
       await i18n.changeLanguage(locale)
+      const slug = translatedSlugs[locale]
       mockedUseBlogPost.mockReturnValue({
         data: {
           meta: {
@@ -89,11 +115,13 @@ describe('SEO metadata for localized routes', () => {
             author: 'Miguel',
             tags: ['react'],
             featured: false,
-            slug: 'my-post',
+            slug,
           },
           content: '# Test',
-          slug: 'my-post',
+          slug,
           readingTime: 2,
+          wordCount: 400,
+          codeBlockCount: 0,
         },
         isLoading: false,
         error: null,
@@ -101,7 +129,7 @@ describe('SEO metadata for localized routes', () => {
       })
 
       renderWithProviders(
-        <MemoryRouter initialEntries={[`/${locale}/blog/my-post`]}>
+        <MemoryRouter initialEntries={[`/${locale}/blog/${slug}`]}>
           <Routes>
             <Route path="/:lang/blog/:slug" element={<BlogPost />} />
           </Routes>
@@ -112,24 +140,190 @@ describe('SEO metadata for localized routes', () => {
 
       await waitFor(() => {
         expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
-          `${siteUrl}/${locale}/blog/my-post`,
+          `${siteUrl}/${locale}/blog/${slug}`,
         )
       })
 
       expect(
         document.head.querySelector('link[rel="alternate"][hrefLang="es"]')?.getAttribute('href'),
-      ).toBe(`${siteUrl}/es/blog/my-post`)
+      ).toBe(`${siteUrl}/es/blog/${translatedSlugs.es}`)
       expect(
         document.head.querySelector('link[rel="alternate"][hrefLang="en"]')?.getAttribute('href'),
-      ).toBe(`${siteUrl}/en/blog/my-post`)
+      ).toBe(`${siteUrl}/en/blog/${translatedSlugs.en}`)
       expect(
         document.head
           .querySelector('link[rel="alternate"][hrefLang="x-default"]')
           ?.getAttribute('href'),
-      ).toBe(`${siteUrl}/es/blog/my-post`)
+      ).toBe(`${siteUrl}/es/blog/${translatedSlugs.es}`)
+      expect(
+        document.head.querySelector('meta[property="og:image"]')?.getAttribute('content'),
+      ).toBe(`${siteUrl}/og/${locale}/blog/${slug}.png`)
     },
   )
 
+  it('omits alternates for locales where the post does not exist', async () => {
+    await i18n.changeLanguage('en')
+    mockedUseBlogPost.mockReturnValue({
+      data: {
+        meta: {
+          title: 'Only in English',
+          description: 'Test description',
+          date: '2026-03-27',
+          author: 'Miguel',
+          tags: [],
+          slug: 'only-in-english',
+        },
+        content: '# Test',
+        slug: 'only-in-english',
+        readingTime: 2,
+        wordCount: 400,
+        codeBlockCount: 0,
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    })
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/blog/only-in-english']}>
+        <Routes>
+          <Route path="/:lang/blog/:slug" element={<BlogPost />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    await waitFor(() => {
+      expect(
+        document.head.querySelector('link[rel="alternate"][hrefLang="en"]')?.getAttribute('href'),
+      ).toBe(`${getSiteUrl()}/en/blog/only-in-english`)
+    })
+    expect(document.head.querySelector('link[rel="alternate"][hrefLang="es"]')).toBeNull()
+    expect(document.head.querySelector('link[rel="alternate"][hrefLang="x-default"]')).toBeNull()
+  })
+
+  it('redirects legacy dated blog URLs to the canonical slug', async () => {
+    await i18n.changeLanguage('en')
+    mockedUseBlogPost.mockReturnValue({
+      data: {
+        meta: {
+          title: 'Test Post',
+          description: 'Test description',
+          date: '2026-03-27',
+          author: 'Miguel',
+          tags: [],
+          slug: 'my-post',
+        },
+        content: '# Test',
+        slug: 'my-post',
+        legacySlugs: ['2026-03-27-my-post'],
+        readingTime: 2,
+        wordCount: 400,
+        codeBlockCount: 0,
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    })
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/blog/2026-03-27-my-post']}>
+        <Routes>
+          <Route path="/:lang/blog/:slug" element={<BlogPost />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    await waitFor(() => {
+      expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe(
+        `${getSiteUrl()}/en/blog/my-post`,
+      )
+    })
+    expect(mockedUseBlogPost).toHaveBeenLastCalledWith('my-post')
+  })
+
+  it('marks unlisted posts as noindex', async () => {
+    await i18n.changeLanguage('en')
+    mockedUseBlogPost.mockReturnValue({
+      data: {
+        meta: {
+          title: 'Shared by link',
+          description: 'Test description',
+          date: '2026-03-27',
+          author: 'Miguel',
+          tags: [],
+          slug: 'shared-by-link',
+          unlisted: true,
+        },
+        content: '# Test',
+        slug: 'shared-by-link',
+        readingTime: 2,
+        wordCount: 400,
+        codeBlockCount: 0,
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    })
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/blog/shared-by-link']}>
+        <Routes>
+          <Route path="/:lang/blog/:slug" element={<BlogPost />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    await waitFor(() => {
+      expect(document.head.querySelector('meta[name="robots"]')?.getAttribute('content')).toBe(
+        'noindex',
+      )
+    })
+  })
+
+  it('shows the revision date and changelog of updated posts', async () => {
+    await i18n.changeLanguage('en')
+    mockedUseBlogPost.mockReturnValue({
+      data: {
+        meta: {
+          title: 'Revised post',
+          description: 'Test description',
+          date: '2026-03-27',
+          updated: '2026-05-02',
+          changelog: [{ date: '2026-05-02', description: 'Covered the new compiler options' }],
+          author: 'Miguel',
+          tags: [],
+          slug: 'revised-post',
+        },
+        content: '# Test',
+        slug: 'revised-post',
+        readingTime: 2,
+        wordCount: 400,
+        codeBlockCount: 0,
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    })
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/blog/revised-post']}>
+        <Routes>
+          <Route path="/:lang/blog/:slug" element={<BlogPost />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    await waitFor(() => {
+      expect(
+        document.head
+          .querySelector('meta[property="article:modified_time"]')
+          ?.getAttribute('content'),
+      ).toBe('2026-05-02')
+    })
+    expect(screen.getByText('View 1 change')).toBeInTheDocument()
+    expect(screen.getByText('Covered the new compiler options')).toBeInTheDocument()
+  })
+
   it('keeps 404 page as non-indexable without canonical or alternates', async () => {
     await i18n.changeLanguage('en')
 
@@ -145,4 +339,233 @@ describe('SEO metadata for localized routes', () => {
     expect(document.head.querySelector('link[rel="canonical"]')).toBeNull()
     expect(document.head.querySelectorAll('link[rel="alternate"]')).toHaveLength(0)
   })
+
+  it('renders no structured data on the 404 page', () => {
+    render(
+      <MemoryRouter>
+        <NotFoundPage />
+      </MemoryRouter>,
+    )
+
+    expect(document.querySelectorAll('script[type="application/ld+json"]')).toHaveLength(0)
+  })
+})
+
+describe('Structured data (JSON-LD)', () => {
+  const siteUrl = 'https://example.com'
+
+  beforeEach(async () => {
+    vi.stubEnv('VITE_SITE_URL', siteUrl)
+    vi.stubEnv('VITE_GITHUB_USERNAME', 'octocat')
+    vi.stubEnv('VITE_LINKEDIN_USERNAME', '')
+    mockedUseBlogPost.mockReset()
+    await i18n.changeLanguage('en')
+  })
+
+  it('describes the home page as a WebSite with a blog search action', () => {
+    renderWithProviders(
+      <MemoryRouter>
+        <Home />
+      </MemoryRouter>,
+    )
+
+    expect(getJsonLd('WebSite')).toMatchObject({
+      '@context': 'https://schema.org',
+      url: `${siteUrl}/en/`,
+      inLanguage: 'en',
+      author: { '@type': 'Person', sameAs: ['https://github.com/octocat'] },
+      potentialAction: {
+        '@type': 'SearchAction',
+        target: { urlTemplate: `${siteUrl}/en/blog?q={search_term_string}` },
+        'query-input': 'required name=search_term_string',
+      },
+    })
+    expect(getJsonLd('BreadcrumbList')).toMatchObject({
+      itemListElement: [{ position: 1, item: `${siteUrl}/en/` }],
+    })
+  })
+
+  it('describes the about page as a Person', () => {
+    renderWithProviders(
+      <MemoryRouter>
+        <About />
+      </MemoryRouter>,
+    )
+
+    expect(getJsonLd('Person')).toMatchObject({
+      name: 'Miguel Ángel de Dios',
+      jobTitle: 'Senior Frontend Developer',
+      url: `${siteUrl}/`,
+    })
+    expect(getJsonLd('BreadcrumbList')).toMatchObject({
+      itemListElement: [{ position: 1 }, { position: 2, item: `${siteUrl}/en/about` }],
+    })
+  })
+
+  it('describes a blog post as a BlogPosting with its breadcrumb trail', () => {
+    mockedUseBlogPost.mockReturnValue({
+      data: {
+        meta: {
+          title: 'Tips </script> & tricks',
+          description: 'Test description',
+          date: '2026-03-27',
+          author: 'Miguel Ángel de Dios',
+          tags: ['react', 'testing'],
+          slug: 'tips',
+        },
+        content: '# Test',
+        slug: 'tips',
+        readingTime: 4,
+        wordCount: 800,
+        codeBlockCount: 0,
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    })
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/blog/tips']}>
+        <Routes>
+          <Route path="/:lang/blog/:slug" element={<BlogPost />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    const script = document.querySelector('script[type="application/ld+json"]')
+    expect(script?.textContent).not.toContain('</script>')
+    expect(getJsonLd('BlogPosting')).toMatchObject({
+      headline: 'Tips </script> & tricks',
+      url: `${siteUrl}/en/blog/tips`,
+      image: `${siteUrl}/og/en/blog/tips.png`,
+      datePublished: '2026-03-27',
+      keywords: ['react', 'testing'],
+      timeRequired: 'PT4M',
+      author: { name: 'Miguel Ángel de Dios', sameAs: ['https://github.com/octocat'] },
+    })
+    expect(getJsonLd('BreadcrumbList')).toMatchObject({
+      itemListElement: [
+        { position: 1, item: `${siteUrl}/en/` },
+        { position: 2, item: `${siteUrl}/en/blog` },
+        { position: 3, name: 'Tips </script> & tricks', item: `${siteUrl}/en/blog/tips` },
+      ],
+    })
+  })
+
+  it('describes a case study as SoftwareSourceCode using the repository data', () => {
+    const caseStudy = {
+      meta: {
+        slug: 'demo',
+        title: 'Demo',
+        summary: 'A demo project',
+        published: '2025-12-31',
+        repoName: 'demo',
+      },
+      slug: 'demo',
+      readingTime: 3,
+    }
+    mockedUseProjectWithCaseStudy.mockReturnValue({
+      data: {
+        project: {
+          id: 1,
+          name: 'demo',
+          full_name: 'octocat/demo',
+          html_url: 'https://github.com/octocat/demo',
+          description: 'A demo project',
+          languages: { TypeScript: 1000, CSS: 200 },
+          created_at: '2025-01-01',
+          updated_at: '2025-12-31',
+          homepage: null,
+          stargazers_count: 42,
+          forks_count: 1,
+          topics: ['react'],
+        },
+        caseStudy,
+        hasCaseStudy: true,
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as unknown as ReturnType<typeof useProjectWithCaseStudy>)
+    mockedUseProjectCaseStudy.mockReturnValue({
+      data: { ...caseStudy, content: '# Demo' },
+      isLoading: false,
+      error: null,
+    } as unknown as ReturnType<typeof useProjectCaseStudy>)
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/projects/demo']}>
+        <Routes>
+          <Route path="/:lang/projects/:slug" element={<ProjectDetail />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    expect(getJsonLd('SoftwareSourceCode')).toMatchObject({
+      name: 'Demo',
+      url: `${siteUrl}/en/projects/demo`,
+      codeRepository: 'https://github.com/octocat/demo',
+      programmingLanguage: ['TypeScript', 'CSS'],
+      keywords: ['react'],
+      interactionStatistic: { userInteractionCount: 42 },
+    })
+    expect(getJsonLd('BreadcrumbList')).toMatchObject({
+      itemListElement: [{ position: 1 }, { position: 2 }, { position: 3, name: 'Demo' }],
+    })
+  })
+
+  it('describes a repository without a case study from the snapshot alone', () => {
+    const siteUrl = getSiteUrl()
+    mockedUseProjectWithCaseStudy.mockReturnValue({
+      data: {
+        project: {
+          id: 2,
+          name: 'plain-repo',
+          full_name: 'octocat/plain-repo',
+          html_url: 'https://github.com/octocat/plain-repo',
+          description: 'Just a repository',
+          languages: { Go: 500 },
+          created_at: '2024-02-01T00:00:00Z',
+          updated_at: '2025-03-01T00:00:00Z',
+          pushed_at: '2025-02-15T00:00:00Z',
+          homepage: null,
+          stargazers_count: 7,
+          forks_count: 0,
+          topics: [],
+        },
+        caseStudy: null,
+        hasCaseStudy: false,
+      },
+      isLoading: false,
+      error: null,
+      refetch: vi.fn(),
+    } as unknown as ReturnType<typeof useProjectWithCaseStudy>)
+    mockedUseProjectCaseStudy.mockReturnValue({
+      data: null,
+      isLoading: false,
+      error: null,
+    } as unknown as ReturnType<typeof useProjectCaseStudy>)
+
+    renderWithProviders(
+      <MemoryRouter initialEntries={['/en/projects/plain-repo']}>
+        <Routes>
+          <Route path="/:lang/projects/:slug" element={<ProjectDetail />} />
+        </Routes>
+      </MemoryRouter>,
+    )
+
+    expect(getJsonLd('SoftwareSourceCode')).toMatchObject({
+      name: 'plain-repo',
+      description: 'Just a repository',
+      url: `${siteUrl}/en/projects/plain-repo`,
+      dateCreated: '2024-02-01T00:00:00.000Z',
+      dateModified: '2025-02-15T00:00:00.000Z',
+      codeRepository: 'https://github.com/octocat/plain-repo',
+      programmingLanguage: ['Go'],
+    })
+    expect(document.querySelector('link[rel="canonical"]')).toHaveAttribute(
+      'href',
+      `${siteUrl}/en/projects/plain-repo`,
+    )
+  })
 })
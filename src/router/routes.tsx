@@ -15,9 +15,13 @@ const BlogPost = lazy(async () => {
   const module = await import('../pages/Blog/components/BlogPost')
   return { default: module.BlogPost }
 })
-const ProjectCaseStudy = lazy(async () => {
-  const module = await import('../pages/Projects/components/ProjectCaseStudy')
-  return { default: module.ProjectCaseStudy }
+const BlogArchive = lazy(async () => {
+  const module = await import('../pages/Blog/components/BlogArchive')
+  return { default: module.BlogArchive }
+})
+const ProjectDetail = lazy(async () => {
+  const module = await import('../pages/Projects/components/ProjectDetail')
+  return { default: module.ProjectDetail }
 })
 
 // Loading fallback component
@@ -67,10 +71,14 @@ export function AppRoutes() {
             <Route index element={<Home />} />
             <Route path="about" element={<About />} />
             <Route path="projects" element={<Projects />} />
-            <Route path="projects/:slug" element={<ProjectCaseStudy />} />
+            <Route path="projects/:slug" element={<ProjectDetail />} />
             <Route path="contact" element={<Contact />} />
             <Route path="blog" element={<Blog />} />
             <Route path="blog/:slug" element={<BlogPost />} />
+            <Route path="blog/tag/:slug" element={<BlogArchive kind="tag" />} />
+            <Route path="blog/tag/:slug/page/:page" element={<BlogArchive kind="tag" />} />
+            <Route path="blog/series/:slug" element={<BlogArchive kind="series" />} />
+            <Route path="blog/series/:slug/page/:page" element={<BlogArchive kind="series" />} />
             <Route path="*" element={<NotFoundPage />} />
           </Route>
         </Routes>
@@ -0,0 +1,24 @@
+import type { BlogPostMeta, BlogPostSummary } from '@/types/blog'
+
+/**
+ * Blog post summary with placeholder values, for tests that only care about a few
+ * fields. The slug doubles as the title unless one is given.
+ */
+export const makePost = (
+  meta: Partial<BlogPostMeta> & Pick<BlogPostMeta, 'slug'>,
+  overrides: Partial<Omit<BlogPostSummary, 'slug' | 'meta'>> = {},
+): BlogPostSummary => ({
+  slug: meta.slug,
+  readingTime: 3,
+  wordCount: 600,
+  codeBlockCount: 0,
+  ...overrides,
+  meta: {
+    title: meta.slug,
+    description: '',
+    date: '2026-01-01',
+    author: 'Jane',
+    tags: [],
+    ...meta,
+  },
+})
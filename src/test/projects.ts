@@ -0,0 +1,21 @@
+import type { GitHubProject } from '@/types'
+
+/**
+ * Repository from the projects snapshot with placeholder values, for tests that only care
+ * about a few fields
+ */
+export const makeProject = (
+  overrides: Partial<GitHubProject> & Pick<GitHubProject, 'name'>,
+): GitHubProject => ({
+  id: overrides.name.length,
+  full_name: `octocat/${overrides.name}`,
+  html_url: `https://github.com/octocat/${overrides.name}`,
+  description: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  homepage: null,
+  stargazers_count: 0,
+  forks_count: 0,
+  topics: [],
+  ...overrides,
+})
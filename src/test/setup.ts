@@ -38,6 +38,17 @@ Object.defineProperty(globalThis, 'IntersectionObserver', {
   value: MockIntersectionObserver,
 })
 
+// Mock ResizeObserver for Headless UI comboboxes in jsdom
+class MockResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+Object.defineProperty(globalThis, 'ResizeObserver', {
+  writable: true,
+  value: MockResizeObserver,
+})
+
 // Store original console.error
 const originalError = console.error
 
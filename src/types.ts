@@ -5,6 +5,34 @@ export interface ProjectOwner {
   [key: string]: unknown
 }
 
+export interface ProjectLicense {
+  /** SPDX identifier such as MIT; NOASSERTION when GitHub does not recognise the license */
+  spdx_id: string
+  name: string
+}
+
+export interface ProjectRelease {
+  name: string
+  tag_name: string
+  published_at: string
+  html_url: string
+  prerelease: boolean
+}
+
+export interface ProjectCommitActivity {
+  /** First day of the first week, as YYYY-MM-DD */
+  start: string
+  /** Commits per week over the last year, oldest first */
+  weekly: number[]
+}
+
+export interface ProjectContributor {
+  login: string
+  avatar_url: string
+  html_url: string
+  contributions: number
+}
+
 export interface GitHubProject {
   id: number
   name: string
@@ -27,10 +55,29 @@ export interface GitHubProject {
   topics: string[]
   visibility?: string
   default_branch?: string
+  // Added in snapshot version 2
+  license?: ProjectLicense | null
+  /** Latest releases, newest first */
+  releases?: ProjectRelease[]
+  commit_activity?: ProjectCommitActivity | null
+  /** Open issues, not counting pull requests */
+  open_issues_count?: number
+  open_pull_requests_count?: number
+  /** Top contributors by number of commits */
+  contributors?: ProjectContributor[]
+  // Set by the project curation (src/content/projects/curation.yaml), not stored in the snapshot
+  /** Name shown instead of the repository name */
+  display_name?: string
+  /** Site path or URL of the card cover image */
+  cover_image?: string
+  /** Listed ahead of the other repositories */
+  pinned?: boolean
   [key: string]: unknown
 }
 
 export interface ProjectsSnapshot {
+  /** Format version; snapshots written before versioning count as version 1 */
+  version?: number
   generatedAt: string
   source: 'generated' | 'fallback'
   projects: GitHubProject[]
@@ -40,6 +87,7 @@ export interface ProjectsSnapshot {
 export type {
   ProjectCaseStudy,
   ProjectCaseStudyMeta,
+  ProjectCaseStudySummary,
   ProjectWithCaseStudy,
   CaseStudyLanguage,
   ProjectCaseStudiesSnapshot,
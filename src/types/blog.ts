@@ -1,18 +1,52 @@
+/**
+ * One entry in a post's revision history
+ */
+export interface BlogPostChange {
+  date: string
+  /** What changed, in a short sentence */
+  description: string
+}
+
 export interface BlogPostMeta {
   title: string
   description: string
   date: string
+  /** Date of the last significant revision */
+  updated?: string
+  /** Revision history, newest first */
+  changelog?: BlogPostChange[]
   tags: string[]
   author: string
   slug: string
   featured?: boolean
+  /** Name of the multi-part series this post belongs to */
+  series?: string
+  /** 1-based position within the series */
+  seriesOrder?: number
+  /** Only built by the dev server */
+  draft?: boolean
+  /** Reachable by URL but left out of listings, feeds, search and the sitemap */
+  unlisted?: boolean
 }
 
-export interface BlogPost {
+export interface BlogPostSummary {
   meta: BlogPostMeta
-  content: string
+  /** Canonical URL slug, taken from the frontmatter */
   slug: string
+  /** Previous URL slugs (dated file names) that redirect to the canonical one */
+  legacySlugs?: string[]
+  /** Key linking this post to its translations (defaults to the undated file name) */
+  translationKey?: string
+  /** Estimated reading time in minutes */
   readingTime: number
+  /** Words of prose, excluding code and markup */
+  wordCount: number
+  /** Fenced code blocks in the body */
+  codeBlockCount: number
+}
+
+export interface BlogPost extends BlogPostSummary {
+  content: string
 }
 
 export type BlogLanguage = 'es' | 'en'
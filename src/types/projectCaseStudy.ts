@@ -2,7 +2,7 @@
  * Project case study types - editorial content layer for selected projects
  */
 
-import type { GitHubProject } from '@/types'
+import type { GitHubProject } from '../types'
 
 export interface ProjectCaseStudyMeta {
   /** Unique identifier for the case study, matching project slug */
@@ -25,19 +25,29 @@ export interface ProjectCaseStudyMeta {
   repoName: string
   /** Slugs of related blog posts */
   relatedPosts?: string[]
+  /** Key shared with the translations of this case study in other locales */
+  translationKey?: string
 }
 
-export interface ProjectCaseStudy {
+/**
+ * Case study entry as listed in the content manifest, without its markdown body
+ */
+export interface ProjectCaseStudySummary {
   /** Case study metadata from frontmatter */
   meta: ProjectCaseStudyMeta
-  /** Markdown body content */
-  content: string
   /** Slug for URL routing */
   slug: string
+  /** Key linking this case study to its translations (defaults to the file name) */
+  translationKey?: string
   /** Estimated reading time in minutes */
   readingTime: number
 }
 
+export interface ProjectCaseStudy extends ProjectCaseStudySummary {
+  /** Markdown body content */
+  content: string
+}
+
 /**
  * Merged view combining snapshot project data with case study content
  */
@@ -45,7 +55,7 @@ export interface ProjectWithCaseStudy {
   /** GitHub project snapshot data */
   project: GitHubProject
   /** Associated case study, if present */
-  caseStudy: ProjectCaseStudy | null
+  caseStudy: ProjectCaseStudySummary | null
   /** Whether this project has editorial content */
   hasCaseStudy: boolean
 }
@@ -0,0 +1,30 @@
+/**
+ * Project curation types - editorial control over the repositories in the projects snapshot
+ */
+
+import type { CaseStudyLanguage } from './projectCaseStudy'
+
+/** Text per locale; locales without a value keep the text from GitHub */
+export type LocalizedText = Partial<Record<CaseStudyLanguage, string>>
+
+export interface ProjectOverride {
+  /** Name shown instead of the repository name */
+  name?: LocalizedText
+  /** Description shown instead of the one on GitHub */
+  description?: LocalizedText
+  /** Demo URL shown instead of the repository homepage */
+  homepage?: string
+  /** Site path (under `public/`) or URL of the card cover image */
+  cover?: string
+}
+
+export interface ProjectCuration {
+  /** Format version of the curation file */
+  version: number
+  /** Repositories left out of the snapshot and the site, by name or numeric id */
+  hidden: (number | string)[]
+  /** Repository names listed first, in this order */
+  pinned: string[]
+  /** Display overrides keyed by repository name */
+  overrides: Record<string, ProjectOverride>
+}
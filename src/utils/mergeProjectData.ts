@@ -2,15 +2,15 @@
  * Utilities for merging snapshot projects with localized case-study content
  */
 
-import type { GitHubProject, ProjectCaseStudy, ProjectWithCaseStudy } from '@/types'
+import type { GitHubProject, ProjectCaseStudySummary, ProjectWithCaseStudy } from '@/types'
 
 /**
  * Match a project with its case study based on repository name
  */
 function matchProjectToCaseStudy(
   project: GitHubProject,
-  caseStudyMap: Map<string, ProjectCaseStudy>,
-): ProjectCaseStudy | null {
+  caseStudyMap: Map<string, ProjectCaseStudySummary>,
+): ProjectCaseStudySummary | null {
   // Try to find a case study that matches this project's repo name
   // Case studies use repoName in their metadata for matching
   const caseStudy = caseStudyMap.get(project.name)
@@ -20,8 +20,10 @@ function matchProjectToCaseStudy(
 /**
  * Create a map of case studies indexed by repository name for fast lookup
  */
-function createCaseStudyMap(caseStudies: ProjectCaseStudy[]): Map<string, ProjectCaseStudy> {
-  const map = new Map<string, ProjectCaseStudy>()
+function createCaseStudyMap(
+  caseStudies: ProjectCaseStudySummary[],
+): Map<string, ProjectCaseStudySummary> {
+  const map = new Map<string, ProjectCaseStudySummary>()
 
   for (const caseStudy of caseStudies) {
     // Index by repoName (the repository identifier for matching)
@@ -40,7 +42,7 @@ function createCaseStudyMap(caseStudies: ProjectCaseStudy[]): Map<string, Projec
  */
 export function mergeProjectsWithCaseStudies(
   projects: GitHubProject[],
-  caseStudies: ProjectCaseStudy[],
+  caseStudies: ProjectCaseStudySummary[],
 ): ProjectWithCaseStudy[] {
   const caseStudyMap = createCaseStudyMap(caseStudies)
 
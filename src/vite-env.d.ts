@@ -12,3 +12,44 @@ interface ImportMetaEnv {
 interface ImportMeta {
   readonly env: ImportMetaEnv
 }
+
+// Per-locale content manifests emitted by scripts/vite-plugins/content-manifest.ts
+declare module 'virtual:content/blog/*' {
+  import type { BlogPostSummary } from '@/types/blog'
+
+  export const entries: BlogPostSummary[]
+  export function loadBody(slug: string): Promise<string | null>
+}
+
+declare module 'virtual:content/projects/*' {
+  import type { ProjectCaseStudySummary } from '@/types/projectCaseStudy'
+
+  export const entries: ProjectCaseStudySummary[]
+  export function loadBody(slug: string): Promise<string | null>
+}
+
+declare module 'virtual:content/translations' {
+  import type { TranslationGroups } from '@/lib/content/translations'
+
+  export const translations: TranslationGroups
+}
+
+declare module 'virtual:content/curation' {
+  import type { ProjectCuration } from '@/types/projectCuration'
+
+  export const curation: ProjectCuration
+}
+
+declare module 'virtual:content/repositories' {
+  import type { ContentLanguage } from '@/lib/content/manifest'
+
+  export const repositoryNames: string[]
+  /** Repository of every case study, by locale and case study slug */
+  export const caseStudyRepositories: Record<ContentLanguage, Record<string, string>>
+}
+
+declare module 'virtual:content/search/*' {
+  import type { SearchIndex } from '@/lib/content/search'
+
+  export const index: SearchIndex
+}
@@ -1,5 +1,5 @@
-import { readdirSync } from 'node:fs'
-import path, { join } from 'node:path'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
 
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
@@ -8,23 +8,53 @@ import { defineConfig } from 'vite'
 import sitemap from 'vite-plugin-sitemap'
 import { configDefaults } from 'vitest/config'
 
-// Generate all routes for the sitemap (static + dynamic blog routes)
-function getSitemapRoutes(): string[] {
-  const langs = ['es', 'en']
-  const staticRoutes = langs.flatMap((lang) => [
-    `/${lang}/`,
-    `/${lang}/about`,
-    `/${lang}/projects`,
-    `/${lang}/contact`,
-    `/${lang}/blog`,
-  ])
-  const blogRoutes = langs.flatMap((lang) => {
-    const dir = join(__dirname, `src/content/blog/${lang}`)
-    return readdirSync(dir)
-      .filter((f) => f.endsWith('.md'))
-      .map((f) => `/${lang}/blog/${f.replace(/^\d{4}-\d{2}-\d{2}-/, '').replace('.md', '')}`)
+import { contentFeeds } from './scripts/vite-plugins/content-feeds'
+import {
+  contentManifest,
+  readContentSources,
+  readCuration,
+} from './scripts/vite-plugins/content-manifest'
+import { ogImages } from './scripts/vite-plugins/og-images'
+import { isProjectHidden } from './src/lib/content/curation'
+import { buildBlogManifest, buildCaseStudyManifest } from './src/lib/content/manifest'
+import {
+  getSitemapLastModified,
+  getSitemapRoutes,
+  type RouteContent,
+} from './src/lib/content/routes'
+
+const SITE_URL = process.env.VITE_SITE_URL ?? 'https://migueldedioscalles.com'
+
+// Content behind the sitemap routes (static pages, blog posts, case studies and curated projects)
+function getRouteContent(): RouteContent {
+  const snapshot = JSON.parse(
+    readFileSync(path.join(__dirname, 'src/data/projects-snapshot.json'), 'utf8'),
+  ) as { projects: { id: number; name: string }[] }
+  const curation = readCuration(__dirname)
+
+  return {
+    getBlogEntries: (lang) =>
+      buildBlogManifest(readContentSources(__dirname, 'blog', lang)).map(({ entry }) => entry),
+    getCaseStudyEntries: (lang) =>
+      buildCaseStudyManifest(readContentSources(__dirname, 'projects', lang)).map(
+        ({ entry }) => entry,
+      ),
+    projectNames: snapshot.projects
+      .filter((project) => !isProjectHidden(project, curation))
+      .map((project) => project.name),
+  }
+}
+
+// Sitemap of every listed page, dated by the last revision of each blog post
+function contentSitemap() {
+  const content = getRouteContent()
+
+  return sitemap({
+    hostname: SITE_URL,
+    dynamicRoutes: getSitemapRoutes(content),
+    lastmod: getSitemapLastModified(content),
+    outDir: 'dist',
   })
-  return [...staticRoutes, ...blogRoutes]
 }
 
 // Plugin to replace Umami analytics placeholder in index.html with env variable
@@ -38,11 +68,15 @@ function htmlEnvPlugin() {
 }
 
 // https://vite.dev/config/
-export default defineConfig(() => ({
+export default defineConfig(({ isSsrBuild = false }) => ({
   plugins: [
     react(),
     tailwindcss(),
     htmlEnvPlugin(),
+    contentManifest(),
+    // The SSR bundle only feeds scripts/prerender.mjs; site files come from the client build
+    !isSsrBuild && contentFeeds({ siteUrl: SITE_URL, author: 'Miguel Ángel de Dios' }),
+    !isSsrBuild && ogImages({ mark: '<MADC/>', name: 'Miguel Ángel de Dios', siteUrl: SITE_URL }),
     process.env.ANALYZE === 'true' &&
       visualizer({
         filename: 'reports/stats.html',
@@ -50,11 +84,7 @@ export default defineConfig(() => ({
         brotliSize: true,
         gzipSize: true,
       }),
-    sitemap({
-      hostname: process.env.VITE_SITE_URL ?? 'https://migueldedioscalles.com',
-      dynamicRoutes: getSitemapRoutes(),
-      outDir: 'dist',
-    }),
+    !isSsrBuild && contentSitemap(),
   ].filter(Boolean),
   resolve: {
     alias: {
@@ -62,6 +92,7 @@ export default defineConfig(() => ({
     },
   },
   build: {
+    copyPublicDir: !isSsrBuild,
     rolldownOptions: {
       output: {
         codeSplitting: {
@@ -91,7 +122,7 @@ export default defineConfig(() => ({
             // Markdown rendering — large, rarely changes
             {
               name: 'markdown-vendor',
-              test: /node_modules[\\/](react-markdown|rehype|remark|highlight\.js)[\\/]/,
+              test: /node_modules[\\/](react-markdown|rehype|remark|highlight\.js|katex)[\\/]/,
               priority: 5,
             },
           ],